@@ -20,6 +20,7 @@ import StateDetail from "./pages/StateDetail";
 import Saved from "./pages/Saved";
 import Settings from "./pages/Settings";
 import TripPlanner from "./pages/TripPlanner";
+import MyTrips from "./pages/MyTrips";
 import RoutePlanner from "./pages/RoutePlanner";
 import Admin from "./pages/Admin";
 import GuideRegistration from "./pages/GuideRegistration";
@@ -31,6 +32,8 @@ import TourGuideRegistration from "./pages/TourGuideRegistration";
 import HotelPartnerRegistration from "./pages/HotelPartnerRegistration";
 import GuideDirectory from "./pages/GuideDirectory";
 import GuideDetail from "./pages/GuideDetail";
+import ProviderBookings from "./pages/ProviderBookings";
+import GuideAvailability from "./pages/GuideAvailability";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -70,9 +73,12 @@ const App = () => {
                   <Route path="/hotels/:hotelId" element={<HotelDetail />} />
                   <Route path="/guides" element={<GuideDirectory />} />
                   <Route path="/guides/:guideId" element={<GuideDetail />} />
+                  <Route path="/provider/bookings" element={<ProviderBookings />} />
+                  <Route path="/provider/availability" element={<GuideAvailability />} />
                   <Route path="/saved" element={<Saved />} />
                   <Route path="/settings" element={<Settings />} />
                   <Route path="/trip-planner" element={<TripPlanner />} />
+                  <Route path="/trips" element={<MyTrips />} />
                   <Route path="/route-planner" element={<RoutePlanner />} />
                   <Route path="/admin" element={<Admin />} />
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -0,0 +1,29 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { BOOKING_STATUS_LABELS, type BookingStatus } from '@/services/booking.service';
+
+interface BookingStatusBadgeProps {
+  status: BookingStatus | string | null;
+  className?: string;
+}
+
+const STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  checked_in: 'bg-indigo-100 text-indigo-800',
+  in_progress: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled_by_guest: 'bg-gray-100 text-gray-800',
+  cancelled_by_provider: 'bg-red-100 text-red-800',
+  no_show: 'bg-orange-100 text-orange-800'
+};
+
+export default function BookingStatusBadge({ status, className }: BookingStatusBadgeProps) {
+  const bookingStatus = (status || 'pending') as BookingStatus;
+
+  return (
+    <Badge className={cn(STATUS_COLORS[bookingStatus] || 'bg-gray-100 text-gray-800', className)}>
+      {BOOKING_STATUS_LABELS[bookingStatus] || bookingStatus}
+    </Badge>
+  );
+}
@@ -22,7 +22,7 @@ import {
   Building,
   Wifi
 } from 'lucide-react';
-import { SearchFilters, SortOption } from '@/services/search.service';
+import { SearchFilters, SortOption, FacetCounts } from '@/services/search.service';
 
 export interface FilterPanelProps {
   filters: SearchFilters;
@@ -33,6 +33,7 @@ export interface FilterPanelProps {
   directoryType: 'guides' | 'hotels';
   isOpen?: boolean;
   onToggle?: () => void;
+  facetCounts?: FacetCounts;
 }
 
 export default function FilterPanel({
@@ -43,7 +44,8 @@ export default function FilterPanel({
   onSortChange,
   directoryType,
   isOpen = false,
-  onToggle
+  onToggle,
+  facetCounts
 }: FilterPanelProps) {
   const [localFilters, setLocalFilters] = useState<SearchFilters>(filters);
 
@@ -70,6 +72,23 @@ export default function FilterPanel({
     'City Tours', 'Monument Tours', 'Nature Tours', 'Heritage Walks'
   ];
 
+  // Results an option would give, unknown until counts have loaded
+  const getFacetCount = (key: keyof SearchFilters, option: string): number | undefined => {
+    const counts = facetCounts?.[key];
+    return counts ? counts[option] ?? 0 : undefined;
+  };
+
+  // Select option with its result count, disabled when it would give no results
+  const renderOption = (key: keyof SearchFilters, option: string, label: string = option) => {
+    const count = getFacetCount(key, option);
+    return (
+      <SelectItem key={option} value={option} disabled={count === 0}>
+        {label}
+        {count !== undefined && <span className="ml-1 text-muted-foreground">({count})</span>}
+      </SelectItem>
+    );
+  };
+
   // Handle filter updates
   const updateFilter = (key: keyof SearchFilters, value: any) => {
     const updatedFilters = { ...localFilters, [key]: value };
@@ -196,10 +215,10 @@ export default function FilterPanel({
                     <SelectValue placeholder="Any rating" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="4.5">4.5+ Stars</SelectItem>
-                    <SelectItem value="4">4+ Stars</SelectItem>
-                    <SelectItem value="3.5">3.5+ Stars</SelectItem>
-                    <SelectItem value="3">3+ Stars</SelectItem>
+                    {renderOption('minRating', '4.5', '4.5+ Stars')}
+                    {renderOption('minRating', '4', '4+ Stars')}
+                    {renderOption('minRating', '3.5', '3.5+ Stars')}
+                    {renderOption('minRating', '3', '3+ Stars')}
                   </SelectContent>
                 </Select>
               </div>
@@ -215,8 +234,8 @@ export default function FilterPanel({
                     <SelectValue placeholder="Any status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="true">Verified Only</SelectItem>
-                    <SelectItem value="false">Unverified Only</SelectItem>
+                    {renderOption('isVerified', 'true', 'Verified Only')}
+                    {renderOption('isVerified', 'false', 'Unverified Only')}
                   </SelectContent>
                 </Select>
               </div>
@@ -239,9 +258,7 @@ export default function FilterPanel({
                         <SelectValue placeholder="Select languages" />
                       </SelectTrigger>
                       <SelectContent>
-                        {commonLanguages.map(lang => (
-                          <SelectItem key={lang} value={lang}>{lang}</SelectItem>
-                        ))}
+                        {commonLanguages.map(lang => renderOption('languages', lang))}
                       </SelectContent>
                     </Select>
                     {localFilters.languages && localFilters.languages.length > 0 && (
@@ -269,9 +286,7 @@ export default function FilterPanel({
                         <SelectValue placeholder="Select specialties" />
                       </SelectTrigger>
                       <SelectContent>
-                        {guideSpecialties.map(specialty => (
-                          <SelectItem key={specialty} value={specialty}>{specialty}</SelectItem>
-                        ))}
+                        {guideSpecialties.map(specialty => renderOption('specialties', specialty))}
                       </SelectContent>
                     </Select>
                     {localFilters.specialties && localFilters.specialties.length > 0 && (
@@ -338,9 +353,7 @@ export default function FilterPanel({
                         <SelectValue placeholder="Select hotel types" />
                       </SelectTrigger>
                       <SelectContent>
-                        {commonHotelTypes.map(type => (
-                          <SelectItem key={type} value={type}>{type}</SelectItem>
-                        ))}
+                        {commonHotelTypes.map(type => renderOption('hotelTypes', type))}
                       </SelectContent>
                     </Select>
                     {localFilters.hotelTypes && localFilters.hotelTypes.length > 0 && (
@@ -371,9 +384,7 @@ export default function FilterPanel({
                         <SelectValue placeholder="Select amenities" />
                       </SelectTrigger>
                       <SelectContent>
-                        {commonAmenities.map(amenity => (
-                          <SelectItem key={amenity} value={amenity}>{amenity}</SelectItem>
-                        ))}
+                        {commonAmenities.map(amenity => renderOption('amenities', amenity))}
                       </SelectContent>
                     </Select>
                     {localFilters.amenities && localFilters.amenities.length > 0 && (
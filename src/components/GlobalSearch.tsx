@@ -0,0 +1,169 @@
+/**
+ * GlobalSearch Component
+ * Command palette that searches states, attractions, cuisines, festivals, hotels and guides
+ */
+
+import { useState, useEffect, Fragment } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { Map as MapIcon, Landmark, UtensilsCrossed, PartyPopper, Bed, User, Loader2, TrendingUp } from 'lucide-react';
+import {
+  searchEngine,
+  getSearchSeason,
+  type GlobalSearchGroup,
+  type GlobalSearchHit,
+  type SearchEntityType
+} from '@/services/search.service';
+import { useSearchTracking } from '@/hooks/useSearchTracking';
+
+const GROUP_ICONS: Record<SearchEntityType, typeof MapIcon> = {
+  state: MapIcon,
+  attraction: Landmark,
+  cuisine: UtensilsCrossed,
+  festival: PartyPopper,
+  hotel: Bed,
+  guide: User
+};
+
+interface GlobalSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function GlobalSearch({ open, onOpenChange }: GlobalSearchProps) {
+  const navigate = useNavigate();
+  const [text, setText] = useState('');
+  const [groups, setGroups] = useState<GlobalSearchGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [popularSearches, setPopularSearches] = useState<string[]>([]);
+  const { trackSearch, trackClick } = useSearchTracking('global');
+
+  // Ctrl+K / Cmd+K opens the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Suggest what others search for at this time of year
+  useEffect(() => {
+    if (!open || popularSearches.length > 0) return;
+
+    searchEngine.getPopularSearches({ season: getSearchSeason(), limit: 6 }).then(result => {
+      if (result.success && result.data) {
+        setPopularSearches(result.data);
+      }
+    });
+  }, [open, popularSearches.length]);
+
+  useEffect(() => {
+    if (text.trim().length < 2) {
+      setGroups([]);
+      setLoading(false);
+      return;
+    }
+
+    // Wait for the user to stop typing before querying
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const result = await searchEngine.globalSearch(text);
+      setGroups(result.success && result.data ? result.data : []);
+      setLoading(false);
+      if (result.success) {
+        trackSearch({ text, resultCount: result.totalCount ?? 0 });
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [text, trackSearch]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setText('');
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleSelect = (hit: GlobalSearchHit) => {
+    trackClick(hit.type, hit.id);
+    handleOpenChange(false);
+    navigate(hit.url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        {/* Results are already matched and ranked by the server, so cmdk's own filtering is off */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5"
+        >
+          <CommandInput
+            value={text}
+            onValueChange={setText}
+            placeholder="Search states, places, food, festivals, hotels and guides..."
+          />
+          <CommandList>
+            {loading && (
+              <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Searching...
+              </div>
+            )}
+            {text.trim().length < 2 && popularSearches.length > 0 && (
+              <CommandGroup heading="Popular right now">
+                {popularSearches.map(search => (
+                  <CommandItem key={search} value={`popular-${search}`} onSelect={() => setText(search)}>
+                    <TrendingUp className="mr-2 text-muted-foreground" />
+                    {search}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {!loading && text.trim().length >= 2 && (
+              <CommandEmpty>No results for "{text.trim()}"</CommandEmpty>
+            )}
+            {!loading && groups.map((group, index) => {
+              const Icon = GROUP_ICONS[group.type];
+              return (
+                <Fragment key={group.type}>
+                  {index > 0 && <CommandSeparator />}
+                  <CommandGroup heading={group.label}>
+                    {group.hits.map(hit => (
+                      <CommandItem
+                        key={`${hit.type}-${hit.id}`}
+                        value={`${hit.type}-${hit.id}`}
+                        onSelect={() => handleSelect(hit)}
+                      >
+                        <Icon className="mr-2 text-muted-foreground" />
+                        <span className="font-medium">{hit.title}</span>
+                        {hit.subtitle && (
+                          <span className="ml-2 truncate text-muted-foreground">{hit.subtitle}</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </Fragment>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
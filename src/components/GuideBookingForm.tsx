@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Calendar, Clock, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { useAuth } from '@/lib/auth';
+import { toast } from 'sonner';
+import { emailService } from '@/lib/emailService';
+import {
+  bookingService,
+  getTourDate,
+  GUIDE_DURATION_OPTIONS,
+  type GuideBooking
+} from '@/services/booking.service';
+import { availabilityService, type GuideSlot } from '@/services/availability.service';
+
+interface GuideBookingFormProps {
+  guideId: string;
+  guideName: string;
+  guideEmail?: string | null;
+  hourlyRate: number | null;
+  defaultLocation?: string;
+  onBooked: (booking: GuideBooking) => void;
+  onCancel?: () => void;
+}
+
+export default function GuideBookingForm({
+  guideId,
+  guideName,
+  guideEmail,
+  hourlyRate,
+  defaultLocation,
+  onBooked,
+  onCancel
+}: GuideBookingFormProps) {
+  const { user } = useAuth();
+
+  // Tours are booked in Indian time, so "today" is today's date in India
+  const [date, setDate] = useState(() => getTourDate(new Date(), 1));
+  const [timeSlot, setTimeSlot] = useState('');
+  const [freeSlots, setFreeSlots] = useState<GuideSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [durationHours, setDurationHours] = useState(GUIDE_DURATION_OPTIONS[0]);
+  const [location, setLocation] = useState(defaultLocation || '');
+  const [specialRequests, setSpecialRequests] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const totalCost = bookingService.calculateGuideBookingCost(hourlyRate, durationHours);
+
+  const loadFreeSlots = useCallback(async () => {
+    setLoadingSlots(true);
+    const result = await availabilityService.getFreeSlots(guideId, date, durationHours);
+    setLoadingSlots(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to load available times');
+      setFreeSlots([]);
+      setTimeSlot('');
+      return;
+    }
+
+    const slots = result.data;
+    setFreeSlots(slots);
+    setTimeSlot(current => slots.some(slot => slot.time === current) ? current : slots[0]?.time || '');
+  }, [guideId, date, durationHours]);
+
+  useEffect(() => {
+    if (date) {
+      loadFreeSlots();
+    }
+  }, [date, loadFreeSlots]);
+
+  const handleSlotChange = (time: string) => {
+    setTimeSlot(time);
+
+    // Guides covering several cities say where they are on each day
+    const slotCity = freeSlots.find(slot => slot.time === time)?.city;
+    if (slotCity && (!location || location === defaultLocation)) {
+      setLocation(slotCity);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      toast.error('Please sign in to book this guide');
+      return;
+    }
+
+    if (!date) {
+      toast.error('Please select a date for your tour');
+      return;
+    }
+
+    if (!timeSlot) {
+      toast.error('Please pick an available start time');
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await bookingService.createGuideBooking({
+      guideId,
+      userId: user.id,
+      date,
+      timeSlot,
+      durationHours,
+      location,
+      specialRequests
+    });
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to create booking');
+      return;
+    }
+
+    // The booking is only a request until the guide accepts it, which sends the confirmation
+    const reference = result.data.booking_reference || '';
+    const bookedTotal = result.data.total_cost || totalCost;
+    const tourDates = `${date} at ${timeSlot} for ${durationHours} hours`;
+    try {
+      await emailService.sendBookingRequestReceived(
+        user.email,
+        user.user_metadata?.full_name || user.email,
+        guideName,
+        reference,
+        tourDates,
+        bookedTotal
+      );
+
+      // Let the guide know there is a request to answer
+      if (guideEmail) {
+        await emailService.sendNewBookingRequestToProvider(
+          guideEmail,
+          guideName,
+          reference,
+          tourDates,
+          bookedTotal
+        );
+      }
+    } catch (emailError) {
+      console.error('Failed to send booking request emails:', emailError);
+    }
+
+    toast.success(`Booking request sent! Your reference is ${result.data.booking_reference}`);
+    onBooked(result.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="booking-date" className="text-sm font-medium mb-1 block">
+          <Calendar className="h-4 w-4 inline mr-1" />
+          Tour Date
+        </label>
+        <input
+          id="booking-date"
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          min={getTourDate()}
+          className="w-full p-2 border rounded-md"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="booking-slot" className="text-sm font-medium mb-1 block">
+            <Clock className="h-4 w-4 inline mr-1" />
+            Start Time
+          </label>
+          {loadingSlots ? (
+            <div className="flex items-center gap-2 p-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking...
+            </div>
+          ) : freeSlots.length > 0 ? (
+            <select
+              id="booking-slot"
+              value={timeSlot}
+              onChange={(e) => handleSlotChange(e.target.value)}
+              className="w-full p-2 border rounded-md"
+            >
+              {freeSlots.map(slot => (
+                <option key={slot.time} value={slot.time}>
+                  {slot.time}{slot.city ? ` (${slot.city})` : ''}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p className="p-2 text-sm text-muted-foreground">
+              No free times on this date
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="booking-duration" className="text-sm font-medium mb-1 block">
+            Duration
+          </label>
+          <select
+            id="booking-duration"
+            value={durationHours}
+            onChange={(e) => setDurationHours(parseInt(e.target.value))}
+            className="w-full p-2 border rounded-md"
+          >
+            {GUIDE_DURATION_OPTIONS.map(hours => (
+              <option key={hours} value={hours}>{hours} hours</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="booking-location" className="text-sm font-medium mb-1 block">
+          Meeting Point
+        </label>
+        <Input
+          id="booking-location"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          placeholder="Where should the guide meet you?"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="booking-requests" className="text-sm font-medium mb-1 block">
+          Special Requests
+        </label>
+        <Textarea
+          id="booking-requests"
+          value={specialRequests}
+          onChange={(e) => setSpecialRequests(e.target.value)}
+          placeholder={`Anything ${guideName} should know before the tour?`}
+          rows={3}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span>₹{hourlyRate || 0} × {durationHours} hours</span>
+          <span>₹{totalCost}</span>
+        </div>
+        <div className="flex justify-between font-medium">
+          <span>Total</span>
+          <span>₹{totalCost}</span>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <Button type="submit" className="flex-1" disabled={submitting || loadingSlots || !timeSlot}>
+          <Send className="h-4 w-4 mr-2" />
+          {submitting ? 'Sending...' : 'Request Booking'}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
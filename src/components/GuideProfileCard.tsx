@@ -21,6 +21,7 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { GuideSearchResult } from '@/services/search.service';
+import { formatDistance } from '@/lib/mapUtils';
 
 interface GuideProfileCardProps {
   guide: GuideSearchResult;
@@ -127,6 +128,7 @@ export default function GuideProfileCard({
               <p className="text-muted-foreground text-sm flex items-center gap-1">
                 <MapPin className="h-3 w-3" />
                 {guide.location.city}, {guide.location.state}
+                {guide.distance !== undefined && ` · ${formatDistance(guide.distance)} away`}
               </p>
             </div>
             {renderVerificationBadge()}
@@ -233,6 +235,7 @@ export default function GuideProfileCard({
                 <p className="text-muted-foreground flex items-center gap-1">
                   <MapPin className="h-4 w-4" />
                   {guide.location.city}, {guide.location.state}
+                  {guide.distance !== undefined && ` · ${formatDistance(guide.distance)} away`}
                 </p>
               </div>
               {renderVerificationBadge()}
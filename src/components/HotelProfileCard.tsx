@@ -24,6 +24,7 @@ import {
   Calendar
 } from 'lucide-react';
 import { HotelSearchResult } from '@/services/search.service';
+import { formatDistance } from '@/lib/mapUtils';
 
 interface HotelProfileCardProps {
   hotel: HotelSearchResult;
@@ -131,8 +132,9 @@ export default function HotelProfileCard({
     return <CheckCircle className="h-3 w-3" />;
   };
 
+  // Hotels have a price range once they have priced room types
   const renderPriceRange = () => {
-    if (hotel.priceRange && (hotel.priceRange.min > 0 || hotel.priceRange.max > 0)) {
+    if (hotel.priceRange) {
       return (
         <div className="flex items-center gap-1 text-sm">
           <IndianRupee className="h-4 w-4 text-muted-foreground" />
@@ -187,6 +189,7 @@ export default function HotelProfileCard({
               <p className="text-muted-foreground text-sm flex items-center gap-1">
                 <MapPin className="h-3 w-3" />
                 {hotel.location.city}, {hotel.location.state}
+                {hotel.distance !== undefined && ` · ${formatDistance(hotel.distance)} away`}
               </p>
             </div>
             {renderVerificationBadge()}
@@ -291,6 +294,7 @@ export default function HotelProfileCard({
                 <p className="text-muted-foreground flex items-center gap-1">
                   <MapPin className="h-4 w-4" />
                   {hotel.location.city}, {hotel.location.state}
+                  {hotel.distance !== undefined && ` · ${formatDistance(hotel.distance)} away`}
                 </p>
                 {hotel.hotelType && (
                   <Badge variant="outline" className="text-xs mt-1">
@@ -0,0 +1,296 @@
+/**
+ * ItineraryEditor Component
+ * Lets travellers rearrange, retime and reprice a generated itinerary, with totals kept up to date
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { GripVertical, Plus, Trash2, Replace, Landmark, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  itineraryService,
+  getDayTotal,
+  moveActivity,
+  updateActivity,
+  removeActivity,
+  swapInAttraction,
+  addAttraction,
+  addDay,
+  removeDay,
+  type Itinerary,
+  type ActivityPosition,
+  type ItineraryAttraction
+} from '@/services/itinerary.service';
+
+interface ItineraryEditorProps {
+  itinerary: Itinerary;
+  destination: string;
+  onChange: (itinerary: Itinerary) => void;
+}
+
+// What the attraction picker was opened for
+type PickerTarget =
+  | { mode: 'swap'; position: ActivityPosition }
+  | { mode: 'add'; dayIndex: number };
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0
+  }).format(amount);
+};
+
+export default function ItineraryEditor({ itinerary, destination, onChange }: ItineraryEditorProps) {
+  const [dragging, setDragging] = useState<ActivityPosition | null>(null);
+  const [dropTarget, setDropTarget] = useState<ActivityPosition | null>(null);
+  const [pickerTarget, setPickerTarget] = useState<PickerTarget | null>(null);
+
+  const handleDrop = (to: ActivityPosition) => {
+    if (dragging) {
+      onChange(moveActivity(itinerary, dragging, to));
+    }
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const handleCostChange = (position: ActivityPosition, value: string) => {
+    const cost = Math.max(0, Number(value) || 0);
+    onChange(updateActivity(itinerary, position, { cost }));
+  };
+
+  const handlePick = (attraction: ItineraryAttraction) => {
+    if (!pickerTarget) return;
+
+    onChange(pickerTarget.mode === 'swap'
+      ? swapInAttraction(itinerary, pickerTarget.position, attraction)
+      : addAttraction(itinerary, pickerTarget.dayIndex, attraction));
+    setPickerTarget(null);
+  };
+
+  const isDropTarget = (position: ActivityPosition) =>
+    dropTarget?.dayIndex === position.dayIndex && dropTarget.activityIndex === position.activityIndex;
+
+  return (
+    <div className="space-y-4">
+      {itinerary.days.map((day, dayIndex) => {
+        const endOfDay = { dayIndex, activityIndex: day.activities.length };
+        return (
+          <Card key={dayIndex} className="border-0 shadow-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <div>
+                <h3 className="font-display text-lg font-semibold">Day {day.day}: {day.location}</h3>
+                <p className="text-sm text-muted-foreground">{day.theme}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{formatCurrency(getDayTotal(day))}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(removeDay(itinerary, dayIndex))}
+                  disabled={itinerary.days.length <= 1}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  aria-label={`Remove day ${day.day}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {day.activities.map((activity, activityIndex) => {
+                const position = { dayIndex, activityIndex };
+                return (
+                  <div
+                    key={`${activityIndex}-${activity.activity}`}
+                    draggable
+                    onDragStart={() => setDragging(position)}
+                    onDragEnd={() => {
+                      setDragging(null);
+                      setDropTarget(null);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTarget(position);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(position);
+                    }}
+                    className={cn(
+                      "flex items-center gap-3 p-3 bg-muted/50 rounded-lg border-t-2 border-transparent",
+                      isDropTarget(position) && "border-primary",
+                      dragging?.dayIndex === dayIndex && dragging.activityIndex === activityIndex && "opacity-50"
+                    )}
+                  >
+                    <GripVertical className="h-4 w-4 text-muted-foreground shrink-0 cursor-grab" />
+                    <Input
+                      value={activity.time}
+                      onChange={(e) => onChange(updateActivity(itinerary, position, { time: e.target.value }))}
+                      className="w-28 shrink-0"
+                      aria-label={`Time of ${activity.activity}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{activity.activity}</p>
+                      <p className="text-xs text-muted-foreground">⏱ {activity.duration}</p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={activity.cost}
+                      onChange={(e) => handleCostChange(position, e.target.value)}
+                      className="w-28 shrink-0"
+                      aria-label={`Cost of ${activity.activity}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPickerTarget({ mode: 'swap', position })}
+                      aria-label={`Swap ${activity.activity} for an attraction`}
+                    >
+                      <Replace className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onChange(removeActivity(itinerary, position))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      aria-label={`Remove ${activity.activity}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+
+              {/* Dropping here puts the activity last in the day */}
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTarget(endOfDay);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(endOfDay);
+                }}
+                className={cn(
+                  "flex items-center justify-between rounded-lg border-2 border-dashed p-2",
+                  isDropTarget(endOfDay) ? "border-primary" : "border-muted"
+                )}
+              >
+                <span className="text-xs text-muted-foreground px-2">
+                  {day.activities.length === 0 ? 'Drag activities here' : 'Drop here to move to the end of the day'}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setPickerTarget({ mode: 'add', dayIndex })}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add attraction
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Button variant="outline" className="w-full" onClick={() => onChange(addDay(itinerary))}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Day
+      </Button>
+
+      <AttractionPicker
+        open={!!pickerTarget}
+        destination={destination}
+        onPick={handlePick}
+        onClose={() => setPickerTarget(null)}
+      />
+    </div>
+  );
+}
+
+interface AttractionPickerProps {
+  open: boolean;
+  destination: string;
+  onPick: (attraction: ItineraryAttraction) => void;
+  onClose: () => void;
+}
+
+// Lists the destination's attractions, loaded the first time the picker opens
+function AttractionPicker({ open, destination, onPick, onClose }: AttractionPickerProps) {
+  const [attractions, setAttractions] = useState<ItineraryAttraction[] | null>(null);
+  const [loadedFor, setLoadedFor] = useState('');
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    if (!open || loadedFor === destination) return;
+
+    let cancelled = false;
+    setAttractions(null);
+    itineraryService.getAttractions(destination).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setAttractions(result.data || []);
+        setLoadedFor(destination);
+      } else {
+        setAttractions([]);
+        toast.error(result.error || 'Failed to load attractions');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, destination, loadedFor]);
+
+  const text = filter.trim().toLowerCase();
+  const matches = (attractions || []).filter(attraction =>
+    !text || [attraction.name, attraction.city, attraction.category]
+      .some(value => value?.toLowerCase().includes(text))
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Choose an Attraction</DialogTitle>
+          <DialogDescription>Places to visit in {destination}</DialogDescription>
+        </DialogHeader>
+        <Input
+          placeholder="Filter by name, city or category"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {!attractions ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No attractions found</p>
+          ) : (
+            matches.map(attraction => (
+              <button
+                key={attraction.id}
+                type="button"
+                onClick={() => onPick(attraction)}
+                className="w-full text-left p-3 rounded-lg hover:bg-muted/70 flex items-start gap-3"
+              >
+                <Landmark className="h-4 w-4 text-primary shrink-0 mt-1" />
+                <div className="flex-1">
+                  <p className="font-medium">{attraction.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[attraction.category, attraction.city].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <span className="text-sm text-primary shrink-0">
+                  {attraction.entryFee ? formatCurrency(attraction.entryFee) : 'Free'}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
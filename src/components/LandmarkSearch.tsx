@@ -0,0 +1,73 @@
+/**
+ * LandmarkSearch Component
+ * Type-ahead search for attractions that have map coordinates
+ */
+
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Landmark as LandmarkIcon } from 'lucide-react';
+import { searchEngine, type Landmark } from '@/services/search.service';
+
+interface LandmarkSearchProps {
+  onSelect: (landmark: Landmark) => void;
+  placeholder?: string;
+}
+
+export default function LandmarkSearch({ onSelect, placeholder = 'Search attractions...' }: LandmarkSearchProps) {
+  const [text, setText] = useState('');
+  const [landmarks, setLandmarks] = useState<Landmark[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (text.trim().length < 2) {
+      setLandmarks([]);
+      return;
+    }
+
+    // Wait for the user to stop typing before querying
+    const timer = setTimeout(async () => {
+      const result = await searchEngine.searchLandmarks(text);
+      setLandmarks(result.success && result.data ? result.data : []);
+      setOpen(true);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const handleSelect = (landmark: Landmark) => {
+    onSelect(landmark);
+    setText('');
+    setLandmarks([]);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <LandmarkIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onFocus={() => landmarks.length > 0 && setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder={placeholder}
+        className="pl-10"
+      />
+      {open && landmarks.length > 0 && (
+        <div className="absolute z-20 mt-1 w-full rounded-md border bg-popover shadow-md">
+          {landmarks.map(landmark => (
+            <button
+              key={landmark.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(landmark)}
+              className="block w-full px-3 py-2 text-left text-sm hover:bg-muted"
+            >
+              <span className="font-medium">{landmark.name}</span>
+              {landmark.city && <span className="text-muted-foreground"> · {landmark.city}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
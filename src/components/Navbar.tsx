@@ -11,14 +11,18 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Menu, X, User, LogOut, Heart, Settings, Bookmark, Bed } from 'lucide-react';
+import { MapPin, Menu, X, User, LogOut, Heart, Settings, Bookmark, Bed, Search, Luggage } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import GlobalSearch from '@/components/GlobalSearch';
+import { useSavedSearchAlerts } from '@/hooks/useSavedSearchAlerts';
 
 export default function Navbar() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const { unreadCount } = useSavedSearchAlerts();
 
   useEffect(() => {
     const handleScroll = () => {
@@ -120,6 +124,16 @@ export default function Navbar() {
 
         {/* Auth Buttons / User Menu */}
         <div className="hidden md:flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsSearchOpen(true)}
+            className={cn('gap-2 smooth-transition', isScrolled ? 'text-foreground' : 'text-primary-foreground')}
+            aria-label="Search"
+          >
+            <Search className="h-4 w-4" />
+            <kbd className="hidden lg:inline-flex rounded border px-1.5 text-[10px] font-medium opacity-70">Ctrl K</kbd>
+          </Button>
           {user ? (
             <>
               <Button 
@@ -127,9 +141,12 @@ export default function Navbar() {
                 size="icon" 
                 className="relative h-10 w-10 rounded-full"
                 onClick={() => navigate('/saved')}
-                aria-label="Saved places"
+                aria-label={unreadCount > 0 ? `Saved places, ${unreadCount} new matches` : 'Saved places'}
               >
                 <Bookmark className="h-5 w-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute top-1.5 right-1.5 h-2.5 w-2.5 rounded-full bg-destructive" />
+                )}
                 <span className="sr-only">Saved places</span>
               </Button>
               <DropdownMenu>
@@ -166,6 +183,10 @@ export default function Navbar() {
                     <Heart className="mr-2 h-4 w-4" />
                     Saved Places
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/trips')}>
+                    <Luggage className="mr-2 h-4 w-4" />
+                    My Trips
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => navigate('/settings')}>
                     <Settings className="mr-2 h-4 w-4" />
                     Settings
@@ -206,22 +227,33 @@ export default function Navbar() {
           )}
         </div>
 
-        {/* Mobile Menu Button */}
-        <Button
-          variant="ghost"
-          size="icon"
-          className="md:hidden"
-          onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-          aria-label={isMobileMenuOpen ? "Close menu" : "Open menu"}
-        >
-          {isMobileMenuOpen ? (
-            <X className={cn('h-6 w-6', isScrolled ? 'text-foreground' : 'text-primary-foreground')} />
-          ) : (
-            <Menu className={cn('h-6 w-6', isScrolled ? 'text-foreground' : 'text-primary-foreground')} />
-          )}
-        </Button>
+        {/* Mobile Search and Menu Buttons */}
+        <div className="flex items-center gap-1 md:hidden">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsSearchOpen(true)}
+            aria-label="Search"
+          >
+            <Search className={cn('h-5 w-5', isScrolled ? 'text-foreground' : 'text-primary-foreground')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+            aria-label={isMobileMenuOpen ? "Close menu" : "Open menu"}
+          >
+            {isMobileMenuOpen ? (
+              <X className={cn('h-6 w-6', isScrolled ? 'text-foreground' : 'text-primary-foreground')} />
+            ) : (
+              <Menu className={cn('h-6 w-6', isScrolled ? 'text-foreground' : 'text-primary-foreground')} />
+            )}
+          </Button>
+        </div>
       </div>
 
+      <GlobalSearch open={isSearchOpen} onOpenChange={setIsSearchOpen} />
+
       {/* Mobile Menu */}
       {isMobileMenuOpen && (
         <div className="md:hidden absolute top-full left-0 right-0 bg-background border-b border-border shadow-lg animate-fade-in z-50">
@@ -0,0 +1,83 @@
+/**
+ * NearbyFilter Component
+ * Picks a search point (the user's location or an attraction) and a radius for nearby searches
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LocateFixed, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { getCurrentLocation } from '@/lib/mapUtils';
+import LandmarkSearch from '@/components/LandmarkSearch';
+import { DEFAULT_NEARBY_RADIUS, type NearbyOrigin } from '@/services/search.service';
+
+const NEARBY_RADII = [2, 5, 10, 25, 50];
+
+interface NearbyFilterProps {
+  value: NearbyOrigin | null;
+  onChange: (origin: NearbyOrigin | null) => void;
+}
+
+export default function NearbyFilter({ value, onChange }: NearbyFilterProps) {
+  const [locating, setLocating] = useState(false);
+
+  const radius = value?.radius ?? DEFAULT_NEARBY_RADIUS;
+
+  const handleUseLocation = async () => {
+    setLocating(true);
+    try {
+      const position = await getCurrentLocation();
+      onChange({
+        label: 'your location',
+        coordinates: { lat: position.latitude, lng: position.longitude },
+        radius
+      });
+    } catch {
+      toast.error('Could not get your location. Please allow location access or pick an attraction.');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium block">Near</label>
+      <div className="flex flex-col md:flex-row gap-2">
+        <Button variant="outline" onClick={handleUseLocation} disabled={locating} className="shrink-0">
+          {locating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LocateFixed className="h-4 w-4 mr-2" />}
+          Near me
+        </Button>
+        <div className="flex-1">
+          <LandmarkSearch
+            placeholder="Or near an attraction, e.g. Taj Mahal"
+            onSelect={(landmark) => onChange({ label: landmark.name, coordinates: landmark.coordinates, radius })}
+          />
+        </div>
+        <Select
+          value={String(radius)}
+          onValueChange={(next) => value && onChange({ ...value, radius: Number(next) })}
+          disabled={!value}
+        >
+          <SelectTrigger className="md:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NEARBY_RADII.map(km => (
+              <SelectItem key={km} value={String(km)}>Within {km} km</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value && (
+        <Badge variant="secondary" className="flex w-fit items-center gap-1">
+          Within {value.radius} km of {value.label}
+          <button onClick={() => onChange(null)} aria-label="Clear location">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+    </div>
+  );
+}
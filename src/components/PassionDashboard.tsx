@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
+import { useRoleAccess } from '@/hooks/useRoleAccess';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,6 +21,7 @@ interface PassionDashboardProps {
 export default function PassionDashboard({ passionKey }: PassionDashboardProps) {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { hasPermission } = useRoleAccess();
   const [isLoading, setIsLoading] = useState(true);
   const [hasRegistration, setHasRegistration] = useState(false);
 
@@ -173,13 +175,45 @@ export default function PassionDashboard({ passionKey }: PassionDashboardProps)
           <CardContent>
             <div className="text-2xl font-bold">0</div>
             <p className="text-xs text-muted-foreground">This month</p>
+            {hasPermission('canManageBookings') ? (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="mt-2 w-full"
+                onClick={() => navigate('/provider/bookings')}
+              >
+                Booking Inbox
+              </Button>
+            ) : (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="mt-2 w-full"
+                onClick={() => navigate('/guides')}
+              >
+                View Directory
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      );
+
+      widgetComponents.push(
+        <Card key="availability" className="hover:shadow-lg transition-shadow">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Availability</CardTitle>
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">Schedule</div>
+            <p className="text-xs text-muted-foreground">Weekly hours and blackout dates</p>
             <Button 
               variant="outline" 
               size="sm" 
               className="mt-2 w-full"
-              onClick={() => navigate('/guides')}
+              onClick={() => navigate('/provider/availability')}
             >
-              View Directory
+              Set Availability
             </Button>
           </CardContent>
         </Card>
@@ -209,6 +243,29 @@ export default function PassionDashboard({ passionKey }: PassionDashboardProps)
 
     // Hotel Partner widgets
     if (passionKey === 'hotel_partner') {
+      if (hasPermission('canManageBookings')) {
+        widgetComponents.push(
+          <Card key="hotel-bookings" className="hover:shadow-lg transition-shadow">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Guest Bookings</CardTitle>
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">Inbox</div>
+              <p className="text-xs text-muted-foreground">Requests and arrivals</p>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="mt-2 w-full"
+                onClick={() => navigate('/provider/bookings')}
+              >
+                Booking Inbox
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      }
+
       widgetComponents.push(
         <Card key="occupancy" className="hover:shadow-lg transition-shadow">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -0,0 +1,67 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface PhotoLightboxProps {
+  photos: string[];
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+  title?: string;
+}
+
+export default function PhotoLightbox({ photos, index, onIndexChange, title = 'Guest Photo' }: PhotoLightboxProps) {
+  const open = index !== null && photos.length > 0;
+  const current = index ?? 0;
+
+  const showPrevious = () => onIndexChange((current - 1 + photos.length) % photos.length);
+  const showNext = () => onIndexChange((current + 1) % photos.length);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') showPrevious();
+    if (e.key === 'ArrowRight') showNext();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onIndexChange(null)}>
+      <DialogContent className="max-w-3xl" onKeyDown={handleKeyDown}>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {current + 1} of {photos.length}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          {open && (
+            <img
+              src={photos[current]}
+              alt={`${title} ${current + 1}`}
+              className="w-full max-h-[70vh] rounded-md object-contain bg-muted"
+            />
+          )}
+          {photos.length > 1 && (
+            <>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full"
+                onClick={showPrevious}
+                aria-label="Previous photo"
+              >
+                <ChevronLeft className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full"
+                onClick={showNext}
+                aria-label="Next photo"
+              >
+                <ChevronRight className="h-5 w-5" />
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
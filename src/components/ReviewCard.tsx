@@ -1,26 +1,78 @@
 import { useState } from 'react';
-import { Star, ThumbsUp, User } from 'lucide-react';
+import { BadgeCheck, Flag, MessageSquare, Star, ThumbsDown, ThumbsUp, User } from 'lucide-react';
 import type { Review } from '@/lib/supabaseData';
+import type { ReviewReply } from '@/services/review.service';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useAuth } from '@/lib/auth';
+import PhotoLightbox from '@/components/PhotoLightbox';
 
 interface ReviewCardProps {
   review: Review;
-  onHelpful?: (reviewId: string, increment: number) => void;
+  replies?: ReviewReply[];
+  canReply?: boolean;
+  userVote?: boolean | null; // true helpful, false not helpful, null no vote
+  onVote?: (reviewId: string, isHelpful: boolean | null) => void;
+  onReply?: (reviewId: string, text: string) => Promise<boolean>;
+  onReport?: (reviewId: string, reason: string) => Promise<boolean>;
 }
 
-export default function ReviewCard({ review, onHelpful }: ReviewCardProps) {
+export default function ReviewCard({
+  review,
+  replies = [],
+  canReply = false,
+  userVote = null,
+  onVote,
+  onReply,
+  onReport
+}: ReviewCardProps) {
   const { user } = useAuth();
-  const [helpfulClicked, setHelpfulClicked] = useState(false);
+  const [showReplyForm, setShowReplyForm] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [reportReason, setReportReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [photoIndex, setPhotoIndex] = useState<number | null>(null);
 
-  const handleHelpfulClick = () => {
-    if (!user) return;
-    if (!helpfulClicked) {
-      onHelpful?.(review.id, 1);
-      setHelpfulClicked(true);
+  const isHotelReview = 'hotel_id' in review;
+  const photos = ('images' in review && review.images) || [];
+
+  const handleReplySubmit = async () => {
+    if (!onReply || !replyText.trim()) return;
+
+    setSubmitting(true);
+    const saved = await onReply(review.id, replyText);
+    setSubmitting(false);
+
+    if (saved) {
+      setReplyText('');
+      setShowReplyForm(false);
     }
   };
 
+  const handleReportSubmit = async () => {
+    if (!onReport || !reportReason.trim()) return;
+
+    setSubmitting(true);
+    const reported = await onReport(review.id, reportReason);
+    setSubmitting(false);
+
+    if (reported) {
+      setReportReason('');
+      setShowReportDialog(false);
+    }
+  };
+
+  const canVote = !!user && !!onVote && user.id !== review.user_id;
+
+  // Clicking the current vote again withdraws it
+  const handleVoteClick = (isHelpful: boolean) => {
+    if (!canVote) return;
+    onVote?.(review.id, userVote === isHelpful ? null : isHelpful);
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -48,6 +100,12 @@ export default function ReviewCard({ review, onHelpful }: ReviewCardProps) {
           </div>
           
           <div className="flex items-center gap-1 mb-2">
+            {review.is_verified && (
+              <Badge variant="secondary" className="mr-2 text-green-700">
+                <BadgeCheck className="h-3 w-3 mr-1" />
+                {isHotelReview ? 'Verified stay' : 'Verified tour'}
+              </Badge>
+            )}
             {[1, 2, 3, 4, 5].map((star) => (
               <Star
                 key={star}
@@ -60,26 +118,143 @@ export default function ReviewCard({ review, onHelpful }: ReviewCardProps) {
             ))}
           </div>
           
+          {review.title && <p className="font-medium mb-1">{review.title}</p>}
           <p className="text-muted-foreground mb-3">{review.review_text}</p>
+
+          {photos.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {photos.map((url, index) => (
+                <button
+                  key={url}
+                  type="button"
+                  onClick={() => setPhotoIndex(index)}
+                  className="h-20 w-20 overflow-hidden rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <img src={url} alt={`Review photo ${index + 1}`} className="h-full w-full object-cover" loading="lazy" />
+                </button>
+              ))}
+            </div>
+          )}
           
           <div className="flex items-center gap-2">
             <Button
               variant="ghost"
               size="sm"
-              className="text-muted-foreground hover:text-foreground"
-              onClick={handleHelpfulClick}
-              disabled={!user || helpfulClicked}
+              className={userVote === true ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
+              onClick={() => handleVoteClick(true)}
+              disabled={!canVote}
+              aria-pressed={userVote === true}
             >
-              <ThumbsUp className="h-4 w-4 mr-1" />
-              Helpful
+              <ThumbsUp className={`h-4 w-4 mr-1 ${userVote === true ? 'fill-current' : ''}`} />
+              Helpful{review.helpful_count > 0 && ` (${review.helpful_count})`}
             </Button>
-            
-            {helpfulClicked && (
-              <span className="text-xs text-green-600">Thank you!</span>
+
+            {canVote && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={userVote === false ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
+                onClick={() => handleVoteClick(false)}
+                aria-pressed={userVote === false}
+                aria-label="Not helpful"
+              >
+                <ThumbsDown className={`h-4 w-4 ${userVote === false ? 'fill-current' : ''}`} />
+              </Button>
+            )}
+
+            {canReply && onReply && !showReplyForm && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() => setShowReplyForm(true)}
+              >
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Reply
+              </Button>
+            )}
+
+            {user && onReport && user.id !== review.user_id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-muted-foreground hover:text-foreground ml-auto"
+                onClick={() => setShowReportDialog(true)}
+              >
+                <Flag className="h-4 w-4 mr-1" />
+                Report
+              </Button>
             )}
           </div>
+
+          {replies.length > 0 && (
+            <div className="mt-4 space-y-3 border-l-2 border-primary/30 pl-4">
+              {replies.map(reply => (
+                <div key={reply.id}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium">
+                      {isHotelReview ? 'Response from the property' : 'Response from the guide'}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{formatDate(reply.created_at)}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{reply.reply_text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {showReplyForm && (
+            <div className="mt-4 space-y-2">
+              <Textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                placeholder="Thank the guest or respond to their feedback"
+                rows={3}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleReplySubmit} disabled={submitting || !replyText.trim()}>
+                  {submitting ? 'Posting...' : 'Post Reply'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setShowReplyForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
+
+      <PhotoLightbox
+        photos={photos}
+        index={photoIndex}
+        onIndexChange={setPhotoIndex}
+        title="Review Photo"
+      />
+
+      <Dialog open={showReportDialog} onOpenChange={setShowReportDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+            <DialogDescription>
+              Tell us why this review breaks our guidelines. Our team will take a look.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reportReason}
+            onChange={(e) => setReportReason(e.target.value)}
+            placeholder="e.g. abusive language, fake review, personal information"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReportDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReportSubmit} disabled={submitting || !reportReason.trim()}>
+              Submit Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -1,24 +1,71 @@
-import { useState } from 'react';
-import { Star, Send } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Star, Send, ImagePlus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/lib/auth';
 import { toast } from 'sonner';
+import { reviewService, REVIEW_PHOTO_TYPES, type ReviewableBooking } from '@/services/review.service';
+import { SUPABASE_CONFIG } from '@/config/supabase.config';
+
+// Select value for a review that is not linked to any booking
+const NO_BOOKING = 'none';
 
 interface ReviewFormProps {
   itemId: string;
   itemType: 'hotel' | 'guide';
-  onSubmit: (review: { rating: number; title: string; comment: string }) => void;
+  bookings?: ReviewableBooking[];
+  onSubmit: (review: { rating: number; title: string; comment: string; bookingId?: string; photos: File[] }) => void;
   onCancel?: () => void;
 }
 
-export default function ReviewForm({ itemId, itemType, onSubmit, onCancel }: ReviewFormProps) {
+export default function ReviewForm({ itemId, itemType, bookings = [], onSubmit, onCancel }: ReviewFormProps) {
   const { user } = useAuth();
   const [rating, setRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
   const [title, setTitle] = useState('');
   const [comment, setComment] = useState('');
+  const [bookingId, setBookingId] = useState(bookings[0]?.id || NO_BOOKING);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const urls = photos.map(photo => URL.createObjectURL(photo));
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [photos]);
+
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    const validation = reviewService.validateReviewPhotos(selected, photos.length);
+    if (!validation.success) {
+      toast.error(validation.error);
+      return;
+    }
+
+    setPhotos(prev => [...prev, ...selected]);
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const formatBooking = (booking: ReviewableBooking) => {
+    const formatDate = (date: string) => new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+    const dates = booking.date
+      ? booking.endDate ? `${formatDate(booking.date)} – ${formatDate(booking.endDate)}` : formatDate(booking.date)
+      : 'Completed booking';
+    return booking.bookingReference ? `${dates} (${booking.bookingReference})` : dates;
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,13 +93,17 @@ export default function ReviewForm({ itemId, itemType, onSubmit, onCancel }: Rev
     onSubmit({
       rating,
       title,
-      comment
+      comment,
+      bookingId: bookingId === NO_BOOKING ? undefined : bookingId,
+      photos
     });
     
     // Reset form
     setRating(0);
     setTitle('');
     setComment('');
+    setBookingId(NO_BOOKING);
+    setPhotos([]);
   };
 
   if (!user) {
@@ -71,6 +122,28 @@ export default function ReviewForm({ itemId, itemType, onSubmit, onCancel }: Rev
   return (
     <form onSubmit={handleSubmit} className="bg-muted/50 rounded-lg p-6">
       <h3 className="text-lg font-medium mb-4">Leave a Review</h3>
+
+      {bookings.length > 0 && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">
+            {itemType === 'hotel' ? 'Which stay are you reviewing?' : 'Which tour are you reviewing?'}
+          </label>
+          <Select value={bookingId} onValueChange={setBookingId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {bookings.map(booking => (
+                <SelectItem key={booking.id} value={booking.id}>{formatBooking(booking)}</SelectItem>
+              ))}
+              <SelectItem value={NO_BOOKING}>Not linked to a booking</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Reviews of a completed booking show a {itemType === 'hotel' ? '"Verified stay"' : '"Verified tour"'} badge
+          </p>
+        </div>
+      )}
       
       <div className="mb-4">
         <label className="block text-sm font-medium mb-2">
@@ -124,6 +197,48 @@ export default function ReviewForm({ itemId, itemType, onSubmit, onCancel }: Rev
           className="w-full"
         />
       </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium mb-2">
+          Photos (optional)
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {previews.map((url, index) => (
+            <div key={url} className="relative h-20 w-20">
+              <img src={url} alt={`Photo ${index + 1}`} className="h-full w-full rounded-md object-cover" />
+              <button
+                type="button"
+                onClick={() => removePhoto(index)}
+                className="absolute -top-2 -right-2 rounded-full bg-background p-0.5 shadow"
+                aria-label={`Remove photo ${index + 1}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {photos.length < SUPABASE_CONFIG.STORAGE.MAX_REVIEW_PHOTOS && (
+            <button
+              type="button"
+              onClick={() => photoInputRef.current?.click()}
+              className="flex h-20 w-20 flex-col items-center justify-center rounded-md border border-dashed text-muted-foreground hover:bg-muted"
+            >
+              <ImagePlus className="h-5 w-5" />
+              <span className="text-xs mt-1">Add</span>
+            </button>
+          )}
+        </div>
+        <input
+          ref={photoInputRef}
+          type="file"
+          accept={REVIEW_PHOTO_TYPES.join(',')}
+          multiple
+          onChange={handlePhotoSelect}
+          className="hidden"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Up to {SUPABASE_CONFIG.STORAGE.MAX_REVIEW_PHOTOS} images, 5MB each
+        </p>
+      </div>
       
       <div className="flex gap-3">
         <Button type="submit" className="flex-1">
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Eye, EyeOff, Flag, History, Loader2, ShieldCheck, Star, Trash2, X } from 'lucide-react';
+import {
+  reviewService,
+  MODERATION_ACTION_LABELS,
+  type ReportedReview,
+  type ReviewModerationAction,
+  type ReviewModerationEvent
+} from '@/services/review.service';
+
+const ACTION_DESCRIPTIONS: Record<ReviewModerationAction, string> = {
+  hide: 'The review will no longer be shown on the listing or counted in its rating.',
+  restore: 'The review will be shown on the listing again.',
+  delete: 'The review and its replies will be removed permanently. A copy is kept in the audit trail.',
+  dismiss: 'The reports will be closed and the review left as it is.'
+};
+
+interface PendingAction {
+  item: ReportedReview;
+  action: ReviewModerationAction;
+}
+
+export default function ReviewModerationQueue() {
+  const [queue, setQueue] = useState<ReportedReview[]>([]);
+  const [history, setHistory] = useState<ReviewModerationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadModeration();
+  }, []);
+
+  const loadModeration = async () => {
+    setLoading(true);
+    const [queueResult, historyResult] = await Promise.all([
+      reviewService.getReportedReviews(),
+      reviewService.getModerationHistory()
+    ]);
+
+    if (queueResult.success && queueResult.data) {
+      setQueue(queueResult.data);
+    } else {
+      toast.error(queueResult.error || 'Failed to load reported reviews');
+    }
+
+    if (historyResult.success && historyResult.data) {
+      setHistory(historyResult.data);
+    }
+    setLoading(false);
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+
+    const { item, action } = pendingAction;
+    setSubmitting(true);
+    const result = await reviewService.moderateReview(item.type, item.reviewId, action, note);
+    setSubmitting(false);
+
+    if (result.success) {
+      toast.success(`Review ${MODERATION_ACTION_LABELS[action].toLowerCase()}`);
+      setPendingAction(null);
+      setNote('');
+      loadModeration();
+    } else {
+      toast.error(result.error || 'Failed to moderate review');
+    }
+  };
+
+  const getSnapshotText = (event: ReviewModerationEvent) => {
+    const text = event.review_snapshot?.review_text;
+    return typeof text === 'string' ? text : '';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Reported Reviews</CardTitle>
+          <CardDescription>Reviews flagged by users, most reported first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {queue.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Review</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reports</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map(item => (
+                  <TableRow key={`${item.type}:${item.reviewId}`}>
+                    <TableCell className="max-w-sm">
+                      {item.review ? (
+                        <>
+                          <div className="flex items-center gap-1 mb-1">
+                            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                            <span className="text-sm font-medium">{item.review.rating}</span>
+                            {item.review.is_hidden && <Badge variant="outline" className="ml-2">Hidden</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground line-clamp-3">{item.review.review_text}</p>
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Review no longer exists</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="capitalize">{item.type}</TableCell>
+                    <TableCell>
+                      <Badge variant="destructive" className="mb-1">
+                        <Flag className="h-3 w-3 mr-1" />
+                        {item.reports.length}
+                      </Badge>
+                      <ul className="text-xs text-muted-foreground space-y-1">
+                        {item.reports.slice(0, 3).map(report => (
+                          <li key={report.id} className="line-clamp-1">{report.reason}</li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {item.review?.is_hidden ? (
+                          <Button variant="outline" size="sm" onClick={() => setPendingAction({ item, action: 'restore' })}>
+                            <Eye className="h-4 w-4 mr-1" />
+                            Restore
+                          </Button>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => setPendingAction({ item, action: 'hide' })}>
+                            <EyeOff className="h-4 w-4 mr-1" />
+                            Hide
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setPendingAction({ item, action: 'dismiss' })}>
+                          <X className="h-4 w-4 mr-1" />
+                          Dismiss
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setPendingAction({ item, action: 'delete' })}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12">
+              <ShieldCheck className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="font-display text-xl mb-2">No Reported Reviews</h3>
+              <p className="text-muted-foreground">There are no reviews awaiting moderation at this time.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Moderation History</CardTitle>
+          <CardDescription>Every moderation decision, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Review</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell>{new Date(event.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={event.action === 'delete' ? 'destructive' : 'secondary'}>
+                        {MODERATION_ACTION_LABELS[event.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-sm">
+                      <span className="capitalize text-xs text-muted-foreground">{event.review_type} review</span>
+                      <p className="text-sm line-clamp-2">{getSnapshotText(event)}</p>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{event.reason || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12">
+              <History className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="font-display text-xl mb-2">No Moderation History</h3>
+              <p className="text-muted-foreground">Moderation decisions will be recorded here.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              {pendingAction?.action === 'dismiss' ? 'Dismiss reports' : `${pendingAction?.action} review`}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction && ACTION_DESCRIPTIONS[pendingAction.action]}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the audit trail (optional)"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction?.action === 'delete' ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={submitting}
+            >
+              {submitting ? 'Saving...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { format, parseISO, startOfDay } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Calendar } from '@/components/ui/calendar';
+import type { RoomAvailabilityCalendar as AvailabilityCalendar, RoomType } from '@/services/inventory.service';
+
+interface RoomAvailabilityCalendarProps {
+  roomType: RoomType;
+  calendar: AvailabilityCalendar;
+  rooms: number;
+  checkIn: string;
+  checkOut: string;
+  onRangeChange: (checkIn: string, checkOut: string) => void;
+}
+
+export default function RoomAvailabilityCalendar({
+  roomType,
+  calendar,
+  rooms,
+  checkIn,
+  checkOut,
+  onRangeChange
+}: RoomAvailabilityCalendarProps) {
+  const today = startOfDay(new Date());
+  const dates = Object.keys(calendar);
+
+  // Days without enough free units for the requested number of rooms
+  const soldOut = dates.filter(date => calendar[date] < rooms).map(date => parseISO(date));
+  const lowAvailability = dates
+    .filter(date => calendar[date] >= rooms && calendar[date] <= Math.max(1, Math.floor(roomType.total_units / 4)))
+    .map(date => parseISO(date));
+
+  const selected: DateRange | undefined = checkIn
+    ? { from: parseISO(checkIn), to: checkOut ? parseISO(checkOut) : undefined }
+    : undefined;
+
+  const handleSelect = (range: DateRange | undefined) => {
+    onRangeChange(
+      range?.from ? format(range.from, 'yyyy-MM-dd') : '',
+      range?.to ? format(range.to, 'yyyy-MM-dd') : ''
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="range"
+        selected={selected}
+        onSelect={handleSelect}
+        disabled={[{ before: today }, ...soldOut]}
+        modifiers={{ lowAvailability }}
+        modifiersClassNames={{ lowAvailability: 'text-orange-600 font-semibold' }}
+        numberOfMonths={2}
+        className="rounded-md border w-fit"
+      />
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-muted opacity-50" />
+          Sold out for {rooms} room{rooms > 1 ? 's' : ''}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-orange-200" />
+          Only a few {roomType.name} rooms left
+        </span>
+      </div>
+    </div>
+  );
+}
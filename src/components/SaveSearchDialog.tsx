@@ -0,0 +1,117 @@
+/**
+ * SaveSearchDialog Component
+ * Saves the current directory search under a name, with optional alerts for new matches
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BookmarkPlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth';
+import { savedSearchService, type SavedSearchType } from '@/services/savedSearch.service';
+import type { SearchQuery } from '@/services/search.service';
+
+interface SaveSearchDialogProps {
+  type: SavedSearchType;
+  query: SearchQuery;
+}
+
+// Name the search after what it looks for, e.g. "Guides in Jaipur"
+const getSuggestedName = (type: SavedSearchType, query: SearchQuery) => {
+  const listings = type === 'guides' ? 'Guides' : 'Hotels';
+  const place = query.location.city || query.location.label || query.location.state;
+  if (query.text?.trim()) {
+    return place ? `${query.text.trim()} in ${place}` : query.text.trim();
+  }
+  return place ? `${listings} in ${place}` : `All ${listings.toLowerCase()}`;
+};
+
+export default function SaveSearchDialog({ type, query }: SaveSearchDialogProps) {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [notifyInApp, setNotifyInApp] = useState(true);
+  const [notifyEmail, setNotifyEmail] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = () => {
+    if (!user) {
+      toast.error('Sign in to save searches');
+      navigate('/auth');
+      return;
+    }
+    setName(getSuggestedName(type, query).slice(0, 100));
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    const result = await savedSearchService.saveSearch(user.id, { name, type, query, notifyEmail, notifyInApp });
+    setSaving(false);
+
+    if (result.success) {
+      toast.success('Search saved', {
+        action: { label: 'View', onClick: () => navigate('/saved') }
+      });
+      setOpen(false);
+    } else {
+      toast.error(result.error || 'Failed to save search');
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleOpen} className="flex items-center gap-2">
+        <BookmarkPlus className="h-4 w-4" />
+        Save Search
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription>
+              Run this search again from your Saved page and hear about new {type} that match it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="saved-search-in-app">Notify me here about new matches</Label>
+              <Switch id="saved-search-in-app" checked={notifyInApp} onCheckedChange={setNotifyInApp} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="saved-search-email">Email me about new matches</Label>
+              <Switch id="saved-search-email" checked={notifyEmail} onCheckedChange={setNotifyEmail} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
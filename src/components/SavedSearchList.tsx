@@ -0,0 +1,189 @@
+/**
+ * SavedSearchList Component
+ * Lists a user's saved searches with their new matches and alert settings
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { Search, Trash2, Loader2, Bell } from 'lucide-react';
+import {
+  savedSearchService,
+  getSavedSearchUrl,
+  type SavedSearch,
+  type SavedSearchAlert
+} from '@/services/savedSearch.service';
+
+interface SavedSearchListProps {
+  userId: string;
+}
+
+export default function SavedSearchList({ userId }: SavedSearchListProps) {
+  const navigate = useNavigate();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<SavedSearchAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const fetchSavedSearches = useCallback(async () => {
+    const [searchesResult, alertsResult] = await Promise.all([
+      savedSearchService.getSavedSearches(userId),
+      savedSearchService.getAlerts(userId)
+    ]);
+
+    if (searchesResult.success && searchesResult.data) {
+      setSavedSearches(searchesResult.data);
+    } else {
+      toast.error(searchesResult.error || 'Failed to load saved searches');
+    }
+    if (alertsResult.success && alertsResult.data) {
+      setAlerts(alertsResult.data);
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, [fetchSavedSearches]);
+
+  const handleOpen = async (search: SavedSearch) => {
+    if (alerts.some(alert => alert.savedSearchId === search.id)) {
+      await savedSearchService.markAlertsRead(search.id);
+    }
+    navigate(getSavedSearchUrl(search));
+  };
+
+  const handleNotificationChange = async (
+    search: SavedSearch,
+    settings: { notifyEmail?: boolean; notifyInApp?: boolean }
+  ) => {
+    const result = await savedSearchService.updateNotifications(search.id, settings);
+    if (result.success && result.data) {
+      const updated = result.data;
+      setSavedSearches(prev => prev.map(item => item.id === updated.id ? updated : item));
+    } else {
+      toast.error(result.error || 'Failed to update notifications');
+    }
+  };
+
+  const handleDelete = async (searchId: string) => {
+    setDeleting(searchId);
+    const result = await savedSearchService.deleteSavedSearch(searchId);
+    if (result.success) {
+      setSavedSearches(prev => prev.filter(search => search.id !== searchId));
+      setAlerts(prev => prev.filter(alert => alert.savedSearchId !== searchId));
+      toast.success('Saved search deleted');
+    } else {
+      toast.error(result.error || 'Failed to delete saved search');
+    }
+    setDeleting(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="grid md:grid-cols-2 gap-6">
+        {[1, 2].map(i => (
+          <Skeleton key={i} className="h-40 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (savedSearches.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        Save a search from the <Link to="/guides" className="text-primary underline">guide</Link> or{' '}
+        <Link to="/hotels" className="text-primary underline">hotel</Link> directory to run it again here and hear about new matches.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {savedSearches.map(search => {
+        const newMatches = alerts.filter(alert => alert.savedSearchId === search.id);
+        const listingPath = search.type === 'guides' ? '/guides' : '/hotels';
+
+        return (
+          <Card key={search.id} className="border-0 shadow-card">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="font-display text-xl font-bold">{search.name}</h3>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="secondary">{search.type === 'guides' ? 'Guides' : 'Hotels'}</Badge>
+                    {newMatches.length > 0 && (
+                      <Badge className="flex items-center gap-1">
+                        <Bell className="h-3 w-3" />
+                        {newMatches.length} new
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(search.id)}
+                  disabled={deleting === search.id}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  aria-label={`Delete ${search.name}`}
+                >
+                  {deleting === search.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+
+              {newMatches.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {newMatches.slice(0, 5).map(alert => (
+                    <li key={alert.id}>
+                      <Link to={`${listingPath}/${alert.listingId}`} className="text-primary hover:underline">
+                        {alert.listingName}
+                      </Link>
+                    </li>
+                  ))}
+                  {newMatches.length > 5 && (
+                    <li className="text-muted-foreground">and {newMatches.length - 5} more</li>
+                  )}
+                </ul>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`in-app-${search.id}`} className="text-sm">Notify me here</Label>
+                  <Switch
+                    id={`in-app-${search.id}`}
+                    checked={search.notifyInApp}
+                    onCheckedChange={(checked) => handleNotificationChange(search, { notifyInApp: checked })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`email-${search.id}`} className="text-sm">Email me</Label>
+                  <Switch
+                    id={`email-${search.id}`}
+                    checked={search.notifyEmail}
+                    onCheckedChange={(checked) => handleNotificationChange(search, { notifyEmail: checked })}
+                  />
+                </div>
+              </div>
+
+              <Button variant="outline" className="w-full" onClick={() => handleOpen(search)}>
+                <Search className="h-4 w-4 mr-2" />
+                Run Search
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, SearchX } from 'lucide-react';
+import { format } from 'date-fns';
+import { searchEngine, type ZeroResultSearch } from '@/services/search.service';
+
+const REPORT_PERIODS = [7, 30, 90];
+
+export default function ZeroResultSearchReport() {
+  const [days, setDays] = useState(30);
+  const [searches, setSearches] = useState<ZeroResultSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    const result = await searchEngine.getZeroResultSearches(days);
+
+    if (result.success && result.data) {
+      setSearches(result.data);
+    } else {
+      toast.error(result.error || 'Failed to load search report');
+    }
+    setLoading(false);
+  }, [days]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <Card className="border-0 shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Searches With No Results</CardTitle>
+          <CardDescription>Most frequent searches that found nothing, i.e. content worth adding</CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPORT_PERIODS.map(period => (
+              <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : searches.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Search</TableHead>
+                <TableHead className="text-right">Searches</TableHead>
+                <TableHead className="text-right">Users</TableHead>
+                <TableHead className="text-right">Last Searched</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {searches.map(search => (
+                <TableRow key={search.query}>
+                  <TableCell className="font-medium">{search.query}</TableCell>
+                  <TableCell className="text-right">{search.searchCount}</TableCell>
+                  <TableCell className="text-right">{search.userCount}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {format(search.lastSearchedAt, 'MMM d, yyyy')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center py-8 text-center text-muted-foreground">
+            <SearchX className="h-8 w-8 mb-2" />
+            <p>Every search in the last {days} days found something.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -33,6 +33,7 @@ jest.mock('@/lib/auth', () => ({
 }));
 
 jest.mock('@/services/search.service', () => ({
+  ...jest.requireActual<object>('@/services/search.service'),
   searchEngine: {
     searchGuides: jest.fn()
   }
@@ -50,6 +51,12 @@ jest.mock('@/components/Footer', () => {
   };
 });
 
+jest.mock('@/components/SaveSearchDialog', () => {
+  return function MockSaveSearchDialog() {
+    return <button>Save Search</button>;
+  };
+});
+
 jest.mock('@/components/LocationMap', () => {
   return function MockLocationMap() {
     return <div data-testid="location-map">Map</div>;
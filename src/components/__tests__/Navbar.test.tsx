@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import Navbar from '../Navbar';
 
@@ -10,6 +10,18 @@ jest.mock('../../lib/auth', () => ({
   }),
 }));
 
+// Mock the Supabase client used by global search
+jest.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+// The real email service reads import.meta.env, which Jest cannot parse
+jest.mock('@/lib/emailService', () => ({
+  emailService: {},
+}));
+
 describe('Navbar', () => {
   const renderWithRouter = (component: React.ReactNode) => {
     return render(<MemoryRouter>{component}</MemoryRouter>);
@@ -28,4 +40,17 @@ describe('Navbar', () => {
     expect(screen.getByText('Sign In')).toBeInTheDocument();
     expect(screen.getByText('Get Started')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  test('opens global search from the search button and the keyboard shortcut', () => {
+    renderWithRouter(<Navbar />);
+
+    fireEvent.click(screen.getAllByLabelText('Search')[0]);
+    expect(screen.getByPlaceholderText(/Search states, places/)).toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'k', ctrlKey: true });
+    expect(screen.queryByPlaceholderText(/Search states, places/)).not.toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'k', ctrlKey: true });
+    expect(screen.getByPlaceholderText(/Search states, places/)).toBeInTheDocument();
+  });
+});
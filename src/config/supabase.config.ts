@@ -27,6 +27,8 @@ export const SUPABASE_CONFIG = {
       DOCUMENTS: 'documents'
     },
     MAX_FILE_SIZE: 50 * 1024 * 1024, // 50MB
+    MAX_IMAGE_SIZE: 5 * 1024 * 1024, // 5MB
+    MAX_REVIEW_PHOTOS: 5,
     ALLOWED_FILE_TYPES: [
       'image/jpeg',
       'image/png',
@@ -84,6 +86,7 @@ export const STORAGE_PATHS = {
   HOTEL_IMAGES: 'hotel_images',
   ATTRACTION_IMAGES: 'attraction_images',
   GUIDE_PHOTOS: 'guide_photos',
+  REVIEW_PHOTOS: 'review_photos',
   DOCUMENTS: 'documents',
   TEMP: 'temp'
 };
@@ -84,18 +84,6 @@ export class TourismData {
     return hotelService.getHotelsByState(stateId, includeUnverified);
   }
 
-  // Search hotels
-  static async searchHotels(query: string, filters?: { 
-    stateId?: string; 
-    city?: string; 
-    minPrice?: number; 
-    maxPrice?: number; 
-    type?: string;
-    rating?: number;
-  }): Promise<DatabaseResponse<Hotel[]>> {
-    return hotelService.searchHotels(query, filters);
-  }
-
   // Create or update hotel
   static async saveHotel(hotelData: Partial<Hotel>): Promise<DatabaseResponse<Hotel>> {
     return hotelService.upsertHotel(hotelData);
@@ -125,17 +113,6 @@ export class TourismData {
     return tourGuideService.getTourGuidesByState(stateId, includeUnverified);
   }
 
-  // Search tour guides
-  static async searchTourGuides(query: string, filters?: { 
-    stateId?: string; 
-    city?: string; 
-    language?: string;
-    minRating?: number;
-    maxPrice?: number;
-  }): Promise<DatabaseResponse<TourGuide[]>> {
-    return tourGuideService.searchTourGuides(query, filters);
-  }
-
   // Create or update tour guide
   static async saveTourGuide(guideData: Partial<TourGuide>): Promise<DatabaseResponse<TourGuide>> {
     return tourGuideService.upsertTourGuide(guideData);
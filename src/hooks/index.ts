@@ -5,6 +5,10 @@
 
 export * from './useSupabase';
 export * from './usePostAuthRedirect';
+export * from './useSearchTracking';
+export * from './useInfiniteScroll';
+export * from './useSearchQueryParams';
+export * from './useSavedSearchAlerts';
 
 // Export default modules
 import useSupabase from './useSupabase';
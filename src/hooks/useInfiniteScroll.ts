@@ -0,0 +1,28 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Custom hook to load the next page when the end of a list scrolls into view
+ * Returns a ref for an element placed after the list
+ * @param onLoadMore - Loads the next page
+ * @param hasMore - Whether there is a next page to load
+ */
+export const useInfiniteScroll = (onLoadMore: () => void, hasMore: boolean) => {
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  return useCallback((node: HTMLElement | null) => {
+    observer.current?.disconnect();
+    if (!node || !hasMore || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    // Start loading a little before the end is reached
+    observer.current = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        onLoadMore();
+      }
+    }, { rootMargin: '400px' });
+    observer.current.observe(node);
+  }, [onLoadMore, hasMore]);
+};
+
+export default useInfiniteScroll;
@@ -1,6 +1,6 @@
 import { useAuth } from '@/lib/auth';
 
-export type UserRole = 'tourist' | 'tour_guide' | 'admin';
+export type UserRole = 'tourist' | 'tour_guide' | 'hotel_partner' | 'admin';
 
 export interface RolePermissions {
   canViewProfile: boolean;
@@ -49,6 +49,17 @@ export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
     canViewAdminPanel: false,
     canManageUsers: false
   },
+  hotel_partner: {
+    canViewProfile: true,
+    canEditProfile: true,
+    canBookHotels: true,
+    canCreateGuides: false,
+    canManageGuides: false,
+    canManageHotels: false,
+    canManageBookings: true,
+    canViewAdminPanel: false,
+    canManageUsers: false
+  },
   admin: {
     canViewProfile: true,
     canEditProfile: true,
@@ -65,7 +76,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
 export function useRoleAccess() {
   const { user } = useAuth();
   
-  const userRole = user?.role || 'tourist';
+  // user.role is Supabase's auth role ('authenticated'); the app role is stored in metadata at signup
+  const userRole = user?.user_metadata?.user_role || user?.user_metadata?.role || 'tourist';
   const permissions = ROLE_PERMISSIONS[userRole as UserRole] || DEFAULT_PERMISSIONS;
   
   const hasPermission = (permission: keyof RolePermissions): boolean => {
@@ -74,7 +86,7 @@ export function useRoleAccess() {
   
   const isAuthorized = (requiredRoles: UserRole[]): boolean => {
     if (!user) return false;
-    return requiredRoles.includes(user.role as UserRole);
+    return requiredRoles.includes(userRole as UserRole);
   };
   
   return {
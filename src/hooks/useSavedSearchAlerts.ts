@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth';
+import { savedSearchService } from '@/services/savedSearch.service';
+
+/**
+ * Custom hook to check the signed-in user's saved searches for new matches
+ * Shows a notification when new matches turn up and returns how many alerts are unread
+ */
+export const useSavedSearchAlerts = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Only re-check when the signed-in user changes, not on every session refresh
+  const userId = user?.id;
+  const userEmail = user?.email;
+  const userName = user?.user_metadata?.full_name;
+
+  useEffect(() => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    let cancelled = false;
+    const checkAlerts = async () => {
+      // Saved searches checked recently are skipped by the service
+      const check = await savedSearchService.checkForNewMatches({
+        id: userId,
+        email: userEmail,
+        name: userName
+      });
+      if (cancelled) return;
+
+      if (check.success && check.data && check.data.length > 0) {
+        toast(`${check.data.length} new ${check.data.length === 1 ? 'match' : 'matches'} for your saved searches`, {
+          action: { label: 'View', onClick: () => navigate('/saved') }
+        });
+      }
+
+      const alerts = await savedSearchService.getAlerts(userId);
+      if (!cancelled && alerts.success && alerts.data) {
+        setUnreadCount(alerts.data.length);
+      }
+    };
+
+    checkAlerts();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, userEmail, userName, navigate]);
+
+  return { unreadCount };
+};
+
+export default useSavedSearchAlerts;
@@ -0,0 +1,57 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  searchQueryFromParams,
+  searchQueryToParams,
+  type SearchQuery,
+  type SearchQueryDefaults
+} from '@/services/search.service';
+
+/**
+ * Custom hook to keep a page's search query in the URL so it can be shared and restored
+ * The URL is the only copy, so back and forward restore earlier searches
+ * @param defaults - Sort and page size the page uses when the URL doesn't set them
+ */
+export const useSearchQueryParams = (defaults: SearchQueryDefaults) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const paramString = searchParams.toString();
+  const { sort, limit } = defaults;
+
+  const query = useMemo(
+    () => searchQueryFromParams(new URLSearchParams(paramString), { sort, limit }),
+    [paramString, sort, limit]
+  );
+
+  // Everything but the page, for refetching only when the search itself changes
+  const searchKey = useMemo(
+    () => searchQueryToParams({ ...query, pagination: { ...query.pagination, page: 1 } }, { sort, limit }).toString(),
+    [query, sort, limit]
+  );
+
+  /**
+   * Change the search in the URL, starting again from the first page
+   * @param update - Builds the new query from the current one
+   * @param replace - Replace the current history entry instead of adding one, e.g. while typing
+   */
+  const updateQuery = useCallback((update: (current: SearchQuery) => SearchQuery, replace: boolean = false) => {
+    setSearchParams(current => {
+      const next = update(searchQueryFromParams(current, { sort, limit }));
+      return searchQueryToParams({ ...next, pagination: { page: 1, limit: next.pagination.limit } }, { sort, limit });
+    }, { replace });
+  }, [setSearchParams, sort, limit]);
+
+  /**
+   * Record how many pages are shown, without a history entry per page
+   * @param page - Pages loaded so far
+   */
+  const setPage = useCallback((page: number) => {
+    setSearchParams(current => {
+      const currentQuery = searchQueryFromParams(current, { sort, limit });
+      return searchQueryToParams({ ...currentQuery, pagination: { ...currentQuery.pagination, page } }, { sort, limit });
+    }, { replace: true });
+  }, [setSearchParams, sort, limit]);
+
+  return { query, searchKey, updateQuery, setPage };
+};
+
+export default useSearchQueryParams;
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { searchEngine, type SearchEvent, type SearchEntityType } from '@/services/search.service';
+
+// How long a search has to stay unchanged before it is recorded
+const SETTLE_DELAY_MS = 1500;
+
+/**
+ * Custom hook to record searches and the result each one led to
+ * Searches are recorded once the user stops changing them, so typing a query is one search rather than one per keystroke
+ * @param source - Where the searches are made
+ */
+export const useSearchTracking = (source: SearchEvent['source']) => {
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const pending = useRef<SearchEvent | null>(null);
+  const searchId = useRef<Promise<string | null> | null>(null);
+
+  const flush = useCallback(() => {
+    clearTimeout(timer.current);
+    if (pending.current) {
+      const event = pending.current;
+      pending.current = null;
+      searchId.current = searchEngine.recordSearch(event).then(result =>
+        result.success && result.data ? result.data : null
+      );
+    }
+  }, []);
+
+  // Leaving the page settles the last search
+  useEffect(() => () => flush(), [flush]);
+
+  const trackSearch = useCallback((search: Omit<SearchEvent, 'source'>) => {
+    clearTimeout(timer.current);
+    pending.current = null;
+    searchId.current = null;
+
+    // Opening the page with nothing typed or filtered is not a search
+    const hasFilters = Object.values(search.filters || {}).some(value =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== ''
+    );
+    if (!search.text?.trim() && !search.city && !search.state && !hasFilters) {
+      return;
+    }
+
+    pending.current = { ...search, source };
+    timer.current = setTimeout(flush, SETTLE_DELAY_MS);
+  }, [source, flush]);
+
+  // Opening a result settles the search straight away
+  const trackClick = useCallback(async (type: SearchEntityType, id: string) => {
+    flush();
+    const recordedId = await searchId.current;
+    if (recordedId) {
+      await searchEngine.recordSearchClick(recordedId, type, id);
+    }
+  }, [flush]);
+
+  return { trackSearch, trackClick };
+};
+
+export default useSearchTracking;
@@ -0,0 +1,5 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './client';
+
+// Client for the tables and functions added by migrations (until types are regenerated)
+export const untypedSupabase = supabase as unknown as SupabaseClient;
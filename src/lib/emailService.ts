@@ -252,35 +252,95 @@ The Incredible India Tourism Team
     return await this.sendEmail(to, subject, body);
   }
 
-  // Send booking confirmation email
-  async sendBookingConfirmation(
-    to: string, 
-    userName: string, 
-    hotelName: string, 
-    checkInDate: string, 
-    checkOutDate: string,
+  // Send booking request received email, before the hotel or guide has accepted it
+  async sendBookingRequestReceived(
+    to: string,
+    userName: string,
+    listingName: string,
+    bookingReference: string,
+    dates: string,
     totalPrice: number
   ): Promise<boolean> {
-    const subject = `Booking Confirmation - ${hotelName}`;
+    const subject = `Booking Request Received - ${listingName}`;
     const body = `
 Dear ${userName},
 
-Thank you for booking with Incredible India Tourism!
+Thank you for your booking request with Incredible India Tourism!
 
-Your booking details:
-- Hotel: ${hotelName}
-- Check-in Date: ${checkInDate}
-- Check-out Date: ${checkOutDate}
+Your request details:
+- Booking: ${listingName}
+- Reference: ${bookingReference}
+- Dates: ${dates}
 - Total Amount: ₹${totalPrice.toFixed(2)}
 
-Our team will confirm your booking shortly. You will receive another email with confirmation details.
+This booking is not confirmed yet. ${listingName} will review your request, and we will email you as soon as they accept it.
 
 If you have any questions, please contact our support team.
 
 Best regards,
 The Incredible India Tourism Team
     `.trim();
-    
+
+    return await this.sendEmail(to, subject, body);
+  }
+
+  // Send notification to a hotel or guide about a new booking request
+  async sendNewBookingRequestToProvider(
+    to: string,
+    listingName: string,
+    bookingReference: string,
+    dates: string,
+    totalPrice: number
+  ): Promise<boolean> {
+    const subject = `New Booking Request - ${bookingReference}`;
+    const body = `
+Hello,
+
+You have a new booking request for ${listingName}:
+
+- Reference: ${bookingReference}
+- Dates: ${dates}
+- Total Amount: ₹${totalPrice.toFixed(2)}
+
+Please log in to your Booking Inbox to accept or decline it.
+
+Best regards,
+The Incredible India Tourism Team
+    `.trim();
+
+    return await this.sendEmail(to, subject, body);
+  }
+
+  // Send booking confirmation email once the hotel or guide accepts the request
+  async sendBookingConfirmation(
+    to: string,
+    userName: string,
+    listingName: string,
+    bookingReference: string,
+    dates: string,
+    totalPrice: number,
+    providerMessage?: string
+  ): Promise<boolean> {
+    const subject = `Booking Confirmed - ${listingName}`;
+    const body = `
+Dear ${userName},
+
+Good news! ${listingName} has confirmed your booking.
+
+Your booking details:
+- Booking: ${listingName}
+- Reference: ${bookingReference}
+- Dates: ${dates}
+- Total Amount: ₹${totalPrice.toFixed(2)}
+${providerMessage ? `\nMessage from ${listingName}: ${providerMessage}\n` : ''}
+You can see your booking at any time in your profile.
+
+If you have any questions, please contact our support team.
+
+Best regards,
+The Incredible India Tourism Team
+    `.trim();
+
     return await this.sendEmail(to, subject, body);
   }
 
@@ -477,6 +537,33 @@ The Incredible India Tourism Team
     
     return await this.sendEmail(hotelEmail, subject, body);
   }
+
+  // Send new matches for a saved search
+  async sendSavedSearchAlert(
+    to: string,
+    userName: string,
+    searchName: string,
+    listingNames: string[],
+    searchUrl: string
+  ): Promise<boolean> {
+    const subject = `${listingNames.length} new ${listingNames.length === 1 ? 'match' : 'matches'} for "${searchName}"`;
+    const body = `
+Dear ${userName},
+
+New listings match your saved search "${searchName}":
+
+${listingNames.map(name => `- ${name}`).join('\n')}
+
+See them all here: ${searchUrl}
+
+You can turn off these emails from your Saved page.
+
+Best regards,
+The Incredible India Tourism Team
+    `.trim();
+
+    return await this.sendEmail(to, subject, body);
+  }
 }
 
 // Export singleton instance
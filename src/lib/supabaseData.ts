@@ -10,9 +10,32 @@ import { Database } from '@/integrations/supabase/types';
 // User type from Supabase
 // Types
 export type UserProfile = Database['public']['Tables']['profiles']['Row'];
-export type Hotel = Database['public']['Tables']['hotels']['Row'];
-export type TourGuide = Database['public']['Tables']['tour_guides']['Row'];
-export type Review = Database['public']['Tables']['hotel_reviews']['Row'] | Database['public']['Tables']['guide_reviews']['Row'];
+
+// Review aggregates maintained by database triggers (until types are regenerated)
+export interface RatingAggregates {
+  rating_average: number;
+  review_count: number;
+}
+
+// Nightly price range derived from active room types by a database trigger (until types are regenerated)
+export interface NightlyPriceRange {
+  price_per_night_min: number | null;
+  price_per_night_max: number | null;
+}
+
+export type Hotel = Database['public']['Tables']['hotels']['Row'] & RatingAggregates & NightlyPriceRange;
+export type TourGuide = Database['public']['Tables']['tour_guides']['Row'] & RatingAggregates;
+// Helpful-vote count maintained by a database trigger (until types are regenerated)
+export interface ReviewVoteCounts {
+  helpful_count: number;
+}
+
+// Title the reviewer gave their review (until types are regenerated)
+export interface ReviewTitle {
+  title?: string | null;
+}
+
+export type Review = (Database['public']['Tables']['hotel_reviews']['Row'] | Database['public']['Tables']['guide_reviews']['Row']) & ReviewVoteCounts & ReviewTitle;
 export type Booking = Database['public']['Tables']['hotel_bookings']['Row'] | Database['public']['Tables']['guide_bookings']['Row'];
 
 /**
@@ -106,7 +129,6 @@ export async function saveHotel(userId: string, hotelData: Partial<Hotel>) {
       district: '',
       city: '',
       address: '',
-      price_per_night_min: 0,
       check_in_time: '12:00:00',
       check_out_time: '12:00:00',
       contact_phone: '',
@@ -205,61 +227,6 @@ export async function updateHotelStatus(hotelId: string, status: 'approved' | 'r
   }
 }
 
-/**
- * Search hotels
- */
-export async function searchHotels(query: string, filters?: { 
-  city?: string; 
-  minPrice?: number; 
-  maxPrice?: number; 
-  rating?: number;
-  type?: string;
-}): Promise<Hotel[]> {
-  try {
-    let supabaseQuery = supabase
-      .from('hotels')
-      .select('*')
-      .eq('is_verified', true);
-    
-    // Text search
-    if (query) {
-      supabaseQuery = supabaseQuery.ilike('name', `%${query}%`);
-    }
-    
-    // City filter
-    if (filters?.city) {
-      supabaseQuery = supabaseQuery.ilike('city', `%${filters.city}%`);
-    }
-    
-    // Price range filter
-    if (filters?.minPrice !== undefined) {
-      supabaseQuery = supabaseQuery.gte('price_per_night_min', filters.minPrice);
-    }
-    
-    if (filters?.maxPrice !== undefined) {
-      supabaseQuery = supabaseQuery.lte('price_per_night_max', filters.maxPrice);
-    }
-    
-    // Rating filter
-    if (filters?.rating) {
-      supabaseQuery = supabaseQuery.gte('rating', filters.rating);
-    }
-    
-    // Type filter
-    if (filters?.type) {
-      supabaseQuery = supabaseQuery.eq('type', filters.type);
-    }
-    
-    const { data, error } = await supabaseQuery;
-    
-    if (error) throw error;
-    return data || [];
-  } catch (error) {
-    console.error('Error searching hotels:', error);
-    return [];
-  }
-}
-
 /**
  * TOUR GUIDE OPERATIONS
  */
@@ -390,51 +357,6 @@ export async function getTourGuide(guideId: string): Promise<TourGuide | null> {
   }
 }
 
-/**
- * Search tour guides
- */
-export async function searchTourGuides(query: string, filters?: { 
-  city?: string; 
-  language?: string; 
-  minRating?: number; 
-  maxPrice?: number;
-}): Promise<TourGuide[]> {
-  try {
-    let supabaseQuery = supabase
-      .from('tour_guides')
-      .select('*')
-      .eq('verified', true);
-    
-    // Text search
-    if (query) {
-      supabaseQuery = supabaseQuery.or(`full_name.ilike.%${query}%,city.ilike.%${query}%`);
-    }
-    
-    // City filter
-    if (filters?.city) {
-      supabaseQuery = supabaseQuery.ilike('city', `%${filters.city}%`);
-    }
-    
-    // Rating filter
-    if (filters?.minRating !== undefined) {
-      supabaseQuery = supabaseQuery.gte('rating', filters.minRating);
-    }
-    
-    // Price filter
-    if (filters?.maxPrice !== undefined) {
-      supabaseQuery = supabaseQuery.lte('hourly_rate', filters.maxPrice);
-    }
-    
-    const { data, error } = await supabaseQuery;
-    
-    if (error) throw error;
-    return data || [];
-  } catch (error) {
-    console.error('Error searching tour guides:', error);
-    return [];
-  }
-}
-
 /**
  * BOOKING OPERATIONS
  */
@@ -463,6 +385,10 @@ export async function saveBooking(bookingId: string, bookingData: Partial<Bookin
     // Determine if it's a hotel or guide booking based on presence of hotel_id or guide_id
     const tableName = bookingData.hasOwnProperty('hotel_id') ? 'hotel_bookings' : 'guide_bookings';
     
+    // Status is owned by the booking lifecycle (see bookingService.transitionBooking),
+    // so never let the client write it here
+    const { status: _ignoredStatus, ...bookingFields } = bookingData;
+    
     // Ensure required fields have default values based on booking type
     let bookingDataWithDefaults;
     if (tableName === 'hotel_bookings') {
@@ -476,8 +402,8 @@ export async function saveBooking(bookingId: string, bookingData: Partial<Bookin
         total_nights: 1,
         guest_name: '',
         guest_phone: '',
-        status: 'pending',
-        ...bookingData
+        ...bookingFields,
+        status: 'pending'
       };
     } else {
       bookingDataWithDefaults = {
@@ -489,8 +415,8 @@ export async function saveBooking(bookingId: string, bookingData: Partial<Bookin
         number_of_people: 1,
         tourist_name: '',
         tourist_phone: '',
-        status: 'pending',
-        ...bookingData
+        ...bookingFields,
+        status: 'pending'
       };
     }
     
@@ -602,13 +528,15 @@ export async function getItemReviews(itemId: string, itemType: 'hotel' | 'guide'
   try {
     const tableName = itemType === 'hotel' ? 'hotel_reviews' : 'guide_reviews';
     
+    // Reviews hidden by moderators are kept for the audit trail but never shown
     const { data, error } = await supabase
       .from(tableName)
       .select('*')
-      .eq(itemType === 'hotel' ? 'hotel_id' : 'guide_id', itemId);
+      .eq(itemType === 'hotel' ? 'hotel_id' : 'guide_id', itemId)
+      .eq('is_hidden', false);
     
     if (error) throw error;
-    return data || [];
+    return (data || []) as Review[];
   } catch {
     return [];
   }
@@ -743,13 +671,11 @@ export default {
   getAllHotels,
   getPendingHotels,
   updateHotelStatus,
-  searchHotels,
   saveTourGuide,
   getAllTourGuides,
   getPendingTourGuides,
   getTourGuide,
   updateTourGuideVerificationStatus,
-  searchTourGuides,
   saveBooking,
   getBooking,
   saveReview,
@@ -14,6 +14,8 @@ import { userProfileService } from '@/services/database.service';
 import type { Hotel, TourGuide } from '@/lib/supabaseData';
 import { emailService } from '@/lib/emailService';
 import Navbar from '@/components/Navbar';
+import ReviewModerationQueue from '@/components/ReviewModerationQueue';
+import ZeroResultSearchReport from '@/components/ZeroResultSearchReport';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -522,6 +524,7 @@ export default function Admin() {
             <TabsTrigger value="hotels">Hotel Approvals</TabsTrigger>
             <TabsTrigger value="guides">Guide Approvals</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="reviews">Reviews</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -898,6 +901,10 @@ export default function Admin() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="reviews">
+            <ReviewModerationQueue />
+          </TabsContent>
+
           <TabsContent value="analytics">
             <div className="space-y-6">
               <Card className="border-0 shadow-card">
@@ -1052,6 +1059,8 @@ export default function Admin() {
                   </div>
                 </CardContent>
               </Card>
+
+              <ZeroResultSearchReport />
             </div>
           </TabsContent>
 
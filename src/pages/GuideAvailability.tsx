@@ -0,0 +1,419 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/lib/auth';
+import { useRoleAccess } from '@/hooks/useRoleAccess';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { toast } from 'sonner';
+import { CalendarOff, Loader2, MapPin, Plus, Save, Trash2 } from 'lucide-react';
+import LandmarkSearch from '@/components/LandmarkSearch';
+import {
+  availabilityService,
+  WEEKDAY_LABELS,
+  type GuideAvailabilityRule,
+  type GuideBlackout,
+  type GuideServiceArea
+} from '@/services/availability.service';
+import { getTourDate } from '@/services/booking.service';
+import type { Landmark } from '@/services/search.service';
+
+type ScheduleWindow = Omit<GuideAvailabilityRule, 'id' | 'guide_id'>;
+
+const DEFAULT_WINDOW = { start_time: '09:00', end_time: '18:00', city: null };
+
+const DEFAULT_SERVICE_RADIUS_KM = 10;
+
+// Show the week starting on Monday, as guides plan it
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export default function GuideAvailability() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { isAuthorized } = useRoleAccess();
+  const [windows, setWindows] = useState<ScheduleWindow[]>([]);
+  const [blackouts, setBlackouts] = useState<GuideBlackout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newBlackout, setNewBlackout] = useState({ date: '', start_time: '', end_time: '', reason: '' });
+  const [serviceAreas, setServiceAreas] = useState<GuideServiceArea[]>([]);
+  const [serviceRadius, setServiceRadius] = useState(String(DEFAULT_SERVICE_RADIUS_KM));
+  // The guide profile being edited, which is not always keyed by the user's ID
+  const [guideId, setGuideId] = useState<string | null>(null);
+
+  const isGuide = isAuthorized(['tour_guide']);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const loadSchedule = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const profile = await availabilityService.getOwnGuideId(user.id);
+    if (!profile.success || !profile.data) {
+      toast.error(profile.error || 'Please create your guide profile before setting your availability');
+      setLoading(false);
+      return;
+    }
+
+    setGuideId(profile.data);
+    const [result, areasResult] = await Promise.all([
+      availabilityService.getSchedule(profile.data),
+      availabilityService.getServiceAreas(profile.data)
+    ]);
+    if (areasResult.success && areasResult.data) {
+      setServiceAreas(areasResult.data);
+    }
+    if (result.success && result.data) {
+      setWindows(result.data.rules.map(({ day_of_week, start_time, end_time, city }) => ({
+        day_of_week, start_time, end_time, city
+      })));
+      setBlackouts(result.data.blackouts);
+    } else {
+      toast.error(result.error || 'Failed to load your schedule');
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (user && isGuide) {
+      loadSchedule();
+    } else if (!authLoading) {
+      setLoading(false);
+    }
+  }, [user, authLoading, isGuide, loadSchedule]);
+
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    setWindows(current => current.map((window, i) => i === index ? { ...window, ...changes } : window));
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!guideId) return;
+
+    setSaving(true);
+    const result = await availabilityService.saveWeeklySchedule(guideId, windows);
+    setSaving(false);
+
+    if (result.success) {
+      toast.success('Weekly schedule saved');
+    } else {
+      toast.error(result.error || 'Failed to save schedule');
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    if (!guideId) return;
+
+    if (!newBlackout.date) {
+      toast.error('Please pick a date to block out');
+      return;
+    }
+
+    if (newBlackout.start_time && (!newBlackout.end_time || newBlackout.end_time <= newBlackout.start_time)) {
+      toast.error('Please enter an end time after the start time');
+      return;
+    }
+
+    const result = await availabilityService.addBlackout({
+      guide_id: guideId,
+      date: newBlackout.date,
+      start_time: newBlackout.start_time || null,
+      end_time: newBlackout.end_time || null,
+      reason: newBlackout.reason
+    });
+
+    if (result.success && result.data) {
+      setBlackouts(current => [...current, result.data as GuideBlackout].sort((a, b) => a.date.localeCompare(b.date)));
+      setNewBlackout({ date: '', start_time: '', end_time: '', reason: '' });
+      toast.success('Date blocked out');
+    } else {
+      toast.error(result.error || 'Failed to block out date');
+    }
+  };
+
+  const handleRemoveBlackout = async (blackoutId: string) => {
+    const result = await availabilityService.removeBlackout(blackoutId);
+    if (result.success) {
+      setBlackouts(current => current.filter(blackout => blackout.id !== blackoutId));
+    } else {
+      toast.error(result.error || 'Failed to remove blackout');
+    }
+  };
+
+  const handleAddServiceArea = async (landmark: Landmark) => {
+    if (!guideId) return;
+
+    const result = await availabilityService.addServiceArea({
+      guide_id: guideId,
+      attraction_id: landmark.id,
+      name: landmark.name,
+      latitude: landmark.coordinates.lat,
+      longitude: landmark.coordinates.lng,
+      radius_km: Number(serviceRadius)
+    });
+
+    if (result.success && result.data) {
+      setServiceAreas(current => [...current, result.data as GuideServiceArea]);
+      toast.success(`Added ${landmark.name} to your service areas`);
+    } else {
+      toast.error(result.error || 'Failed to add service area');
+    }
+  };
+
+  const handleRemoveServiceArea = async (areaId: string) => {
+    const result = await availabilityService.removeServiceArea(areaId);
+    if (result.success) {
+      setServiceAreas(current => current.filter(area => area.id !== areaId));
+    } else {
+      toast.error(result.error || 'Failed to remove service area');
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <>
+      <Helmet>
+        <title>My Availability | Incredible India</title>
+        <meta name="description" content="Set the days, times and places you are available to guide tours." />
+      </Helmet>
+
+      <div className="min-h-screen bg-background">
+        <Navbar />
+
+        <div className="container mx-auto px-4 pt-28 pb-12 max-w-4xl">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">My Availability</h1>
+            <p className="text-muted-foreground">
+              Travellers can only request tours inside these hours, and never over a tour you have already confirmed
+            </p>
+          </div>
+
+          {!isGuide ? (
+            <Card>
+              <CardContent className="py-12 text-center space-y-4">
+                <p className="text-muted-foreground">Only tour guides can set an availability schedule.</p>
+                <Button variant="outline" onClick={() => navigate('/dashboard')}>
+                  Back to Dashboard
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-8">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Weekly Schedule</CardTitle>
+                  <CardDescription>
+                    Add the hours you guide on each day and, if you travel, the city you are in
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {WEEK_ORDER.map(day => {
+                    const dayWindows = windows
+                      .map((window, index) => ({ window, index }))
+                      .filter(({ window }) => window.day_of_week === day);
+
+                    return (
+                      <div key={day} className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{WEEKDAY_LABELS[day]}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setWindows(current => [...current, { ...DEFAULT_WINDOW, day_of_week: day }])}
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add hours
+                          </Button>
+                        </div>
+
+                        {dayWindows.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">Not available</p>
+                        ) : (
+                          dayWindows.map(({ window, index }) => (
+                            <div key={index} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 items-center">
+                              <Input
+                                type="time"
+                                value={window.start_time}
+                                onChange={(e) => updateWindow(index, { start_time: e.target.value })}
+                                aria-label={`${WEEKDAY_LABELS[day]} start time`}
+                              />
+                              <Input
+                                type="time"
+                                value={window.end_time}
+                                onChange={(e) => updateWindow(index, { end_time: e.target.value })}
+                                aria-label={`${WEEKDAY_LABELS[day]} end time`}
+                              />
+                              <Input
+                                value={window.city || ''}
+                                onChange={(e) => updateWindow(index, { city: e.target.value })}
+                                placeholder="City (optional)"
+                              />
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setWindows(current => current.filter((_, i) => i !== index))}
+                                aria-label="Remove hours"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))
+                        )}
+                        <Separator />
+                      </div>
+                    );
+                  })}
+
+                  <Button onClick={handleSaveSchedule} disabled={saving || !guideId}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {saving ? 'Saving...' : 'Save Schedule'}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Blackout Dates</CardTitle>
+                  <CardDescription>
+                    Block out holidays or days you are already busy. Leave the times empty to block the whole day.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2">
+                    <Input
+                      type="date"
+                      value={newBlackout.date}
+                      min={getTourDate()}
+                      onChange={(e) => setNewBlackout({ ...newBlackout, date: e.target.value })}
+                      aria-label="Blackout date"
+                    />
+                    <Input
+                      type="time"
+                      value={newBlackout.start_time}
+                      onChange={(e) => setNewBlackout({ ...newBlackout, start_time: e.target.value })}
+                      aria-label="Blackout start time"
+                    />
+                    <Input
+                      type="time"
+                      value={newBlackout.end_time}
+                      onChange={(e) => setNewBlackout({ ...newBlackout, end_time: e.target.value })}
+                      aria-label="Blackout end time"
+                    />
+                    <Input
+                      value={newBlackout.reason}
+                      onChange={(e) => setNewBlackout({ ...newBlackout, reason: e.target.value })}
+                      placeholder="Reason (optional)"
+                    />
+                    <Button onClick={handleAddBlackout}>
+                      <CalendarOff className="h-4 w-4 mr-2" />
+                      Block
+                    </Button>
+                  </div>
+
+                  {blackouts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No upcoming blackout dates</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {blackouts.map(blackout => (
+                        <div key={blackout.id} className="flex items-center justify-between border rounded-md p-3 text-sm">
+                          <div>
+                            <p className="font-medium">
+                              {format(parseISO(blackout.date), 'EEEE, dd MMM yyyy')}
+                              {blackout.start_time
+                                ? ` · ${blackout.start_time.slice(0, 5)}–${blackout.end_time?.slice(0, 5)}`
+                                : ' · All day'}
+                            </p>
+                            {blackout.reason && <p className="text-muted-foreground">{blackout.reason}</p>}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => blackout.id && handleRemoveBlackout(blackout.id)}
+                            aria-label="Remove blackout"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Service Areas</CardTitle>
+                  <CardDescription>
+                    Add the monuments and attractions you guide at, and how far from them you will meet travellers.
+                    Travellers searching near these places will find you.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-2">
+                    <LandmarkSearch onSelect={handleAddServiceArea} placeholder="Search for an attraction to add" />
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={serviceRadius}
+                        onChange={(e) => setServiceRadius(e.target.value)}
+                        aria-label="Service radius in km"
+                      />
+                      <span className="text-sm text-muted-foreground shrink-0">km radius</span>
+                    </div>
+                  </div>
+
+                  {serviceAreas.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No service areas yet. You will not appear in nearby searches until you add one.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {serviceAreas.map(area => (
+                        <div key={area.id} className="flex items-center justify-between border rounded-md p-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            <MapPin className="h-4 w-4 text-primary" />
+                            <span className="font-medium">{area.name}</span>
+                            <span className="text-muted-foreground">· within {area.radius_km} km</span>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => area.id && handleRemoveServiceArea(area.id)}
+                            aria-label="Remove service area"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </>
+  );
+}
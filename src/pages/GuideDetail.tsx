@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
-import { getTourGuide, saveReview, getItemReviews, calculateAverageRating } from '@/lib/supabaseData';
+import { getTourGuide, getItemReviews, calculateAverageRating } from '@/lib/supabaseData';
 import type { Review } from '@/lib/supabaseData';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
@@ -10,6 +10,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   MapPin, Star, Languages, Clock, Award, 
   Heart, Share2, Phone, Mail, Calendar,
@@ -19,6 +20,15 @@ import { toast } from 'sonner';
 import LocationMap from '@/components/LocationMap';
 import ReviewCard from '@/components/ReviewCard';
 import ReviewForm from '@/components/ReviewForm';
+import GuideBookingForm from '@/components/GuideBookingForm';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  reviewService,
+  REVIEW_SORT_LABELS,
+  type ReviewableBooking,
+  type ReviewReply,
+  type ReviewSort
+} from '@/services/review.service';
 
 export default function GuideDetail() {
   const { guideId } = useParams<{ guideId: string }>();
@@ -29,7 +39,12 @@ export default function GuideDetail() {
   const [isFavorite, setIsFavorite] = useState(false);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [showReviewForm, setShowReviewForm] = useState(false);
+  const [reviewableBookings, setReviewableBookings] = useState<ReviewableBooking[]>([]);
+  const [replies, setReplies] = useState<Record<string, ReviewReply[]>>({});
+  const [votes, setVotes] = useState<Record<string, boolean>>({});
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
   const [avgRating, setAvgRating] = useState(0);
+  const [showBookingForm, setShowBookingForm] = useState(false);
 
   useEffect(() => {
     if (guideId) {
@@ -38,6 +53,41 @@ export default function GuideDetail() {
     }
   }, [guideId]);
 
+  const fetchReviewableBookings = useCallback(async () => {
+    if (!guideId || !user) return;
+
+    const result = await reviewService.getReviewableBookings('guide', guideId, user.id);
+    if (result.success && result.data) {
+      setReviewableBookings(result.data);
+    } else {
+      console.error('Error fetching bookings to review:', result.error);
+    }
+  }, [guideId, user]);
+
+  useEffect(() => {
+    if (guideId && user) {
+      fetchReviewableBookings();
+    } else {
+      setReviewableBookings([]);
+    }
+  }, [guideId, user, fetchReviewableBookings]);
+
+  const fetchVotes = useCallback(async () => {
+    if (!user || reviews.length === 0) {
+      setVotes({});
+      return;
+    }
+
+    const result = await reviewService.getUserVotes('guide', reviews.map(review => review.id), user.id);
+    if (result.success && result.data) {
+      setVotes(result.data);
+    }
+  }, [reviews, user]);
+
+  useEffect(() => {
+    fetchVotes();
+  }, [fetchVotes]);
+
   const fetchGuide = async () => {
     try {
       const guideData = await getTourGuide(guideId || '');
@@ -59,6 +109,11 @@ export default function GuideDetail() {
       if (guideId) {
         const guideReviews = await getItemReviews(guideId, 'guide');
         setReviews(guideReviews);
+
+        const repliesResult = await reviewService.getReplies('guide', guideReviews.map(review => review.id));
+        if (repliesResult.success && repliesResult.data) {
+          setReplies(repliesResult.data);
+        }
         
         // Calculate average rating
         const avg = await calculateAverageRating(guideId, 'guide');
@@ -87,48 +142,98 @@ export default function GuideDetail() {
       return;
     }
 
-    // In a real implementation, this would open a booking form
-    toast.success('Booking feature coming soon! For now, you can contact the guide directly.');
+    setShowBookingForm(true);
   };
 
-  const handleReviewSubmit = async (reviewData: { rating: number; title: string; comment: string }) => {
-    try {
-      if (!user || !guideId) return;
-      
-      const reviewId = `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      const review: Partial<Review> = {
-        id: reviewId,
-        guide_id: guideId,
-        user_id: user.id,
-        rating: reviewData.rating,
-        review_text: reviewData.comment,
-        created_at: new Date().toISOString()
-      };
-
-      const result = await saveReview(reviewId, review);
-      
-      if (result.success) {
-        toast.success('Review submitted successfully!');
-        setShowReviewForm(false);
-        fetchReviews(); // Refresh reviews
-        
-        // Update guide rating if needed
-        const newAvgRating = await calculateAverageRating(guideId, 'guide');
-        setAvgRating(newAvgRating);
-      } else {
-        throw new Error(result.error || 'Failed to submit review');
+  const handleReviewSubmit = async (reviewData: { rating: number; title: string; comment: string; bookingId?: string; photos: File[] }) => {
+    if (!user || !guideId) return;
+
+    let images: string[] = [];
+    if (reviewData.photos.length > 0) {
+      const upload = await reviewService.uploadReviewPhotos(user.id, reviewData.photos);
+      if (!upload.success) {
+        toast.error(upload.error || 'Failed to upload photos');
+        return;
       }
-    } catch (error: any) {
-      console.error('Review error:', error);
-      toast.error(error.message || 'Failed to submit review');
+      images = upload.data || [];
+    }
+
+    const result = await reviewService.submitReview({
+      type: 'guide',
+      listingId: guideId,
+      userId: user.id,
+      rating: reviewData.rating,
+      title: reviewData.title,
+      comment: reviewData.comment,
+      bookingId: reviewData.bookingId,
+      images
+    });
+
+    if (result.success) {
+      toast.success(result.data?.is_verified ? 'Verified review submitted!' : 'Review submitted successfully!');
+      setShowReviewForm(false);
+      fetchReviews(); // Refresh reviews and average rating
+      fetchReviewableBookings();
+    } else {
+      toast.error(result.error || 'Failed to submit review');
+    }
+  };
+
+  const handleReply = async (reviewId: string, text: string) => {
+    if (!user) return false;
+
+    const result = await reviewService.addReply('guide', reviewId, user.id, text);
+    if (result.success && result.data) {
+      const reply = result.data;
+      setReplies(current => ({ ...current, [reviewId]: [...(current[reviewId] || []), reply] }));
+      toast.success('Reply posted');
+      return true;
+    }
+
+    toast.error(result.error || 'Failed to post reply');
+    return false;
+  };
+
+  const handleReport = async (reviewId: string, reason: string) => {
+    if (!user) return false;
+
+    const result = await reviewService.reportReview('guide', reviewId, user.id, reason);
+    if (result.success) {
+      toast.success('Thanks for letting us know. Our team will review it.');
+      return true;
     }
+
+    toast.error(result.error || 'Failed to report review');
+    return false;
   };
 
-  const handleHelpfulClick = async (reviewId: string, increment: number) => {
-    // In a real implementation, we would track which users found reviews helpful
-    // For now, we'll just update the count
-    toast.success('Thanks for your feedback!');
+  const handleVote = async (reviewId: string, isHelpful: boolean | null) => {
+    if (!user) return;
+
+    const previous = votes[reviewId] ?? null;
+    const applyVote = (from: boolean | null, to: boolean | null) => {
+      const change = reviewService.getHelpfulCountChange(from, to);
+      setVotes(current => {
+        const next = { ...current };
+        if (to === null) {
+          delete next[reviewId];
+        } else {
+          next[reviewId] = to;
+        }
+        return next;
+      });
+      setReviews(current => current.map(review =>
+        review.id === reviewId ? { ...review, helpful_count: Math.max((review.helpful_count || 0) + change, 0) } : review
+      ));
+    };
+
+    // Update straight away and roll back if the vote cannot be saved
+    applyVote(previous, isHelpful);
+    const result = await reviewService.setVote('guide', reviewId, user.id, isHelpful);
+    if (!result.success) {
+      applyVote(isHelpful, previous);
+      toast.error(result.error || 'Failed to save your vote');
+    }
   };
 
   if (loading) {
@@ -338,8 +443,20 @@ export default function GuideDetail() {
 
             {/* Reviews Section */}
             <Card className="mb-8">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle>Reviews</CardTitle>
+                {reviews.length > 1 && (
+                  <Select value={reviewSort} onValueChange={(value) => setReviewSort(value as ReviewSort)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(REVIEW_SORT_LABELS) as ReviewSort[]).map(sort => (
+                        <SelectItem key={sort} value={sort}>{REVIEW_SORT_LABELS[sort]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </CardHeader>
               <CardContent>
                 {user && !showReviewForm && (
@@ -355,6 +472,7 @@ export default function GuideDetail() {
                     <ReviewForm
                       itemId={guideId || ''}
                       itemType="guide"
+                      bookings={reviewableBookings}
                       onSubmit={handleReviewSubmit}
                       onCancel={() => setShowReviewForm(false)}
                     />
@@ -363,11 +481,16 @@ export default function GuideDetail() {
 
                 {reviews.length > 0 ? (
                   <div>
-                    {reviews.map((review) => (
+                    {reviewService.sortReviews(reviews, reviewSort).map((review) => (
                       <ReviewCard
                         key={review.id}
                         review={review}
-                        onHelpful={handleHelpfulClick}
+                        replies={replies[review.id]}
+                        canReply={!!user && user.id === guideId}
+                        userVote={votes[review.id] ?? null}
+                        onVote={handleVote}
+                        onReply={handleReply}
+                        onReport={handleReport}
                       />
                     ))}
                   </div>
@@ -485,6 +608,26 @@ export default function GuideDetail() {
         </div>
       </div>
 
+      <Dialog open={showBookingForm} onOpenChange={setShowBookingForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Book a Tour with {guide.full_name}</DialogTitle>
+            <DialogDescription>
+              Choose a date, start time and duration. The guide will confirm your request.
+            </DialogDescription>
+          </DialogHeader>
+          <GuideBookingForm
+            guideId={guideId || ''}
+            guideName={guide.full_name}
+            guideEmail={guide.email}
+            hourlyRate={guide.hourly_rate}
+            defaultLocation={guide.city}
+            onBooked={() => setShowBookingForm(false)}
+            onCancel={() => setShowBookingForm(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
       <Footer />
     </div>
   );
@@ -1,7 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '@/lib/auth';
-import { getAllTourGuides, searchTourGuides, TourGuide } from '@/lib/supabaseData';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { Button } from '@/components/ui/button';
@@ -10,101 +8,185 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Search, MapPin, Star, Languages, Clock, Filter, X, User, Briefcase } from 'lucide-react';
+import { Search, MapPin, Filter, X, User, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
 import LocationMap from '@/components/LocationMap';
+import SaveSearchDialog from '@/components/SaveSearchDialog';
+import GuideProfileCard from '@/components/GuideProfileCard';
+import NearbyFilter from '@/components/NearbyFilter';
+import { searchEngine, getNearbyOrigin, NearbyOrigin, SearchQuery, SortOption, GuideSearchResult } from '@/services/search.service';
+import { useSearchTracking } from '@/hooks/useSearchTracking';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useSearchQueryParams } from '@/hooks/useSearchQueryParams';
+
+const PAGE_SIZE = 50;
+// Deepest page a shared link loads in one go
+const MAX_RESTORED_PAGES = 10;
 
 export default function GuideDirectory() {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [guides, setGuides] = useState<TourGuide[]>([]);
-  const [filteredGuides, setFilteredGuides] = useState<TourGuide[]>([]);
-  const [sortedGuides, setSortedGuides] = useState<TourGuide[]>([]);
+  const [guides, setGuides] = useState<GuideSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState({
-    city: '',
-    language: '',
-    minRating: '',
-    maxPrice: ''
-  });
-  const [sortOption, setSortOption] = useState('rating');
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const { query, searchKey, updateQuery, setPage } = useSearchQueryParams({ sort: 'rating', limit: PAGE_SIZE });
+  const { trackSearch, trackClick } = useSearchTracking('guides');
+  // Incremented by every new search so pages of an older one are dropped
+  const searchRequest = useRef(0);
+  const pagesLoaded = useRef(0);
 
-  useEffect(() => {
-    fetchGuides();
-  }, []);
+  // The search lives in the URL so it can be shared and restored with back and forward
+  const searchQuery = query.text ?? '';
+  const filters = {
+    city: query.location.city ?? '',
+    language: query.filters.languages?.[0] ?? '',
+    minRating: query.filters.minRating?.toString() ?? '',
+    maxPrice: query.filters.maxHourlyRate?.toString() ?? ''
+  };
+  const sortOption = query.sort;
+  const nearby = getNearbyOrigin(query.location);
 
   useEffect(() => {
-    applyFilters();
-  }, [searchQuery, filters]);
+    fetchGuides();
+  }, [searchKey]);
 
-  useEffect(() => {
-    sortGuides();
-  }, [filteredGuides, sortOption]);
+  const buildQuery = (cursor?: string): SearchQuery => {
+    const { limit } = query.pagination;
+    const pages = Math.min(query.pagination.page, MAX_RESTORED_PAGES);
+    return {
+      ...query,
+      pagination: cursor
+        ? { page: 1, limit, cursor }
+        : { page: 1, limit: limit * pages, cursor: query.pagination.cursor }
+    };
+  };
 
   const fetchGuides = async () => {
+    const request = ++searchRequest.current;
     try {
-      const guideData = await getAllTourGuides();
-      setGuides(guideData);
-      setFilteredGuides(guideData);
+      const response = await searchEngine.searchGuides(buildQuery());
+      if (request !== searchRequest.current) return;
+
+      if (response.success && response.data) {
+        const resultCount = response.totalCount ?? response.data.length;
+        pagesLoaded.current = Math.min(query.pagination.page, MAX_RESTORED_PAGES);
+        setGuides(response.data);
+        setTotalCount(resultCount);
+        setNextCursor(response.nextCursor);
+        trackSearch({
+          text: searchQuery,
+          city: filters.city || undefined,
+          filters: {
+            language: filters.language,
+            minRating: filters.minRating,
+            maxPrice: filters.maxPrice,
+            near: nearby?.label,
+            radius: nearby?.radius
+          },
+          resultCount
+        });
+      } else {
+        console.error('Error fetching guides:', response.error);
+        toast.error('Failed to load guides');
+        setGuides([]);
+        setTotalCount(0);
+        setNextCursor(undefined);
+      }
     } catch (error) {
       console.error('Error fetching guides:', error);
+      toast.error('Failed to load guides');
     } finally {
-      setLoading(false);
+      if (request === searchRequest.current) {
+        setLoading(false);
+      }
     }
   };
 
-  const applyFilters = async () => {
-    // Use server-side search instead of client-side filtering
+  const loadMoreGuides = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const request = searchRequest.current;
+    setLoadingMore(true);
     try {
-      const results = await searchTourGuides(searchQuery, {
-        city: filters.city || undefined,
-        language: filters.language || undefined,
-        minRating: filters.minRating ? parseFloat(filters.minRating) : undefined,
-        maxPrice: filters.maxPrice ? parseFloat(filters.maxPrice) : undefined
-      });
-      setFilteredGuides(results);
+      const response = await searchEngine.searchGuides(buildQuery(nextCursor));
+      if (request !== searchRequest.current) return;
+
+      if (response.success && response.data) {
+        const page = response.data;
+        setGuides(prev => {
+          const shown = new Set(prev.map(guide => guide.id));
+          return [...prev, ...page.filter(guide => !shown.has(guide.id))];
+        });
+        setNextCursor(response.nextCursor);
+        setPage(++pagesLoaded.current);
+      } else {
+        console.error('Error loading more guides:', response.error);
+        toast.error('Failed to load more guides');
+        setNextCursor(undefined);
+      }
     } catch (error) {
-      console.error('Error applying filters:', error);
-      setFilteredGuides(guides);
+      console.error('Error loading more guides:', error);
+      setNextCursor(undefined);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
-  const sortGuides = () => {
-    const sorted = [...filteredGuides];
-    
-    switch (sortOption) {
-      case 'price-low':
-        sorted.sort((a, b) => (a.hourly_rate || 0) - (b.hourly_rate || 0));
-        break;
-      case 'price-high':
-        sorted.sort((a, b) => (b.hourly_rate || 0) - (a.hourly_rate || 0));
-        break;
-      case 'rating':
-        sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
-        break;
-      case 'experience':
-        sorted.sort((a, b) => (b.years_of_experience || 0) - (a.years_of_experience || 0));
-        break;
-      default:
-        sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
-    }
-    
-    setSortedGuides(sorted);
+  const loadMoreRef = useInfiniteScroll(loadMoreGuides, !!nextCursor);
+
+  // Picking a place switches to nearest first; clearing it drops the distance sort
+  const handleNearbyChange = (origin: NearbyOrigin | null) => {
+    updateQuery(current => {
+      let sort = current.sort;
+      if (origin && !current.location.coordinates) {
+        sort = 'distance';
+      } else if (!origin && sort === 'distance') {
+        sort = 'rating';
+      }
+      return {
+        ...current,
+        location: { ...current.location, coordinates: origin?.coordinates, radius: origin?.radius, label: origin?.label },
+        sort
+      };
+    });
+  };
+
+  // Typing replaces the history entry, so back skips whole words rather than keystrokes
+  const handleSearchChange = (text: string) => {
+    updateQuery(current => ({ ...current, text: text || undefined }), !!searchQuery && !!text);
   };
 
-  const handleFilterChange = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+  const handleFilterChange = (key: keyof typeof filters, value: string) => {
+    const typed = key === 'city' || key === 'maxPrice';
+    updateQuery(current => {
+      const next = { ...current, location: { ...current.location }, filters: { ...current.filters } };
+      if (key === 'city') next.location.city = value || undefined;
+      if (key === 'language') next.filters.languages = value ? [value] : undefined;
+      if (key === 'minRating') next.filters.minRating = value ? parseFloat(value) : undefined;
+      if (key === 'maxPrice') next.filters.maxHourlyRate = value ? parseFloat(value) : undefined;
+      return next;
+    }, typed && !!filters[key] && !!value);
+  };
+
+  const handleSortChange = (sort: SortOption) => {
+    updateQuery(current => ({ ...current, sort }));
   };
 
   const clearFilters = () => {
-    setFilters({
-      city: '',
-      language: '',
-      minRating: '',
-      maxPrice: ''
-    });
-    setSearchQuery('');
+    updateQuery(current => ({
+      ...current,
+      text: undefined,
+      location: {},
+      filters: {},
+      sort: current.sort === 'distance' ? 'rating' : current.sort
+    }));
+  };
+
+  const handleViewDetails = (guideId: string) => {
+    trackClick('guide', guideId);
+    navigate(`/guides/${guideId}`);
   };
 
   const commonLanguages = [
@@ -163,7 +245,7 @@ export default function GuideDirectory() {
                 <Input
                   placeholder="Search guides, cities, monuments..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10"
                 />
               </div>
@@ -175,8 +257,11 @@ export default function GuideDirectory() {
                 <Filter className="h-4 w-4" />
                 Filters
               </Button>
+              <SaveSearchDialog type="guides" query={query} />
             </div>
 
+            <NearbyFilter value={nearby} onChange={handleNearbyChange} />
+
             {showFilters && (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-4 pt-4 border-t">
                 <div>
@@ -232,7 +317,7 @@ export default function GuideDirectory() {
                 {searchQuery && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     Search: {searchQuery}
-                    <button onClick={() => setSearchQuery('')}>
+                    <button onClick={() => handleSearchChange('')}>
                       <X className="h-3 w-3" />
                     </button>
                   </Badge>
@@ -308,14 +393,16 @@ export default function GuideDirectory() {
           <div className="md:w-3/5 lg:w-2/3">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-display font-bold">
-                {sortedGuides.length} {sortedGuides.length === 1 ? 'Guide' : 'Guides'} Available
+                {totalCount} {totalCount === 1 ? 'Guide' : 'Guides'} Available
               </h2>
-              <Select value={sortOption} onValueChange={setSortOption}>
+              <Select value={sortOption} onValueChange={(value) => handleSortChange(value as SortOption)}>
                 <SelectTrigger className="w-40">
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
+                  {nearby && <SelectItem value="distance">Nearest First</SelectItem>}
                   <SelectItem value="rating">Highest Rated</SelectItem>
+                  <SelectItem value="popularity">Most Reviewed</SelectItem>
                   <SelectItem value="price-low">Price: Low to High</SelectItem>
                   <SelectItem value="price-high">Price: High to Low</SelectItem>
                   <SelectItem value="experience">Most Experienced</SelectItem>
@@ -323,7 +410,7 @@ export default function GuideDirectory() {
               </Select>
             </div>
 
-            {sortedGuides.length === 0 ? (
+            {guides.length === 0 ? (
               <Card className="text-center py-12">
                 <User className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-xl font-medium mb-2">No verified guides found</h3>
@@ -332,110 +419,21 @@ export default function GuideDirectory() {
               </Card>
             ) : (
               <div className="grid grid-cols-1 gap-6">
-                {sortedGuides.map((guide) => (
-                  <Card key={guide.id} className="overflow-hidden hover:shadow-lg transition-shadow">
-                    <div className="flex flex-col md:flex-row">
-                      <div className="md:w-1/3">
-                        {guide.profile_photo ? (
-                          <img
-                            src={guide.profile_photo}
-                            alt={guide.full_name}
-                            className="h-48 w-full object-cover"
-                          />
-                        ) : (
-                          <div className="h-48 w-full bg-muted flex items-center justify-center">
-                            <User className="h-12 w-12 text-muted-foreground" />
-                          </div>
-                        )}
-                      </div>
-                      <div className="md:w-2/3">
-                        <CardContent className="p-6">
-                          <div className="flex justify-between items-start mb-2">
-                            <div>
-                              <h3 className="text-xl font-display font-bold">{guide.full_name}</h3>
-                              <p className="text-muted-foreground flex items-center gap-1">
-                                <MapPin className="h-4 w-4" />
-                                {guide.city}, {guide.state}
-                              </p>
-                            </div>
-                            <Badge variant="secondary">
-                              <Briefcase className="h-3 w-3 mr-1" />
-                              Verified Guide
-                            </Badge>
-                          </div>
-
-                          <div className="flex items-center gap-2 mb-3">
-                            <div className="flex items-center">
-                              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                              <span className="ml-1 font-medium">{guide.rating?.toFixed(1) || 'N/A'}</span>
-                            </div>
-                            <span className="text-muted-foreground">•</span>
-                            <span className="text-muted-foreground">
-                              {guide.years_of_experience || 0} {guide.years_of_experience === 1 ? 'year' : 'years'} experience
-                            </span>
-                          </div>
-
-                          <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
-                            {guide.short_bio || 'No bio available'}
-                          </p>
-
-                          <div className="flex flex-wrap gap-2 mb-4">
-                            <div className="flex items-center gap-1">
-                              <Languages className="h-4 w-4 text-muted-foreground" />
-                              <span className="text-sm">
-                                {guide.languages_spoken?.slice(0, 2).join(', ') || 'Not specified'}
-                                {guide.languages_spoken && guide.languages_spoken.length > 2 && ` +${guide.languages_spoken.length - 2}`}
-                              </span>
-                            </div>
-                            <span className="text-muted-foreground">•</span>
-                            <div className="flex items-center gap-1">
-                              <Clock className="h-4 w-4 text-muted-foreground" />
-                              <span className="text-sm">
-                                ₹{guide.hourly_rate || 'N/A'}/hour
-                              </span>
-                            </div>
-                          </div>
-
-                          {guide.nearby_monuments && guide.nearby_monuments.length > 0 && (
-                            <div className="mb-4">
-                              <p className="text-sm font-medium mb-1">Specializes in:</p>
-                              <div className="flex flex-wrap gap-1">
-                                {guide.nearby_monuments.slice(0, 3).map((monument, index) => (
-                                  <Badge key={index} variant="outline" className="text-xs">
-                                    {monument}
-                                  </Badge>
-                                ))}
-                                {guide.nearby_monuments.length > 3 && (
-                                  <Badge variant="outline" className="text-xs">
-                                    +{guide.nearby_monuments.length - 3} more
-                                  </Badge>
-                                )}
-                              </div>
-                            </div>
-                          )}
-
-                          <div className="flex flex-wrap items-center justify-between gap-4">
-                            <div>
-                              {guide.certifications && guide.certifications.length > 0 && (
-                                <p className="text-sm text-green-600">
-                                  ✓ Certified Guide
-                                </p>
-                              )}
-                            </div>
-                            <Button 
-                              onClick={() => navigate(`/guides/${guide.id}`)}
-                              variant="saffron"
-                            >
-                              View Profile
-                            </Button>
-                          </div>
-                        </CardContent>
-                      </div>
-                    </div>
-                  </Card>
+                {guides.map((guide) => (
+                  <GuideProfileCard
+                    key={guide.id}
+                    guide={guide}
+                    onViewDetails={handleViewDetails}
+                  />
                 ))}
               </div>
             )}
+
+            {nextCursor && (
+              <div ref={loadMoreRef} className="flex justify-center py-6">
+                {loadingMore && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+              </div>
+            )}
           </div>
         </div>
       </div>
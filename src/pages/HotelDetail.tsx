@@ -1,25 +1,44 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
-import { getHotel, saveBooking, getItemReviews, calculateAverageRating, saveReview, Hotel } from '@/lib/supabaseData';
+import { getHotel, getItemReviews, calculateAverageRating, Hotel } from '@/lib/supabaseData';
 import { emailService } from '@/lib/emailService';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { 
   Bed, MapPin, Star, Phone, Mail, Check, Calendar,
   Wifi, Car, Utensils, Dumbbell, Waves, Shield, Clock,
-  Heart, Share2, Users, Bath
+  Heart, Share2, Users, Bath, Camera
 } from 'lucide-react';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import LocationMap from '@/components/LocationMap';
 import ReviewCard from '@/components/ReviewCard';
 import ReviewForm from '@/components/ReviewForm';
-import type { Review, Booking } from '@/lib/supabaseData';
+import PhotoLightbox from '@/components/PhotoLightbox';
+import RoomAvailabilityCalendar from '@/components/RoomAvailabilityCalendar';
+import { bookingService } from '@/services/booking.service';
+import {
+  inventoryService,
+  type RoomAvailabilityCalendar as AvailabilityCalendar,
+  type RoomType
+} from '@/services/inventory.service';
+import {
+  reviewService,
+  REVIEW_SORT_LABELS,
+  type ReviewableBooking,
+  type ReviewReply,
+  type ReviewSort
+} from '@/services/review.service';
+import type { Review } from '@/lib/supabaseData';
+
+// How far ahead the availability calendar looks
+const AVAILABILITY_WINDOW_DAYS = 90;
 
 export default function HotelDetail() {
   const { hotelId } = useParams<{ hotelId: string }>();
@@ -34,15 +53,88 @@ export default function HotelDetail() {
   const [rooms, setRooms] = useState(1);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [showReviewForm, setShowReviewForm] = useState(false);
+  const [reviewableBookings, setReviewableBookings] = useState<ReviewableBooking[]>([]);
+  const [replies, setReplies] = useState<Record<string, ReviewReply[]>>({});
+  const [votes, setVotes] = useState<Record<string, boolean>>({});
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
+  const [guestPhotoIndex, setGuestPhotoIndex] = useState<number | null>(null);
   const [avgRating, setAvgRating] = useState(0);
+  const [roomTypes, setRoomTypes] = useState<RoomType[]>([]);
+  const [selectedRoomTypeId, setSelectedRoomTypeId] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<Record<string, AvailabilityCalendar>>({});
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (hotelId) {
       fetchHotel();
       fetchReviews();
+      fetchRoomInventory();
     }
   }, [hotelId]);
 
+  const fetchReviewableBookings = useCallback(async () => {
+    if (!hotelId || !user) return;
+
+    const result = await reviewService.getReviewableBookings('hotel', hotelId, user.id);
+    if (result.success && result.data) {
+      setReviewableBookings(result.data);
+    } else {
+      console.error('Error fetching bookings to review:', result.error);
+    }
+  }, [hotelId, user]);
+
+  useEffect(() => {
+    if (hotelId && user) {
+      fetchReviewableBookings();
+    } else {
+      setReviewableBookings([]);
+    }
+  }, [hotelId, user, fetchReviewableBookings]);
+
+  const fetchVotes = useCallback(async () => {
+    if (!user || reviews.length === 0) {
+      setVotes({});
+      return;
+    }
+
+    const result = await reviewService.getUserVotes('hotel', reviews.map(review => review.id), user.id);
+    if (result.success && result.data) {
+      setVotes(result.data);
+    }
+  }, [reviews, user]);
+
+  useEffect(() => {
+    fetchVotes();
+  }, [fetchVotes]);
+
+  const fetchRoomInventory = async () => {
+    if (!hotelId) return;
+
+    const roomResult = await inventoryService.getRoomTypes(hotelId);
+    if (!roomResult.success || !roomResult.data) {
+      console.error('Error fetching room types:', roomResult.error);
+      return;
+    }
+
+    setRoomTypes(roomResult.data);
+    setSelectedRoomTypeId(current => current || roomResult.data?.[0]?.id || null);
+
+    const from = new Date();
+    const to = new Date();
+    to.setDate(to.getDate() + AVAILABILITY_WINDOW_DAYS);
+    const availabilityResult = await inventoryService.getAvailability(
+      roomResult.data,
+      from.toISOString().split('T')[0],
+      to.toISOString().split('T')[0]
+    );
+
+    if (availabilityResult.success && availabilityResult.data) {
+      setAvailability(availabilityResult.data);
+    } else {
+      console.error('Error fetching availability:', availabilityResult.error);
+    }
+  };
+
   const fetchHotel = async () => {
     try {
       const hotelData = await getHotel(hotelId || '');
@@ -72,6 +164,11 @@ export default function HotelDetail() {
       if (hotelId) {
         const hotelReviews = await getItemReviews(hotelId, 'hotel');
         setReviews(hotelReviews);
+
+        const repliesResult = await reviewService.getReplies('hotel', hotelReviews.map(review => review.id));
+        if (repliesResult.success && repliesResult.data) {
+          setReplies(repliesResult.data);
+        }
         
         // Calculate average rating
         const avg = await calculateAverageRating(hotelId, 'hotel');
@@ -94,112 +191,169 @@ export default function HotelDetail() {
       return;
     }
 
+    if (inventoryService.getStayNights(checkInDate, checkOutDate).length === 0) {
+      toast.error('Check-out must be after check-in');
+      return;
+    }
+
+    if (!selectedRoom) {
+      toast.error('Please select a room type');
+      return;
+    }
+
+    if (guests > selectedRoom.capacity * rooms) {
+      toast.error(`${rooms} ${selectedRoom.name} room${rooms > 1 ? 's' : ''} sleep${rooms > 1 ? '' : 's'} up to ${selectedRoom.capacity * rooms} guests`);
+      return;
+    }
+
+    if (!stayAvailability.available) {
+      toast.error(`${selectedRoom.name} is sold out for the selected dates`);
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await bookingService.createHotelBooking({
+      roomTypeId: selectedRoom.id,
+      userId: user.id,
+      checkIn: checkInDate,
+      checkOut: checkOutDate,
+      rooms,
+      guests
+    });
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to create booking');
+      // Someone else may have taken the last rooms, so refresh the calendar
+      fetchRoomInventory();
+      return;
+    }
+
+    const bookedTotal = result.data.total_cost || totalPrice;
+
+    // The booking is only a request until the hotel accepts it, which sends the confirmation
+    const reference = result.data.booking_reference || '';
+    const stayDates = `${checkInDate} to ${checkOutDate}`;
     try {
-      const bookingId = `booking_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const totalPrice = hotel?.price_per_night_min ? hotel.price_per_night_min * rooms * calculateNights() : 0;
-      
-      const bookingData: Partial<Booking> = {
-        id: bookingId,
-        hotel_id: hotelId || '',
-        user_id: user.id,
-        guest_name: user.username,
-        guest_email: user.email,
-        check_in_date: checkInDate,
-        check_out_date: checkOutDate,
-        guests: guests,
-        rooms: rooms,
-        total_price: totalPrice,
-        status: 'pending',
-        special_requests: '',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      const result = await saveBooking(bookingId, bookingData);
-      
-      if (result.success) {
-        // Send booking confirmation email
-        try {
-          if (hotel && user) {
-            await emailService.sendBookingConfirmation(
-              user.email,
-              user.username,
-              hotel.name,
-              checkInDate,
-              checkOutDate,
-              totalPrice
-            );
-            
-            // Also send confirmation to hotel manager
-            await emailService.sendBookingConfirmation(
-              hotel.contact_email,
-              hotel.contact_email, // Using email as name since we don't have owner name
-              hotel.name,
-              checkInDate,
-              checkOutDate,
-              totalPrice
-            );
-          }
-        } catch (emailError) {
-          console.error('Failed to send booking confirmation email:', emailError);
-          // Don't throw error for email failure, just log it
+      if (hotel) {
+        await emailService.sendBookingRequestReceived(
+          user.email,
+          user.user_metadata?.full_name || user.email,
+          hotel.name,
+          reference,
+          stayDates,
+          bookedTotal
+        );
+
+        // Let the hotel manager know there is a request to answer
+        if (hotel.email) {
+          await emailService.sendNewBookingRequestToProvider(
+            hotel.email,
+            hotel.name,
+            reference,
+            stayDates,
+            bookedTotal
+          );
         }
-        
-        toast.success('Booking request submitted successfully!');
-        navigate('/profile');
-      } else {
-        throw new Error(result.error || 'Failed to create booking');
       }
-    } catch (error: any) {
-      console.error('Booking error:', error);
-      toast.error(error.message || 'Failed to create booking');
+    } catch (emailError) {
+      console.error('Failed to send booking request emails:', emailError);
+      // Don't throw error for email failure, just log it
     }
+
+    toast.success(`Booking request submitted! Your reference is ${result.data.booking_reference}`);
+    navigate('/profile');
   };
 
-  const handleReviewSubmit = async (reviewData: { rating: number; title: string; comment: string }) => {
-    try {
-      if (!user || !hotelId) return;
-      
-      const reviewId = `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      const review: Partial<Review> = {
-        id: reviewId,
-        item_id: hotelId,
-        item_type: 'hotel',
-        user_id: user.id,
-        rating: reviewData.rating,
-        title: reviewData.title,
-        comment: reviewData.comment,
-        helpful_count: 0,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      const result = await saveReview(reviewId, review);
-      
-      if (result.success) {
-        toast.success('Review submitted successfully!');
-        setShowReviewForm(false);
-        fetchReviews(); // Refresh reviews
-        
-        // Update hotel rating if needed
-        if (hotel) {
-          const newAvgRating = await calculateAverageRating(hotelId, 'hotel');
-          setAvgRating(newAvgRating);
-        }
-      } else {
-        throw new Error(result.error || 'Failed to submit review');
+  const handleReviewSubmit = async (reviewData: { rating: number; title: string; comment: string; bookingId?: string; photos: File[] }) => {
+    if (!user || !hotelId) return;
+
+    let images: string[] = [];
+    if (reviewData.photos.length > 0) {
+      const upload = await reviewService.uploadReviewPhotos(user.id, reviewData.photos);
+      if (!upload.success) {
+        toast.error(upload.error || 'Failed to upload photos');
+        return;
       }
-    } catch (error: any) {
-      console.error('Review error:', error);
-      toast.error(error.message || 'Failed to submit review');
+      images = upload.data || [];
+    }
+
+    const result = await reviewService.submitReview({
+      type: 'hotel',
+      listingId: hotelId,
+      userId: user.id,
+      rating: reviewData.rating,
+      title: reviewData.title,
+      comment: reviewData.comment,
+      bookingId: reviewData.bookingId,
+      images
+    });
+
+    if (result.success) {
+      toast.success(result.data?.is_verified ? 'Verified review submitted!' : 'Review submitted successfully!');
+      setShowReviewForm(false);
+      fetchReviews(); // Refresh reviews and average rating
+      fetchReviewableBookings();
+    } else {
+      toast.error(result.error || 'Failed to submit review');
+    }
+  };
+
+  const handleReply = async (reviewId: string, text: string) => {
+    if (!user) return false;
+
+    const result = await reviewService.addReply('hotel', reviewId, user.id, text);
+    if (result.success && result.data) {
+      const reply = result.data;
+      setReplies(current => ({ ...current, [reviewId]: [...(current[reviewId] || []), reply] }));
+      toast.success('Reply posted');
+      return true;
+    }
+
+    toast.error(result.error || 'Failed to post reply');
+    return false;
+  };
+
+  const handleReport = async (reviewId: string, reason: string) => {
+    if (!user) return false;
+
+    const result = await reviewService.reportReview('hotel', reviewId, user.id, reason);
+    if (result.success) {
+      toast.success('Thanks for letting us know. Our team will review it.');
+      return true;
     }
+
+    toast.error(result.error || 'Failed to report review');
+    return false;
   };
 
-  const handleHelpfulClick = async (reviewId: string, increment: number) => {
-    // In a real implementation, we would track which users found reviews helpful
-    // For now, we'll just update the count
-    toast.success('Thanks for your feedback!');
+  const handleVote = async (reviewId: string, isHelpful: boolean | null) => {
+    if (!user) return;
+
+    const previous = votes[reviewId] ?? null;
+    const applyVote = (from: boolean | null, to: boolean | null) => {
+      const change = reviewService.getHelpfulCountChange(from, to);
+      setVotes(current => {
+        const next = { ...current };
+        if (to === null) {
+          delete next[reviewId];
+        } else {
+          next[reviewId] = to;
+        }
+        return next;
+      });
+      setReviews(current => current.map(review =>
+        review.id === reviewId ? { ...review, helpful_count: Math.max((review.helpful_count || 0) + change, 0) } : review
+      ));
+    };
+
+    // Update straight away and roll back if the vote cannot be saved
+    applyVote(previous, isHelpful);
+    const result = await reviewService.setVote('hotel', reviewId, user.id, isHelpful);
+    if (!result.success) {
+      applyVote(isHelpful, previous);
+      toast.error(result.error || 'Failed to save your vote');
+    }
   };
 
   const calculateNights = () => {
@@ -212,7 +366,13 @@ export default function HotelDetail() {
   };
 
   const nights = calculateNights();
-  const totalPrice = hotel?.price_per_night_min ? hotel.price_per_night_min * rooms * nights : 0;
+  const selectedRoom = roomTypes.find(room => room.id === selectedRoomTypeId) || null;
+  const guestPhotos = reviewService.collectReviewPhotos(reviews);
+  const startingRate = roomTypes.length > 0 ? Math.min(...roomTypes.map(room => room.nightly_rate)) : 0;
+  const totalPrice = selectedRoom ? inventoryService.calculateStayCost(selectedRoom.nightly_rate, rooms, nights) : 0;
+  const stayAvailability = selectedRoom
+    ? inventoryService.checkStay(availability[selectedRoom.id] || {}, checkInDate, checkOutDate, rooms)
+    : { available: false, availableUnits: 0, soldOutDates: [] };
 
   const getHotelTypeLabel = (type: string) => {
     switch (type) {
@@ -421,20 +581,57 @@ export default function HotelDetail() {
                 <CardTitle>Room Options</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {hotel.room_types.map((room, index) => (
-                    <div key={index} className="flex items-center justify-between p-4 border rounded-lg">
-                      <div>
-                        <h3 className="font-medium">{room.name}</h3>
-                        <p className="text-sm text-muted-foreground">₹{room.price} per night</p>
-                        <p className="text-sm text-muted-foreground">{room.availability} rooms available</p>
+                {roomTypes.length === 0 ? (
+                  <p className="text-muted-foreground">Room details have not been added for this hotel yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {roomTypes.map(room => {
+                      const roomStay = inventoryService.checkStay(availability[room.id] || {}, checkInDate, checkOutDate, rooms);
+                      const isSelected = room.id === selectedRoomTypeId;
+
+                      return (
+                        <div
+                          key={room.id}
+                          className={`flex items-center justify-between p-4 border rounded-lg ${isSelected ? 'border-primary bg-primary/5' : ''}`}
+                        >
+                          <div>
+                            <h3 className="font-medium">{room.name}</h3>
+                            <p className="text-sm text-muted-foreground">₹{room.nightly_rate} per night · Sleeps {room.capacity}</p>
+                            <p className={`text-sm ${roomStay.available ? 'text-muted-foreground' : 'text-red-600'}`}>
+                              {roomStay.available
+                                ? `${roomStay.availableUnits} room${roomStay.availableUnits === 1 ? '' : 's'} available for your dates`
+                                : 'Sold out for your dates'}
+                            </p>
+                          </div>
+                          <Button
+                            variant={isSelected ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setSelectedRoomTypeId(room.id)}
+                          >
+                            {isSelected ? 'Selected' : 'Select Room'}
+                          </Button>
+                        </div>
+                      );
+                    })}
+
+                    {selectedRoom && (
+                      <div className="pt-2">
+                        <h4 className="font-medium mb-3">{selectedRoom.name} Availability</h4>
+                        <RoomAvailabilityCalendar
+                          roomType={selectedRoom}
+                          calendar={availability[selectedRoom.id] || {}}
+                          rooms={rooms}
+                          checkIn={checkInDate}
+                          checkOut={checkOutDate}
+                          onRangeChange={(checkIn, checkOut) => {
+                            setCheckInDate(checkIn);
+                            setCheckOutDate(checkOut);
+                          }}
+                        />
                       </div>
-                      <Button variant="outline" size="sm">
-                        Select Room
-                      </Button>
-                    </div>
-                  ))}
-                </div>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -472,10 +669,60 @@ export default function HotelDetail() {
               </Card>
             )}
 
+            {/* Guest Photos */}
+            {guestPhotos.length > 0 && (
+              <Card className="mb-8">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Camera className="h-5 w-5" />
+                    Guest Photos
+                  </CardTitle>
+                  <CardDescription>Photos shared by guests in their reviews</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                    {guestPhotos.map((photo, index) => (
+                      <button
+                        key={`${photo.reviewId}:${photo.url}`}
+                        type="button"
+                        onClick={() => setGuestPhotoIndex(index)}
+                        className="aspect-square overflow-hidden rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        <img
+                          src={photo.url}
+                          alt={`Guest photo ${index + 1}`}
+                          className="h-full w-full object-cover hover:scale-105 transition-transform"
+                          loading="lazy"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <PhotoLightbox
+              photos={guestPhotos.map(photo => photo.url)}
+              index={guestPhotoIndex}
+              onIndexChange={setGuestPhotoIndex}
+            />
+
             {/* Reviews Section */}
             <Card className="mb-8">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle>Reviews</CardTitle>
+                {reviews.length > 1 && (
+                  <Select value={reviewSort} onValueChange={(value) => setReviewSort(value as ReviewSort)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(REVIEW_SORT_LABELS) as ReviewSort[]).map(sort => (
+                        <SelectItem key={sort} value={sort}>{REVIEW_SORT_LABELS[sort]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </CardHeader>
               <CardContent>
                 {user && !showReviewForm && (
@@ -491,6 +738,7 @@ export default function HotelDetail() {
                     <ReviewForm
                       itemId={hotelId || ''}
                       itemType="hotel"
+                      bookings={reviewableBookings}
                       onSubmit={handleReviewSubmit}
                       onCancel={() => setShowReviewForm(false)}
                     />
@@ -499,11 +747,16 @@ export default function HotelDetail() {
 
                 {reviews.length > 0 ? (
                   <div>
-                    {reviews.map((review) => (
+                    {reviewService.sortReviews(reviews, reviewSort).map((review) => (
                       <ReviewCard
                         key={review.id}
                         review={review}
-                        onHelpful={handleHelpfulClick}
+                        replies={replies[review.id]}
+                        canReply={!!user && user.id === hotel?.added_by}
+                        userVote={votes[review.id] ?? null}
+                        onVote={handleVote}
+                        onReply={handleReply}
+                        onReport={handleReport}
                       />
                     ))}
                   </div>
@@ -550,8 +803,10 @@ export default function HotelDetail() {
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="text-center">
-                  <p className="text-3xl font-bold">₹{hotel.price_per_night_min}</p>
-                  <p className="text-muted-foreground">per night</p>
+                  <p className="text-3xl font-bold">₹{selectedRoom ? selectedRoom.nightly_rate : startingRate}</p>
+                  <p className="text-muted-foreground">
+                    per night{selectedRoom ? ` · ${selectedRoom.name}` : roomTypes.length > 1 ? ' · from' : ''}
+                  </p>
                 </div>
 
                 <div className="space-y-4">
@@ -608,10 +863,16 @@ export default function HotelDetail() {
 
                 <Separator />
 
+                {selectedRoom && !stayAvailability.available && stayAvailability.soldOutDates.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Not enough {selectedRoom.name} rooms on {stayAvailability.soldOutDates.join(', ')}
+                  </p>
+                )}
+
                 {nights > 0 && (
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span>₹{hotel.price_per_night_min} × {rooms} room{rooms > 1 ? 's' : ''} × {nights} night{nights > 1 ? 's' : ''}</span>
+                      <span>₹{selectedRoom?.nightly_rate || 0} × {rooms} room{rooms > 1 ? 's' : ''} × {nights} night{nights > 1 ? 's' : ''}</span>
                       <span>₹{totalPrice}</span>
                     </div>
                     <div className="flex justify-between font-medium">
@@ -625,9 +886,9 @@ export default function HotelDetail() {
                   onClick={handleBooking}
                   className="w-full"
                   size="lg"
-                  disabled={!checkInDate || !checkOutDate}
+                  disabled={!checkInDate || !checkOutDate || !selectedRoom || !stayAvailability.available || submitting}
                 >
-                  Book Now
+                  {submitting ? 'Booking...' : 'Book Now'}
                 </Button>
 
                 <Separator />
@@ -3,7 +3,7 @@
  * Displays public directory of hotel partners with search and filtering
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -21,14 +21,24 @@ import {
   Wifi,
   Car,
   Coffee,
-  Utensils
+  Utensils,
+  Loader2
 } from 'lucide-react';
-import { searchEngine, SearchQuery, SearchFilters, SortOption, HotelSearchResult } from '@/services/search.service';
+import { searchEngine, getNearbyOrigin, NearbyOrigin, SearchQuery, SearchFilters, SortOption, HotelSearchResult, OPEN_PRICE_MAX } from '@/services/search.service';
 import { toast } from 'sonner';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import LocationMap from '@/components/LocationMap';
+import SaveSearchDialog from '@/components/SaveSearchDialog';
 import HotelProfileCard from '@/components/HotelProfileCard';
+import NearbyFilter from '@/components/NearbyFilter';
+import { useSearchTracking } from '@/hooks/useSearchTracking';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useSearchQueryParams } from '@/hooks/useSearchQueryParams';
+
+const PAGE_SIZE = 50;
+// Deepest page a shared link loads in one go
+const MAX_RESTORED_PAGES = 10;
 
 interface HotelDirectoryPageProps {
   initialFilters?: SearchFilters;
@@ -42,78 +52,192 @@ export default function HotelDirectoryPage({
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [hotels, setHotels] = useState<HotelSearchResult[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
-  const [sortOption, setSortOption] = useState<SortOption>('rating');
-  const [filters, setFilters] = useState({
-    city: '',
-    hotelType: '',
-    amenity: '',
-    minPrice: '',
-    maxPrice: '',
-    minRating: ''
-  });
+  const { query, searchKey, updateQuery, setPage } = useSearchQueryParams({ sort: 'rating', limit: PAGE_SIZE });
+  const { trackSearch, trackClick } = useSearchTracking('hotels');
+  // Incremented by every new search so pages of an older one are dropped
+  const searchRequest = useRef(0);
+  const pagesLoaded = useRef(0);
+
+  // The search lives in the URL so it can be shared and restored with back and forward
+  const searchQuery = query.text ?? '';
+  const { priceRange } = query.filters;
+  const filters = {
+    city: query.location.city ?? '',
+    hotelType: query.filters.hotelTypes?.[0] ?? '',
+    amenity: query.filters.amenities?.[0] ?? '',
+    minPrice: priceRange && priceRange.min > 0 ? String(priceRange.min) : '',
+    maxPrice: priceRange && priceRange.max < OPEN_PRICE_MAX ? String(priceRange.max) : '',
+    minRating: query.filters.minRating?.toString() ?? ''
+  };
+  const sortOption = query.sort;
+  const nearby = getNearbyOrigin(query.location);
 
   useEffect(() => {
     fetchHotels();
-  }, [searchQuery, filters, sortOption]);
+  }, [searchKey]);
+
+  const buildQuery = (cursor?: string): SearchQuery => {
+    const { limit } = query.pagination;
+    const pages = Math.min(query.pagination.page, MAX_RESTORED_PAGES);
+    return {
+      ...query,
+      pagination: cursor
+        ? { page: 1, limit, cursor }
+        : { page: 1, limit: limit * pages, cursor: query.pagination.cursor }
+    };
+  };
 
   const fetchHotels = async () => {
+    const request = ++searchRequest.current;
     setLoading(true);
     try {
-      const query: SearchQuery = {
-        text: searchQuery || undefined,
-        location: {
-          city: filters.city || undefined,
-        },
-        filters: {
-          hotelTypes: filters.hotelType ? [filters.hotelType] : undefined,
-          amenities: filters.amenity ? [filters.amenity] : undefined,
-          priceRange: (filters.minPrice || filters.maxPrice) ? {
-            min: filters.minPrice ? parseFloat(filters.minPrice) : 0,
-            max: filters.maxPrice ? parseFloat(filters.maxPrice) : 999999
-          } : undefined,
-          minRating: filters.minRating ? parseFloat(filters.minRating) : undefined,
-        },
-        sort: sortOption,
-        pagination: { page: 1, limit: 50 }
-      };
+      const pagedQuery = buildQuery();
+      const response = await searchEngine.searchHotels(pagedQuery);
+      if (request !== searchRequest.current) return;
 
-      const response = await searchEngine.searchHotels(query);
-      
       if (response.success && response.data) {
+        const resultCount = response.totalCount ?? response.data.length;
+        pagesLoaded.current = Math.min(query.pagination.page, MAX_RESTORED_PAGES);
         setHotels(response.data);
+        setTotalCount(resultCount);
+        setNextCursor(response.nextCursor);
+        trackSearch({
+          text: searchQuery,
+          city: filters.city || undefined,
+          filters: {
+            ...pagedQuery.filters,
+            near: nearby?.label,
+            radius: nearby?.radius
+          },
+          resultCount
+        });
       } else {
         console.error('Error fetching hotels:', response.error);
         toast.error('Failed to load hotels');
         setHotels([]);
+        setTotalCount(0);
+        setNextCursor(undefined);
       }
     } catch (error) {
       console.error('Error fetching hotels:', error);
       toast.error('Failed to load hotels');
       setHotels([]);
+      setTotalCount(0);
+      setNextCursor(undefined);
     } finally {
-      setLoading(false);
+      if (request === searchRequest.current) {
+        setLoading(false);
+      }
     }
   };
 
-  const handleFilterChange = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+  const loadMoreHotels = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const request = searchRequest.current;
+    setLoadingMore(true);
+    try {
+      const response = await searchEngine.searchHotels(buildQuery(nextCursor));
+      if (request !== searchRequest.current) return;
+
+      if (response.success && response.data) {
+        const page = response.data;
+        setHotels(prev => {
+          const shown = new Set(prev.map(hotel => hotel.id));
+          return [...prev, ...page.filter(hotel => !shown.has(hotel.id))];
+        });
+        setNextCursor(response.nextCursor);
+        setPage(++pagesLoaded.current);
+      } else {
+        console.error('Error loading more hotels:', response.error);
+        toast.error('Failed to load more hotels');
+        setNextCursor(undefined);
+      }
+    } catch (error) {
+      console.error('Error loading more hotels:', error);
+      setNextCursor(undefined);
+    } finally {
+      setLoadingMore(false);
+    }
   };
 
-  const clearFilters = () => {
-    setFilters({
-      city: '',
-      hotelType: '',
-      amenity: '',
-      minPrice: '',
-      maxPrice: '',
-      minRating: ''
+  const loadMoreRef = useInfiniteScroll(loadMoreHotels, !!nextCursor);
+
+  // Picking a place switches to nearest first; clearing it drops the distance sort
+  const handleNearbyChange = (origin: NearbyOrigin | null) => {
+    updateQuery(current => {
+      let sort = current.sort;
+      if (origin && !current.location.coordinates) {
+        sort = 'distance';
+      } else if (!origin && sort === 'distance') {
+        sort = 'rating';
+      }
+      return {
+        ...current,
+        location: { ...current.location, coordinates: origin?.coordinates, radius: origin?.radius, label: origin?.label },
+        sort
+      };
     });
-    setSearchQuery('');
   };
 
-  const handleViewDetails = (hotelId: string) => {
+  // Starting a search switches to best match; clearing it drops the relevance sort
+  // Typing replaces the history entry, so back skips whole words rather than keystrokes
+  const handleSearchChange = (text: string) => {
+    updateQuery(current => {
+      let sort = current.sort;
+      if (text.trim() && !current.text?.trim() && sort === 'rating') {
+        sort = 'relevance';
+      } else if (!text.trim() && sort === 'relevance') {
+        sort = 'rating';
+      }
+      return { ...current, text: text || undefined, sort };
+    }, !!searchQuery && !!text);
+  };
+
+  const handleFilterChange = (key: keyof typeof filters, value: string) => {
+    const typed = key === 'city' || key === 'minPrice' || key === 'maxPrice';
+    updateQuery(current => {
+      const next = { ...current, location: { ...current.location }, filters: { ...current.filters } };
+      if (key === 'city') next.location.city = value || undefined;
+      if (key === 'hotelType') next.filters.hotelTypes = value ? [value] : undefined;
+      if (key === 'amenity') next.filters.amenities = value ? [value] : undefined;
+      if (key === 'minRating') next.filters.minRating = value ? parseFloat(value) : undefined;
+      if (key === 'minPrice' || key === 'maxPrice') {
+        const range = { min: current.filters.priceRange?.min ?? 0, max: current.filters.priceRange?.max ?? OPEN_PRICE_MAX };
+        if (key === 'minPrice') range.min = value ? parseFloat(value) : 0;
+        if (key === 'maxPrice') range.max = value ? parseFloat(value) : OPEN_PRICE_MAX;
+        next.filters.priceRange = range.min > 0 || range.max < OPEN_PRICE_MAX ? range : undefined;
+      }
+      return next;
+    }, typed && !!filters[key] && !!value);
+  };
+
+  const handleSortChange = (sort: SortOption) => {
+    updateQuery(current => ({ ...current, sort }));
+  };
+
+  const clearFilters = () => {
+    updateQuery(current => ({
+      ...current,
+      text: undefined,
+      location: {},
+      filters: {},
+      sort: current.sort === 'distance' || current.sort === 'relevance' ? 'rating' : current.sort
+    }));
+  };
+
+  const handleViewDetails = (partnerId: string) => {
+    trackClick('hotel', partnerId);
+    // Cards show partners; the page to open is the hotel the partner listed
+    const hotelId = hotels.find(hotel => hotel.id === partnerId)?.hotelId;
+    if (!hotelId) {
+      toast.error('This hotel has no details page yet');
+      return;
+    }
     navigate(`/hotels/${hotelId}`);
   };
 
@@ -181,7 +305,7 @@ export default function HotelDirectoryPage({
                 <Input
                   placeholder="Search hotels, cities, amenities..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10"
                 />
               </div>
@@ -193,8 +317,11 @@ export default function HotelDirectoryPage({
                 <Filter className="h-4 w-4" />
                 Filters
               </Button>
+              <SaveSearchDialog type="hotels" query={query} />
             </div>
 
+            <NearbyFilter value={nearby} onChange={handleNearbyChange} />
+
             {showFilters && (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 mt-4 pt-4 border-t">
                 <div>
@@ -272,7 +399,7 @@ export default function HotelDirectoryPage({
                 {searchQuery && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     Search: {searchQuery}
-                    <button onClick={() => setSearchQuery('')}>
+                    <button onClick={() => handleSearchChange('')}>
                       <X className="h-3 w-3" />
                     </button>
                   </Badge>
@@ -366,14 +493,17 @@ export default function HotelDirectoryPage({
           <div className={showMap ? "md:w-3/5 lg:w-2/3" : "w-full"}>
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-display font-bold">
-                {hotels.length} {hotels.length === 1 ? 'Hotel' : 'Hotels'} Available
+                {totalCount} {totalCount === 1 ? 'Hotel' : 'Hotels'} Available
               </h2>
-              <Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
+              <Select value={sortOption} onValueChange={(value) => handleSortChange(value as SortOption)}>
                 <SelectTrigger className="w-40">
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
+                  {searchQuery.trim() && <SelectItem value="relevance">Best Match</SelectItem>}
+                  {nearby && <SelectItem value="distance">Nearest First</SelectItem>}
                   <SelectItem value="rating">Highest Rated</SelectItem>
+                  <SelectItem value="popularity">Most Reviewed</SelectItem>
                   <SelectItem value="price-low">Price: Low to High</SelectItem>
                   <SelectItem value="price-high">Price: High to Low</SelectItem>
                   <SelectItem value="newest">Newest First</SelectItem>
@@ -401,6 +531,12 @@ export default function HotelDirectoryPage({
                 ))}
               </div>
             )}
+
+            {nextCursor && (
+              <div ref={loadMoreRef} className="flex justify-center py-6">
+                {loadingMore && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,7 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
-import { getAllHotels, searchHotels, Hotel } from '@/lib/supabaseData';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { Button } from '@/components/ui/button';
@@ -12,102 +11,82 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Search, MapPin, Star, Bed, Filter, X } from 'lucide-react';
 import LocationMap from '@/components/LocationMap';
+import SaveSearchDialog from '@/components/SaveSearchDialog';
+import { searchEngine, OPEN_PRICE_MAX, type HotelSearchResult, type SortOption } from '@/services/search.service';
+import { useSearchQueryParams } from '@/hooks/useSearchQueryParams';
 
 export default function Hotels() {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const [hotels, setHotels] = useState<Hotel[]>([]);
-  const [filteredHotels, setFilteredHotels] = useState<Hotel[]>([]);
-  const [sortedHotels, setSortedHotels] = useState<Hotel[]>([]);
+  const [hotels, setHotels] = useState<HotelSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState({
-    city: '',
-    minPrice: '',
-    maxPrice: '',
-    rating: '',
-    type: ''
-  });
-  const [sortOption, setSortOption] = useState('rating');
+  const { query, searchKey, updateQuery } = useSearchQueryParams({ sort: 'rating', limit: 50 });
   const [showFilters, setShowFilters] = useState(false);
 
-  useEffect(() => {
-    fetchHotels();
-  }, []);
-
-  useEffect(() => {
-    applyFilters();
-  }, [searchQuery, filters]);
+  // The search lives in the URL so it can be shared and restored with back and forward
+  const searchQuery = query.text ?? '';
+  const { priceRange } = query.filters;
+  const filters = {
+    city: query.location.city ?? '',
+    minPrice: priceRange && priceRange.min > 0 ? String(priceRange.min) : '',
+    maxPrice: priceRange && priceRange.max < OPEN_PRICE_MAX ? String(priceRange.max) : '',
+    rating: query.filters.minRating?.toString() ?? '',
+    type: query.filters.hotelTypes?.[0] ?? ''
+  };
+  const sortOption = query.sort;
 
   useEffect(() => {
-    sortHotels();
-  }, [filteredHotels, sortOption]);
+    fetchHotels();
+  }, [searchKey]);
 
+  // Filtering and sorting happen in the search engine, the same as in the guide and hotel directories
   const fetchHotels = async () => {
     try {
-      const hotelData = await getAllHotels();
-      setHotels(hotelData);
-      setFilteredHotels(hotelData);
+      const response = await searchEngine.searchHotels(query);
+      if (response.success) {
+        setHotels(response.data || []);
+        setTotalCount(response.totalCount || 0);
+      } else {
+        console.error('Error searching hotels:', response.error);
+        setHotels([]);
+        setTotalCount(0);
+      }
     } catch (error) {
-      console.error('Error fetching hotels:', error);
+      console.error('Error searching hotels:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const applyFilters = async () => {
-    // Use server-side search instead of client-side filtering
-    try {
-      const results = await searchHotels(searchQuery, {
-        city: filters.city || undefined,
-        minPrice: filters.minPrice ? parseFloat(filters.minPrice) : undefined,
-        maxPrice: filters.maxPrice ? parseFloat(filters.maxPrice) : undefined,
-        rating: filters.rating ? parseFloat(filters.rating) : undefined,
-        type: filters.type || undefined
-      });
-      setFilteredHotels(results);
-    } catch (error) {
-      console.error('Error applying filters:', error);
-      setFilteredHotels(hotels);
-    }
+  // Typing replaces the history entry, so back skips whole words rather than keystrokes
+  const handleSearchChange = (text: string) => {
+    updateQuery(current => ({ ...current, text: text || undefined }), !!searchQuery && !!text);
   };
 
-  const sortHotels = () => {
-    const sorted = [...filteredHotels];
-    
-    switch (sortOption) {
-      case 'price-low':
-        sorted.sort((a, b) => a.price_per_night_min - b.price_per_night_min);
-        break;
-      case 'price-high':
-        sorted.sort((a, b) => b.price_per_night_min - a.price_per_night_min);
-        break;
-      case 'rating':
-        sorted.sort((a, b) => b.rating - a.rating);
-        break;
-      case 'newest':
-        sorted.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-        break;
-      default:
-        sorted.sort((a, b) => b.rating - a.rating);
-    }
-    
-    setSortedHotels(sorted);
+  const handleFilterChange = (key: keyof typeof filters, value: string) => {
+    const typed = key === 'city' || key === 'minPrice' || key === 'maxPrice';
+    updateQuery(current => {
+      const next = { ...current, location: { ...current.location }, filters: { ...current.filters } };
+      if (key === 'city') next.location.city = value || undefined;
+      if (key === 'rating') next.filters.minRating = value ? parseFloat(value) : undefined;
+      if (key === 'type') next.filters.hotelTypes = value ? [value] : undefined;
+      if (key === 'minPrice' || key === 'maxPrice') {
+        const range = { min: current.filters.priceRange?.min ?? 0, max: current.filters.priceRange?.max ?? OPEN_PRICE_MAX };
+        if (key === 'minPrice') range.min = value ? parseFloat(value) : 0;
+        if (key === 'maxPrice') range.max = value ? parseFloat(value) : OPEN_PRICE_MAX;
+        next.filters.priceRange = range.min > 0 || range.max < OPEN_PRICE_MAX ? range : undefined;
+      }
+      return next;
+    }, typed && !!filters[key] && !!value);
   };
 
-  const handleFilterChange = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+  const handleSortChange = (sort: string) => {
+    updateQuery(current => ({ ...current, sort: sort as SortOption }));
   };
 
   const clearFilters = () => {
-    setFilters({
-      city: '',
-      minPrice: '',
-      maxPrice: '',
-      rating: '',
-      type: ''
-    });
-    setSearchQuery('');
+    updateQuery(current => ({ ...current, text: undefined, location: {}, filters: {} }));
   };
 
   const getHotelTypeLabel = (type: string) => {
@@ -173,7 +152,7 @@ export default function Hotels() {
                 <Input
                   placeholder="Search hotels, cities, or locations..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10"
                 />
               </div>
@@ -185,6 +164,7 @@ export default function Hotels() {
                 <Filter className="h-4 w-4" />
                 Filters
               </Button>
+              <SaveSearchDialog type="hotels" query={query} />
             </div>
 
             {showFilters && (
@@ -254,7 +234,7 @@ export default function Hotels() {
                 {searchQuery && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     Search: {searchQuery}
-                    <button onClick={() => setSearchQuery('')}>
+                    <button onClick={() => handleSearchChange('')}>
                       <X className="h-3 w-3" />
                     </button>
                   </Badge>
@@ -338,9 +318,9 @@ export default function Hotels() {
           <div className="md:w-3/5 lg:w-2/3">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-display font-bold">
-                {sortedHotels.length} {sortedHotels.length === 1 ? 'Property' : 'Properties'} Found
+                {totalCount} {totalCount === 1 ? 'Property' : 'Properties'} Found
               </h2>
-              <Select value={sortOption} onValueChange={setSortOption}>
+              <Select value={sortOption} onValueChange={handleSortChange}>
                 <SelectTrigger className="w-40">
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
@@ -348,28 +328,29 @@ export default function Hotels() {
                   <SelectItem value="price-low">Price: Low to High</SelectItem>
                   <SelectItem value="price-high">Price: High to Low</SelectItem>
                   <SelectItem value="rating">Highest Rated</SelectItem>
+                  <SelectItem value="popularity">Most Reviewed</SelectItem>
                   <SelectItem value="newest">Newest First</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
-            {sortedHotels.length === 0 ? (
+            {hotels.length === 0 ? (
               <Card className="text-center py-12">
                 <Bed className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-xl font-medium mb-2">No verified hotels found</h3>
-                <p className="text-muted-foreground mb-4">There are currently no verified hotels in the system. New hotel registrations are pending admin approval.</p>
+                <h3 className="text-xl font-medium mb-2">No hotels found</h3>
+                <p className="text-muted-foreground mb-4">Try a different search or clear your filters. New hotel registrations appear once they are listed in the directory.</p>
                 <Button onClick={clearFilters}>Clear Filters</Button>
               </Card>
             ) : (
               <div className="grid grid-cols-1 gap-6">
-                {sortedHotels.map((hotel) => (
+                {hotels.map((hotel) => (
                   <Card key={hotel.id} className="overflow-hidden hover:shadow-lg transition-shadow">
                     <div className="flex flex-col md:flex-row">
                       <div className="md:w-2/5">
                         {hotel.images && hotel.images.length > 0 ? (
                           <img
                             src={hotel.images[0]}
-                            alt={hotel.name}
+                            alt={hotel.displayName}
                             className="h-48 w-full object-cover"
                           />
                         ) : (
@@ -382,15 +363,17 @@ export default function Hotels() {
                         <CardContent className="p-6">
                           <div className="flex justify-between items-start mb-2">
                             <div>
-                              <h3 className="text-xl font-display font-bold">{hotel.name}</h3>
+                              <h3 className="text-xl font-display font-bold">{hotel.displayName}</h3>
                               <p className="text-muted-foreground flex items-center gap-1">
                                 <MapPin className="h-4 w-4" />
-                                {hotel.city}, {hotel.state}
+                                {[hotel.location.city, hotel.location.state].filter(Boolean).join(', ')}
                               </p>
                             </div>
-                            <Badge variant="secondary">
-                              {getHotelTypeLabel(hotel.type)}
-                            </Badge>
+                            {hotel.hotelType && (
+                              <Badge variant="secondary">
+                                {getHotelTypeLabel(hotel.hotelType)}
+                              </Badge>
+                            )}
                           </div>
 
                           <div className="flex items-center gap-2 mb-3">
@@ -399,29 +382,29 @@ export default function Hotels() {
                               <span className="ml-1 font-medium">{hotel.rating.toFixed(1)}</span>
                             </div>
                             <span className="text-muted-foreground">•</span>
-                            <span className="text-muted-foreground">{hotel.total_reviews} reviews</span>
+                            <span className="text-muted-foreground">{hotel.reviewCount} reviews</span>
                           </div>
 
                           <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
-                            {hotel.description}
+                            {hotel.bio}
                           </p>
 
                           {/* Nearby Attractions */}
-                          {hotel.nearby_monuments && hotel.nearby_monuments.length > 0 && (
+                          {hotel.nearbyAttractions && hotel.nearbyAttractions.length > 0 && (
                             <div className="mb-4">
                               <div className="flex items-center gap-2 mb-2">
                                 <MapPin className="h-4 w-4 text-primary" />
                                 <span className="text-sm font-medium">Nearby Attractions:</span>
                               </div>
                               <div className="flex flex-wrap gap-2">
-                                {hotel.nearby_monuments.slice(0, 3).map((attraction, index) => (
+                                {hotel.nearbyAttractions.slice(0, 3).map((attraction, index) => (
                                   <Badge key={index} variant="secondary" className="text-xs">
                                     {attraction}
                                   </Badge>
                                 ))}
-                                {hotel.nearby_monuments.length > 3 && (
+                                {hotel.nearbyAttractions.length > 3 && (
                                   <Badge variant="secondary" className="text-xs">
-                                    +{hotel.nearby_monuments.length - 3} more
+                                    +{hotel.nearbyAttractions.length - 3} more
                                   </Badge>
                                 )}
                               </div>
@@ -442,12 +425,21 @@ export default function Hotels() {
                           </div>
 
                           <div className="flex flex-wrap items-center justify-between gap-4">
-                            <div>
-                              <p className="text-2xl font-bold">₹{hotel.price_per_night_min}<span className="text-base font-normal text-muted-foreground">/night</span></p>
-                              <p className="text-sm text-muted-foreground">+ taxes & fees</p>
-                            </div>
+                            {hotel.priceRange ? (
+                              <div>
+                                <p className="text-2xl font-bold">
+                                  ₹{hotel.priceRange.min.toLocaleString()}
+                                  {hotel.priceRange.max > hotel.priceRange.min && ` - ₹${hotel.priceRange.max.toLocaleString()}`}
+                                  <span className="text-base font-normal text-muted-foreground">/night</span>
+                                </p>
+                                <p className="text-sm text-muted-foreground">+ taxes & fees</p>
+                              </div>
+                            ) : (
+                              <div />
+                            )}
                             <Button 
-                              onClick={() => navigate(`/hotels/${hotel.id}`)}
+                              onClick={() => navigate(`/hotels/${hotel.hotelId}`)}
+                              disabled={!hotel.hotelId}
                               variant="saffron"
                             >
                               View Details
@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { useAuth } from '@/lib/auth';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Luggage, Calendar, IndianRupee, FolderOpen, Copy, Pencil, Trash2, Loader2 } from 'lucide-react';
+import {
+  itineraryService,
+  MAX_ITINERARY_TITLE_LENGTH,
+  type SavedItinerary
+} from '@/services/itinerary.service';
+
+export default function MyTrips() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [trips, setTrips] = useState<SavedItinerary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<SavedItinerary | null>(null);
+  const [title, setTitle] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchTrips = useCallback(async () => {
+    if (!user) return;
+
+    const result = await itineraryService.getItineraries(user.id);
+    if (result.success && result.data) {
+      setTrips(result.data);
+    } else {
+      toast.error(result.error || 'Failed to load your trips');
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchTrips();
+    }
+  }, [user, fetchTrips]);
+
+  const openTrip = (tripId: string) => {
+    navigate(`/trip-planner?trip=${tripId}`);
+  };
+
+  const handleDuplicate = async (trip: SavedItinerary) => {
+    if (!user) return;
+
+    setBusy(trip.id);
+    const result = await itineraryService.duplicateItinerary(user.id, trip.id);
+    setBusy(null);
+
+    if (result.success && result.data) {
+      toast.success('Trip copied');
+      openTrip(result.data.id);
+    } else {
+      toast.error(result.error || 'Failed to copy trip');
+    }
+  };
+
+  const startRename = (trip: SavedItinerary) => {
+    setRenaming(trip);
+    setTitle(trip.title);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+
+    setBusy(renaming.id);
+    const result = await itineraryService.renameItinerary(renaming.id, title);
+    setBusy(null);
+
+    if (result.success && result.data) {
+      const updated = result.data;
+      setTrips(prev => [updated, ...prev.filter(trip => trip.id !== updated.id)]);
+      setRenaming(null);
+    } else {
+      toast.error(result.error || 'Failed to rename trip');
+    }
+  };
+
+  const handleDelete = async (tripId: string) => {
+    setBusy(tripId);
+    const result = await itineraryService.deleteItinerary(tripId);
+    setBusy(null);
+
+    if (result.success) {
+      setTrips(prev => prev.filter(trip => trip.id !== tripId));
+      toast.success('Trip deleted');
+    } else {
+      toast.error(result.error || 'Failed to delete trip');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <>
+      <Helmet>
+        <title>My Trips | Incredible India</title>
+        <meta name="description" content="Reopen, rename and copy the trip itineraries you have planned." />
+      </Helmet>
+
+      <div className="min-h-screen bg-background">
+        <Navbar />
+
+        {/* Hero */}
+        <section className="relative pt-32 pb-16 bg-gradient-to-br from-primary via-primary/90 to-accent">
+          <div className="container mx-auto px-4 text-center">
+            <Luggage className="h-12 w-12 text-primary-foreground mx-auto mb-4" />
+            <h1 className="font-display text-4xl md:text-5xl font-bold text-primary-foreground mb-4">
+              My Trips
+            </h1>
+            <p className="text-xl text-primary-foreground/90">
+              Every itinerary you have planned, ready to pick up again
+            </p>
+          </div>
+        </section>
+
+        <section className="py-16">
+          <div className="container mx-auto px-4">
+            {loading ? (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {[1, 2, 3].map(i => (
+                  <Skeleton key={i} className="h-56 w-full" />
+                ))}
+              </div>
+            ) : trips.length === 0 ? (
+              <div className="text-center py-12">
+                <Luggage className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <h2 className="font-display text-2xl font-bold mb-2">No trips yet</h2>
+                <p className="text-muted-foreground mb-6">
+                  Itineraries you generate in the <Link to="/trip-planner" className="text-primary underline">trip planner</Link> are kept here.
+                </p>
+                <Button variant="saffron" onClick={() => navigate('/trip-planner')}>
+                  Plan a Trip
+                </Button>
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {trips.map(trip => (
+                  <Card key={trip.id} className="border-0 shadow-card">
+                    <CardContent className="p-6 space-y-4">
+                      <div>
+                        <h3 className="font-display text-xl font-bold">{trip.title}</h3>
+                        <p className="text-sm text-muted-foreground mt-1">{trip.prompt}</p>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary">
+                          <Calendar className="h-3 w-3 mr-1" />
+                          {trip.itinerary.days.length} Days
+                        </Badge>
+                        <Badge variant="secondary">
+                          <IndianRupee className="h-3 w-3 mr-1" />
+                          {formatCurrency(trip.itinerary.totalEstimatedCost)}
+                        </Badge>
+                        {trip.duplicatedFrom && <Badge variant="outline">Copy</Badge>}
+                      </div>
+
+                      <p className="text-xs text-muted-foreground">
+                        Updated {trip.updatedAt.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}
+                      </p>
+
+                      <div className="flex flex-wrap gap-2">
+                        <Button size="sm" onClick={() => openTrip(trip.id)}>
+                          <FolderOpen className="h-4 w-4 mr-2" />
+                          Open
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDuplicate(trip)}
+                          disabled={busy === trip.id}
+                        >
+                          <Copy className="h-4 w-4 mr-2" />
+                          Duplicate
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startRename(trip)}
+                          disabled={busy === trip.id}
+                          aria-label={`Rename ${trip.title}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(trip.id)}
+                          disabled={busy === trip.id}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          aria-label={`Delete ${trip.title}`}
+                        >
+                          {busy === trip.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+
+        <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Rename Trip</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="trip-title">Title</Label>
+              <Input
+                id="trip-title"
+                value={title}
+                maxLength={MAX_ITINERARY_TITLE_LENGTH}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRename} disabled={!!busy || !title.trim()}>
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Footer />
+      </div>
+    </>
+  );
+}
@@ -24,9 +24,18 @@ import {
   Users,
   Languages,
   Wallet,
-  Home
+  Home,
+  MessageSquare
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import BookingStatusBadge from '@/components/BookingStatusBadge';
+import {
+  bookingService,
+  type BookingType,
+  type GuideBookingWithGuide,
+  type HotelBookingWithHotel
+} from '@/services/booking.service';
 
 interface RoleStatus {
   role: 'tourist' | 'tour_guide' | 'hotel_partner';
@@ -43,11 +52,16 @@ const ProfilePage = () => {
   const [roleStatuses, setRoleStatuses] = useState<RoleStatus[]>([]);
   const [profileData, setProfileData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [guideBookings, setGuideBookings] = useState<GuideBookingWithGuide[]>([]);
+  const [hotelBookings, setHotelBookings] = useState<HotelBookingWithHotel[]>([]);
+  // Latest message from the hotel or guide on each booking, keyed by "type:id"
+  const [providerNotes, setProviderNotes] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (user) {
       loadProfileData();
       loadRoleStatuses();
+      loadBookings();
     }
   }, [user]);
 
@@ -184,6 +198,49 @@ const ProfilePage = () => {
     }
   };
 
+  const loadBookings = async () => {
+    if (!user) return;
+
+    const [guideResult, hotelResult] = await Promise.all([
+      bookingService.getUserGuideBookings(user.id),
+      bookingService.getUserHotelBookings(user.id)
+    ]);
+
+    if (guideResult.success) {
+      setGuideBookings(guideResult.data || []);
+    } else {
+      console.error('Error loading guide bookings:', guideResult.error);
+    }
+
+    if (hotelResult.success) {
+      setHotelBookings(hotelResult.data || []);
+    } else {
+      console.error('Error loading hotel bookings:', hotelResult.error);
+    }
+
+    loadProviderNotes([
+      ...(hotelResult.data || []).map(booking => ({ type: 'hotel' as const, id: booking.id })),
+      ...(guideResult.data || []).map(booking => ({ type: 'guide' as const, id: booking.id }))
+    ]);
+  };
+
+  const loadProviderNotes = async (bookings: { type: BookingType; id: string }[]) => {
+    const result = await bookingService.getProviderNotes(bookings);
+    setProviderNotes(result.data || {});
+  };
+
+  const handleCancelBooking = async (type: BookingType, bookingId: string) => {
+    if (!user) return;
+
+    const result = await bookingService.transitionBooking(type, bookingId, 'cancel', user.id);
+    if (result.success) {
+      toast.success('Booking cancelled');
+      loadBookings();
+    } else {
+      toast.error(result.error || 'Failed to cancel booking');
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -402,11 +459,114 @@ const ProfilePage = () => {
                     <CardDescription>Your recent actions and bookings</CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-center py-8 text-gray-500">
-                      <Globe className="h-12 w-12 mx-auto mb-3" />
-                      <p>No recent activity found</p>
-                      <p className="text-sm mt-1">Your recent bookings and interactions will appear here</p>
-                    </div>
+                    {guideBookings.length + hotelBookings.length > 0 ? (
+                      <div className="space-y-4">
+                        {hotelBookings.map((booking) => (
+                          <div
+                            key={booking.id}
+                            className="flex items-center justify-between p-4 rounded-lg border hover:bg-gray-50 transition-colors cursor-pointer"
+                            onClick={() => booking.hotel_id && navigate(`/hotels/${booking.hotel_id}`)}
+                          >
+                            <div>
+                              <p className="font-medium">
+                                Stay at {booking.hotels?.name || 'Hotel'}
+                              </p>
+                              <div className="flex items-center text-sm text-gray-600 mt-1">
+                                <Calendar className="h-4 w-4 mr-1" />
+                                {booking.check_in_date
+                                  ? new Date(booking.check_in_date).toLocaleDateString()
+                                  : 'Date not set'}
+                                {booking.check_out_date && (
+                                  <> – {new Date(booking.check_out_date).toLocaleDateString()}</>
+                                )}
+                              </div>
+                              {providerNotes[`hotel:${booking.id}`] && (
+                                <div className="flex items-start text-sm text-gray-600 mt-1">
+                                  <MessageSquare className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                                  <span>The hotel says: {providerNotes[`hotel:${booking.id}`]}</span>
+                                </div>
+                              )}
+                              <p className="text-xs text-gray-500 mt-1">Ref: {booking.booking_reference}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold">₹{booking.total_cost || 0}</p>
+                              <BookingStatusBadge status={booking.status} className="mt-1" />
+                              {bookingService.getAvailableActions('hotel', booking.status, 'guest').includes('cancel') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="block ml-auto mt-1 text-red-600"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleCancelBooking('hotel', booking.id);
+                                  }}
+                                >
+                                  Cancel
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                        {guideBookings.map((booking) => (
+                          <div
+                            key={booking.id}
+                            className="flex items-center justify-between p-4 rounded-lg border hover:bg-gray-50 transition-colors cursor-pointer"
+                            onClick={() => booking.guide_id && navigate(`/guides/${booking.guide_id}`)}
+                          >
+                            <div>
+                              <p className="font-medium">
+                                Tour with {booking.tour_guides?.full_name || 'Tour Guide'}
+                              </p>
+                              <div className="flex items-center text-sm text-gray-600 mt-1">
+                                <Calendar className="h-4 w-4 mr-1" />
+                                {booking.booking_date
+                                  ? new Date(booking.booking_date).toLocaleString()
+                                  : 'Date not set'}
+                                <span className="mx-2">·</span>
+                                <Clock className="h-4 w-4 mr-1" />
+                                {booking.duration_hours} hours
+                              </div>
+                              {booking.location && (
+                                <div className="flex items-center text-sm text-gray-600 mt-1">
+                                  <MapPin className="h-4 w-4 mr-1" />
+                                  {booking.location}
+                                </div>
+                              )}
+                              {providerNotes[`guide:${booking.id}`] && (
+                                <div className="flex items-start text-sm text-gray-600 mt-1">
+                                  <MessageSquare className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                                  <span>Your guide says: {providerNotes[`guide:${booking.id}`]}</span>
+                                </div>
+                              )}
+                              <p className="text-xs text-gray-500 mt-1">Ref: {booking.booking_reference}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold">₹{booking.total_cost || 0}</p>
+                              <BookingStatusBadge status={booking.status} className="mt-1" />
+                              {bookingService.getAvailableActions('guide', booking.status, 'guest').includes('cancel') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="block ml-auto mt-1 text-red-600"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleCancelBooking('guide', booking.id);
+                                  }}
+                                >
+                                  Cancel
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-center py-8 text-gray-500">
+                        <Globe className="h-12 w-12 mx-auto mb-3" />
+                        <p>No recent activity found</p>
+                        <p className="text-sm mt-1">Your recent bookings and interactions will appear here</p>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
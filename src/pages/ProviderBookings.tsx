@@ -0,0 +1,419 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { format, isSameDay, parseISO, startOfDay } from 'date-fns';
+import { useAuth } from '@/lib/auth';
+import { emailService } from '@/lib/emailService';
+import { useRoleAccess } from '@/hooks/useRoleAccess';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import BookingStatusBadge from '@/components/BookingStatusBadge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Bed, CalendarDays, Clock, Inbox, Loader2, MapPin, Users } from 'lucide-react';
+import {
+  bookingService,
+  BOOKING_ACTIONS,
+  BOOKING_STATUS_LABELS,
+  type BookingAction,
+  type BookingStatus,
+  type GuideBooking,
+  type HotelBooking,
+  type ProviderBooking
+} from '@/services/booking.service';
+
+const REQUEST_STATUSES: BookingStatus[] = ['pending'];
+const UPCOMING_STATUSES: BookingStatus[] = ['confirmed', 'checked_in', 'in_progress'];
+
+// Actions that notify the guest and so ask the provider for a message first
+const MESSAGE_ACTIONS: BookingAction[] = ['confirm', 'decline'];
+
+interface PendingAction {
+  item: ProviderBooking;
+  action: BookingAction;
+}
+
+const getArrival = (item: ProviderBooking) => (item.arrivalDate ? parseISO(item.arrivalDate) : null);
+
+// Dates of a booking as written in emails to the guest
+const describeDates = (item: ProviderBooking) => {
+  if (item.type === 'hotel') {
+    const booking = item.booking as HotelBooking;
+    return `${booking.check_in_date || 'Date TBC'} to ${booking.check_out_date || 'Date TBC'}`;
+  }
+
+  const booking = item.booking as GuideBooking;
+  const start = booking.booking_date ? format(parseISO(booking.booking_date), 'dd MMM yyyy, HH:mm') : 'Date TBC';
+  return `${start} for ${booking.duration_hours || 0} hours`;
+};
+
+export default function ProviderBookings() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { hasPermission } = useRoleAccess();
+  const [bookings, setBookings] = useState<ProviderBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [message, setMessage] = useState('');
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  const canManageBookings = hasPermission('canManageBookings');
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const loadBookings = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const result = await bookingService.getProviderBookings(user.id);
+    if (result.success && result.data) {
+      setBookings(result.data);
+    } else {
+      toast.error(result.error || 'Failed to load bookings');
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (user && canManageBookings) {
+      loadBookings();
+    } else if (!authLoading) {
+      setLoading(false);
+    }
+  }, [user, authLoading, canManageBookings, loadBookings]);
+
+  const runAction = async (item: ProviderBooking, action: BookingAction, note?: string) => {
+    if (!user) return;
+
+    setUpdating(item.booking.id);
+    const result = await bookingService.transitionBooking(item.type, item.booking.id, action, user.id, note);
+    setUpdating(null);
+
+    if (result.success) {
+      toast.success(`Booking marked as ${BOOKING_STATUS_LABELS[BOOKING_ACTIONS[action].status].toLowerCase()}`);
+      setPendingAction(null);
+      setMessage('');
+      loadBookings();
+      if (action === 'confirm') {
+        sendConfirmation(item, note);
+      }
+    } else {
+      toast.error(result.error || 'Failed to update booking');
+    }
+  };
+
+  // The guest only hears their booking is confirmed once the provider accepts it
+  const sendConfirmation = async (item: ProviderBooking, note?: string) => {
+    const contact = await bookingService.getGuestContact(item.type, item.booking.id);
+    if (!contact.success || !contact.data) {
+      console.error('Failed to find guest to email:', contact.error);
+      return;
+    }
+
+    try {
+      await emailService.sendBookingConfirmation(
+        contact.data.email,
+        contact.data.full_name || item.guestName || contact.data.email,
+        item.listingName,
+        item.booking.booking_reference || '',
+        describeDates(item),
+        item.booking.total_cost || 0,
+        note?.trim() || undefined
+      );
+    } catch (emailError) {
+      console.error('Failed to send booking confirmation email:', emailError);
+    }
+  };
+
+  const handleAction = (item: ProviderBooking, action: BookingAction) => {
+    if (MESSAGE_ACTIONS.includes(action)) {
+      setMessage('');
+      setPendingAction({ item, action });
+    } else {
+      runAction(item, action);
+    }
+  };
+
+  const byStatus = (statuses: BookingStatus[]) =>
+    bookings.filter(item => statuses.includes(item.booking.status));
+
+  const requests = byStatus(REQUEST_STATUSES);
+  const upcoming = byStatus(UPCOMING_STATUSES);
+  const past = bookings
+    .filter(item => !REQUEST_STATUSES.includes(item.booking.status) && !UPCOMING_STATUSES.includes(item.booking.status))
+    .reverse();
+
+  // Arrivals shown on the calendar: anything still expected to happen
+  const arrivals = [...requests, ...upcoming].filter(item => {
+    const arrival = getArrival(item);
+    return arrival && arrival >= startOfDay(new Date());
+  });
+  const arrivalDays = arrivals.map(item => getArrival(item) as Date);
+  const selectedArrivals = selectedDate
+    ? arrivals.filter(item => isSameDay(getArrival(item) as Date, selectedDate))
+    : [];
+
+  const renderDetails = (item: ProviderBooking) => {
+    if (item.type === 'hotel') {
+      const booking = item.booking as HotelBooking;
+      return (
+        <>
+          <span className="flex items-center gap-1">
+            <CalendarDays className="h-4 w-4" />
+            {booking.check_in_date ? format(parseISO(booking.check_in_date), 'dd MMM yyyy') : 'Date TBC'}
+            {booking.check_out_date && ` – ${format(parseISO(booking.check_out_date), 'dd MMM yyyy')}`}
+          </span>
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            {booking.guests || 1} guest{(booking.guests || 1) === 1 ? '' : 's'}
+          </span>
+          {booking.room_type && (
+            <span className="flex items-center gap-1">
+              <Bed className="h-4 w-4" />
+              {booking.room_type}
+            </span>
+          )}
+        </>
+      );
+    }
+
+    const booking = item.booking as GuideBooking;
+    return (
+      <>
+        <span className="flex items-center gap-1">
+          <CalendarDays className="h-4 w-4" />
+          {booking.booking_date ? format(parseISO(booking.booking_date), 'dd MMM yyyy, HH:mm') : 'Date TBC'}
+        </span>
+        <span className="flex items-center gap-1">
+          <Clock className="h-4 w-4" />
+          {booking.duration_hours || 0} hours
+        </span>
+        {booking.location && (
+          <span className="flex items-center gap-1">
+            <MapPin className="h-4 w-4" />
+            {booking.location}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  const renderBooking = (item: ProviderBooking) => {
+    const actions = bookingService.getAvailableActions(item.type, item.booking.status, 'provider');
+
+    return (
+      <Card key={`${item.type}-${item.booking.id}`}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="font-semibold">{item.guestName || 'Guest'}</h3>
+              <p className="text-sm text-muted-foreground">
+                {item.listingName}
+                {item.booking.booking_reference && ` · ${item.booking.booking_reference}`}
+              </p>
+            </div>
+            <BookingStatusBadge status={item.booking.status} />
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            {renderDetails(item)}
+          </div>
+
+          {item.booking.special_requests && (
+            <p className="text-sm bg-muted rounded-md p-2">{item.booking.special_requests}</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="font-medium">₹{item.booking.total_cost || 0}</span>
+            <div className="flex gap-2">
+              {actions.map(action => (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant={action === 'confirm' ? 'default' : 'outline'}
+                  disabled={updating === item.booking.id}
+                  onClick={() => handleAction(item, action)}
+                >
+                  {BOOKING_ACTIONS[action].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderList = (items: ProviderBooking[], emptyText: string) => (
+    items.length > 0 ? (
+      <div className="space-y-4">{items.map(renderBooking)}</div>
+    ) : (
+      <div className="text-center py-12 text-muted-foreground">
+        <Inbox className="h-10 w-10 mx-auto mb-3 opacity-50" />
+        <p>{emptyText}</p>
+      </div>
+    )
+  );
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  return (
+    <>
+      <Helmet>
+        <title>Booking Inbox | Incredible India</title>
+        <meta name="description" content="Review and respond to booking requests for your hotels and tours." />
+      </Helmet>
+
+      <div className="min-h-screen bg-background">
+        <Navbar />
+
+        <div className="container mx-auto px-4 pt-28 pb-12">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Booking Inbox</h1>
+            <p className="text-muted-foreground">
+              Respond to booking requests and keep track of upcoming arrivals
+            </p>
+          </div>
+
+          {!canManageBookings ? (
+            <Card>
+              <CardContent className="py-12 text-center space-y-4">
+                <p className="text-muted-foreground">
+                  Only hotel partners and tour guides can manage bookings.
+                </p>
+                <Button variant="outline" onClick={() => navigate('/dashboard')}>
+                  Back to Dashboard
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-2">
+                <Tabs defaultValue="requests" className="space-y-6">
+                  <TabsList>
+                    <TabsTrigger value="requests">Requests ({requests.length})</TabsTrigger>
+                    <TabsTrigger value="upcoming">Upcoming ({upcoming.length})</TabsTrigger>
+                    <TabsTrigger value="past">Past ({past.length})</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="requests">
+                    {renderList(requests, 'No booking requests waiting for a response')}
+                  </TabsContent>
+                  <TabsContent value="upcoming">
+                    {renderList(upcoming, 'No upcoming bookings')}
+                  </TabsContent>
+                  <TabsContent value="past">
+                    {renderList(past, 'No past bookings yet')}
+                  </TabsContent>
+                </Tabs>
+              </div>
+
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle>Upcoming Arrivals</CardTitle>
+                  <CardDescription>Highlighted days have guests arriving</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Calendar
+                    mode="single"
+                    selected={selectedDate}
+                    onSelect={setSelectedDate}
+                    modifiers={{ arrival: arrivalDays }}
+                    modifiersClassNames={{ arrival: 'font-bold text-primary underline' }}
+                    className="rounded-md border mx-auto w-fit"
+                  />
+
+                  {selectedDate && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">{format(selectedDate, 'EEEE, dd MMM')}</p>
+                      {selectedArrivals.length > 0 ? (
+                        selectedArrivals.map(item => (
+                          <div
+                            key={`${item.type}-${item.booking.id}`}
+                            className="flex items-center justify-between text-sm border rounded-md p-2"
+                          >
+                            <div>
+                              <p className="font-medium">{item.guestName || 'Guest'}</p>
+                              <p className="text-muted-foreground">{item.listingName}</p>
+                            </div>
+                            <BookingStatusBadge status={item.booking.status} />
+                          </div>
+                        ))
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No arrivals on this day</p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          {pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {BOOKING_ACTIONS[pendingAction.action].label} booking from {pendingAction.item.guestName || 'guest'}
+                </DialogTitle>
+                <DialogDescription>
+                  Add a message for the guest. They will see it with their booking.
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder={pendingAction.action === 'confirm'
+                  ? 'e.g. Looking forward to hosting you!'
+                  : 'e.g. Sorry, we are fully booked on these dates.'}
+                rows={4}
+              />
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPendingAction(null)}>
+                  Back
+                </Button>
+                <Button
+                  variant={pendingAction.action === 'decline' ? 'destructive' : 'default'}
+                  disabled={updating === pendingAction.item.booking.id}
+                  onClick={() => runAction(pendingAction.item, pendingAction.action, message)}
+                >
+                  {BOOKING_ACTIONS[pendingAction.action].label}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -12,6 +12,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
 import { Heart, MapPin, Calendar, Trash2, Loader2 } from 'lucide-react';
 import { indianStates } from '@/data/indianStates';
+import SavedSearchList from '@/components/SavedSearchList';
 
 interface SavedState {
   id: string;
@@ -134,9 +135,18 @@ export default function Saved() {
           </div>
         </section>
 
+        {/* Saved Searches */}
+        <section className="pt-16">
+          <div className="container mx-auto px-4">
+            <h2 className="font-display text-2xl font-bold mb-6">Saved Searches</h2>
+            <SavedSearchList userId={user.id} />
+          </div>
+        </section>
+
         {/* Content */}
         <section className="py-16">
           <div className="container mx-auto px-4">
+            <h2 className="font-display text-2xl font-bold mb-6">Saved Places</h2>
             {loading ? (
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
                 {[...Array(3)].map((_, i) => (
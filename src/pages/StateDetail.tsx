@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useParams, useSearchParams, Link, useNavigate } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import { useAuth } from '@/lib/auth';
 import Navbar from '@/components/Navbar';
@@ -159,9 +159,15 @@ const mockFestivals: Record<string, Festival[]> = {
   ]
 };
 
+// Tabs that links (e.g. from global search) can open with ?tab=
+const STATE_TABS = ['attractions', 'cuisine', 'festivals'];
+
 export default function StateDetail() {
   const { stateName } = useParams<{ stateName: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const requestedTab = searchParams.get('tab');
+  const initialTab = requestedTab && STATE_TABS.includes(requestedTab) ? requestedTab : 'attractions';
   const { user } = useAuth();
   const [state, setState] = useState<IndianState | null>(null);
   const [attractions, setAttractions] = useState<Attraction[]>([]);
@@ -687,7 +693,7 @@ export default function StateDetail() {
               </CardContent>
             </Card>
             {/* Tabs */}
-            <Tabs defaultValue="attractions" className="w-full">
+            <Tabs defaultValue={initialTab} className="w-full">
               <TabsList className="grid w-full grid-cols-3 mb-8">
                 <TabsTrigger value="attractions">Top Attractions</TabsTrigger>
                 <TabsTrigger value="cuisine">Local Cuisine</TabsTrigger>
@@ -1,7 +1,6 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
-import { supabase } from '@/integrations/supabase/client';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { Button } from '@/components/ui/button';
@@ -14,9 +13,18 @@ import { toast } from 'sonner';
 import { 
   Loader2, Sparkles, MapPin, Calendar, Wallet, Heart, 
   Utensils, Camera, Mountain, Building2, Palmtree, Clock,
-  IndianRupee, Lightbulb, ArrowRight
+  IndianRupee, Lightbulb, ArrowRight, Luggage, Pencil, Save, BookOpen, UserCheck, BedDouble
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import ItineraryEditor from '@/components/ItineraryEditor';
+import {
+  itineraryService,
+  getDayTotal,
+  withTotals,
+  type Itinerary,
+  type ItineraryLinks,
+  type TripPreferences
+} from '@/services/itinerary.service';
 
 const destinations = [
   "Rajasthan", "Kerala", "Goa", "Himachal Pradesh", "Uttarakhand",
@@ -34,36 +42,6 @@ const interests = [
   { id: 'spiritual', label: 'Spiritual', icon: Heart },
 ];
 
-interface ItineraryDay {
-  day: number;
-  location: string;
-  theme: string;
-  activities: Array<{
-    time: string;
-    activity: string;
-    description: string;
-    duration: string;
-    cost: number;
-    tips?: string;
-  }>;
-  meals: {
-    breakfast?: { place: string; dish: string; cost: number };
-    lunch?: { place: string; dish: string; cost: number };
-    dinner?: { place: string; dish: string; cost: number };
-  };
-  accommodation?: { name: string; type: string; cost: number };
-  transport?: { mode: string; route: string; cost: number };
-}
-
-interface Itinerary {
-  title: string;
-  summary: string;
-  totalEstimatedCost: number;
-  days: ItineraryDay[];
-  packingList?: string[];
-  culturalNotes?: string[];
-}
-
 export default function TripPlanner() {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -75,6 +53,71 @@ export default function TripPlanner() {
   const [travelStyle, setTravelStyle] = useState('cultural');
   const [itinerary, setItinerary] = useState<Itinerary | null>(null);
   const [activeDay, setActiveDay] = useState(1);
+  // The open trip is kept in the URL so it survives a refresh
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tripId = searchParams.get('trip');
+  const [openTripId, setOpenTripId] = useState<string | null>(null);
+  // Edited copy of the itinerary while the editor is open
+  const [draft, setDraft] = useState<Itinerary | null>(null);
+  const [savingDraft, setSavingDraft] = useState(false);
+  const shownItinerary = draft || itinerary;
+  // Catalog pages for the attractions, hotels, guides and cuisines the itinerary refers to
+  const [links, setLinks] = useState<ItineraryLinks | null>(null);
+
+  const openTrip = useCallback(async (id: string) => {
+    setLoading(true);
+    setDraft(null);
+    const result = await itineraryService.getItinerary(id);
+    setLoading(false);
+
+    if (!result.success || !result.data) {
+      toast.error('Could not open this trip');
+      setSearchParams({}, { replace: true });
+      return;
+    }
+
+    const { preferences } = result.data;
+    setDestination(preferences.destination);
+    setDuration(String(preferences.duration));
+    setBudget(preferences.budget);
+    setSelectedInterests(preferences.interests);
+    setTravelStyle(preferences.travelStyle);
+    setItinerary(result.data.itinerary);
+    setActiveDay(result.data.itinerary.days[0]?.day ?? 1);
+    setOpenTripId(id);
+  }, [setSearchParams]);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (tripId && userId && tripId !== openTripId) {
+      openTrip(tripId);
+    } else if (!tripId && openTripId) {
+      // Went back to the empty planner
+      setItinerary(null);
+      setDraft(null);
+      setOpenTripId(null);
+    }
+  }, [tripId, userId, openTripId, openTrip]);
+
+  useEffect(() => {
+    setLinks(null);
+    if (!itinerary) return;
+
+    let cancelled = false;
+    itineraryService.resolveLinks(itinerary).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setLinks(result.data);
+      } else {
+        // Entities are still shown by name, just without links
+        console.error('Error resolving itinerary links:', result.error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [itinerary]);
 
   const toggleInterest = (id: string) => {
     setSelectedInterests(prev => 
@@ -98,35 +141,68 @@ export default function TripPlanner() {
 
     setLoading(true);
     setItinerary(null);
+    setDraft(null);
 
-    try {
-      const { data, error } = await supabase.functions.invoke('generate-itinerary', {
-        body: {
-          destination,
-          duration: parseInt(duration),
-          budget,
-          interests: selectedInterests,
-          travelStyle
-        }
+    const preferences: TripPreferences = {
+      destination,
+      duration: parseInt(duration),
+      budget,
+      interests: selectedInterests,
+      travelStyle
+    };
+
+    const result = await itineraryService.generateItinerary(preferences);
+    if (!result.success || !result.data) {
+      setLoading(false);
+      // Only some failures are worth retrying straight away
+      const canRetry = result.code === 'invalid_itinerary' || result.code === 'generation_failed';
+      toast.error(result.error || 'Failed to generate itinerary. Please try again.', canRetry ? {
+        action: { label: 'Try again', onClick: () => generateItinerary() }
+      } : undefined);
+      return;
+    }
+
+    const generated = result.data;
+    setItinerary(generated);
+    setActiveDay(generated.days[0]?.day ?? 1);
+
+    // Every generated itinerary is kept under My Trips
+    const saved = await itineraryService.saveItinerary(user.id, preferences, generated);
+    setLoading(false);
+    if (saved.success && saved.data) {
+      setOpenTripId(saved.data.id);
+      setSearchParams({ trip: saved.data.id });
+      toast.success('Your personalized itinerary is ready!', {
+        action: { label: 'My Trips', onClick: () => navigate('/trips') }
       });
+    } else {
+      setOpenTripId(null);
+      setSearchParams({}, { replace: true });
+      toast.error('Your itinerary is ready but could not be saved to My Trips');
+    }
+  };
 
-      if (error) throw error;
+  const saveDraft = async () => {
+    if (!draft) return;
 
-      if (data.itinerary) {
-        setItinerary(data.itinerary);
-        toast.success('Your personalized itinerary is ready!');
-      }
-    } catch (error: any) {
-      console.error('Error generating itinerary:', error);
-      if (error.message?.includes('429')) {
-        toast.error('Too many requests. Please try again in a moment.');
-      } else if (error.message?.includes('402')) {
-        toast.error('AI credits exhausted. Please contact support.');
-      } else {
-        toast.error('Failed to generate itinerary. Please try again.');
+    let saved = withTotals(draft);
+    if (openTripId) {
+      setSavingDraft(true);
+      const result = await itineraryService.updateItinerary(openTripId, saved);
+      setSavingDraft(false);
+
+      if (!result.success || !result.data) {
+        toast.error(result.error || 'Failed to save your changes');
+        return;
       }
-    } finally {
-      setLoading(false);
+      saved = result.data.itinerary;
+      toast.success('Itinerary updated');
+    }
+
+    setItinerary(saved);
+    setDraft(null);
+    if (!saved.days.some(day => day.day === activeDay)) {
+      setActiveDay(saved.days[0]?.day ?? 1);
     }
   };
 
@@ -138,6 +214,13 @@ export default function TripPlanner() {
     }).format(amount);
   };
 
+  // IDs that no longer resolve, or have not resolved yet, give no link
+  const linkFor = (group: keyof ItineraryLinks, id?: string) => (id ? links?.[group][id] : undefined);
+
+  const linkedName = (name: string, link?: { href: string }) => link ? (
+    <Link to={link.href} className="hover:text-primary hover:underline">{name}</Link>
+  ) : name;
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -157,6 +240,12 @@ export default function TripPlanner() {
             <p className="text-lg text-muted-foreground">
               Let our AI craft a personalized itinerary based on your interests, budget, and travel style
             </p>
+            {user && (
+              <Button variant="outline" className="mt-6" onClick={() => navigate('/trips')}>
+                <Luggage className="h-4 w-4 mr-2" />
+                My Trips
+              </Button>
+            )}
           </div>
         </div>
       </section>
@@ -307,143 +396,204 @@ export default function TripPlanner() {
               </Card>
             )}
 
-            {itinerary && (
+            {shownItinerary && (
               <div className="space-y-6">
                 {/* Itinerary Header */}
                 <Card className="border-0 shadow-card overflow-hidden">
                   <div className="bg-gradient-to-r from-primary/20 via-primary/10 to-accent/10 p-6">
-                    <Badge variant="secondary" className="mb-3">
-                      <Sparkles className="h-3 w-3 mr-1" />
-                      AI Generated
-                    </Badge>
-                    <h2 className="font-display text-2xl font-bold mb-2">{itinerary.title}</h2>
-                    <p className="text-muted-foreground">{itinerary.summary}</p>
-                    <div className="flex items-center gap-4 mt-4">
+                    {shownItinerary.source === 'offline' ? (
+                      <Badge variant="secondary" className="mb-3">
+                        <BookOpen className="h-3 w-3 mr-1" />
+                        Planned From Our Travel Guide
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="mb-3">
+                        <Sparkles className="h-3 w-3 mr-1" />
+                        AI Generated
+                      </Badge>
+                    )}
+                    <h2 className="font-display text-2xl font-bold mb-2">{shownItinerary.title}</h2>
+                    <p className="text-muted-foreground">{shownItinerary.summary}</p>
+                    <div className="flex flex-wrap items-center gap-4 mt-4">
                       <Badge variant="outline" className="text-lg py-2 px-4">
                         <IndianRupee className="h-4 w-4 mr-1" />
-                        {formatCurrency(itinerary.totalEstimatedCost)}
+                        {formatCurrency(shownItinerary.totalEstimatedCost)}
                       </Badge>
                       <Badge variant="outline" className="text-lg py-2 px-4">
                         <Calendar className="h-4 w-4 mr-1" />
-                        {itinerary.days.length} Days
+                        {shownItinerary.days.length} Days
                       </Badge>
+                      <div className="ml-auto flex gap-2">
+                        {draft ? (
+                          <>
+                            <Button variant="outline" onClick={() => setDraft(null)} disabled={savingDraft}>
+                              Cancel
+                            </Button>
+                            <Button onClick={saveDraft} disabled={savingDraft}>
+                              {savingDraft ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <Save className="h-4 w-4 mr-2" />
+                              )}
+                              Save Changes
+                            </Button>
+                          </>
+                        ) : (
+                          <Button variant="outline" onClick={() => setDraft(itinerary)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit Itinerary
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </Card>
 
-                {/* Day Selector */}
-                <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-                  {itinerary.days.map((day) => (
-                    <Button
-                      key={day.day}
-                      variant={activeDay === day.day ? 'default' : 'outline'}
-                      onClick={() => setActiveDay(day.day)}
-                      className="whitespace-nowrap"
-                    >
-                      Day {day.day}
-                    </Button>
-                  ))}
-                </div>
+                {draft && (
+                  <ItineraryEditor itinerary={draft} destination={destination} onChange={setDraft} />
+                )}
 
-                {/* Active Day Details */}
-                {itinerary.days.filter(d => d.day === activeDay).map((day) => (
-                  <Card key={day.day} className="border-0 shadow-card">
-                    <CardHeader>
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <CardTitle className="flex items-center gap-2">
-                            <MapPin className="h-5 w-5 text-primary" />
-                            Day {day.day}: {day.location}
-                          </CardTitle>
-                          <CardDescription>{day.theme}</CardDescription>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-6">
-                      {/* Activities */}
-                      <div className="space-y-4">
-                        <h4 className="font-semibold flex items-center gap-2">
-                          <Clock className="h-4 w-4" />
-                          Activities
-                        </h4>
-                        <div className="space-y-3">
-                          {day.activities.map((activity, idx) => (
-                            <div key={idx} className="flex gap-4 p-4 bg-muted/50 rounded-lg">
-                              <Badge variant="outline" className="shrink-0">{activity.time}</Badge>
-                              <div className="flex-1">
-                                <h5 className="font-medium">{activity.activity}</h5>
-                                <p className="text-sm text-muted-foreground mt-1">{activity.description}</p>
-                                <div className="flex items-center gap-4 mt-2 text-sm">
-                                  <span className="text-muted-foreground">⏱ {activity.duration}</span>
-                                  {activity.cost > 0 && (
-                                    <span className="text-primary">{formatCurrency(activity.cost)}</span>
-                                  )}
+                {!draft && (
+                  <>
+                    {/* Day Selector */}
+                    <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+                      {shownItinerary.days.map((day) => (
+                        <Button
+                          key={day.day}
+                          variant={activeDay === day.day ? 'default' : 'outline'}
+                          onClick={() => setActiveDay(day.day)}
+                          className="whitespace-nowrap"
+                        >
+                          Day {day.day}
+                        </Button>
+                      ))}
+                    </div>
+
+                    {/* Active Day Details */}
+                    {shownItinerary.days.filter(d => d.day === activeDay).map((day) => (
+                      <Card key={day.day} className="border-0 shadow-card">
+                        <CardHeader>
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <CardTitle className="flex items-center gap-2">
+                                <MapPin className="h-5 w-5 text-primary" />
+                                Day {day.day}: {day.location}
+                              </CardTitle>
+                              <CardDescription>{day.theme}</CardDescription>
+                            </div>
+                            <Badge variant="outline">{formatCurrency(getDayTotal(day))}</Badge>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                          {/* Activities */}
+                          <div className="space-y-4">
+                            <h4 className="font-semibold flex items-center gap-2">
+                              <Clock className="h-4 w-4" />
+                              Activities
+                            </h4>
+                            <div className="space-y-3">
+                              {day.activities.map((activity, idx) => (
+                                <div key={idx} className="flex gap-4 p-4 bg-muted/50 rounded-lg">
+                                  <Badge variant="outline" className="shrink-0">{activity.time}</Badge>
+                                  <div className="flex-1">
+                                    <h5 className="font-medium">
+                                      {linkedName(activity.activity, linkFor('attractions', activity.attractionId))}
+                                    </h5>
+                                    <p className="text-sm text-muted-foreground mt-1">{activity.description}</p>
+                                    <div className="flex items-center gap-4 mt-2 text-sm">
+                                      <span className="text-muted-foreground">⏱ {activity.duration}</span>
+                                      {activity.cost > 0 && (
+                                        <span className="text-primary">{formatCurrency(activity.cost)}</span>
+                                      )}
+                                    </div>
+                                    {activity.tips && (
+                                      <div className="mt-2 p-2 bg-primary/10 rounded text-sm flex items-start gap-2">
+                                        <Lightbulb className="h-4 w-4 text-primary shrink-0 mt-0.5" />
+                                        <span>{activity.tips}</span>
+                                      </div>
+                                    )}
+                                    {linkFor('guides', activity.guideId) && (
+                                      <Button asChild variant="outline" size="sm" className="mt-2">
+                                        <Link to={linkFor('guides', activity.guideId)!.href}>
+                                          <UserCheck className="h-4 w-4 mr-2" />
+                                          Book {linkFor('guides', activity.guideId)!.name} as your guide
+                                        </Link>
+                                      </Button>
+                                    )}
+                                  </div>
                                 </div>
-                                {activity.tips && (
-                                  <div className="mt-2 p-2 bg-primary/10 rounded text-sm flex items-start gap-2">
-                                    <Lightbulb className="h-4 w-4 text-primary shrink-0 mt-0.5" />
-                                    <span>{activity.tips}</span>
+                              ))}
+                            </div>
+                          </div>
+
+                          {/* Meals */}
+                          {day.meals && (
+                            <div className="space-y-4">
+                              <h4 className="font-semibold flex items-center gap-2">
+                                <Utensils className="h-4 w-4" />
+                                Dining
+                              </h4>
+                              <div className="grid md:grid-cols-3 gap-3">
+                                {Object.entries(day.meals).map(([meal, details]) => details && (
+                                  <div key={meal} className="p-3 bg-muted/50 rounded-lg">
+                                    <span className="text-xs uppercase text-muted-foreground">{meal}</span>
+                                    <p className="font-medium">{details.place}</p>
+                                    <p className="text-sm text-muted-foreground">
+                                      {linkedName(details.dish, linkFor('cuisines', details.cuisineId))}
+                                    </p>
+                                    <p className="text-sm text-primary">{formatCurrency(details.cost)}</p>
                                   </div>
-                                )}
+                                ))}
                               </div>
                             </div>
-                          ))}
-                        </div>
-                      </div>
+                          )}
 
-                      {/* Meals */}
-                      {day.meals && (
-                        <div className="space-y-4">
-                          <h4 className="font-semibold flex items-center gap-2">
-                            <Utensils className="h-4 w-4" />
-                            Dining
-                          </h4>
-                          <div className="grid md:grid-cols-3 gap-3">
-                            {Object.entries(day.meals).map(([meal, details]) => details && (
-                              <div key={meal} className="p-3 bg-muted/50 rounded-lg">
-                                <span className="text-xs uppercase text-muted-foreground">{meal}</span>
-                                <p className="font-medium">{details.place}</p>
-                                <p className="text-sm text-muted-foreground">{details.dish}</p>
-                                <p className="text-sm text-primary">{formatCurrency(details.cost)}</p>
+                          {/* Transport & Accommodation */}
+                          <div className="grid md:grid-cols-2 gap-4">
+                            {day.transport && (
+                              <div className="p-4 border rounded-lg">
+                                <h5 className="font-medium mb-2">Transport</h5>
+                                <p className="text-sm">{day.transport.mode}: {day.transport.route}</p>
+                                <p className="text-primary">{formatCurrency(day.transport.cost)}</p>
                               </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
-
-                      {/* Transport & Accommodation */}
-                      <div className="grid md:grid-cols-2 gap-4">
-                        {day.transport && (
-                          <div className="p-4 border rounded-lg">
-                            <h5 className="font-medium mb-2">Transport</h5>
-                            <p className="text-sm">{day.transport.mode}: {day.transport.route}</p>
-                            <p className="text-primary">{formatCurrency(day.transport.cost)}</p>
-                          </div>
-                        )}
-                        {day.accommodation && (
-                          <div className="p-4 border rounded-lg">
-                            <h5 className="font-medium mb-2">Stay</h5>
-                            <p className="text-sm">{day.accommodation.name}</p>
-                            <p className="text-xs text-muted-foreground">{day.accommodation.type}</p>
-                            <p className="text-primary">{formatCurrency(day.accommodation.cost)}/night</p>
+                            )}
+                            {day.accommodation && (
+                              <div className="p-4 border rounded-lg">
+                                <h5 className="font-medium mb-2">Stay</h5>
+                                <p className="text-sm">
+                                  {linkedName(day.accommodation.name, linkFor('hotels', day.accommodation.hotelId))}
+                                </p>
+                                <p className="text-xs text-muted-foreground">{day.accommodation.type}</p>
+                                <p className="text-primary">{formatCurrency(day.accommodation.cost)}/night</p>
+                                {linkFor('hotels', day.accommodation.hotelId) && (
+                                  <Button asChild variant="outline" size="sm" className="mt-2">
+                                    <Link to={linkFor('hotels', day.accommodation.hotelId)!.href}>
+                                      <BedDouble className="h-4 w-4 mr-2" />
+                                      Book Stay
+                                    </Link>
+                                  </Button>
+                                )}
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                        </CardContent>
+                      </Card>
+                    ))}
+
+                  </>
+                )}
 
                 {/* Cultural Notes & Packing */}
-                {(itinerary.culturalNotes?.length || itinerary.packingList?.length) && (
+                {(shownItinerary.culturalNotes?.length || shownItinerary.packingList?.length) && (
                   <div className="grid md:grid-cols-2 gap-6">
-                    {itinerary.culturalNotes?.length && (
+                    {shownItinerary.culturalNotes?.length && (
                       <Card className="border-0 shadow-card">
                         <CardHeader>
                           <CardTitle className="text-lg">Cultural Notes</CardTitle>
                         </CardHeader>
                         <CardContent>
                           <ul className="space-y-2">
-                            {itinerary.culturalNotes.map((note, idx) => (
+                            {shownItinerary.culturalNotes.map((note, idx) => (
                               <li key={idx} className="flex items-start gap-2 text-sm">
                                 <ArrowRight className="h-4 w-4 text-primary shrink-0 mt-0.5" />
                                 {note}
@@ -453,14 +603,14 @@ export default function TripPlanner() {
                         </CardContent>
                       </Card>
                     )}
-                    {itinerary.packingList?.length && (
+                    {shownItinerary.packingList?.length && (
                       <Card className="border-0 shadow-card">
                         <CardHeader>
                           <CardTitle className="text-lg">Packing List</CardTitle>
                         </CardHeader>
                         <CardContent>
                           <div className="flex flex-wrap gap-2">
-                            {itinerary.packingList.map((item, idx) => (
+                            {shownItinerary.packingList.map((item, idx) => (
                               <Badge key={idx} variant="secondary">{item}</Badge>
                             ))}
                           </div>
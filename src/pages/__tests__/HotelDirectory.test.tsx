@@ -10,8 +10,15 @@ import { BrowserRouter } from 'react-router-dom';
 import HotelDirectoryPage from '../HotelDirectory';
 import { HotelSearchResult } from '@/services/search.service';
 
+jest.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: jest.fn()
+  }
+}));
+
 // Mock the search service
 jest.mock('@/services/search.service', () => ({
+  ...jest.requireActual<object>('@/services/search.service'),
   searchEngine: {
     searchHotels: jest.fn()
   }
@@ -30,6 +37,12 @@ jest.mock('@/components/Footer', () => {
   };
 });
 
+jest.mock('@/components/SaveSearchDialog', () => {
+  return function MockSaveSearchDialog() {
+    return <button>Save Search</button>;
+  };
+});
+
 jest.mock('@/components/LocationMap', () => {
   return function MockLocationMap() {
     return <div data-testid="location-map">Map</div>;
@@ -0,0 +1,204 @@
+/**
+ * Availability Service Property Tests
+ * Tests for guide weekly schedules, blackouts and free slot calculation
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import { AvailabilityService, GuideSchedule } from '../availability.service';
+import { GUIDE_TIME_SLOTS, GUIDE_DURATION_OPTIONS, getTourTime } from '../booking.service';
+import { supabase } from '@/integrations/supabase/client';
+
+jest.mock('@/integrations/supabase/client', () => {
+  return {
+    supabase: {
+      from: jest.fn(),
+      rpc: jest.fn()
+    }
+  };
+});
+
+const mockFrom = supabase.from as unknown as ReturnType<typeof jest.fn>;
+const mockRpc = supabase.rpc as unknown as ReturnType<typeof jest.fn>;
+
+// 2030-01-07 is a Monday; "now" is well before it so no slot is in the past
+const MONDAY = '2030-01-07';
+const NOW = new Date('2029-12-01T00:00:00');
+
+const emptySchedule: GuideSchedule = { rules: [], blackouts: [] };
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+describe('AvailabilityService Property Tests', () => {
+  let availabilityService: AvailabilityService;
+
+  beforeEach(() => {
+    availabilityService = new AvailabilityService();
+  });
+
+  /**
+   * Property 1: Weekly Schedule Windows
+   * For any weekly window, only slots whose whole tour fits inside the window should be offered
+   */
+  describe('Property 1: Weekly Schedule Windows', () => {
+    it('should only offer slots that fit inside the day\'s windows', () => {
+      fc.assert(fc.property(
+        fc.integer({ min: 6, max: 14 }),
+        fc.integer({ min: 2, max: 12 }),
+        fc.constantFrom(...GUIDE_DURATION_OPTIONS),
+        (startHour, windowHours, duration) => {
+          const endHour = Math.min(startHour + windowHours, 23);
+          const schedule: GuideSchedule = {
+            rules: [{
+              guide_id: 'guide1',
+              day_of_week: 1,
+              start_time: `${String(startHour).padStart(2, '0')}:00`,
+              end_time: `${String(endHour).padStart(2, '0')}:00`,
+              city: 'Jaipur'
+            }],
+            blackouts: []
+          };
+
+          const slots = availabilityService.computeFreeSlots(MONDAY, duration, schedule, [], NOW);
+          const expected = GUIDE_TIME_SLOTS.filter(time =>
+            toMinutes(time) >= startHour * 60 && toMinutes(time) + duration * 60 <= endHour * 60
+          );
+
+          expect(slots.map(slot => slot.time)).toEqual(expected);
+          slots.forEach(slot => expect(slot.city).toBe('Jaipur'));
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should offer nothing on days without a window once a schedule exists', () => {
+      const schedule: GuideSchedule = {
+        rules: [{ guide_id: 'guide1', day_of_week: 2, start_time: '08:00', end_time: '20:00', city: null }],
+        blackouts: []
+      };
+
+      expect(availabilityService.computeFreeSlots(MONDAY, 2, schedule, [], NOW)).toEqual([]);
+    });
+
+    it('should offer every slot to guides without a schedule', () => {
+      const slots = availabilityService.computeFreeSlots(MONDAY, 2, emptySchedule, [], NOW);
+
+      expect(slots.map(slot => slot.time)).toEqual(GUIDE_TIME_SLOTS);
+    });
+
+    it('should skip slots that have already started', () => {
+      const slots = availabilityService.computeFreeSlots(MONDAY, 2, emptySchedule, [], getTourTime(MONDAY, '11:00'));
+
+      expect(slots.every(slot => toMinutes(slot.time) > 11 * 60)).toBe(true);
+    });
+  });
+
+  /**
+   * Property 2: Blackouts and Confirmed Tours
+   * For any confirmed tour or blackout, no offered slot should overlap it
+   */
+  describe('Property 2: Blackouts and Confirmed Tours', () => {
+    it('should never offer a slot that overlaps a confirmed tour', () => {
+      fc.assert(fc.property(
+        fc.constantFrom(...GUIDE_TIME_SLOTS),
+        fc.constantFrom(...GUIDE_DURATION_OPTIONS),
+        fc.constantFrom(...GUIDE_DURATION_OPTIONS),
+        (bookedTime, bookedDuration, duration) => {
+          const bookedStart = getTourTime(MONDAY, bookedTime);
+          const bookedEnd = bookedStart.getTime() + bookedDuration * 60 * 60 * 1000;
+
+          const slots = availabilityService.computeFreeSlots(
+            MONDAY,
+            duration,
+            emptySchedule,
+            [{ start_at: bookedStart.toISOString(), end_at: new Date(bookedEnd).toISOString() }],
+            NOW
+          );
+
+          expect(slots.some(slot => slot.time === bookedTime)).toBe(false);
+          slots.forEach(slot => {
+            const start = getTourTime(MONDAY, slot.time).getTime();
+            const end = start + duration * 60 * 60 * 1000;
+            expect(start < bookedEnd && end > bookedStart.getTime()).toBe(false);
+          });
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should read other guests\' bookings only as busy times', async () => {
+      // An empty schedule: no weekly rules and no blackouts
+      const query: Record<string, unknown> = {};
+      ['select', 'eq', 'gte'].forEach(method => {
+        query[method] = jest.fn(() => query);
+      });
+      query.order = jest.fn(async () => ({ data: [], error: null }));
+      mockFrom.mockReturnValue(query);
+      mockRpc.mockResolvedValue({
+        data: [{ start_at: getTourTime(MONDAY, '08:00').toISOString(), end_at: getTourTime(MONDAY, '12:00').toISOString() }],
+        error: null
+      });
+
+      const result = await availabilityService.getFreeSlots('guide1', MONDAY, 2);
+
+      expect(mockFrom).not.toHaveBeenCalledWith('guide_bookings');
+      expect(mockRpc).toHaveBeenCalledWith('guide_busy_periods', expect.objectContaining({ p_guide_id: 'guide1' }));
+      expect(result.success).toBe(true);
+      expect(result.data?.some(slot => slot.time === '08:00' || slot.time === '10:00')).toBe(false);
+    });
+
+    it('should offer nothing on a whole-day blackout', () => {
+      const schedule: GuideSchedule = {
+        rules: [],
+        blackouts: [{ guide_id: 'guide1', date: MONDAY, start_time: null, end_time: null, reason: 'Diwali' }]
+      };
+
+      expect(availabilityService.computeFreeSlots(MONDAY, 2, schedule, [], NOW)).toEqual([]);
+    });
+
+    it('should only remove the blacked-out part of a day', () => {
+      const schedule: GuideSchedule = {
+        rules: [],
+        blackouts: [{ guide_id: 'guide1', date: MONDAY, start_time: '11:00', end_time: '15:00', reason: null }]
+      };
+
+      const slots = availabilityService.computeFreeSlots(MONDAY, 2, schedule, [], NOW).map(slot => slot.time);
+
+      expect(slots).toEqual(['08:00', '16:00', '18:00']);
+    });
+  });
+
+  /**
+   * Property 3: Guide Profile Ownership
+   * For any guide user, availability should be managed for the guide profile they own
+   */
+  describe('Property 3: Guide Profile Ownership', () => {
+    it('should find the guide profile by its ID or by the user_id it carries', async () => {
+      const or = jest.fn().mockReturnValue({
+        limit: jest.fn(async () => ({ data: [{ id: 'guide-profile' }], error: null }))
+      });
+      mockFrom.mockReturnValue({ select: jest.fn().mockReturnValue({ or }) });
+
+      const result = await availabilityService.getOwnGuideId('user1');
+
+      expect(mockFrom).toHaveBeenCalledWith('tour_guides');
+      expect(or).toHaveBeenCalledWith('id.eq.user1,user_id.eq.user1');
+      expect(result).toEqual({ success: true, data: 'guide-profile' });
+    });
+
+    it('should report no profile for users who are not guides', async () => {
+      mockFrom.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          or: jest.fn().mockReturnValue({
+            limit: jest.fn(async () => ({ data: [], error: null }))
+          })
+        })
+      });
+
+      const result = await availabilityService.getOwnGuideId('tourist1');
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+  });
+});
@@ -0,0 +1,572 @@
+/**
+ * Booking Service Property Tests
+ * Tests for tour guide booking creation, pricing, references and lifecycle
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BookingService,
+  BookingAction,
+  BookingStatus,
+  BOOKING_ACTIONS,
+  GUIDE_TIME_SLOTS,
+  GUIDE_DURATION_OPTIONS,
+  getTourDate
+} from '../booking.service';
+
+// Mock Supabase client
+const mockSupabaseResponse = <T>(data: T, error: { message: string } | null = null) => ({
+  data,
+  error
+});
+
+jest.mock('@/integrations/supabase/client', () => {
+  return {
+    supabase: {
+      from: jest.fn(),
+      rpc: jest.fn()
+    }
+  };
+});
+
+const mockFrom = supabase.from as unknown as ReturnType<typeof jest.fn>;
+const mockRpc = supabase.rpc as unknown as ReturnType<typeof jest.fn>;
+
+const futureDate = (daysAhead: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysAhead);
+  return date.toISOString().split('T')[0];
+};
+
+describe('BookingService Property Tests', () => {
+  let bookingService: BookingService;
+
+  beforeEach(() => {
+    bookingService = new BookingService();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  /**
+   * Property 1: Readable Booking References
+   * For any booking date, the generated reference should follow PREFIX-YYYYMMDD-XXXXX using unambiguous characters
+   */
+  describe('Property 1: Readable Booking References', () => {
+    it('should generate references in the PREFIX-YYYYMMDD-XXXXX format', () => {
+      fc.assert(fc.property(
+        fc.constantFrom<'GB' | 'HB'>('GB', 'HB'),
+        fc.date({ min: new Date('2024-01-01'), max: new Date('2030-12-31'), noInvalidDate: true }),
+        (prefix, date) => {
+          const reference = bookingService.generateBookingReference(prefix, date);
+          const expectedDate = getTourDate(date).replace(/-/g, '');
+
+          expect(reference).toMatch(/^(GB|HB)-\d{8}-[A-HJ-NP-Z2-9]{5}$/);
+          expect(reference.startsWith(`${prefix}-${expectedDate}-`)).toBe(true);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should date references in Indian Standard Time whatever the browser\'s time zone', () => {
+      // 20:00 UTC is already 01:30 the next morning in India
+      expect(bookingService.generateBookingReference('GB', new Date('2030-01-06T20:00:00Z'))).toMatch(/^GB-20300107-/);
+      expect(bookingService.generateBookingReference('HB', new Date('2030-01-06T18:00:00Z'))).toMatch(/^HB-20300106-/);
+    });
+  });
+
+  /**
+   * Property 2: Guide Booking Cost
+   * For any hourly rate and duration, the booking cost should be rate × hours
+   */
+  describe('Property 2: Guide Booking Cost', () => {
+    it('should price bookings from the hourly rate and duration', () => {
+      fc.assert(fc.property(
+        fc.integer({ min: 1, max: 10000 }),
+        fc.constantFrom(...GUIDE_DURATION_OPTIONS),
+        (hourlyRate, durationHours) => {
+          expect(bookingService.calculateGuideBookingCost(hourlyRate, durationHours))
+            .toBe(hourlyRate * durationHours);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should return zero when the guide has no hourly rate', () => {
+      expect(bookingService.calculateGuideBookingCost(null, 4)).toBe(0);
+      expect(bookingService.calculateGuideBookingCost(0, 4)).toBe(0);
+    });
+  });
+
+  /**
+   * Property 3: Guide Booking Creation
+   * For any valid booking request, a pending guide booking should be requested from the database, which prices it
+   */
+  describe('Property 3: Guide Booking Creation', () => {
+    it('should request bookings through request_guide_booking without sending a price', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.constantFrom(...GUIDE_TIME_SLOTS),
+        fc.constantFrom(...GUIDE_DURATION_OPTIONS),
+        fc.integer({ min: 1, max: 60 }),
+        async (timeSlot, durationHours, daysAhead) => {
+          mockRpc.mockReset();
+          mockRpc.mockImplementation(async (_fn: string, args: Record<string, unknown>) =>
+            mockSupabaseResponse({ id: 'booking1', status: 'pending', booking_reference: args.p_booking_reference })
+          );
+
+          const date = futureDate(daysAhead);
+          const result = await bookingService.createGuideBooking({
+            guideId: 'guide1',
+            userId: 'user1',
+            date,
+            timeSlot,
+            durationHours,
+            location: '  Amber Fort  '
+          });
+
+          expect(result.success).toBe(true);
+          expect(mockRpc).toHaveBeenCalledWith('request_guide_booking', {
+            p_guide_id: 'guide1',
+            p_booking_date: bookingService.getBookingStart(date, timeSlot).toISOString(),
+            p_duration_hours: durationHours,
+            p_location: 'Amber Fort',
+            p_special_requests: null,
+            p_booking_reference: expect.stringMatching(/^GB-\d{8}-[A-Z0-9]{5}$/)
+          });
+          expect(mockFrom).not.toHaveBeenCalled();
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should surface availability errors from the database', async () => {
+      mockRpc.mockImplementation(async () =>
+        mockSupabaseResponse(null, { message: 'The guide is not available at this time' })
+      );
+
+      const result = await bookingService.createGuideBooking({
+        guideId: 'guide1',
+        userId: 'user1',
+        date: futureDate(3),
+        timeSlot: GUIDE_TIME_SLOTS[0],
+        durationHours: GUIDE_DURATION_OPTIONS[0]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('The guide is not available at this time');
+    });
+
+    it('should read tour dates and times in Indian Standard Time whatever the browser\'s time zone', () => {
+      expect(bookingService.getBookingStart('2030-01-07', '08:00').toISOString()).toBe('2030-01-07T02:30:00.000Z');
+      expect(bookingService.getBookingStart('2030-01-07', '18:00').toISOString()).toBe('2030-01-07T12:30:00.000Z');
+      // 20:00 UTC is already 01:30 the next morning in India
+      expect(getTourDate(new Date('2030-01-06T20:00:00Z'))).toBe('2030-01-07');
+      expect(getTourDate(new Date('2030-01-06T20:00:00Z'), 1)).toBe('2030-01-08');
+      expect(getTourDate(new Date('2030-01-06T18:00:00Z'))).toBe('2030-01-06');
+    });
+
+    it('should reject bookings in the past without touching the database', async () => {
+      const result = await bookingService.createGuideBooking({
+        guideId: 'guide1',
+        userId: 'user1',
+        date: futureDate(-1),
+        timeSlot: GUIDE_TIME_SLOTS[0],
+        durationHours: GUIDE_DURATION_OPTIONS[0]
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject time slots and durations that are not offered', async () => {
+      const slotResult = await bookingService.createGuideBooking({
+        guideId: 'guide1',
+        userId: 'user1',
+        date: futureDate(3),
+        timeSlot: '03:00',
+        durationHours: GUIDE_DURATION_OPTIONS[0]
+      });
+      const durationResult = await bookingService.createGuideBooking({
+        guideId: 'guide1',
+        userId: 'user1',
+        date: futureDate(3),
+        timeSlot: GUIDE_TIME_SLOTS[0],
+        durationHours: 13
+      });
+
+      expect(slotResult.success).toBe(false);
+      expect(durationResult.success).toBe(false);
+    });
+  });
+
+  /**
+   * Property 4: Booking Lifecycle Transitions
+   * For any booking type and status, only the documented lifecycle transitions should be allowed
+   */
+  describe('Property 4: Booking Lifecycle Transitions', () => {
+    const allStatuses: BookingStatus[] = [
+      'pending', 'confirmed', 'checked_in', 'in_progress', 'completed',
+      'cancelled_by_guest', 'cancelled_by_provider', 'no_show'
+    ];
+    const terminalStatuses: BookingStatus[] = ['completed', 'cancelled_by_guest', 'cancelled_by_provider', 'no_show'];
+
+    it('should never leave a terminal status', () => {
+      fc.assert(fc.property(
+        fc.constantFrom<'hotel' | 'guide'>('hotel', 'guide'),
+        fc.constantFrom(...terminalStatuses),
+        fc.constantFrom(...allStatuses),
+        (type, from, to) => {
+          expect(bookingService.canTransition(type, from, to)).toBe(false);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should use checked_in for hotels and in_progress for guides', () => {
+      expect(bookingService.canTransition('hotel', 'confirmed', 'checked_in')).toBe(true);
+      expect(bookingService.canTransition('hotel', 'confirmed', 'in_progress')).toBe(false);
+      expect(bookingService.canTransition('guide', 'confirmed', 'in_progress')).toBe(true);
+      expect(bookingService.canTransition('guide', 'confirmed', 'checked_in')).toBe(false);
+      expect(bookingService.canTransition('guide', 'pending', 'completed')).toBe(false);
+    });
+
+    it('should only offer actions to the party allowed to perform them', () => {
+      fc.assert(fc.property(
+        fc.constantFrom<'hotel' | 'guide'>('hotel', 'guide'),
+        fc.constantFrom(...allStatuses),
+        fc.constantFrom<'guest' | 'provider'>('guest', 'provider'),
+        (type, status, actor) => {
+          bookingService.getAvailableActions(type, status, actor).forEach(action => {
+            expect(BOOKING_ACTIONS[action].actor).toBe(actor);
+            expect(bookingService.canTransition(type, status, BOOKING_ACTIONS[action].status)).toBe(true);
+          });
+        }
+      ), { numRuns: 100 });
+
+      expect(bookingService.getAvailableActions('guide', 'pending', 'guest')).toEqual(['cancel']);
+      expect(bookingService.getAvailableActions('guide', 'in_progress', 'guest')).toEqual([]);
+    });
+  });
+
+  /**
+   * Property 5: Validated Status Updates
+   * For any transition request, the booking should only change when the actor and transition are allowed
+   */
+  describe('Property 5: Validated Status Updates', () => {
+    // One guide profile keyed by the owner's user ID, one carrying a separate user_id
+    const guides = [{ id: 'guide-owner', user_id: null }, { id: 'guide-profile', user_id: 'guide-user' }];
+
+    const mockBookingTables = (booking: Record<string, unknown>) => {
+      const transitions: Record<string, unknown>[] = [];
+
+      mockFrom.mockImplementation((tableName: string) => {
+        if (tableName === 'tour_guides') {
+          return {
+            select: jest.fn().mockReturnValue({
+              or: jest.fn(async (filter: string) => {
+                const userId = filter.split(',')[0].replace('id.eq.', '');
+                return mockSupabaseResponse(guides
+                  .filter(guide => guide.id === userId || guide.user_id === userId)
+                  .map(guide => ({ id: guide.id })));
+              })
+            })
+          };
+        }
+
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              single: jest.fn(async () => mockSupabaseResponse(booking))
+            })
+          })
+        };
+      });
+
+      mockRpc.mockImplementation(async (fn: string, args: Record<string, unknown>) => {
+        transitions.push({ fn, ...args });
+        return mockSupabaseResponse({ ...booking, status: args.p_to_status });
+      });
+
+      return { transitions };
+    };
+
+    it('should let the guest cancel a pending booking through transition_booking', async () => {
+      const { transitions } = mockBookingTables({
+        id: 'booking1', user_id: 'tourist1', guide_id: 'guide-owner', status: 'pending'
+      });
+
+      const result = await bookingService.transitionBooking('guide', 'booking1', 'cancel', 'tourist1', 'Plans changed');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('cancelled_by_guest');
+      expect(transitions).toEqual([{
+        fn: 'transition_booking',
+        p_booking_type: 'guide',
+        p_booking_id: 'booking1',
+        p_to_status: 'cancelled_by_guest',
+        p_note: 'Plans changed'
+      }]);
+    });
+
+    it('should let a guide whose profile carries their user ID accept a booking', async () => {
+      const { transitions } = mockBookingTables({
+        id: 'booking1', user_id: 'tourist1', guide_id: 'guide-profile', status: 'pending'
+      });
+
+      const result = await bookingService.transitionBooking('guide', 'booking1', 'confirm', 'guide-user', 'See you at the gate');
+
+      expect(result.success).toBe(true);
+      expect(transitions).toHaveLength(1);
+      expect(transitions[0]).toMatchObject({ p_to_status: 'confirmed', p_note: 'See you at the gate' });
+    });
+
+    it('should reject provider actions from the guest', async () => {
+      const { transitions } = mockBookingTables({
+        id: 'booking1', user_id: 'tourist1', guide_id: 'guide-owner', status: 'pending'
+      });
+
+      const result = await bookingService.transitionBooking('guide', 'booking1', 'confirm', 'tourist1');
+
+      expect(result.success).toBe(false);
+      expect(transitions).toHaveLength(0);
+    });
+
+    // Verified review badges rely on only providers being able to complete a booking
+    it('should never let the guest move their own booking towards completed', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.constantFrom<'hotel' | 'guide'>('hotel', 'guide'),
+        fc.constantFrom<BookingStatus>('pending', 'confirmed', 'checked_in', 'in_progress'),
+        fc.constantFrom<BookingAction>('confirm', 'check_in', 'start', 'complete'),
+        async (type, status, action) => {
+          const { transitions } = mockBookingTables({
+            id: 'booking1', user_id: 'tourist1', guide_id: 'guide-owner', hotel_id: 'hotel1', status
+          });
+
+          const result = await bookingService.transitionBooking(type, 'booking1', action, 'tourist1');
+
+          expect(bookingService.getAvailableActions(type, status, 'guest').every(available => available === 'cancel')).toBe(true);
+          expect(result.success).toBe(false);
+          expect(transitions).toHaveLength(0);
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should surface a transition the database refuses', async () => {
+      mockBookingTables({
+        id: 'booking1', user_id: 'tourist1', guide_id: 'guide-owner', status: 'pending'
+      });
+      mockRpc.mockImplementation(async () => mockSupabaseResponse(null, { message: 'You are not allowed to update this booking' }));
+
+      const result = await bookingService.transitionBooking('guide', 'booking1', 'cancel', 'tourist1');
+
+      expect(result).toEqual({ success: false, error: 'You are not allowed to update this booking' });
+    });
+
+    it('should reject transitions that skip lifecycle steps', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.constantFrom<BookingStatus>('pending', 'completed', 'cancelled_by_guest', 'no_show'),
+        async (status) => {
+          const { transitions } = mockBookingTables({
+            id: 'booking1', user_id: 'tourist1', guide_id: 'guide-owner', status
+          });
+
+          const result = await bookingService.transitionBooking('guide', 'booking1', 'complete', 'guide-owner');
+
+          expect(result.success).toBe(false);
+          expect(transitions).toHaveLength(0);
+        }
+      ), { numRuns: 10 });
+    });
+  });
+
+  /**
+   * Property 6: Provider Booking Inbox
+   * For any provider, bookings from their guide profile and hotels should be merged and ordered by arrival
+   */
+  describe('Property 6: Provider Booking Inbox', () => {
+    it('should merge guide and hotel bookings with guest names, soonest arrival first', async () => {
+      let guideFilter = '';
+      let guideIds: unknown[] = [];
+
+      mockFrom.mockImplementation((tableName: string) => {
+        // The provider's guide profile has its own ID and points back to them by user_id
+        if (tableName === 'tour_guides') {
+          return {
+            select: jest.fn().mockReturnValue({
+              or: jest.fn(async (filter: string) => {
+                guideFilter = filter;
+                return mockSupabaseResponse([{ id: 'guide-profile1' }]);
+              })
+            })
+          };
+        }
+
+        if (tableName === 'guide_bookings') {
+          return {
+            select: jest.fn().mockReturnValue({
+              in: jest.fn((_column: string, ids: unknown[]) => {
+                guideIds = ids;
+                return {
+                  order: jest.fn(async () => mockSupabaseResponse([
+                    { id: 'g1', user_id: 'tourist1', guide_id: 'guide-profile1', booking_date: '2030-03-10T10:00:00.000Z', status: 'pending' }
+                  ]))
+                };
+              })
+            })
+          };
+        }
+
+        if (tableName === 'hotels') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn(async () => mockSupabaseResponse([{ id: 'hotel1', name: 'Lake Palace' }]))
+            })
+          };
+        }
+
+        if (tableName === 'hotel_bookings') {
+          return {
+            select: jest.fn().mockReturnValue({
+              in: jest.fn().mockReturnValue({
+                order: jest.fn(async () => mockSupabaseResponse([
+                  { id: 'h1', user_id: 'tourist2', hotel_id: 'hotel1', check_in_date: '2030-03-01', status: 'confirmed' }
+                ]))
+              })
+            })
+          };
+        }
+
+        return {
+          select: jest.fn().mockReturnValue({
+            in: jest.fn(async () => mockSupabaseResponse([
+              { id: 'tourist1', full_name: 'Asha Rao' },
+              { id: 'tourist2', full_name: 'Vikram Singh' }
+            ]))
+          })
+        };
+      });
+
+      const result = await bookingService.getProviderBookings('provider1');
+
+      expect(result.success).toBe(true);
+      expect(guideFilter).toBe('id.eq.provider1,user_id.eq.provider1');
+      expect(guideIds).toEqual(['guide-profile1']);
+      expect(result.data?.map(item => item.booking.id)).toEqual(['h1', 'g1']);
+      expect(result.data?.[0]).toMatchObject({ type: 'hotel', listingName: 'Lake Palace', guestName: 'Vikram Singh' });
+      expect(result.data?.[1]).toMatchObject({ type: 'guide', listingName: 'Guided tour', guestName: 'Asha Rao' });
+    });
+
+    it('should look up the guest to email through booking_guest_contact', async () => {
+      mockRpc.mockImplementation(async () => mockSupabaseResponse([{ email: 'asha@example.com', full_name: 'Asha Rao' }]));
+
+      const result = await bookingService.getGuestContact('guide', 'g1');
+
+      expect(mockRpc).toHaveBeenCalledWith('booking_guest_contact', { p_booking_type: 'guide', p_booking_id: 'g1' });
+      expect(result).toEqual({ success: true, data: { email: 'asha@example.com', full_name: 'Asha Rao' } });
+    });
+
+    it('should fetch the latest provider message of every booking in one query', async () => {
+      const calls: unknown[][] = [];
+      const query: Record<string, unknown> = {};
+      ['select', 'in', 'eq', 'not'].forEach(method => {
+        query[method] = jest.fn((...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return query;
+        });
+      });
+      query.order = jest.fn(async () => mockSupabaseResponse([
+        { booking_id: 'g1', booking_type: 'guide', note: 'Meet at the east gate' },
+        { booking_id: 'h1', booking_type: 'hotel', note: 'Early check-in is fine' },
+        { booking_id: 'g1', booking_type: 'guide', note: 'Moved to 9am, see you there' },
+        // Another booking type that happens to share the ID
+        { booking_id: 'h1', booking_type: 'guide', note: 'Not this booking' }
+      ]));
+      mockFrom.mockReturnValue(query);
+
+      const result = await bookingService.getProviderNotes([
+        { type: 'guide', id: 'g1' },
+        { type: 'hotel', id: 'h1' },
+        { type: 'hotel', id: 'h2' }
+      ]);
+
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+      expect(calls).toContainEqual(['in', 'booking_id', ['g1', 'h1', 'h2']]);
+      expect(calls).toContainEqual(['eq', 'actor_role', 'provider']);
+      expect(result).toEqual({
+        success: true,
+        data: { 'guide:g1': 'Moved to 9am, see you there', 'hotel:h1': 'Early check-in is fine' }
+      });
+    });
+
+    it('should report no contact when the caller does not provide the booking', async () => {
+      mockRpc.mockImplementation(async () => mockSupabaseResponse([]));
+
+      const result = await bookingService.getGuestContact('hotel', 'h1');
+
+      expect(result).toEqual({ success: false, error: 'Guest contact not found' });
+    });
+  });
+
+  /**
+   * Property 7: Hotel Room Reservations
+   * For any valid stay, the reservation should go through the locking database function
+   */
+  describe('Property 7: Hotel Room Reservations', () => {
+    it('should reserve rooms through reserve_hotel_rooms with an HB reference', async () => {
+      mockRpc.mockImplementation(async (_fn: string, args: Record<string, unknown>) =>
+        mockSupabaseResponse({ id: 'booking1', status: 'pending', booking_reference: args.p_booking_reference })
+      );
+
+      const result = await bookingService.createHotelBooking({
+        roomTypeId: 'room1',
+        userId: 'tourist1',
+        checkIn: futureDate(5),
+        checkOut: futureDate(8),
+        rooms: 2,
+        guests: 3
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('reserve_hotel_rooms', expect.objectContaining({
+        p_room_type_id: 'room1',
+        p_check_in: futureDate(5),
+        p_check_out: futureDate(8),
+        p_rooms: 2,
+        p_guests: 3
+      }));
+      expect(result.data?.booking_reference).toMatch(/^HB-\d{8}-[A-Z0-9]{5}$/);
+    });
+
+    it('should surface sold-out errors from the database', async () => {
+      mockRpc.mockImplementation(async () =>
+        mockSupabaseResponse(null, { message: 'Deluxe is sold out on 2030-01-02' })
+      );
+
+      const result = await bookingService.createHotelBooking({
+        roomTypeId: 'room1',
+        userId: 'tourist1',
+        checkIn: futureDate(5),
+        checkOut: futureDate(6),
+        rooms: 1,
+        guests: 1
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('sold out');
+    });
+
+    it('should reject stays where check-out is not after check-in without calling the database', async () => {
+      const result = await bookingService.createHotelBooking({
+        roomTypeId: 'room1',
+        userId: 'tourist1',
+        checkIn: futureDate(5),
+        checkOut: futureDate(5),
+        rooms: 1,
+        guests: 1
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Inventory Service Property Tests
+ * Tests for stay nights, pricing and per-night room availability
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import { InventoryService } from '../inventory.service';
+
+jest.mock('@/integrations/supabase/client', () => {
+  return {
+    supabase: {
+      from: jest.fn()
+    }
+  };
+});
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00`);
+  result.setDate(result.getDate() + days);
+  return [
+    result.getFullYear(),
+    String(result.getMonth() + 1).padStart(2, '0'),
+    String(result.getDate()).padStart(2, '0')
+  ].join('-');
+};
+
+describe('InventoryService Property Tests', () => {
+  let inventoryService: InventoryService;
+
+  beforeEach(() => {
+    inventoryService = new InventoryService();
+  });
+
+  /**
+   * Property 1: Stay Nights
+   * For any check-in date and length of stay, the stay should cover exactly one night per day before check-out
+   */
+  describe('Property 1: Stay Nights', () => {
+    it('should list every night from check-in up to but excluding check-out', () => {
+      fc.assert(fc.property(
+        fc.integer({ min: 0, max: 365 }),
+        fc.integer({ min: 1, max: 30 }),
+        (offset, length) => {
+          const checkIn = addDays('2030-01-01', offset);
+          const nights = inventoryService.getStayNights(checkIn, addDays(checkIn, length));
+
+          expect(nights).toHaveLength(length);
+          expect(nights[0]).toBe(checkIn);
+          expect(nights[nights.length - 1]).toBe(addDays(checkIn, length - 1));
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should return no nights when check-out is not after check-in', () => {
+      expect(inventoryService.getStayNights('2030-01-05', '2030-01-05')).toEqual([]);
+      expect(inventoryService.getStayNights('2030-01-05', '2030-01-01')).toEqual([]);
+      expect(inventoryService.getStayNights('', '2030-01-01')).toEqual([]);
+    });
+
+    it('should price stays as rate × rooms × nights', () => {
+      fc.assert(fc.property(
+        fc.integer({ min: 1, max: 50000 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 30 }),
+        (rate, rooms, nights) => {
+          expect(inventoryService.calculateStayCost(rate, rooms, nights)).toBe(rate * rooms * nights);
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 2: Availability Ledger
+   * For any set of booked units, free units should be total units minus booked units and never negative
+   */
+  describe('Property 2: Availability Ledger', () => {
+    it('should subtract booked units per night from the room count', () => {
+      fc.assert(fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.array(fc.integer({ min: 0, max: 25 }), { minLength: 1, maxLength: 14 }),
+        (totalUnits, bookedPerNight) => {
+          const from = '2030-02-01';
+          const rows = bookedPerNight.map((booked, index) => ({
+            room_type_id: 'room1',
+            date: addDays(from, index),
+            booked_units: booked
+          }));
+
+          const calendar = inventoryService.buildAvailabilityCalendar(
+            { id: 'room1', total_units: totalUnits },
+            rows,
+            from,
+            addDays(from, bookedPerNight.length)
+          );
+
+          bookedPerNight.forEach((booked, index) => {
+            expect(calendar[addDays(from, index)]).toBe(Math.max(totalUnits - booked, 0));
+          });
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should treat nights without ledger rows as fully available', () => {
+      const calendar = inventoryService.buildAvailabilityCalendar(
+        { id: 'room1', total_units: 4 },
+        [{ room_type_id: 'other-room', date: '2030-02-01', booked_units: 4 }],
+        '2030-02-01',
+        '2030-02-03'
+      );
+
+      expect(calendar).toEqual({ '2030-02-01': 4, '2030-02-02': 4 });
+    });
+  });
+
+  /**
+   * Property 3: Overlapping Stays
+   * For any stay, it should be rejected exactly when one of its nights has fewer free units than requested
+   */
+  describe('Property 3: Overlapping Stays', () => {
+    it('should reject stays that include a sold-out night', () => {
+      fc.assert(fc.property(
+        fc.array(fc.integer({ min: 0, max: 5 }), { minLength: 1, maxLength: 10 }),
+        fc.integer({ min: 1, max: 5 }),
+        (freeUnits, rooms) => {
+          const checkIn = '2030-03-01';
+          const calendar: Record<string, number> = {};
+          freeUnits.forEach((units, index) => {
+            calendar[addDays(checkIn, index)] = units;
+          });
+
+          const result = inventoryService.checkStay(calendar, checkIn, addDays(checkIn, freeUnits.length), rooms);
+
+          expect(result.available).toBe(freeUnits.every(units => units >= rooms));
+          expect(result.availableUnits).toBe(Math.min(...freeUnits));
+          expect(result.soldOutDates).toHaveLength(freeUnits.filter(units => units < rooms).length);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should treat nights outside the loaded calendar as unavailable', () => {
+      const result = inventoryService.checkStay({ '2030-03-01': 3 }, '2030-03-01', '2030-03-03', 1);
+
+      expect(result.available).toBe(false);
+      expect(result.soldOutDates).toEqual(['2030-03-02']);
+    });
+  });
+});
@@ -0,0 +1,639 @@
+/**
+ * Itinerary Service Property Tests
+ * Tests for generating, saving, renaming, copying and editing trip itineraries
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  ItineraryService,
+  describeTripPreferences,
+  getDayTotal,
+  moveActivity,
+  updateActivity,
+  removeActivity,
+  swapInAttraction,
+  addDay,
+  removeDay,
+  getReferencedIds,
+  MAX_ITINERARY_TITLE_LENGTH,
+  DEFAULT_ATTRACTION_DURATION,
+  ITINERARY_ERROR_MESSAGES,
+  type ItineraryErrorCode,
+  type Itinerary,
+  type ItineraryActivity,
+  type ItineraryAttraction,
+  type ItineraryDay,
+  type TripPreferences
+} from '../itinerary.service';
+import { parseItinerary, validateItinerary } from '../../../supabase/functions/_shared/itinerary.schema';
+import { supabase } from '@/integrations/supabase/client';
+
+jest.mock('@/integrations/supabase/client', () => {
+  return {
+    supabase: {
+      from: jest.fn(),
+      functions: {
+        invoke: jest.fn()
+      }
+    }
+  };
+});
+
+const mockFrom = supabase.from as unknown as ReturnType<typeof jest.fn>;
+const mockInvoke = supabase.functions.invoke as unknown as ReturnType<typeof jest.fn>;
+
+interface RecordingQuery {
+  calls: unknown[][];
+  [method: string]: unknown;
+}
+
+// Query builder that records its calls and resolves to the given result
+const createQuery = (result: { data: unknown; error: unknown }) => {
+  const query: RecordingQuery = { calls: [] };
+  ['select', 'eq', 'in', 'order', 'update', 'insert', 'delete'].forEach(method => {
+    query[method] = jest.fn((...args: unknown[]) => {
+      query.calls.push([method, ...args]);
+      return query;
+    });
+  });
+  query.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  query.single = jest.fn(async () => result);
+  return query;
+};
+
+const findCall = (query: RecordingQuery, method: string) => query.calls.find(call => call[0] === method);
+
+const preferencesArb: fc.Arbitrary<TripPreferences> = fc.record({
+  destination: fc.constantFrom('Kerala', 'Rajasthan', 'Goa', 'Ladakh'),
+  duration: fc.integer({ min: 1, max: 14 }),
+  budget: fc.constantFrom('budget', 'moderate', 'luxury'),
+  interests: fc.uniqueArray(fc.constantFrom('history', 'food', 'nature', 'spiritual'), { maxLength: 4 }),
+  travelStyle: fc.constantFrom('cultural', 'adventure', 'relaxed')
+});
+
+const itineraryArb: fc.Arbitrary<Itinerary> = fc.record({
+  title: fc.string({ maxLength: 150 }),
+  summary: fc.string(),
+  totalEstimatedCost: fc.integer({ min: 0, max: 500000 }),
+  days: fc.constant([])
+});
+
+const activityArb: fc.Arbitrary<ItineraryActivity> = fc.record({
+  time: fc.constantFrom('8:00 AM', '11:30 AM', '2:00 PM', '6:00 PM'),
+  activity: fc.constantFrom('Houseboat cruise', 'Spice market', 'Kathakali show', 'Tea estate walk'),
+  description: fc.string({ maxLength: 30 }),
+  duration: fc.constantFrom('1 hour', '2 hours', 'Half day'),
+  cost: fc.integer({ min: 0, max: 5000 })
+});
+
+const mealArb = fc.record({ place: fc.string(), dish: fc.string(), cost: fc.integer({ min: 0, max: 2000 }) });
+
+const dayArb: fc.Arbitrary<ItineraryDay> = fc.record({
+  day: fc.nat(),
+  location: fc.constantFrom('Kochi', 'Munnar', 'Alleppey'),
+  theme: fc.string({ maxLength: 20 }),
+  activities: fc.array(activityArb, { maxLength: 5 }),
+  meals: fc.record({ breakfast: mealArb, lunch: mealArb, dinner: mealArb }, { requiredKeys: [] }),
+  accommodation: fc.option(fc.record({ name: fc.string(), type: fc.string(), cost: fc.integer({ min: 0, max: 20000 }) }), { nil: undefined }),
+  transport: fc.option(fc.record({ mode: fc.string(), route: fc.string(), cost: fc.integer({ min: 0, max: 5000 }) }), { nil: undefined })
+});
+
+const editableItineraryArb: fc.Arbitrary<Itinerary> = fc.record({
+  title: fc.constant('Kerala loop'),
+  summary: fc.constant(''),
+  totalEstimatedCost: fc.nat(),
+  days: fc.array(dayArb, { minLength: 1, maxLength: 5 })
+}).map(itinerary => ({ ...itinerary, days: itinerary.days.map((day, index) => ({ ...day, day: index + 1 })) }));
+
+const attractionArb: fc.Arbitrary<ItineraryAttraction> = fc.record({
+  id: fc.uuid(),
+  name: fc.string({ minLength: 1, maxLength: 20 }),
+  city: fc.option(fc.constantFrom('Kochi', 'Munnar')),
+  category: fc.option(fc.constantFrom('Fort', 'Temple', 'Museum')),
+  description: fc.option(fc.string({ maxLength: 30 })),
+  entryFee: fc.option(fc.integer({ min: 0, max: 1000 })),
+  openingHours: fc.option(fc.constant('9 AM - 5 PM'))
+});
+
+// Any edit the itinerary builder can make, picked by the generated numbers
+const applyEdit = (itinerary: Itinerary, edit: number[], attraction: ItineraryAttraction): Itinerary => {
+  const [kind, a, b, c, d] = edit;
+  const dayIndex = a % itinerary.days.length;
+  const position = { dayIndex, activityIndex: b % (itinerary.days[dayIndex].activities.length + 1) };
+  switch (kind % 6) {
+    case 0: return moveActivity(itinerary, position, { dayIndex: c % itinerary.days.length, activityIndex: d % 6 });
+    case 1: return updateActivity(itinerary, position, { cost: c * 10, time: `${d % 12 + 1}:00 PM` });
+    case 2: return removeActivity(itinerary, position);
+    case 3: return swapInAttraction(itinerary, position, attraction);
+    case 4: return addDay(itinerary);
+    default: return removeDay(itinerary, dayIndex);
+  }
+};
+
+const activityCount = (itinerary: Itinerary) =>
+  itinerary.days.reduce((count, day) => count + day.activities.length, 0);
+
+const itineraryRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'trip-1',
+  user_id: 'user-1',
+  title: 'Backwaters and spice',
+  prompt: '5-day moderate cultural trip to Kerala',
+  preferences: { destination: 'Kerala', duration: 5, budget: 'moderate', interests: [], travelStyle: 'cultural' },
+  generated_itinerary: {
+    title: 'Backwaters and spice',
+    summary: '',
+    totalEstimatedCost: 25000,
+    days: [{
+      day: 1,
+      location: 'Kochi',
+      theme: 'Fort Kochi',
+      activities: [{ time: '9:00 AM', activity: 'Chinese fishing nets', description: '', duration: '1 hour', cost: 0 }],
+      meals: {}
+    }]
+  },
+  duplicated_from: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-02T00:00:00Z',
+  ...overrides
+});
+
+describe('ItineraryService Property Tests', () => {
+  let service: ItineraryService;
+
+  beforeEach(() => {
+    service = new ItineraryService();
+    jest.clearAllMocks();
+  });
+
+  /**
+   * Property 1: Saved Inputs
+   * For any preferences and generated itinerary, the saved row keeps both along with a prompt describing the request
+   */
+  describe('Property 1: Saved Inputs', () => {
+    it('should store the preferences, prompt and itinerary under a bounded title', async () => {
+      await fc.assert(fc.asyncProperty(preferencesArb, itineraryArb, async (preferences, itinerary) => {
+        const query = createQuery({ data: itineraryRow(), error: null });
+        mockFrom.mockImplementation(() => query);
+
+        const result = await service.saveItinerary('user-1', preferences, itinerary);
+
+        expect(result.success).toBe(true);
+        const row = findCall(query, 'insert')?.[1] as Record<string, unknown>;
+        expect(row.user_id).toBe('user-1');
+        expect(row.preferences).toEqual(preferences);
+        expect(row.generated_itinerary).toEqual(itinerary);
+        expect(row.prompt).toBe(describeTripPreferences(preferences));
+        expect(row.prompt).toContain(preferences.destination);
+
+        const title = row.title as string;
+        expect(title.length).toBeGreaterThan(0);
+        expect(title.length).toBeLessThanOrEqual(MAX_ITINERARY_TITLE_LENGTH);
+        if (!itinerary.title.trim()) {
+          expect(title).toBe(`Trip to ${preferences.destination}`);
+        }
+      }), { numRuns: 50 });
+    });
+  });
+
+  /**
+   * Property 2: Rename Validation
+   * For any title, a rename is sent only when the trimmed title is 1 to 100 characters long
+   */
+  describe('Property 2: Rename Validation', () => {
+    it('should reject blank and overlong titles without touching the database', async () => {
+      await fc.assert(fc.asyncProperty(fc.string({ maxLength: 120 }), async (title) => {
+        jest.clearAllMocks();
+        const query = createQuery({ data: itineraryRow({ title: title.trim() }), error: null });
+        mockFrom.mockImplementation(() => query);
+
+        const result = await service.renameItinerary('trip-1', title);
+
+        const trimmed = title.trim();
+        const valid = trimmed.length > 0 && trimmed.length <= MAX_ITINERARY_TITLE_LENGTH;
+        expect(result.success).toBe(valid);
+        if (valid) {
+          expect(findCall(query, 'update')?.[1]).toEqual({ title: trimmed });
+          expect(findCall(query, 'eq')).toEqual(['eq', 'id', 'trip-1']);
+        } else {
+          expect(mockFrom).not.toHaveBeenCalled();
+        }
+      }), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 3: Duplicate As Starting Point
+   * For any saved itinerary, a copy keeps its inputs and plan and records where it came from
+   */
+  describe('Property 3: Duplicate As Starting Point', () => {
+    it('should copy the inputs and itinerary into a new row linked to the original', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.string({ minLength: 1, maxLength: MAX_ITINERARY_TITLE_LENGTH }).filter(title => title.trim().length > 0),
+        preferencesArb,
+        async (title, preferences) => {
+          const original = itineraryRow({ id: 'trip-1', title, preferences });
+          const readQuery = createQuery({ data: original, error: null });
+          const insertQuery = createQuery({ data: itineraryRow({ id: 'trip-2', duplicated_from: 'trip-1' }), error: null });
+          let calls = 0;
+          mockFrom.mockImplementation(() => calls++ === 0 ? readQuery : insertQuery);
+
+          const result = await service.duplicateItinerary('user-2', 'trip-1');
+
+          expect(result.success).toBe(true);
+          expect(result.data?.duplicatedFrom).toBe('trip-1');
+          const row = findCall(insertQuery, 'insert')?.[1] as Record<string, unknown>;
+          expect(row.user_id).toBe('user-2');
+          expect(row.duplicated_from).toBe('trip-1');
+          expect(row.preferences).toEqual(preferences);
+          expect(row.prompt).toBe(original.prompt);
+          expect(row.generated_itinerary).toEqual(original.generated_itinerary);
+          expect((row.title as string).length).toBeLessThanOrEqual(MAX_ITINERARY_TITLE_LENGTH);
+          expect((row.title as string).startsWith('Copy of')).toBe(true);
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should not insert a copy when the original cannot be read', async () => {
+      const readQuery = createQuery({ data: null, error: { message: 'Row not found' } });
+      mockFrom.mockImplementation(() => readQuery);
+
+      const result = await service.duplicateItinerary('user-1', 'missing');
+
+      expect(result).toEqual({ success: false, error: 'Row not found' });
+      expect(findCall(readQuery, 'insert')).toBeUndefined();
+    });
+  });
+
+  /**
+   * Property 4: Trip List Order
+   * The trip list is the user's own itineraries, most recently changed first
+   */
+  describe('Property 4: Trip List Order', () => {
+    it('should list only the user\'s itineraries by last update', async () => {
+      const query = createQuery({ data: [itineraryRow(), itineraryRow({ id: 'trip-2', title: null })], error: null });
+      mockFrom.mockImplementation(() => query);
+
+      const result = await service.getItineraries('user-1');
+
+      expect(findCall(query, 'eq')).toEqual(['eq', 'user_id', 'user-1']);
+      expect(findCall(query, 'order')).toEqual(['order', 'updated_at', { ascending: false }]);
+      expect(result.data?.map(trip => trip.title)).toEqual(['Backwaters and spice', 'Backwaters and spice']);
+      expect(result.data?.[0].updatedAt.toISOString()).toBe('2025-01-02T00:00:00.000Z');
+    });
+  });
+
+  /**
+   * Property 5: Live Totals
+   * For any sequence of edits, each day's total and the itinerary's estimated cost add up to what the plan contains
+   */
+  describe('Property 5: Live Totals', () => {
+    it('should keep the estimated cost equal to the sum of the day totals', () => {
+      fc.assert(fc.property(
+        editableItineraryArb,
+        fc.array(fc.array(fc.nat({ max: 50 }), { minLength: 5, maxLength: 5 }), { minLength: 1, maxLength: 10 }),
+        attractionArb,
+        (itinerary, edits, attraction) => {
+          const edited = edits.reduce((current, edit) => applyEdit(current, edit, attraction), itinerary);
+
+          edited.days.forEach(day => {
+            const meals = Object.values(day.meals).reduce((total, meal) => total + (meal?.cost || 0), 0);
+            const activities = day.activities.reduce((total, activity) => total + activity.cost, 0);
+            expect(getDayTotal(day)).toBe(activities + meals + (day.accommodation?.cost || 0) + (day.transport?.cost || 0));
+          });
+          if (edited !== itinerary) {
+            expect(edited.totalEstimatedCost).toBe(edited.days.reduce((total, day) => total + getDayTotal(day), 0));
+          }
+          expect(edited.days.map(day => day.day)).toEqual(edited.days.map((_, index) => index + 1));
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 6: Moving Activities
+   * For any move within or across days, the moved activity lands where it was dropped and no activity is lost
+   */
+  describe('Property 6: Moving Activities', () => {
+    it('should place the activity before the drop target and keep every other activity', () => {
+      fc.assert(fc.property(
+        editableItineraryArb.filter(itinerary => activityCount(itinerary) > 0),
+        fc.nat(), fc.nat(), fc.nat(), fc.nat(),
+        (itinerary, fromSeed, activitySeed, toSeed, indexSeed) => {
+          const withActivities = itinerary.days.map((_, index) => index).filter(index => itinerary.days[index].activities.length > 0);
+          const fromDay = withActivities[fromSeed % withActivities.length];
+          const from = { dayIndex: fromDay, activityIndex: activitySeed % itinerary.days[fromDay].activities.length };
+          const toDay = toSeed % itinerary.days.length;
+          const to = { dayIndex: toDay, activityIndex: indexSeed % (itinerary.days[toDay].activities.length + 1) };
+          const moved = itinerary.days[from.dayIndex].activities[from.activityIndex];
+
+          const edited = moveActivity(itinerary, from, to);
+
+          expect(activityCount(edited)).toBe(activityCount(itinerary));
+          expect(edited.totalEstimatedCost).toBe(itinerary.days.reduce((total, day) => total + getDayTotal(day), 0));
+
+          // The activities of the target day, as they were without the moved one
+          const remaining = itinerary.days[to.dayIndex].activities.filter((_, index) =>
+            !(to.dayIndex === from.dayIndex && index === from.activityIndex));
+          const before = itinerary.days[to.dayIndex].activities
+            .slice(0, to.activityIndex)
+            .filter((_, index) => !(to.dayIndex === from.dayIndex && index === from.activityIndex));
+          expect(edited.days[to.dayIndex].activities).toEqual([...before, moved, ...remaining.slice(before.length)]);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should leave the itinerary alone when the activity does not exist', () => {
+      fc.assert(fc.property(editableItineraryArb, (itinerary) => {
+        const from = { dayIndex: 0, activityIndex: itinerary.days[0].activities.length };
+        expect(moveActivity(itinerary, from, { dayIndex: 0, activityIndex: 0 })).toBe(itinerary);
+      }), { numRuns: 20 });
+    });
+  });
+
+  /**
+   * Property 7: Adding and Removing Days
+   * For any itinerary, days stay numbered from 1 and at least one day is always kept
+   */
+  describe('Property 7: Adding and Removing Days', () => {
+    it('should renumber the days after a removal and never remove the last day', () => {
+      fc.assert(fc.property(editableItineraryArb, fc.nat(), (itinerary, seed) => {
+        const dayIndex = seed % itinerary.days.length;
+        const edited = removeDay(itinerary, dayIndex);
+
+        if (itinerary.days.length === 1) {
+          expect(edited).toBe(itinerary);
+          return;
+        }
+        expect(edited.days).toHaveLength(itinerary.days.length - 1);
+        expect(edited.days.map(day => day.theme)).toEqual(
+          itinerary.days.filter((_, index) => index !== dayIndex).map(day => day.theme)
+        );
+        expect(edited.days.map(day => day.day)).toEqual(edited.days.map((_, index) => index + 1));
+      }), { numRuns: 100 });
+    });
+
+    it('should add an empty day after the last one in the same place', () => {
+      fc.assert(fc.property(editableItineraryArb, (itinerary) => {
+        const edited = addDay(itinerary);
+        const added = edited.days[edited.days.length - 1];
+
+        expect(added.day).toBe(itinerary.days.length + 1);
+        expect(added.location).toBe(itinerary.days[itinerary.days.length - 1].location);
+        expect(added.activities).toEqual([]);
+        expect(getDayTotal(added)).toBe(0);
+      }), { numRuns: 50 });
+    });
+  });
+
+  /**
+   * Property 8: Swapping In Attractions
+   * For any catalog attraction, the swapped-in activity keeps the original time and costs the attraction's entry fee
+   */
+  describe('Property 8: Swapping In Attractions', () => {
+    it('should replace the activity with the attraction at the same time', () => {
+      fc.assert(fc.property(
+        editableItineraryArb.filter(itinerary => itinerary.days[0].activities.length > 0),
+        attractionArb,
+        (itinerary, attraction) => {
+          const original = itinerary.days[0].activities[0];
+          const edited = swapInAttraction(itinerary, { dayIndex: 0, activityIndex: 0 }, attraction);
+          const swapped = edited.days[0].activities[0];
+
+          expect(swapped.time).toBe(original.time);
+          expect(swapped.activity).toBe(attraction.name);
+          expect(swapped.attractionId).toBe(attraction.id);
+          expect(swapped.cost).toBe(attraction.entryFee || 0);
+          expect(swapped.duration).toBe(DEFAULT_ATTRACTION_DURATION);
+          expect(edited.days[0].activities.slice(1)).toEqual(itinerary.days[0].activities.slice(1));
+          expect(edited.totalEstimatedCost - getDayTotal(edited.days[0]))
+            .toBe(itinerary.days.slice(1).reduce((total, day) => total + getDayTotal(day), 0));
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 9: Saving Edits
+   * Edited itineraries are stored with their recalculated estimated cost
+   */
+  describe('Property 9: Saving Edits', () => {
+    it('should save the edited plan with totals that match its days', async () => {
+      await fc.assert(fc.asyncProperty(editableItineraryArb, async (itinerary) => {
+        const query = createQuery({ data: itineraryRow(), error: null });
+        mockFrom.mockImplementation(() => query);
+
+        const result = await service.updateItinerary('trip-1', itinerary);
+
+        expect(result.success).toBe(true);
+        const saved = (findCall(query, 'update')?.[1] as { generated_itinerary: Itinerary }).generated_itinerary;
+        expect(saved.days).toEqual(itinerary.days);
+        expect(saved.totalEstimatedCost).toBe(itinerary.days.reduce((total, day) => total + getDayTotal(day), 0));
+        expect(findCall(query, 'eq')).toEqual(['eq', 'id', 'trip-1']);
+      }), { numRuns: 30 });
+    });
+  });
+
+  /**
+   * Property 10: Reading Model Output
+   * For any valid itinerary, the same plan is read back whether the model sends bare JSON, a code block or JSON inside prose
+   */
+  describe('Property 10: Reading Model Output', () => {
+    it('should read the itinerary however the JSON is wrapped', () => {
+      fc.assert(fc.property(
+        editableItineraryArb,
+        fc.constantFrom(
+          (json: string) => json,
+          (json: string) => `\`\`\`json\n${json}\n\`\`\``,
+          (json: string) => `Here is your trip:\n${json}\nEnjoy!`
+        ),
+        (itinerary, wrap) => {
+          const result = parseItinerary(wrap(JSON.stringify(itinerary)));
+
+          expect(result.success).toBe(true);
+          expect(result.itinerary?.days).toEqual(itinerary.days);
+          expect(result.itinerary?.totalEstimatedCost).toBe(itinerary.totalEstimatedCost);
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should report output without an itinerary instead of passing it on', () => {
+      fc.assert(fc.property(fc.string().filter(text => !text.includes('{')), (text) => {
+        const result = parseItinerary(text);
+
+        expect(result.success).toBe(false);
+        expect(result.issues?.length).toBeGreaterThan(0);
+      }), { numRuns: 50 });
+    });
+  });
+
+  /**
+   * Property 11: Repairing Model Output
+   * Common slips are repaired: costs written as text, null optional fields, wrong day numbers, a missing total and trailing commas
+   */
+  describe('Property 11: Repairing Model Output', () => {
+    it('should repair small mistakes rather than reject the itinerary', () => {
+      fc.assert(fc.property(
+        fc.array(fc.integer({ min: 0, max: 100000 }), { minLength: 1, maxLength: 5 }),
+        (costs) => {
+          const modelOutput = {
+            title: 'Golden Triangle',
+            summary: null,
+            days: costs.map(cost => ({
+              day: 7,
+              location: 'Jaipur',
+              theme: 'Forts',
+              activities: [{ time: '10:00 AM', activity: 'Amber Fort', description: 'Fort', duration: '3 hours', cost: `₹${cost.toLocaleString('en-IN')}`, tips: null }],
+              meals: null,
+              accommodation: null
+            }))
+          };
+          const content = JSON.stringify(modelOutput, null, 2).replace(/\n(\s*)\]/g, ',\n$1]');
+
+          const result = parseItinerary(content);
+
+          expect(result.success).toBe(true);
+          const days = result.itinerary!.days;
+          expect(days.map(day => day.day)).toEqual(costs.map((_, index) => index + 1));
+          expect(days.map(day => day.activities[0].cost)).toEqual(costs);
+          expect(days.every(day => day.accommodation === undefined && day.activities[0].tips === undefined)).toBe(true);
+          expect(result.itinerary!.summary).toBe('');
+          expect(result.itinerary!.totalEstimatedCost).toBe(costs.reduce((total, cost) => total + cost, 0));
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should point at the fields that are missing', () => {
+      const result = validateItinerary({
+        title: 'Kerala',
+        days: [{ location: 'Kochi', activities: [{ time: '9:00 AM', cost: 100 }] }, { activities: [] }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.issues).toEqual(expect.arrayContaining([
+        expect.stringMatching(/^days\.0\.activities\.0\.activity: /),
+        expect.stringMatching(/^days\.1\.location: /)
+      ]));
+      expect(validateItinerary({ title: 'Empty', days: [] }).success).toBe(false);
+    });
+  });
+
+  /**
+   * Property 12: Generation Errors
+   * For any failure of the generate-itinerary function, the traveller is told why with a typed error code
+   */
+  describe('Property 12: Generation Errors', () => {
+    it('should pass on the error code the function returned', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.constantFrom<ItineraryErrorCode>('invalid_request', 'rate_limited', 'credits_exhausted', 'invalid_itinerary', 'generation_failed'),
+        preferencesArb,
+        async (code, preferences) => {
+          const context = { status: 500, json: async () => ({ error: 'Function failed', code }) };
+          mockInvoke.mockImplementation(async () => ({ data: null, error: { message: 'Edge Function returned a non-2xx status code', context } }));
+
+          const result = await service.generateItinerary(preferences);
+
+          expect(result).toEqual({ success: false, code, error: ITINERARY_ERROR_MESSAGES[code] });
+          expect(mockInvoke).toHaveBeenCalledWith('generate-itinerary', { body: preferences });
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should fall back to the HTTP status when the function gave no code', async () => {
+      for (const [status, code] of [[429, 'rate_limited'], [402, 'credits_exhausted'], [500, 'generation_failed']] as const) {
+        const context = { status, json: async () => { throw new Error('Not JSON'); } };
+        mockInvoke.mockImplementation(async () => ({ data: null, error: { message: 'Edge Function returned a non-2xx status code', context } }));
+
+        const result = await service.generateItinerary({ destination: 'Goa', duration: 3, budget: 'budget', interests: [], travelStyle: 'relaxed' });
+
+        expect(result.code).toBe(code);
+      }
+    });
+
+    it('should reject a response that is not a valid itinerary', async () => {
+      mockInvoke.mockImplementation(async () => ({ data: { itinerary: { raw: 'Sorry, I cannot help', parseError: true } }, error: null }));
+
+      const result = await service.generateItinerary({ destination: 'Goa', duration: 3, budget: 'budget', interests: [], travelStyle: 'relaxed' });
+
+      expect(result).toEqual({ success: false, code: 'invalid_itinerary', error: ITINERARY_ERROR_MESSAGES.invalid_itinerary });
+    });
+
+    it('should return a valid itinerary as it was checked', async () => {
+      await fc.assert(fc.asyncProperty(editableItineraryArb, async (itinerary) => {
+        mockInvoke.mockImplementation(async () => ({ data: { itinerary }, error: null }));
+
+        const result = await service.generateItinerary({ destination: 'Kerala', duration: 3, budget: 'moderate', interests: [], travelStyle: 'cultural' });
+
+        expect(result.success).toBe(true);
+        expect(result.data?.days).toEqual(itinerary.days);
+      }), { numRuns: 30 });
+    });
+  });
+
+  /**
+   * Property 13: Linking Catalog Entities
+   * For any itinerary, each referenced attraction, hotel, guide and cuisine that still exists links to the page it can be booked or read about on
+   */
+  describe('Property 13: Linking Catalog Entities', () => {
+    const idArb = fc.constantFrom('id-1', 'id-2', 'id-3');
+    const referencedItineraryArb = fc.tuple(
+      editableItineraryArb,
+      fc.array(fc.record({ attractionId: idArb, guideId: idArb }, { requiredKeys: [] }), { minLength: 5, maxLength: 5 }),
+      fc.option(idArb, { nil: undefined }),
+      fc.option(idArb, { nil: undefined })
+    ).map(([itinerary, references, hotelId, cuisineId]) => ({
+      ...itinerary,
+      days: itinerary.days.map((day, index) => ({
+        ...day,
+        activities: day.activities.map((activity, slot) => ({ ...activity, ...references[slot] })),
+        meals: { ...day.meals, lunch: { place: 'Kayees', dish: 'Biryani', cost: 300, cuisineId } },
+        accommodation: index === 0 ? { name: 'Brunton Boatyard', type: 'luxury', cost: 12000, hotelId } : day.accommodation
+      }))
+    }));
+
+    it('should look up each referenced entity once and link the ones that exist', async () => {
+      await fc.assert(fc.asyncProperty(referencedItineraryArb, async (itinerary) => {
+        const references = getReferencedIds(itinerary);
+        const queries: Record<string, RecordingQuery> = {
+          // id-3 has been removed from the catalog
+          attractions: createQuery({ data: references.attractionIds.filter(id => id !== 'id-3').map(id => ({ id, name: `Fort ${id}`, states: { name: 'Tamil Nadu' } })), error: null }),
+          hotels: createQuery({ data: references.hotelIds.map(id => ({ id, name: `Hotel ${id}` })), error: null }),
+          tour_guides: createQuery({ data: references.guideIds.map(id => ({ id, full_name: null, company_name: `Guides ${id}` })), error: null }),
+          cuisines: createQuery({ data: references.cuisineIds.map(id => ({ id, name: `Dish ${id}`, states: null })), error: null })
+        };
+        mockFrom.mockClear();
+        mockFrom.mockImplementation((table: string) => queries[table]);
+
+        const result = await service.resolveLinks(itinerary);
+
+        expect(result.success).toBe(true);
+        const queried = mockFrom.mock.calls.map(call => call[0]);
+        expect(queried.includes('attractions')).toBe(references.attractionIds.length > 0);
+        expect(queried.includes('hotels')).toBe(references.hotelIds.length > 0);
+        if (references.attractionIds.length > 0) {
+          expect(findCall(queries.attractions, 'in')).toEqual(['in', 'id', references.attractionIds]);
+          expect(new Set(references.attractionIds).size).toBe(references.attractionIds.length);
+        }
+
+        references.attractionIds.forEach(id => {
+          expect(result.data!.attractions[id]).toEqual(id === 'id-3'
+            ? undefined
+            : { id, name: `Fort ${id}`, href: '/states/tamil-nadu?tab=attractions' });
+        });
+        references.hotelIds.forEach(id => expect(result.data!.hotels[id].href).toBe(`/hotels/${id}`));
+        references.guideIds.forEach(id => expect(result.data!.guides[id]).toEqual({ id, name: `Guides ${id}`, href: `/guides/${id}` }));
+        references.cuisineIds.forEach(id => expect(result.data!.cuisines[id].href).toBe('/states'));
+      }), { numRuns: 50 });
+    });
+
+    it('should report a failed lookup', async () => {
+      mockFrom.mockImplementation(() => createQuery({ data: null, error: { message: 'permission denied' } }));
+      const itinerary = validateItinerary(itineraryRow().generated_itinerary).itinerary!;
+      itinerary.days[0].activities[0].attractionId = 'id-1';
+
+      const result = await service.resolveLinks(itinerary);
+
+      expect(result).toEqual({ success: false, error: 'permission denied' });
+    });
+  });
+});
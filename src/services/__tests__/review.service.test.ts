@@ -0,0 +1,533 @@
+/**
+ * Review Service Property Tests
+ * Tests for verified reviews, review photos, helpful votes, provider replies and review moderation
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import { ReviewService, VERIFIED_REVIEW_STATUS } from '../review.service';
+import { supabase } from '@/integrations/supabase/client';
+import { uploadMultipleFiles } from '@/utils/storage.utils';
+
+jest.mock('@/integrations/supabase/client', () => {
+  return {
+    supabase: {
+      from: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getSession: jest.fn()
+      }
+    }
+  };
+});
+
+// The real config reads import.meta.env, which Jest cannot parse
+jest.mock('@/config/supabase.config', () => ({
+  SUPABASE_CONFIG: {
+    STORAGE: {
+      BUCKETS: { IMAGES: 'images' },
+      MAX_FILE_SIZE: 50 * 1024 * 1024,
+      MAX_IMAGE_SIZE: 5 * 1024 * 1024,
+      MAX_REVIEW_PHOTOS: 5,
+      ALLOWED_FILE_TYPES: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf', 'text/plain']
+    }
+  },
+  STORAGE_PATHS: { REVIEW_PHOTOS: 'review_photos' },
+  ERROR_MESSAGES: {
+    STORAGE: { FILE_TOO_LARGE: 'File is too large', INVALID_FILE_TYPE: 'Invalid file type' }
+  }
+}));
+
+jest.mock('uuid', () => ({
+  v4: () => 'test-uuid-1234'
+}));
+
+jest.mock('@/utils/storage.utils', () => ({
+  ...jest.requireActual<typeof import('@/utils/storage.utils')>('@/utils/storage.utils'),
+  uploadMultipleFiles: jest.fn()
+}));
+
+const mockFrom = supabase.from as unknown as ReturnType<typeof jest.fn>;
+const mockRpc = supabase.rpc as unknown as ReturnType<typeof jest.fn>;
+const mockGetSession = supabase.auth.getSession as unknown as ReturnType<typeof jest.fn>;
+const mockUpload = uploadMultipleFiles as unknown as ReturnType<typeof jest.fn>;
+
+const createFile = (name: string, type: string, size: number) => {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+const BOOKING_STATUSES = [
+  'pending',
+  'confirmed',
+  'checked_in',
+  'in_progress',
+  'completed',
+  'cancelled_by_guest',
+  'cancelled_by_provider',
+  'no_show'
+];
+
+// Query builder whose filters chain and resolve to the given result
+const createQuery = (result: { data: unknown; error: unknown }) => {
+  const query: Record<string, unknown> = {};
+  ['select', 'eq', 'not', 'in', 'order', 'limit'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  query.maybeSingle = jest.fn(async () => result);
+  query.single = jest.fn(async () => result);
+  query.insert = jest.fn(() => query);
+  query.upsert = jest.fn(() => query);
+  query.delete = jest.fn(() => query);
+  return query;
+};
+
+describe('ReviewService Property Tests', () => {
+  let reviewService: ReviewService;
+
+  beforeEach(() => {
+    reviewService = new ReviewService();
+    jest.clearAllMocks();
+    mockGetSession.mockImplementation(async () => ({ data: { session: { user: { id: 'guest-1' } } } }));
+  });
+
+  /**
+   * Property 1: Verified Review Eligibility
+   * For any booking, a review is verifiable only when the booking is the reviewer's own, for the reviewed listing and completed
+   */
+  describe('Property 1: Verified Review Eligibility', () => {
+    it('should only verify completed bookings made by the reviewer for the same listing', () => {
+      fc.assert(fc.property(
+        fc.constantFrom('guest-1', 'guest-2'),
+        fc.constantFrom('hotel-1', 'hotel-2'),
+        fc.constantFrom(...BOOKING_STATUSES),
+        (bookingUser, bookingListing, status) => {
+          const verifiable = reviewService.isVerifiable(
+            { user_id: bookingUser, listing_id: bookingListing, status },
+            'guest-1',
+            'hotel-1'
+          );
+
+          expect(verifiable).toBe(
+            bookingUser === 'guest-1' && bookingListing === 'hotel-1' && status === VERIFIED_REVIEW_STATUS
+          );
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 2: One Review Per Booking
+   * For any set of completed bookings, only bookings without an existing review are offered for review
+   */
+  describe('Property 2: One Review Per Booking', () => {
+    it('should leave out bookings that already have a review', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(fc.uuid(), { minLength: 1, maxLength: 6 }),
+        fc.array(fc.boolean(), { minLength: 6, maxLength: 6 }),
+        async (bookingIds, reviewed) => {
+          const bookings = bookingIds.map(id => ({
+            id,
+            booking_reference: `HB-${id.slice(0, 6)}`,
+            check_in_date: '2030-01-01',
+            check_out_date: '2030-01-03'
+          }));
+          const reviews = bookingIds.filter((_, index) => reviewed[index]).map(id => ({ booking_id: id }));
+
+          mockFrom.mockImplementation((table: string) =>
+            createQuery({ data: table === 'hotel_bookings' ? bookings : reviews, error: null })
+          );
+
+          const result = await reviewService.getReviewableBookings('hotel', 'hotel-1', 'guest-1');
+
+          expect(result.success).toBe(true);
+          expect(result.data?.map(booking => booking.id)).toEqual(
+            bookingIds.filter((_, index) => !reviewed[index])
+          );
+          result.data?.forEach(booking => {
+            expect(booking.date).toBe('2030-01-01');
+            expect(booking.endDate).toBe('2030-01-03');
+          });
+        }
+      ), { numRuns: 25 });
+    });
+
+    it('should report a second review of the same booking as a duplicate', async () => {
+      mockFrom.mockImplementation((table: string) =>
+        table === 'guide_bookings'
+          ? createQuery({ data: { user_id: 'guest-1', guide_id: 'guide-1', status: 'completed' }, error: null })
+          : createQuery({ data: null, error: { code: '23505', message: 'duplicate key value' } })
+      );
+
+      const result = await reviewService.submitReview({
+        type: 'guide',
+        listingId: 'guide-1',
+        userId: 'guest-1',
+        rating: 5,
+        comment: 'Wonderful walk through Old Delhi',
+        bookingId: 'booking-1'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('You have already reviewed this booking');
+    });
+  });
+
+  /**
+   * Property 3: Review Submission Validation
+   * For any booking that is not the reviewer's completed booking for the listing, the review should be rejected before it is saved
+   */
+  describe('Property 3: Review Submission Validation', () => {
+    it('should reject reviews linked to bookings that cannot be verified', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.record({
+          user_id: fc.constantFrom('guest-1', 'guest-2'),
+          hotel_id: fc.constantFrom('hotel-1', 'hotel-2'),
+          status: fc.constantFrom(...BOOKING_STATUSES)
+        }).filter(booking =>
+          !(booking.user_id === 'guest-1' && booking.hotel_id === 'hotel-1' && booking.status === 'completed')
+        ),
+        async (booking) => {
+          const reviewsQuery = createQuery({ data: { id: 'review-1', is_verified: true }, error: null });
+          mockFrom.mockImplementation((table: string) =>
+            table === 'hotel_bookings' ? createQuery({ data: booking, error: null }) : reviewsQuery
+          );
+
+          const result = await reviewService.submitReview({
+            type: 'hotel',
+            listingId: 'hotel-1',
+            userId: 'guest-1',
+            rating: 4,
+            comment: 'Lovely courtyard rooms',
+            bookingId: 'booking-1'
+          });
+
+          expect(result.success).toBe(false);
+          expect(reviewsQuery.insert).not.toHaveBeenCalled();
+        }
+      ), { numRuns: 25 });
+    });
+
+    it('should save the booking link and report whether the review was verified', async () => {
+      const reviewsQuery = createQuery({ data: { id: 'review-1', is_verified: true }, error: null });
+      mockFrom.mockImplementation((table: string) =>
+        table === 'hotel_bookings'
+          ? createQuery({ data: { user_id: 'guest-1', hotel_id: 'hotel-1', status: 'completed' }, error: null })
+          : reviewsQuery
+      );
+
+      const result = await reviewService.submitReview({
+        type: 'hotel',
+        listingId: 'hotel-1',
+        userId: 'guest-1',
+        rating: 4,
+        comment: '  Lovely courtyard rooms  ',
+        bookingId: 'booking-1'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ id: 'review-1', is_verified: true });
+      expect(reviewsQuery.insert).toHaveBeenCalledWith({
+        hotel_id: 'hotel-1',
+        user_id: 'guest-1',
+        rating: 4,
+        review_text: 'Lovely courtyard rooms',
+        booking_id: 'booking-1'
+      });
+    });
+
+    it('should save the title the guest gave their review', async () => {
+      const reviewsQuery = createQuery({ data: { id: 'review-1', is_verified: true }, error: null });
+      mockFrom.mockImplementation((table: string) =>
+        table === 'hotel_bookings'
+          ? createQuery({ data: { user_id: 'guest-1', hotel_id: 'hotel-1', status: 'completed' }, error: null })
+          : reviewsQuery
+      );
+
+      const result = await reviewService.submitReview({
+        type: 'hotel',
+        listingId: 'hotel-1',
+        userId: 'guest-1',
+        rating: 5,
+        title: '  A quiet haveli  ',
+        comment: 'Lovely courtyard rooms',
+        bookingId: 'booking-1'
+      });
+
+      expect(result.success).toBe(true);
+      expect(reviewsQuery.insert).toHaveBeenCalledWith(expect.objectContaining({ title: 'A quiet haveli' }));
+    });
+
+    it('should reject ratings outside one to five stars', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.oneof(fc.integer({ min: -10, max: 0 }), fc.integer({ min: 6, max: 20 })),
+        async (rating) => {
+          const result = await reviewService.submitReview({
+            type: 'guide',
+            listingId: 'guide-1',
+            userId: 'guest-1',
+            rating,
+            comment: 'Great tour'
+          });
+
+          expect(result.success).toBe(false);
+          expect(mockFrom).not.toHaveBeenCalled();
+        }
+      ), { numRuns: 20 });
+    });
+  });
+
+  /**
+   * Property 4: Moderation Queue Ordering
+   * For any set of open reports, each reported review appears once with all its reports, most reported first
+   */
+  describe('Property 4: Moderation Queue Ordering', () => {
+    it('should group reports by review and order by report count', () => {
+      fc.assert(fc.property(
+        fc.array(
+          fc.record({
+            review_id: fc.constantFrom('review-1', 'review-2', 'review-3'),
+            review_type: fc.constantFrom('hotel' as const, 'guide' as const),
+            created_at: fc.integer({ min: 0, max: 1000000 }).map(offset => new Date(1700000000000 + offset).toISOString())
+          }),
+          { minLength: 1, maxLength: 20 }
+        ),
+        (rows) => {
+          const reports = rows.map((row, index) => ({
+            ...row,
+            id: `report-${index}`,
+            reporter_id: `user-${index}`,
+            reason: 'Abusive language',
+            status: 'open' as const,
+            resolved_at: null
+          }));
+
+          const groups = reviewService.groupReports(reports);
+
+          expect(groups.reduce((total, group) => total + group.reports.length, 0)).toBe(reports.length);
+          expect(new Set(groups.map(group => `${group.type}:${group.reviewId}`)).size).toBe(groups.length);
+          groups.forEach(group => {
+            group.reports.forEach(report => {
+              expect(report.review_id).toBe(group.reviewId);
+              expect(report.review_type).toBe(group.type);
+            });
+          });
+          for (let i = 0; i < groups.length - 1; i++) {
+            expect(groups[i].reports.length).toBeGreaterThanOrEqual(groups[i + 1].reports.length);
+          }
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 5: Moderation Actions
+   * For any moderation action, the decision should go through the audited moderation function
+   */
+  describe('Property 5: Moderation Actions', () => {
+    it('should send every moderation action with its note to the audited function', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.constantFrom('hide' as const, 'restore' as const, 'delete' as const, 'dismiss' as const),
+        fc.constantFrom('hotel' as const, 'guide' as const),
+        fc.option(fc.string({ maxLength: 40 }), { nil: undefined }),
+        async (action, type, reason) => {
+          mockRpc.mockClear();
+          mockRpc.mockImplementation(async () => ({ data: { id: 'event-1', action }, error: null }));
+
+          const result = await reviewService.moderateReview(type, 'review-1', action, reason);
+
+          expect(result.success).toBe(true);
+          expect(mockRpc).toHaveBeenCalledWith('moderate_review', {
+            p_review_type: type,
+            p_review_id: 'review-1',
+            p_action: action,
+            p_reason: reason?.trim() || null
+          });
+        }
+      ), { numRuns: 30 });
+    });
+
+    it('should surface the error when a non-admin tries to moderate', async () => {
+      mockRpc.mockImplementation(async () => ({ data: null, error: { message: 'Only admins can moderate reviews' } }));
+
+      const result = await reviewService.moderateReview('hotel', 'review-1', 'hide');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Only admins can moderate reviews');
+    });
+  });
+
+  /**
+   * Property 6: Provider Replies
+   * For any set of replies, each review should receive only its own replies in posting order
+   */
+  describe('Property 6: Provider Replies', () => {
+    it('should attach replies to the review they answer', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.array(fc.constantFrom('review-1', 'review-2', 'review-3'), { minLength: 0, maxLength: 10 }),
+        async (reviewIds) => {
+          const replies = reviewIds.map((reviewId, index) => ({
+            id: `reply-${index}`,
+            review_id: reviewId,
+            review_type: 'hotel',
+            author_id: 'owner-1',
+            reply_text: `Thank you ${index}`,
+            created_at: new Date(1700000000000 + index).toISOString(),
+            updated_at: new Date(1700000000000 + index).toISOString()
+          }));
+          mockFrom.mockImplementation(() => createQuery({ data: replies, error: null }));
+
+          const result = await reviewService.getReplies('hotel', ['review-1', 'review-2', 'review-3']);
+
+          expect(result.success).toBe(true);
+          Object.entries(result.data || {}).forEach(([reviewId, reviewReplies]) => {
+            expect(reviewReplies.map(reply => reply.id)).toEqual(
+              replies.filter(reply => reply.review_id === reviewId).map(reply => reply.id)
+            );
+          });
+        }
+      ), { numRuns: 25 });
+    });
+
+    it('should reject empty replies without saving them', async () => {
+      const result = await reviewService.addReply('guide', 'review-1', 'guide-1', '   ');
+
+      expect(result.success).toBe(false);
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Property 7: Review Photo Validation
+   * For any set of photos, uploads are allowed only for a limited number of images within the size limit
+   */
+  describe('Property 7: Review Photo Validation', () => {
+    it('should accept only image files within the size and count limits', () => {
+      fc.assert(fc.property(
+        fc.array(
+          fc.record({
+            type: fc.constantFrom('image/jpeg', 'image/png', 'image/webp', 'application/pdf', 'video/mp4'),
+            size: fc.integer({ min: 1, max: 8 * 1024 * 1024 })
+          }),
+          { minLength: 0, maxLength: 8 }
+        ),
+        fc.integer({ min: 0, max: 5 }),
+        (specs, existingCount) => {
+          const files = specs.map((spec, index) => createFile(`photo-${index}`, spec.type, spec.size));
+          const expected = existingCount + files.length <= 5 &&
+            specs.every(spec => spec.type.startsWith('image/') && spec.size <= 5 * 1024 * 1024);
+
+          expect(reviewService.validateReviewPhotos(files, existingCount).success).toBe(expected);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should upload photos into the reviewer\'s folder and fail if any upload fails', async () => {
+      const files = [createFile('fort.jpg', 'image/jpeg', 1024), createFile('lake.png', 'image/png', 2048)];
+
+      mockUpload.mockImplementation(async () => ({ success: true, paths: ['https://cdn/fort.jpg', 'https://cdn/lake.png'] }));
+      const uploaded = await reviewService.uploadReviewPhotos('guest-1', files);
+
+      expect(uploaded).toEqual({ success: true, data: ['https://cdn/fort.jpg', 'https://cdn/lake.png'] });
+      expect(mockUpload).toHaveBeenCalledWith(files, 'images', 'review_photos/guest-1');
+
+      mockUpload.mockImplementation(async () => ({ success: true, paths: ['https://cdn/fort.jpg'], error: 'Some files failed to upload' }));
+      const partial = await reviewService.uploadReviewPhotos('guest-1', files);
+
+      expect(partial.success).toBe(false);
+    });
+
+    it('should gather review photos for the gallery, newest review first', () => {
+      const photos = reviewService.collectReviewPhotos([
+        { id: 'old', images: ['a.jpg', 'b.jpg'], created_at: '2030-01-01T00:00:00Z' },
+        { id: 'none', images: null, created_at: '2030-03-01T00:00:00Z' },
+        { id: 'new', images: ['c.jpg'], created_at: '2030-02-01T00:00:00Z' }
+      ]);
+
+      expect(photos.map(photo => [photo.reviewId, photo.url])).toEqual([
+        ['new', 'c.jpg'],
+        ['old', 'a.jpg'],
+        ['old', 'b.jpg']
+      ]);
+    });
+  });
+
+  /**
+   * Property 8: Helpful Vote Counts
+   * For any sequence of vote changes by one user, the helpful count moves by at most one and ends at their final vote
+   */
+  describe('Property 8: Helpful Vote Counts', () => {
+    it('should count each user at most once however often they change their vote', () => {
+      fc.assert(fc.property(
+        fc.array(fc.constantFrom<boolean | null>(true, false, null), { minLength: 1, maxLength: 20 }),
+        (changes) => {
+          let vote: boolean | null = null;
+          let count = 0;
+
+          changes.forEach(next => {
+            const change = reviewService.getHelpfulCountChange(vote, next);
+            expect(Math.abs(change)).toBeLessThanOrEqual(1);
+            count += change;
+            vote = next;
+          });
+
+          expect(count).toBe(vote === true ? 1 : 0);
+        }
+      ), { numRuns: 100 });
+    });
+
+    it('should upsert changed votes and delete withdrawn ones', async () => {
+      const votesQuery = createQuery({ data: null, error: null });
+      mockFrom.mockImplementation(() => votesQuery);
+
+      const saved = await reviewService.setVote('hotel', 'review-1', 'guest-1', false);
+
+      expect(saved.success).toBe(true);
+      expect(mockFrom).toHaveBeenCalledWith('review_votes');
+      expect(votesQuery.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ review_id: 'review-1', review_type: 'hotel', user_id: 'guest-1', is_helpful: false }),
+        { onConflict: 'review_type,review_id,user_id' }
+      );
+
+      const removed = await reviewService.setVote('hotel', 'review-1', 'guest-1', null);
+
+      expect(removed.success).toBe(true);
+      expect(votesQuery.delete).toHaveBeenCalled();
+      expect(votesQuery.eq).toHaveBeenCalledWith('user_id', 'guest-1');
+    });
+  });
+
+  /**
+   * Property 9: Most Helpful Sort
+   * For any reviews, the most helpful sort orders by helpful count, then newest first
+   */
+  describe('Property 9: Most Helpful Sort', () => {
+    it('should order reviews by helpful count with newer reviews breaking ties', () => {
+      fc.assert(fc.property(
+        fc.array(
+          fc.record({
+            id: fc.uuid(),
+            helpful_count: fc.integer({ min: 0, max: 5 }),
+            created_at: fc.integer({ min: 0, max: 1000 }).map(day => new Date(Date.UTC(2030, 0, 1) + day * 86400000).toISOString())
+          }),
+          { minLength: 0, maxLength: 15 }
+        ),
+        (reviews) => {
+          const sorted = reviewService.sortReviews(reviews, 'most_helpful');
+
+          expect(sorted).toHaveLength(reviews.length);
+          for (let i = 1; i < sorted.length; i++) {
+            const previous = sorted[i - 1];
+            const current = sorted[i];
+            expect(previous.helpful_count).toBeGreaterThanOrEqual(current.helpful_count);
+            if (previous.helpful_count === current.helpful_count) {
+              expect(previous.created_at >= current.created_at).toBe(true);
+            }
+          }
+        }
+      ), { numRuns: 100 });
+    });
+  });
+});
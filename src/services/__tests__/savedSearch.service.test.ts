@@ -0,0 +1,293 @@
+/**
+ * Saved Search Service Property Tests
+ * Tests for saving searches and alerts for new matching guides and hotels
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  SavedSearchService,
+  getSavedSearchUrl,
+  ALERT_CHECK_INTERVAL_MS,
+  MAX_SAVED_SEARCHES
+} from '../savedSearch.service';
+import { searchEngine, searchQueryFromParams, type SearchQuery } from '../search.service';
+import { emailService } from '@/lib/emailService';
+import { supabase } from '@/integrations/supabase/client';
+
+jest.mock('@/integrations/supabase/client', () => {
+  return {
+    supabase: {
+      from: jest.fn(),
+      rpc: jest.fn()
+    }
+  };
+});
+
+// The real email service reads import.meta.env, which Jest cannot parse
+jest.mock('@/lib/emailService', () => ({
+  emailService: {
+    sendSavedSearchAlert: jest.fn(async () => true)
+  }
+}));
+
+jest.mock('../search.service', () => ({
+  ...jest.requireActual<object>('../search.service'),
+  searchEngine: {
+    searchGuides: jest.fn(),
+    searchHotels: jest.fn()
+  }
+}));
+
+const mockFrom = supabase.from as unknown as ReturnType<typeof jest.fn>;
+const mockSearchGuides = searchEngine.searchGuides as unknown as ReturnType<typeof jest.fn>;
+const mockSearchHotels = searchEngine.searchHotels as unknown as ReturnType<typeof jest.fn>;
+const mockSendAlert = emailService.sendSavedSearchAlert as unknown as ReturnType<typeof jest.fn>;
+
+const NOW = new Date('2025-02-01T12:00:00Z');
+
+const baseQuery: SearchQuery = {
+  text: 'heritage walk',
+  location: { city: 'Jaipur' },
+  filters: { languages: ['Hindi'] },
+  sort: 'rating',
+  pagination: { page: 1, limit: 50 }
+};
+
+interface RecordingQuery {
+  calls: unknown[][];
+  [method: string]: unknown;
+}
+
+// Query builder that records its calls and resolves to the given result
+const createQuery = (result: { data: unknown; error: unknown; count?: number }) => {
+  const query: RecordingQuery = { calls: [] };
+  ['select', 'eq', 'is', 'order', 'update', 'insert', 'upsert', 'delete'].forEach(method => {
+    query[method] = jest.fn((...args: unknown[]) => {
+      query.calls.push([method, ...args]);
+      return query;
+    });
+  });
+  query.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  query.single = jest.fn(async () => result);
+  return query;
+};
+
+const findCall = (query: RecordingQuery, method: string) => query.calls.find(call => call[0] === method);
+
+const savedSearchRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'search-1',
+  user_id: 'user-1',
+  name: 'Jaipur walks',
+  search_type: 'guides',
+  query: baseQuery,
+  notify_email: false,
+  notify_in_app: true,
+  known_listing_ids: [],
+  last_checked_at: null,
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+const listings = (ids: string[]) => ids.map(id => ({ id, displayName: `Listing ${id}` }));
+
+describe('SavedSearchService Property Tests', () => {
+  let service: SavedSearchService;
+
+  beforeEach(() => {
+    service = new SavedSearchService();
+    jest.clearAllMocks();
+  });
+
+  /**
+   * Property 1: New Match Alerts
+   * For any listings matched at the last check and now, an alert is raised for exactly the listings that were not matched before
+   */
+  describe('Property 1: New Match Alerts', () => {
+    it('should alert only listings that started matching and remember the current matches', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(fc.uuid(), { maxLength: 8 }),
+        fc.uniqueArray(fc.uuid(), { maxLength: 8 }),
+        async (known, current) => {
+          const searchesQuery = createQuery({ data: [savedSearchRow({ known_listing_ids: known })], error: null });
+          const alertsQuery = createQuery({ data: [], error: null });
+          const updateQuery = createQuery({ data: null, error: null });
+          let savedSearchCalls = 0;
+          mockFrom.mockImplementation((table: string) => {
+            if (table === 'saved_search_alerts') return alertsQuery;
+            return savedSearchCalls++ === 0 ? searchesQuery : updateQuery;
+          });
+          mockSearchGuides.mockImplementation(async () => ({ success: true, data: listings(current) }));
+
+          const result = await service.checkForNewMatches({ id: 'user-1' }, NOW);
+
+          expect(result.success).toBe(true);
+          const newIds = current.filter(id => !known.includes(id));
+          const upsert = findCall(alertsQuery, 'upsert');
+          if (newIds.length > 0) {
+            expect((upsert?.[1] as { listing_id: string }[]).map(alert => alert.listing_id)).toEqual(newIds);
+          } else {
+            expect(upsert).toBeUndefined();
+          }
+
+          expect(findCall(updateQuery, 'update')?.[1]).toEqual({ known_listing_ids: current, last_checked_at: NOW.toISOString() });
+        }
+      ), { numRuns: 50 });
+    });
+  });
+
+  /**
+   * Property 2: Alert Channels
+   * For any notification settings, new matches are emailed only with email alerts on and stored only with in-app alerts on
+   */
+  describe('Property 2: Alert Channels', () => {
+    it('should use only the channels the saved search has turned on', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.boolean(),
+        fc.boolean(),
+        fc.constantFrom('guides', 'hotels'),
+        async (notifyEmail, notifyInApp, type) => {
+          jest.clearAllMocks();
+          const alertsQuery = createQuery({ data: [], error: null });
+          const searchesQuery = createQuery({
+            data: [savedSearchRow({ search_type: type, notify_email: notifyEmail, notify_in_app: notifyInApp })],
+            error: null
+          });
+          mockFrom.mockImplementation((table: string) => table === 'saved_search_alerts' ? alertsQuery : searchesQuery);
+          const searchMock = type === 'guides' ? mockSearchGuides : mockSearchHotels;
+          searchMock.mockImplementation(async () => ({ success: true, data: listings(['new-1', 'new-2']) }));
+
+          await service.checkForNewMatches({ id: 'user-1', email: 'traveler@example.com', name: 'Asha' }, NOW);
+
+          const checked = notifyEmail || notifyInApp;
+          expect(searchMock).toHaveBeenCalledTimes(checked ? 1 : 0);
+          expect(alertsQuery.upsert).toHaveBeenCalledTimes(notifyInApp ? 1 : 0);
+          expect(mockSendAlert).toHaveBeenCalledTimes(notifyEmail ? 1 : 0);
+          if (notifyEmail) {
+            const [to, , searchName, names, url] = mockSendAlert.mock.calls[0] as [string, string, string, string[], string];
+            expect(to).toBe('traveler@example.com');
+            expect(searchName).toBe('Jaipur walks');
+            expect(names).toEqual(['Listing new-1', 'Listing new-2']);
+            expect(url).toContain(`/${type}?`);
+          }
+        }
+      ), { numRuns: 30 });
+    });
+  });
+
+  /**
+   * Property 3: Check Interval
+   * For any time since the last check, a saved search is searched again only once the check interval has passed
+   */
+  describe('Property 3: Check Interval', () => {
+    it('should skip saved searches checked within the interval', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.integer({ min: 0, max: 3 * ALERT_CHECK_INTERVAL_MS }),
+        async (elapsed) => {
+          jest.clearAllMocks();
+          const lastChecked = new Date(NOW.getTime() - elapsed).toISOString();
+          const searchesQuery = createQuery({ data: [savedSearchRow({ last_checked_at: lastChecked })], error: null });
+          mockFrom.mockImplementation(() => searchesQuery);
+          mockSearchGuides.mockImplementation(async () => ({ success: true, data: [] }));
+
+          const result = await service.checkForNewMatches({ id: 'user-1' }, NOW);
+
+          expect(result).toEqual({ success: true, data: [] });
+          expect(mockSearchGuides).toHaveBeenCalledTimes(elapsed >= ALERT_CHECK_INTERVAL_MS ? 1 : 0);
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should report search failures', async () => {
+      mockFrom.mockImplementation(() => createQuery({ data: [savedSearchRow()], error: null }));
+      mockSearchGuides.mockImplementation(async () => ({ success: false, error: 'Search unavailable' }));
+
+      const result = await service.checkForNewMatches({ id: 'user-1' }, NOW);
+
+      expect(result).toEqual({ success: false, error: 'Search unavailable' });
+      expect(mockSendAlert).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Property 4: Saving Searches
+   * For any search, saving it remembers its current matches and starts it from the first page
+   */
+  describe('Property 4: Saving Searches', () => {
+    it('should store the search from the first page with its current matches', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(fc.uuid(), { maxLength: 8 }),
+        fc.integer({ min: 1, max: 20 }),
+        async (current, page) => {
+          const countQuery = createQuery({ data: null, error: null, count: 0 });
+          const insertQuery = createQuery({ data: savedSearchRow(), error: null });
+          let calls = 0;
+          mockFrom.mockImplementation(() => calls++ === 0 ? countQuery : insertQuery);
+          mockSearchGuides.mockImplementation(async () => ({ success: true, data: listings(current) }));
+
+          const result = await service.saveSearch('user-1', {
+            name: '  Jaipur walks ',
+            type: 'guides',
+            query: { ...baseQuery, pagination: { page, limit: 50, cursor: 'abc=' } }
+          });
+
+          expect(result.success).toBe(true);
+          expect(findCall(insertQuery, 'insert')?.[1]).toMatchObject({
+            user_id: 'user-1',
+            name: 'Jaipur walks',
+            search_type: 'guides',
+            query: { ...baseQuery, pagination: { page: 1, limit: 50 } },
+            notify_email: false,
+            notify_in_app: true,
+            known_listing_ids: current
+          });
+        }
+      ), { numRuns: 30 });
+    });
+
+    it('should reject blank names and users at the saved search limit', async () => {
+      const blank = await service.saveSearch('user-1', { name: '   ', type: 'hotels', query: baseQuery });
+      expect(blank.success).toBe(false);
+      expect(mockFrom).not.toHaveBeenCalled();
+
+      mockFrom.mockImplementation(() => createQuery({ data: null, error: null, count: MAX_SAVED_SEARCHES }));
+      const full = await service.saveSearch('user-1', { name: 'One more', type: 'hotels', query: baseQuery });
+      expect(full).toEqual({ success: false, error: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+      expect(mockSearchHotels).not.toHaveBeenCalled();
+    });
+
+    it('should explain duplicate names', async () => {
+      let calls = 0;
+      mockFrom.mockImplementation(() => calls++ === 0
+        ? createQuery({ data: null, error: null, count: 1 })
+        : createQuery({ data: null, error: { code: '23505', message: 'duplicate key' } }));
+      mockSearchHotels.mockImplementation(async () => ({ success: true, data: [] }));
+
+      const result = await service.saveSearch('user-1', { name: 'Goa stays', type: 'hotels', query: baseQuery });
+
+      expect(result).toEqual({ success: false, error: 'You already have a saved search with this name' });
+    });
+  });
+
+  /**
+   * Property 5: Saved Search Links
+   * For any saved search, its link opens the matching directory with the same search
+   */
+  describe('Property 5: Saved Search Links', () => {
+    it('should link to the directory with the saved search in the URL', () => {
+      fc.assert(fc.property(
+        fc.constantFrom('guides', 'hotels'),
+        fc.constantFrom('rating', 'price-low', 'newest'),
+        fc.integer({ min: 1, max: 5 }),
+        (type, sort, minRating) => {
+          const query: SearchQuery = { ...baseQuery, filters: { ...baseQuery.filters, minRating }, sort };
+          const url = getSavedSearchUrl({ type, query });
+          const [path, params] = url.split('?');
+
+          expect(path).toBe(`/${type}`);
+          expect(searchQueryFromParams(new URLSearchParams(params), { sort: 'rating', limit: 50 })).toEqual(query);
+        }
+      ), { numRuns: 50 });
+    });
+  });
+});
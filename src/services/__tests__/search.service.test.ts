@@ -5,7 +5,19 @@
 
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import * as fc from 'fast-check';
-import { SearchEngine, SearchQuery, SearchFilters } from '../search.service';
+import {
+  SearchEngine,
+  SearchQuery,
+  SearchFilters,
+  getSearchSeason,
+  searchQueryToParams,
+  searchQueryFromParams,
+  SORT_OPTIONS,
+  OPEN_PRICE_MAX,
+  FACET_STEPS,
+  GuideSearchResult
+} from '../search.service';
+import { supabase } from '@/integrations/supabase/client';
 
 // Mock Supabase client
 const mockSupabaseResponse = <T>(data: T, error: any = null, count?: number) => ({
@@ -91,7 +103,8 @@ jest.mock('@/integrations/supabase/client', () => {
           range: jest.fn(),
           limit: jest.fn()
         }))
-      }))
+      })),
+      rpc: jest.fn()
     }
   };
 });
@@ -124,7 +137,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Cultural')
         ),
         async (searchText) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock tour guides data that should match the search
           const mockGuides = [
@@ -164,6 +176,18 @@ describe('SearchEngine Property Tests', () => {
             { user_id: 'user2' }
           ];
 
+          // Full-text search ranks the guides that match
+          supabase.rpc.mockImplementation(async () => mockSupabaseResponse(
+            mockGuides
+              .filter(guide =>
+                guide.full_name.toLowerCase().includes(searchText.toLowerCase()) ||
+                guide.bio.toLowerCase().includes(searchText.toLowerCase()) ||
+                guide.city.toLowerCase().includes(searchText.toLowerCase()) ||
+                guide.specialties.some(s => s.toLowerCase().includes(searchText.toLowerCase()))
+              )
+              .map(guide => ({ entity_type: 'guide', entity_id: guide.id, rank: 1 }))
+          ));
+
           let callCount = 0;
           supabase.from.mockImplementation((tableName: string) => {
             callCount++;
@@ -189,12 +213,14 @@ describe('SearchEngine Property Tests', () => {
 
               return {
                 select: jest.fn().mockReturnValue({
-                  or: jest.fn().mockReturnValue({
+                  in: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -250,7 +276,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Resort')
         ),
         async (searchText) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotel data that should match the search
           const mockHotels = [
@@ -288,6 +313,19 @@ describe('SearchEngine Property Tests', () => {
             { user_id: 'user2' }
           ];
 
+          // Full-text search ranks the hotels that match
+          supabase.rpc.mockImplementation(async () => mockSupabaseResponse(
+            mockHotels
+              .filter(hotel =>
+                hotel.company_name.toLowerCase().includes(searchText.toLowerCase()) ||
+                hotel.bio.toLowerCase().includes(searchText.toLowerCase()) ||
+                hotel.city.toLowerCase().includes(searchText.toLowerCase()) ||
+                hotel.hotel_type.toLowerCase().includes(searchText.toLowerCase()) ||
+                hotel.amenities.some(a => a.toLowerCase().includes(searchText.toLowerCase()))
+              )
+              .map(hotel => ({ entity_type: 'hotel', entity_id: hotel.id, rank: 1 }))
+          ));
+
           let callCount = 0;
           supabase.from.mockImplementation((tableName: string) => {
             callCount++;
@@ -314,12 +352,14 @@ describe('SearchEngine Property Tests', () => {
 
               return {
                 select: jest.fn().mockReturnValue({
-                  or: jest.fn().mockReturnValue({
+                  in: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -331,6 +371,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -370,9 +413,9 @@ describe('SearchEngine Property Tests', () => {
       await fc.assert(fc.asyncProperty(
         fc.constant('NonExistentSearchTerm'),
         async (searchText) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock empty results for non-matching search
+          supabase.rpc.mockImplementation(async () => mockSupabaseResponse([]));
           supabase.from.mockImplementation((tableName: string) => {
             if (tableName === 'public_directory_listings') {
               return {
@@ -436,7 +479,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Kolkata')
         ),
         async (locationFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock guides with different service areas
           const mockGuides = [
@@ -503,9 +545,11 @@ describe('SearchEngine Property Tests', () => {
                   ilike: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -566,7 +610,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Food Tours')
         ),
         async (specialtyFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock guides with different specialties
           const mockGuides = [
@@ -642,9 +685,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -690,7 +735,6 @@ describe('SearchEngine Property Tests', () => {
       await fc.assert(fc.asyncProperty(
         fc.constant('NonExistentSpecialty'),
         async (specialtyFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock guides with different specialties that don't match
           const mockGuides = [
@@ -726,9 +770,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -780,7 +826,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Chennai')
         ),
         async (locationFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels with different geographic locations
           const mockHotels = [
@@ -859,9 +904,11 @@ describe('SearchEngine Property Tests', () => {
                   ilike: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -873,6 +920,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -908,7 +958,6 @@ describe('SearchEngine Property Tests', () => {
       await fc.assert(fc.asyncProperty(
         fc.constant('NonExistentCity'),
         async (locationFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels with different locations that don't match
           const mockHotels = [
@@ -946,9 +995,11 @@ describe('SearchEngine Property Tests', () => {
                   ilike: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -960,6 +1011,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -1001,7 +1055,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Parking')
         ),
         async (amenityFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels with different amenities
           const mockHotels = [
@@ -1081,9 +1134,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1095,6 +1150,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -1129,7 +1187,6 @@ describe('SearchEngine Property Tests', () => {
       await fc.assert(fc.asyncProperty(
         fc.constant('NonExistentAmenity'),
         async (amenityFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels with different amenities that don't match
           const mockHotels = [
@@ -1168,9 +1225,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1182,6 +1241,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -1216,7 +1278,6 @@ describe('SearchEngine Property Tests', () => {
           { minLength: 2, maxLength: 3 }
         ),
         async (amenityFilters) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels with different amenity combinations
           const mockHotels = [
@@ -1274,9 +1335,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1288,6 +1351,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -1336,7 +1402,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Jaipur')
         ),
         async (cityFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock guides from different cities
           const mockGuides = [
@@ -1386,9 +1451,11 @@ describe('SearchEngine Property Tests', () => {
                   ilike: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1437,7 +1504,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant('Rajasthan')
         ),
         async (stateFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels from different states
           const mockHotels = [
@@ -1489,9 +1555,11 @@ describe('SearchEngine Property Tests', () => {
                   ilike: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1503,6 +1571,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -1547,7 +1618,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant(['Wildlife Tours'])
         ),
         async (specialtyFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock guides with different specialties
           const mockGuides = [
@@ -1595,9 +1665,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1648,7 +1720,6 @@ describe('SearchEngine Property Tests', () => {
           fc.constant(['Gym'])
         ),
         async (amenityFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock hotels with different amenities
           const mockHotels = [
@@ -1698,9 +1769,11 @@ describe('SearchEngine Property Tests', () => {
                   overlaps: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredHotels, null, filteredHotels.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1712,6 +1785,9 @@ describe('SearchEngine Property Tests', () => {
               select: jest.fn().mockReturnValue({
                 eq: jest.fn().mockReturnValue({
                   single: jest.fn()
+                }),
+                in: jest.fn().mockReturnValue({
+                  eq: jest.fn(async () => mockSupabaseResponse([]))
                 })
               })
             };
@@ -1746,7 +1822,6 @@ describe('SearchEngine Property Tests', () => {
       await fc.assert(fc.asyncProperty(
         fc.boolean(),
         async (verificationFilter) => {
-          const { supabase } = require('@/integrations/supabase/client');
           
           // Mock guides with different verification statuses
           const mockGuides = [
@@ -1792,9 +1867,11 @@ describe('SearchEngine Property Tests', () => {
                   eq: jest.fn().mockReturnValue({
                     in: jest.fn().mockReturnValue({
                       order: jest.fn().mockReturnValue({
-                        range: jest.fn().mockResolvedValue(
-                          mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
-                        )
+                        order: jest.fn().mockReturnValue({
+                          range: jest.fn().mockResolvedValue(
+                            mockSupabaseResponse(filteredGuides, null, filteredGuides.length)
+                          )
+                        })
                       })
                     })
                   })
@@ -1981,4 +2058,1447 @@ describe('SearchEngine Property Tests', () => {
       ), { numRuns: 15 });
     });
   });
-});
\ No newline at end of file
+
+  /**
+   * Property 23: Rating Aggregates
+   * Feature: public-user-directory, Property 23: For any listing with review aggregates, search results should carry its average rating and review count, and rating filters and sorts should be applied in the database
+   * Validates: Requirements 5.4
+   */
+  describe('Property 23: Rating Aggregates', () => {
+    type QueryCall = [string, ...unknown[]];
+
+    // Records every query builder call and resolves the final range() with the given rows
+    const createRecordingQuery = (rows: Array<{ user_id: string }>, calls: QueryCall[]) => {
+      const builder: Record<string, unknown> = {};
+      ['select', 'or', 'ilike', 'overlaps', 'lte', 'gte', 'eq', 'in', 'order'].forEach(method => {
+        builder[method] = jest.fn((...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        });
+      });
+      builder.range = jest.fn(async () => mockSupabaseResponse(rows, null, rows.length));
+      return builder;
+    };
+
+    const mockTables = (table: string, rows: Array<{ user_id: string }>, calls: QueryCall[]) => {
+      supabase.from.mockImplementation((tableName: string) => {
+        if (tableName === 'public_directory_listings') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                eq: jest.fn(async () => mockSupabaseResponse(rows.map(row => ({ user_id: row.user_id }))))
+              })
+            })
+          };
+        }
+        return tableName === table ? createRecordingQuery(rows, calls) : createRecordingQuery([], []);
+      });
+    };
+
+    it('should map stored rating aggregates onto guide results and filter by minimum rating', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.array(
+          fc.record({
+            rating_average: fc.integer({ min: 0, max: 500 }).map(n => n / 100),
+            review_count: fc.integer({ min: 0, max: 1000 })
+          }),
+          { minLength: 1, maxLength: 5 }
+        ),
+        fc.integer({ min: 1, max: 5 }),
+        async (aggregates, minRating) => {
+          const rows = aggregates.map((aggregate, index) => ({
+            id: `guide${index}`,
+            user_id: `user${index}`,
+            full_name: `Guide ${index}`,
+            specialties: [],
+            verified: true,
+            is_active: true,
+            created_at: new Date().toISOString(),
+            ...aggregate
+          }));
+          const calls: QueryCall[] = [];
+          mockTables('tour_guides', rows, calls);
+
+          const result = await searchEngine.searchGuides({
+            filters: { minRating },
+            sort: 'newest',
+            pagination: { page: 1, limit: 10 }
+          });
+
+          expect(result.success).toBe(true);
+          expect(calls).toContainEqual(['gte', 'rating_average', minRating]);
+          result.data?.forEach(guide => {
+            const row = rows.find(r => r.id === guide.id);
+            expect(guide.rating).toBe(row?.rating_average);
+            expect(guide.reviewCount).toBe(row?.review_count);
+          });
+        }
+      ), { numRuns: 10 });
+    });
+
+    it('should order hotels by rating aggregates for rating and popularity sorts', async () => {
+      const rows = [{
+        id: 'hotel1',
+        user_id: 'user1',
+        company_name: 'Heritage Haveli',
+        amenities: [],
+        is_verified: true,
+        is_active: true,
+        created_at: new Date().toISOString(),
+        rating_average: '4.50',
+        review_count: 12
+      }];
+
+      const ratingCalls: QueryCall[] = [];
+      mockTables('hotel_partners', rows, ratingCalls);
+      const ratingResult = await searchEngine.searchHotels({
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(ratingResult.data?.[0].rating).toBe(4.5);
+      expect(ratingResult.data?.[0].reviewCount).toBe(12);
+      expect(ratingCalls.filter(([method]) => method === 'order')).toEqual([
+        ['order', 'rating_average', { ascending: false }],
+        ['order', 'review_count', { ascending: false }],
+        ['order', 'id', { ascending: true }]
+      ]);
+
+      const popularityCalls: QueryCall[] = [];
+      mockTables('hotel_partners', rows, popularityCalls);
+      await searchEngine.searchHotels({
+        filters: {},
+        sort: 'popularity',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(popularityCalls.filter(([method]) => method === 'order')).toEqual([
+        ['order', 'review_count', { ascending: false }],
+        ['order', 'rating_average', { ascending: false }],
+        ['order', 'id', { ascending: true }]
+      ]);
+    });
+  });
+
+  /**
+   * Property 24: Geo-Radius Search
+   * Feature: public-user-directory, Property 24: For any search with coordinates, results should be limited to listings within the radius, carry their distance and be ordered nearest first when sorting by distance
+   * Validates: Requirements 5.2
+   */
+  describe('Property 24: Geo-Radius Search', () => {
+    type QueryCall = [string, ...unknown[]];
+
+    // Records every query builder call and resolves to the given rows whether or not range() is used
+    const createGeoQuery = (rows: Array<{ id: string; user_id: string }>, calls: QueryCall[]) => {
+      const builder: Record<string, unknown> = {};
+      ['select', 'or', 'ilike', 'overlaps', 'lte', 'gte', 'eq', 'in', 'order', 'range'].forEach(method => {
+        builder[method] = jest.fn((...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        });
+      });
+      builder.then = (resolve: (value: unknown) => unknown) =>
+        Promise.resolve(mockSupabaseResponse(rows, null, rows.length)).then(resolve);
+      return builder;
+    };
+
+    const mockGeoTables = (
+      table: string,
+      rows: Array<{ id: string; user_id: string }>,
+      nearby: Array<Record<string, unknown>>,
+      calls: QueryCall[]
+    ) => {
+      supabase.from.mockImplementation((tableName: string) => {
+        if (tableName === 'public_directory_listings') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                eq: jest.fn(async () => mockSupabaseResponse(rows.map(row => ({ user_id: row.user_id }))))
+              })
+            })
+          };
+        }
+        return tableName === table ? createGeoQuery(rows, calls) : createGeoQuery([], []);
+      });
+      supabase.rpc.mockImplementation(async (name: string, params: unknown) => {
+        calls.push(['rpc', name, params]);
+        return mockSupabaseResponse(nearby);
+      });
+    };
+
+    it('should return guides within the radius nearest first with their distances', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.array(fc.integer({ min: 0, max: 5000 }).map(n => n / 100), { minLength: 1, maxLength: 8 }),
+        fc.integer({ min: 1, max: 3 }),
+        async (distances, limit) => {
+          const rows = distances.map((_, index) => ({
+            id: `guide${index}`,
+            user_id: `user${index}`,
+            full_name: `Guide ${index}`,
+            specialties: [],
+            verified: true,
+            is_active: true,
+            created_at: new Date().toISOString()
+          }));
+          const nearby = distances.map((distance, index) => ({ guide_id: `guide${index}`, distance_km: distance.toFixed(2) }));
+          const calls: QueryCall[] = [];
+          mockGeoTables('tour_guides', rows, nearby, calls);
+
+          const result = await searchEngine.searchGuides({
+            location: { coordinates: { lat: 27.1751, lng: 78.0421 }, radius: 50 },
+            filters: {},
+            sort: 'distance',
+            pagination: { page: 1, limit }
+          });
+
+          expect(result.success).toBe(true);
+          expect(calls).toContainEqual(['rpc', 'nearby_guides', { p_latitude: 27.1751, p_longitude: 78.0421, p_radius_km: 50 }]);
+          expect(calls).toContainEqual(['in', 'id', rows.map(row => row.id)]);
+          expect(calls.some(([method]) => method === 'range')).toBe(false);
+
+          const expected = [...distances].sort((a, b) => a - b).slice(0, limit);
+          expect(result.data?.map(guide => guide.distance)).toEqual(expected);
+          expect(result.totalCount).toBe(distances.length);
+          expect(result.hasMore).toBe(limit < distances.length);
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should return no hotels without querying listings when none are within the radius', async () => {
+      const rows = [{ id: 'hotel1', user_id: 'user1', company_name: 'Lake Palace', created_at: new Date().toISOString() }];
+      const calls: QueryCall[] = [];
+      mockGeoTables('hotel_partners', rows, [], calls);
+
+      const result = await searchEngine.searchHotels({
+        location: { coordinates: { lat: 24.5754, lng: 73.6800 } },
+        filters: { maxDistance: 5 },
+        sort: 'rating',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(calls).toContainEqual(['rpc', 'nearby_hotels', { p_latitude: 24.5754, p_longitude: 73.68, p_radius_km: 5 }]);
+      expect(calls.some(([method]) => method === 'order')).toBe(false);
+    });
+
+    it('should return hotel partners within the radius nearest first with their distances', async () => {
+      const rows = [
+        { id: 'partner1', user_id: 'user1', company_name: 'Lake Palace', created_at: new Date().toISOString() },
+        { id: 'partner2', user_id: 'user2', company_name: 'City Haveli', created_at: new Date().toISOString() }
+      ];
+      const nearby = [
+        { partner_id: 'partner2', distance_km: '1.20' },
+        { partner_id: 'partner1', distance_km: '3.75' }
+      ];
+      const calls: QueryCall[] = [];
+      mockGeoTables('hotel_partners', rows, nearby, calls);
+
+      const result = await searchEngine.searchHotels({
+        location: { coordinates: { lat: 24.5754, lng: 73.6800 } },
+        filters: { maxDistance: 5 },
+        sort: 'distance',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(result.success).toBe(true);
+      expect(calls).toContainEqual(['in', 'id', ['partner2', 'partner1']]);
+      expect(result.data?.map(hotel => [hotel.id, hotel.distance])).toEqual([['partner2', 1.2], ['partner1', 3.75]]);
+    });
+
+    it('should treat listings covering the search point as nearest and unknown distances as furthest', () => {
+      fc.assert(fc.property(
+        fc.array(fc.option(fc.integer({ min: 0, max: 100 }), { nil: undefined }), { minLength: 1, maxLength: 10 }),
+        (distances) => {
+          const results = distances.map((distance, index) => ({
+            id: `guide${index}`,
+            userId: `user${index}`,
+            passionType: 'tour_guide' as const,
+            displayName: `Guide ${index}`,
+            location: { city: 'Agra', state: 'Uttar Pradesh' },
+            contactInfo: {},
+            isVerified: true,
+            isActive: true,
+            createdAt: new Date(),
+            specialties: [],
+            languagesSpoken: [],
+            experienceYears: 0,
+            certifications: [],
+            nearbyAttractions: [],
+            rating: 0,
+            reviewCount: 0,
+            distance
+          }));
+
+          const sorted = searchEngine.sortResults(results, 'distance').map(result => result.distance);
+          const known = distances.filter((distance): distance is number => distance !== undefined).sort((a, b) => a - b);
+
+          expect(sorted.slice(0, known.length)).toEqual(known);
+          expect(sorted.slice(known.length).every(distance => distance === undefined)).toBe(true);
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 25: Ranked Full-Text Search
+   * Feature: public-user-directory, Property 25: For any text search, results should be limited to the listings the search index matches and, when sorting by relevance, be ranked before pagination
+   * Validates: Requirements 5.1
+   */
+  describe('Property 25: Ranked Full-Text Search', () => {
+    type QueryCall = [string, ...unknown[]];
+
+    // Records every query builder call and resolves to the given rows whether or not range() is used
+    const createTextQuery = (rows: Array<{ id: string; user_id: string }>, calls: QueryCall[]) => {
+      const builder: Record<string, unknown> = {};
+      ['select', 'or', 'ilike', 'overlaps', 'lte', 'gte', 'eq', 'in', 'order', 'range'].forEach(method => {
+        builder[method] = jest.fn((...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        });
+      });
+      builder.then = (resolve: (value: unknown) => unknown) =>
+        Promise.resolve(mockSupabaseResponse(rows, null, rows.length)).then(resolve);
+      return builder;
+    };
+
+    const mockTextTables = (
+      table: string,
+      rows: Array<{ id: string; user_id: string }>,
+      matches: Array<Record<string, unknown>>,
+      calls: QueryCall[]
+    ) => {
+      supabase.from.mockImplementation((tableName: string) => {
+        if (tableName === 'public_directory_listings') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                eq: jest.fn(async () => mockSupabaseResponse(rows.map(row => ({ user_id: row.user_id }))))
+              })
+            })
+          };
+        }
+        return tableName === table ? createTextQuery(rows, calls) : createTextQuery([], []);
+      });
+      supabase.rpc.mockImplementation(async (name: string, params: unknown) => {
+        calls.push(['rpc', name, params]);
+        return mockSupabaseResponse(matches);
+      });
+    };
+
+    it('should return the best matching guides first with their ranks', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(fc.integer({ min: 1, max: 1000 }), { minLength: 1, maxLength: 8 }),
+        fc.integer({ min: 1, max: 3 }),
+        async (ranks, limit) => {
+          const rows = ranks.map((_, index) => ({
+            id: `guide${index}`,
+            user_id: `user${index}`,
+            full_name: `Guide ${index}`,
+            city: 'Varanasi',
+            specialties: [],
+            verified: true,
+            is_active: true,
+            created_at: new Date().toISOString()
+          }));
+          const matches = ranks.map((rank, index) => ({ entity_type: 'guide', entity_id: `guide${index}`, rank: rank / 100 }));
+          const calls: QueryCall[] = [];
+          mockTextTables('tour_guides', rows, matches, calls);
+
+          const result = await searchEngine.searchGuides({
+            text: '  Banaras ',
+            filters: {},
+            sort: 'relevance',
+            pagination: { page: 1, limit }
+          });
+
+          expect(result.success).toBe(true);
+          expect(calls).toContainEqual(['rpc', 'search_listings', { p_query: 'Banaras', p_types: ['guide'], p_limit: 1000, p_offset: 0 }]);
+          expect(calls).toContainEqual(['in', 'id', rows.map(row => row.id)]);
+          expect(calls.some(([method]) => method === 'or' || method === 'range')).toBe(false);
+
+          const expected = ranks.map(rank => rank / 100).sort((a, b) => b - a).slice(0, limit);
+          expect(result.data?.map(guide => guide.relevanceScore)).toEqual(expected);
+          expect(result.totalCount).toBe(ranks.length);
+          expect(result.hasMore).toBe(limit < ranks.length);
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should keep database ordering and paging for other sorts', async () => {
+      const rows = [{ id: 'hotel1', user_id: 'user1', company_name: 'Jaipur Palace', created_at: new Date().toISOString() }];
+      const calls: QueryCall[] = [];
+      mockTextTables('hotel_partners', rows, [{ entity_type: 'hotel', entity_id: 'hotel1', rank: 0.5 }], calls);
+
+      const result = await searchEngine.searchHotels({
+        text: 'jaipr',
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 2, limit: 10 }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.[0].relevanceScore).toBe(0.5);
+      expect(calls).toContainEqual(['rpc', 'search_listings', { p_query: 'jaipr', p_types: ['hotel'], p_limit: 1000, p_offset: 0 }]);
+      expect(calls).toContainEqual(['order', 'rating_average', { ascending: false }]);
+      expect(calls).toContainEqual(['range', 10, 19]);
+    });
+
+    it('should page through every text match rather than only the best ones', async () => {
+      const rows = Array.from({ length: 1001 }, (_, index) => ({
+        id: `guide${index}`,
+        user_id: `user${index}`,
+        full_name: `Guide ${index}`,
+        created_at: new Date().toISOString()
+      }));
+      const matches = rows.map((row, index) => ({ entity_type: 'guide', entity_id: row.id, rank: 2000 - index }));
+      const calls: QueryCall[] = [];
+      mockTextTables('tour_guides', rows, [], calls);
+      supabase.rpc.mockImplementation(async (name: string, params: { p_limit: number; p_offset: number }) => {
+        calls.push(['rpc', name, params]);
+        return mockSupabaseResponse(matches.slice(params.p_offset, params.p_offset + params.p_limit));
+      });
+
+      const result = await searchEngine.searchGuides({
+        text: 'heritage',
+        filters: {},
+        sort: 'relevance',
+        pagination: { page: 51, limit: 20 }
+      });
+
+      expect(calls.filter(([method]) => method === 'rpc').map(([, , params]) => params)).toEqual([
+        { p_query: 'heritage', p_types: ['guide'], p_limit: 1000, p_offset: 0 },
+        { p_query: 'heritage', p_types: ['guide'], p_limit: 1000, p_offset: 1000 }
+      ]);
+      expect(calls).toContainEqual(['in', 'id', rows.map(row => row.id)]);
+      expect(result.data?.map(guide => guide.id)).toEqual(['guide1000']);
+      expect(result.totalCount).toBe(1001);
+    });
+
+    it('should return no hotels without querying listings when nothing matches', async () => {
+      const rows = [{ id: 'hotel1', user_id: 'user1', company_name: 'Lake Palace', created_at: new Date().toISOString() }];
+      const calls: QueryCall[] = [];
+      mockTextTables('hotel_partners', rows, [], calls);
+
+      const result = await searchEngine.searchHotels({
+        text: 'xyzzy',
+        filters: {},
+        sort: 'relevance',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(calls.some(([method]) => method === 'order')).toBe(false);
+    });
+
+    it('should fail the search when the search index cannot be queried', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse(null, { message: 'function search_listings does not exist' }));
+
+      const result = await searchEngine.searchGuides({
+        text: 'Rajastan',
+        filters: {},
+        sort: 'relevance',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('function search_listings does not exist');
+    });
+
+    it('should order equally relevant results by rating', () => {
+      fc.assert(fc.property(
+        fc.array(fc.record({ relevanceScore: fc.integer({ min: 0, max: 3 }), rating: fc.integer({ min: 0, max: 5 }) }), { minLength: 1, maxLength: 10 }),
+        (scores) => {
+          const results = scores.map(({ relevanceScore, rating }, index) => ({
+            id: `hotel${index}`,
+            userId: `user${index}`,
+            passionType: 'hotel_partner' as const,
+            displayName: `Hotel ${index}`,
+            location: { city: 'Jaipur', state: 'Rajasthan' },
+            contactInfo: {},
+            isVerified: true,
+            isActive: true,
+            createdAt: new Date(),
+            hotelType: 'Hotel',
+            amenities: [],
+            roomTypes: [],
+            priceRange: { min: 0, max: 0 },
+            nearbyAttractions: [],
+            images: [],
+            rating,
+            reviewCount: 0,
+            relevanceScore
+          }));
+
+          const sorted = searchEngine.sortResults(results, 'relevance');
+          for (let i = 1; i < sorted.length; i++) {
+            const previous = sorted[i - 1];
+            const current = sorted[i];
+            expect(previous.relevanceScore! >= current.relevanceScore!).toBe(true);
+            if (previous.relevanceScore === current.relevanceScore) {
+              expect(previous.rating >= current.rating).toBe(true);
+            }
+          }
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 26: Global Search
+   * Feature: public-user-directory, Property 26: For any global search, hits should be grouped by entity type in a fixed order, ranked within each group and link to the page that shows them
+   * Validates: Requirements 5.1
+   */
+  describe('Property 26: Global Search', () => {
+    const entityTypes = ['state', 'attraction', 'cuisine', 'festival', 'hotel', 'guide'] as const;
+
+    const mockHotelPages = (
+      partners: Array<{ id: string; user_id: string | null }>,
+      hotels: Array<{ id: string; added_by: string; created_at: string }>
+    ) => {
+      supabase.from.mockImplementation((tableName: string) => ({
+        select: jest.fn(() => ({
+          in: jest.fn((_column: string, values: string[]) => tableName === 'hotel_partners'
+            ? Promise.resolve(mockSupabaseResponse(partners.filter(partner => values.includes(partner.id))))
+            : { eq: jest.fn(async () => mockSupabaseResponse(hotels.filter(hotel => values.includes(hotel.added_by)))) })
+        }))
+      }));
+    };
+
+    it('should group hits by type in display order with the best match first', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.array(
+          fc.record({ type: fc.constantFrom(...entityTypes), rank: fc.integer({ min: 1, max: 1000 }) }),
+          { minLength: 1, maxLength: 20 }
+        ),
+        async (hits) => {
+          const rows = hits.map((hit, index) => ({
+            entity_type: hit.type,
+            entity_id: `${hit.type}${index}`,
+            title: `Result ${index}`,
+            city: 'Varanasi',
+            state: 'Uttar Pradesh',
+            rank: hit.rank / 100
+          }));
+          supabase.rpc.mockImplementation(async () => mockSupabaseResponse(rows));
+          mockHotelPages([], []);
+
+          const result = await searchEngine.globalSearch('Banaras');
+
+          expect(result.success).toBe(true);
+          expect(supabase.rpc).toHaveBeenCalledWith('global_search', { p_query: 'Banaras', p_per_type: 5 });
+          expect(result.data?.map(group => group.type)).toEqual(entityTypes.filter(type => hits.some(hit => hit.type === type)));
+          expect(result.totalCount).toBe(hits.length);
+          result.data?.forEach(group => {
+            expect(group.hits.every(hit => hit.type === group.type)).toBe(true);
+            const ranks = group.hits.map(hit => hit.rank);
+            expect(ranks).toEqual([...ranks].sort((a, b) => b - a));
+          });
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should link each hit to the page that shows it', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse([
+        { entity_type: 'state', entity_id: 's1', title: 'Uttar Pradesh', city: 'Lucknow', state: 'Uttar Pradesh', rank: 0.9 },
+        { entity_type: 'attraction', entity_id: 'a1', title: 'Dashashwamedh Ghat', city: 'Varanasi', state: 'Uttar Pradesh', rank: 0.8 },
+        { entity_type: 'cuisine', entity_id: 'c1', title: 'Banarasi Paan', city: null, state: 'Uttar Pradesh', rank: 0.7 },
+        { entity_type: 'festival', entity_id: 'f1', title: 'Dev Deepawali', city: null, state: null, rank: 0.6 },
+        { entity_type: 'hotel', entity_id: 'h1', title: 'Ganges View', city: 'Varanasi', state: 'Uttar Pradesh', rank: 0.5 },
+        { entity_type: 'hotel', entity_id: 'p2', title: 'Assi Homestay', city: 'Varanasi', state: 'Uttar Pradesh', rank: 0.45 },
+        { entity_type: 'guide', entity_id: 'g1', title: 'Ravi Kumar', city: 'Varanasi', state: null, rank: 0.4 }
+      ]));
+      // The partner behind h1's listing added two hotels; the Assi partner has not listed one yet
+      mockHotelPages(
+        [{ id: 'h1', user_id: 'owner1' }, { id: 'p2', user_id: null }],
+        [
+          { id: 'hotel-later', added_by: 'owner1', created_at: '2025-02-01T00:00:00Z' },
+          { id: 'hotel-first', added_by: 'owner1', created_at: '2025-01-01T00:00:00Z' }
+        ]
+      );
+
+      const result = await searchEngine.globalSearch('varanasi');
+      const hits = result.data?.flatMap(group => group.hits) || [];
+
+      expect(hits.map(hit => [hit.title, hit.url, hit.subtitle])).toEqual([
+        ['Uttar Pradesh', '/states/uttar-pradesh', 'Lucknow'],
+        ['Dashashwamedh Ghat', '/states/uttar-pradesh?tab=attractions', 'Varanasi, Uttar Pradesh'],
+        ['Banarasi Paan', '/states/uttar-pradesh?tab=cuisine', 'Uttar Pradesh'],
+        ['Dev Deepawali', '/states', null],
+        ['Ganges View', '/hotels/hotel-first', 'Varanasi, Uttar Pradesh'],
+        ['Assi Homestay', '/hotels?q=Assi+Homestay', 'Varanasi, Uttar Pradesh'],
+        ['Ravi Kumar', '/guides/g1', 'Varanasi']
+      ]);
+    });
+
+    it('should not search for fewer than two characters', async () => {
+
+      const result = await searchEngine.globalSearch(' a ');
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Property 27: Search Analytics
+   * Feature: public-user-directory, Property 27: For any recorded searches, popular searches should come from searches that found results and zero-result reports from those that did not
+   * Validates: Requirements 5.4
+   */
+  describe('Property 27: Search Analytics', () => {
+    it('should record searches with their filters and result counts', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse('event-1'));
+
+      const result = await searchEngine.recordSearch({
+        source: 'hotels',
+        text: '  heritage hotel ',
+        city: 'Jaipur',
+        filters: { amenities: ['Pool'] },
+        resultCount: 0
+      });
+
+      expect(result).toEqual({ success: true, data: 'event-1' });
+      expect(supabase.rpc).toHaveBeenCalledWith('record_search', {
+        p_source: 'hotels',
+        p_query: 'heritage hotel',
+        p_filters: { amenities: ['Pool'] },
+        p_result_count: 0,
+        p_state: null,
+        p_city: 'Jaipur'
+      });
+    });
+
+    it('should record the result a search led to', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse(null));
+
+      const result = await searchEngine.recordSearchClick('event-1', 'guide', 'guide-1');
+
+      expect(result.success).toBe(true);
+      expect(supabase.rpc).toHaveBeenCalledWith('record_search_click', {
+        p_event_id: 'event-1',
+        p_entity_type: 'guide',
+        p_entity_id: 'guide-1'
+      });
+    });
+
+    it('should return recorded popular searches for a state and season', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(fc.stringMatching(/^[a-z]{3,10}$/), { minLength: 1, maxLength: 10 }),
+        fc.constantFrom('winter', 'summer', 'monsoon', 'post_monsoon'),
+        async (queries, season) => {
+          supabase.rpc.mockClear();
+          supabase.rpc.mockImplementation(async () =>
+            mockSupabaseResponse(queries.map((query, index) => ({ query, search_count: String(100 - index) })))
+          );
+
+          const result = await searchEngine.getPopularSearches({ state: 'Rajasthan', season, limit: 10 });
+
+          expect(result.success).toBe(true);
+          expect(result.data).toEqual(queries);
+          expect(supabase.rpc).toHaveBeenCalledWith('popular_searches', { p_state: 'Rajasthan', p_season: season, p_limit: 10 });
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should fall back to common searches until searches have been recorded', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse([]));
+
+      const result = await searchEngine.getPopularSearches({ limit: 3 });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(['Delhi', 'Mumbai', 'Goa']);
+    });
+
+    it('should map the zero-result report', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse([
+        { query: 'Ladakh homestay', search_count: '14', user_count: '9', last_searched_at: '2025-01-20T10:00:00Z' }
+      ]));
+
+      const result = await searchEngine.getZeroResultSearches(7, 5);
+
+      expect(supabase.rpc).toHaveBeenCalledWith('zero_result_searches', { p_days: 7, p_limit: 5 });
+      expect(result.data).toEqual([
+        { query: 'Ladakh homestay', searchCount: 14, userCount: 9, lastSearchedAt: new Date('2025-01-20T10:00:00Z') }
+      ]);
+    });
+
+    it('should place every date in the Indian travel season of its month', () => {
+      fc.assert(fc.property(
+        fc.date({ min: new Date('2020-01-01'), max: new Date('2030-12-31') }),
+        (date) => {
+          const month = date.getMonth() + 1;
+          const expected = [12, 1, 2].includes(month) ? 'winter'
+            : [3, 4, 5].includes(month) ? 'summer'
+            : [6, 7, 8, 9].includes(month) ? 'monsoon'
+            : 'post_monsoon';
+
+          expect(getSearchSeason(date)).toBe(expected);
+        }
+      ), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 28: Facet Counts
+   * Feature: public-user-directory, Property 28: For any search and filters, each filter option should be counted in the database across every matching listing, with every other filter applied but not its own
+   * Validates: Requirements 5.2
+   */
+  describe('Property 28: Facet Counts', () => {
+    const LANGUAGES = ['Hindi', 'English', 'Tamil', 'Bengali'];
+
+    it('should count guide options in the database with the guide filters applied', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.subarray(LANGUAGES),
+        fc.option(fc.constantFrom(3, 4, 4.5), { nil: undefined }),
+        async (selectedLanguages, minRating) => {
+          supabase.rpc.mockReset();
+          supabase.rpc.mockImplementation(async () => mockSupabaseResponse([]));
+          const languages = selectedLanguages.length > 0 ? selectedLanguages : undefined;
+
+          const result = await searchEngine.getFacetCounts('guide', {
+            text: ' heritage ',
+            location: { city: 'Jaipur' },
+            // Hotel filters and a radius without a search point do nothing for guides
+            filters: { languages, minRating, amenities: ['Pool'], maxDistance: 25 },
+            sort: 'rating',
+            pagination: { page: 1, limit: 20 }
+          });
+
+          expect(result.success).toBe(true);
+          expect(supabase.rpc).toHaveBeenCalledTimes(1);
+          const [name, params] = supabase.rpc.mock.calls[0];
+          expect(name).toBe('search_facet_counts');
+          expect(JSON.parse(JSON.stringify(params))).toEqual({
+            p_type: 'guide',
+            p_filters: JSON.parse(JSON.stringify({ minRating, languages })),
+            p_steps: {
+              minRating: FACET_STEPS.minRating,
+              maxHourlyRate: FACET_STEPS.maxHourlyRate,
+              minExperience: FACET_STEPS.minExperience
+            },
+            p_query: 'heritage',
+            p_city: 'Jaipur',
+            p_state: null,
+            p_latitude: null,
+            p_longitude: null
+          });
+        }
+      ), { numRuns: 20 });
+    });
+
+    it('should count distance options and apply the radius when searching around a point', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse([]));
+
+      await searchEngine.getFacetCounts('hotel', {
+        location: { coordinates: { lat: 26.9124, lng: 75.7873 }, radius: 10 },
+        filters: { priceRange: { min: 1000, max: 5000 } },
+        sort: 'distance',
+        pagination: { page: 1, limit: 20 }
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('search_facet_counts', expect.objectContaining({
+        p_type: 'hotel',
+        p_filters: expect.objectContaining({ priceRange: { min: 1000, max: 5000 }, maxDistance: 10 }),
+        p_steps: { minRating: FACET_STEPS.minRating, maxDistance: FACET_STEPS.maxDistance, priceRange: FACET_STEPS.priceRange },
+        p_latitude: 26.9124,
+        p_longitude: 75.7873
+      }));
+    });
+
+    it('should group the database counts by filter and option', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse([
+        { facet: 'minRating', option: '4.5', listings: 2 },
+        { facet: 'minRating', option: '4', listings: '5' },
+        { facet: 'isVerified', option: 'true', listings: 3 },
+        { facet: 'isVerified', option: 'false', listings: 0 },
+        { facet: 'hotelTypes', option: 'Homestay', listings: 4 }
+      ]));
+
+      const result = await searchEngine.getFacetCounts('hotel', {
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 1, limit: 20 }
+      });
+
+      expect(result.data).toEqual({
+        minRating: { '4.5': 2, '4': 5 },
+        isVerified: { true: 3, false: 0 },
+        hotelTypes: { Homestay: 4 },
+        amenities: {},
+        priceRange: {}
+      });
+    });
+
+    it('should surface search errors when counting facets', async () => {
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse(null, { message: 'Search unavailable' }));
+
+      const result = await searchEngine.getFacetCounts('guide', {
+        text: 'heritage',
+        filters: { languages: ['Hindi'] },
+        sort: 'rating',
+        pagination: { page: 1, limit: 20 }
+      });
+
+      expect(result).toEqual({ success: false, error: 'Search unavailable' });
+    });
+
+    it('should leave out listings without a location when filtering by distance', () => {
+      const located = { id: 'near', rating: 4, isVerified: true, distance: 3 } as GuideSearchResult;
+      const far = { id: 'far', rating: 4, isVerified: true, distance: 40 } as GuideSearchResult;
+      const unlocated = { id: 'nowhere', rating: 4, isVerified: true } as GuideSearchResult;
+
+      const ids = searchEngine.applyFilters([located, far, unlocated], { maxDistance: 10 }).map(result => result.id);
+
+      expect(ids).toEqual(['near']);
+    });
+  });
+
+  /**
+   * Property 29: Cursor Pagination
+   * Feature: public-user-directory, Property 29: For any search paged with cursors, every listing should appear exactly once in sort order, even when listings change between pages
+   * Validates: Requirements 5.5
+   */
+  describe('Property 29: Cursor Pagination', () => {
+    type QueryCall = [string, ...unknown[]];
+
+    // Records every query builder call and resolves to the given rows, cut to the range() if one is used
+    const createPagedQuery = (rows: Array<Record<string, unknown>>, calls: QueryCall[]) => {
+      const builder: Record<string, unknown> = {};
+      let page = rows;
+      ['select', 'or', 'ilike', 'overlaps', 'lte', 'gte', 'eq', 'in', 'order', 'range'].forEach(method => {
+        builder[method] = jest.fn((...args: unknown[]) => {
+          calls.push([method, ...args]);
+          if (method === 'range') {
+            page = rows.slice(args[0] as number, (args[1] as number) + 1);
+          }
+          return builder;
+        });
+      });
+      builder.then = (resolve: (value: unknown) => unknown) =>
+        Promise.resolve(mockSupabaseResponse(page, null, rows.length)).then(resolve);
+      return builder;
+    };
+
+    const mockPagedTables = (
+      table: string,
+      rows: Array<Record<string, unknown>>,
+      calls: QueryCall[],
+      nearby: Array<Record<string, unknown>> = []
+    ) => {
+      supabase.from.mockImplementation((tableName: string) => {
+        if (tableName === 'public_directory_listings') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                eq: jest.fn(async () => mockSupabaseResponse(rows.map(row => ({ user_id: row.user_id }))))
+              })
+            })
+          };
+        }
+        return tableName === table ? createPagedQuery(rows, calls) : createPagedQuery([], []);
+      });
+      supabase.rpc.mockImplementation(async () => mockSupabaseResponse(nearby));
+    };
+
+    it('should list every guide once when paging nearest first, even if one is removed between pages', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.array(fc.integer({ min: 0, max: 20 }), { minLength: 2, maxLength: 12 }),
+        fc.integer({ min: 1, max: 4 }),
+        async (distances, limit) => {
+          let rows = distances.map((_, index) => ({
+            id: `guide${String(index).padStart(2, '0')}`,
+            user_id: `user${index}`,
+            full_name: `Guide ${index}`,
+            created_at: new Date().toISOString()
+          }));
+          const nearbyOf = () => rows.map(row => ({
+            guide_id: row.id,
+            distance_km: distances[Number(row.id.slice(5))]
+          }));
+
+          const expected = [...rows]
+            .sort((a, b) =>
+              distances[Number(a.id.slice(5))] - distances[Number(b.id.slice(5))] || (a.id < b.id ? -1 : 1)
+            )
+            .map(row => row.id);
+
+          const seen: string[] = [];
+          let cursor: string | undefined;
+          let removed: string | undefined;
+          do {
+            mockPagedTables('tour_guides', rows, [], nearbyOf());
+            const result = await searchEngine.searchGuides({
+              location: { coordinates: { lat: 26.9124, lng: 75.7873 } },
+              filters: {},
+              sort: 'distance',
+              pagination: { page: 1, limit, cursor }
+            });
+
+            expect(result.success).toBe(true);
+            seen.push(...(result.data || []).map(guide => guide.id));
+            cursor = result.nextCursor;
+
+            // The last guide shown delists before the next page loads
+            if (!removed && cursor) {
+              removed = seen[seen.length - 1];
+              rows = rows.filter(row => row.id !== removed);
+            }
+          } while (cursor);
+
+          expect(seen).toEqual(expected);
+        }
+      ), { numRuns: 30 });
+    });
+
+    it('should continue after the last row of the previous page on the sort columns and ID', async () => {
+      const rows = [{
+        id: 'hotel1',
+        user_id: 'user1',
+        company_name: 'Heritage Haveli',
+        created_at: new Date().toISOString(),
+        rating_average: '4.50',
+        review_count: 12
+      }];
+
+      const firstCalls: QueryCall[] = [];
+      mockPagedTables('hotel_partners', [...rows, { ...rows[0], id: 'hotel2', user_id: 'user2' }], firstCalls);
+      const firstPage = await searchEngine.searchHotels({
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 1, limit: 1 }
+      });
+
+      expect(firstPage.hasMore).toBe(true);
+      expect(firstPage.nextCursor).toBeDefined();
+      expect(firstCalls.some(([method]) => method === 'or')).toBe(false);
+
+      const nextCalls: QueryCall[] = [];
+      mockPagedTables('hotel_partners', rows, nextCalls);
+      await searchEngine.searchHotels({
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 3, limit: 1, cursor: firstPage.nextCursor }
+      });
+
+      expect(nextCalls).toContainEqual([
+        'or',
+        'rating_average.lt."4.50",' +
+        'and(rating_average.eq."4.50",review_count.lt."12"),' +
+        'and(rating_average.eq."4.50",review_count.eq."12",id.gt."hotel1")'
+      ]);
+      // The cursor, not the page number, sets where the page starts
+      expect(nextCalls).toContainEqual(['range', 0, 0]);
+    });
+
+    it('should place guides without a rate after the cursor only among themselves', async () => {
+      const rows = [
+        { id: 'guide1', user_id: 'user1', full_name: 'Asha', created_at: new Date().toISOString(), hourly_rate: null },
+        { id: 'guide2', user_id: 'user2', full_name: 'Ravi', created_at: new Date().toISOString(), hourly_rate: null }
+      ];
+      mockPagedTables('tour_guides', rows, []);
+      const firstPage = await searchEngine.searchGuides({
+        filters: {},
+        sort: 'price-low',
+        pagination: { page: 1, limit: 1 }
+      });
+
+      const calls: QueryCall[] = [];
+      mockPagedTables('tour_guides', rows, calls);
+      await searchEngine.searchGuides({
+        filters: {},
+        sort: 'price-low',
+        pagination: { page: 1, limit: 1, cursor: firstPage.nextCursor }
+      });
+
+      expect(calls).toContainEqual(['or', 'and(hourly_rate.is.null,id.gt."guide1")']);
+      expect(calls).toContainEqual(['order', 'hourly_rate', { ascending: true, nullsFirst: false }]);
+    });
+
+    it('should reject a cursor from a different sort', async () => {
+      mockPagedTables('tour_guides', [{ id: 'guide1', user_id: 'user1', created_at: new Date().toISOString() }], []);
+      const firstPage = await searchEngine.searchGuides({
+        filters: {},
+        sort: 'newest',
+        pagination: { page: 1, limit: 0 }
+      });
+
+      const result = await searchEngine.searchGuides({
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 1, limit: 1, cursor: firstPage.nextCursor ?? 'not-a-cursor' }
+      });
+
+      expect(result).toEqual({ success: false, error: 'Invalid pagination cursor' });
+    });
+  });
+
+  /**
+   * Property 30: Shareable Search URLs
+   * Feature: public-user-directory, Property 30: For any search, writing it to a URL and reading it back should give the same search, and any URL should read as a valid search
+   * Validates: Requirements 5.6
+   */
+  describe('Property 30: Shareable Search URLs', () => {
+    const defaults = { sort: 'rating' as const, limit: 50 };
+    const optional = <T>(arb: fc.Arbitrary<T>) => fc.option(arb, { nil: undefined });
+    const textArb = fc.string({ minLength: 1, maxLength: 50 }).filter(text => text.trim() !== '');
+    const listArb = fc.uniqueArray(
+      fc.constantFrom('Hindi', 'English', 'Tamil', 'Heritage Walks', 'Food Tours', 'WiFi', 'Swimming Pool'),
+      { minLength: 1, maxLength: 5 }
+    );
+
+    const searchQueryArb: fc.Arbitrary<SearchQuery> = fc.record({
+      text: optional(textArb),
+      city: optional(textArb),
+      state: optional(textArb),
+      near: optional(fc.record({
+        coordinates: fc.record({
+          lat: fc.integer({ min: -90000000, max: 90000000 }).map(microdegrees => microdegrees / 1e6),
+          lng: fc.integer({ min: -180000000, max: 180000000 }).map(microdegrees => microdegrees / 1e6)
+        }),
+        label: optional(textArb),
+        radius: optional(fc.double({ min: 0.1, max: 500, noNaN: true }))
+      })),
+      filters: fc.record({
+        minRating: optional(fc.double({ min: 0, max: 5, noNaN: true })),
+        maxDistance: optional(fc.double({ min: 0.1, max: 500, noNaN: true })),
+        isVerified: optional(fc.boolean()),
+        languages: optional(listArb),
+        specialties: optional(listArb),
+        maxHourlyRate: optional(fc.integer({ min: 0, max: 10000 })),
+        minExperience: optional(fc.integer({ min: 0, max: 100 })),
+        hotelTypes: optional(listArb),
+        amenities: optional(listArb),
+        priceRange: optional(fc.record({
+          min: fc.integer({ min: 1, max: 50000 }),
+          max: fc.integer({ min: 1, max: 50000 })
+        }))
+      }),
+      sort: fc.constantFrom(...SORT_OPTIONS),
+      page: fc.integer({ min: 1, max: 1000 }),
+      limit: fc.integer({ min: 1, max: 100 }),
+      cursor: optional(fc.base64String({ minLength: 4, maxLength: 200 }))
+    }).map(({ text, city, state, near, filters, sort, page, limit, cursor }) => ({
+      text,
+      location: { city, state, coordinates: near?.coordinates, label: near?.label, radius: near?.radius },
+      filters,
+      sort,
+      pagination: { page, limit, cursor }
+    }));
+
+    it('should read back the same search from its URL', () => {
+      fc.assert(
+        fc.property(searchQueryArb, (query) => {
+          const params = new URLSearchParams(searchQueryToParams(query, defaults).toString());
+          expect(searchQueryFromParams(params, defaults)).toEqual(query);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should leave defaults and empty values out of the URL', () => {
+      const query: SearchQuery = {
+        text: '   ',
+        location: { city: '', label: 'Ignored without coordinates' },
+        filters: { languages: [], priceRange: { min: 0, max: OPEN_PRICE_MAX } },
+        sort: 'rating',
+        pagination: { page: 1, limit: 50 }
+      };
+
+      expect(searchQueryToParams(query, defaults).toString()).toBe('');
+      expect(searchQueryFromParams(new URLSearchParams(), defaults)).toEqual({
+        location: {},
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 1, limit: 50 }
+      });
+    });
+
+    it('should drop malformed and out of range values', () => {
+      const params = new URLSearchParams({
+        lat: '91',
+        lng: '77.2',
+        near: 'Red Fort',
+        radius: '-5',
+        rating: 'five',
+        distance: 'Infinity',
+        verified: 'yes',
+        experience: '2.5',
+        rate: '',
+        minPrice: '-100',
+        sort: 'cheapest',
+        page: '0',
+        limit: '500',
+        after: '"; drop table guides'
+      });
+
+      expect(searchQueryFromParams(params, defaults)).toEqual({
+        location: {},
+        filters: {},
+        sort: 'rating',
+        pagination: { page: 1, limit: 50 }
+      });
+    });
+
+    it('should read any URL as a valid search', () => {
+      const keys = ['q', 'city', 'lat', 'lng', 'radius', 'rating', 'experience', 'languages', 'minPrice', 'maxPrice', 'sort', 'page', 'limit', 'after'];
+
+      fc.assert(
+        fc.property(
+          fc.dictionary(fc.constantFrom(...keys), fc.string({ maxLength: 300 })),
+          (values) => {
+            const query = searchQueryFromParams(new URLSearchParams(values), defaults);
+
+            expect(SORT_OPTIONS).toContain(query.sort);
+            expect(Number.isInteger(query.pagination.page) && query.pagination.page >= 1).toBe(true);
+            expect(query.pagination.limit).toBeGreaterThanOrEqual(1);
+            expect(query.pagination.limit).toBeLessThanOrEqual(100);
+            expect(query.text === undefined || query.text.length <= 200).toBe(true);
+            if (query.filters.minRating !== undefined) {
+              expect(query.filters.minRating).toBeGreaterThanOrEqual(0);
+              expect(query.filters.minRating).toBeLessThanOrEqual(5);
+            }
+            if (query.location.coordinates) {
+              expect(Math.abs(query.location.coordinates.lat)).toBeLessThanOrEqual(90);
+              expect(Math.abs(query.location.coordinates.lng)).toBeLessThanOrEqual(180);
+            }
+            (query.filters.languages || []).forEach(language => {
+              expect(language.length).toBeGreaterThan(0);
+              expect(language).not.toContain(',');
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should drop repeated list values and cap list length', () => {
+      const languages = ['Hindi', 'hindi', 'Hindi', ...Array.from({ length: 30 }, (_, i) => `Language ${i}`)].join(',');
+      const query = searchQueryFromParams(new URLSearchParams({ languages }), defaults);
+
+      expect(query.filters.languages).toHaveLength(20);
+      expect(query.filters.languages?.slice(0, 3)).toEqual(['Hindi', 'hindi', 'Language 0']);
+    });
+  });
+
+  // Table rows, for checking what database queries keep and in what order
+  type Row = Record<string, unknown>;
+
+  const compareValues = (a: unknown, b: unknown) => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+  };
+
+  // Query builder that applies filters, ordering and ranges to rows in memory the way PostgREST would
+  const createTableQuery = (rows: Row[]) => {
+    let matching = [...rows];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    const builder: Row = {};
+    const filter = <T,>(test: (row: Row, column: string, value: T) => boolean) =>
+      jest.fn((column: string, value: T) => {
+        matching = matching.filter(row => test(row, column, value));
+        return builder;
+      });
+
+    builder.select = jest.fn(() => builder);
+    builder.ilike = filter((row, column, pattern: string) =>
+      String(row[column] ?? '').toLowerCase().includes(pattern.replace(/%/g, '').toLowerCase()));
+    builder.in = filter((row, column, values: unknown[]) => values.includes(row[column]));
+    builder.overlaps = filter((row, column, values: unknown[]) =>
+      ((row[column] as unknown[]) || []).some(value => values.includes(value)));
+    builder.eq = filter((row, column, value: unknown) => row[column] === value);
+    builder.gte = filter((row, column, value: number) => row[column] !== null && Number(row[column]) >= value);
+    builder.lte = filter((row, column, value: number) => row[column] !== null && Number(row[column]) <= value);
+    builder.order = jest.fn((column: string, options: { ascending: boolean }) => {
+      orders.push({ column, ascending: options.ascending });
+      return builder;
+    });
+    builder.range = jest.fn(async (from: number, to: number) => {
+      const sorted = [...matching].sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          // Nulls sort last either way
+          if (a[column] === null || b[column] === null) {
+            if (a[column] !== b[column]) return a[column] === null ? 1 : -1;
+            continue;
+          }
+          const diff = compareValues(a[column], b[column]);
+          if (diff !== 0) return ascending ? diff : -diff;
+        }
+        return 0;
+      });
+      return mockSupabaseResponse(sorted.slice(from, to + 1), null, matching.length);
+    });
+    // Queries awaited without a range get every matching row
+    builder.then = (resolve: (value: unknown) => unknown) => resolve(mockSupabaseResponse(matching));
+    return builder;
+  };
+
+  const mockTable = (table: string, rows: Row[], related: Record<string, Row[]> = {}) => {
+    supabase.from.mockImplementation((tableName: string) => {
+      if (tableName === 'public_directory_listings') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              eq: jest.fn(async () => mockSupabaseResponse(rows.map(row => ({ user_id: row.user_id }))))
+            })
+          })
+        };
+      }
+      return createTableQuery(tableName === table ? rows : related[tableName] || []);
+    });
+  };
+
+  /**
+   * Property 31: Shared Search Semantics
+   * Feature: public-user-directory, Property 31: For any search from the hotel page or a directory, the database query should keep exactly the listings the client-side filters keep, so every page searching guides or hotels agrees on what matches
+   * Validates: Requirements 5.2, 5.3, 5.4
+   */
+  describe('Property 31: Shared Search Semantics', () => {
+    const CITIES = ['Jaipur', 'Udaipur', 'Goa', 'Panaji'];
+    const HOTEL_TYPES = ['hotel', 'resort', 'homestay', 'villa'];
+    const hotelPageDefaults = { sort: 'rating' as const, limit: 50 };
+
+    const hotelRowArb = fc.record({
+      id: fc.uuid(),
+      user_id: fc.uuid(),
+      company_name: fc.string({ minLength: 1, maxLength: 20 }),
+      city: fc.constantFrom(...CITIES),
+      state: fc.constant('Rajasthan'),
+      hotel_type: fc.constantFrom(...HOTEL_TYPES),
+      amenities: fc.subarray(['WiFi', 'Swimming Pool', 'Spa']),
+      is_verified: fc.boolean(),
+      is_active: fc.constant(true),
+      created_at: fc.integer({ min: 1577836800000, max: 1735689600000 }).map(time => new Date(time).toISOString()),
+      rating_average: fc.constantFrom(0, 2.5, 3, 3.5, 4, 4.5, 5),
+      review_count: fc.integer({ min: 0, max: 50 })
+    });
+
+    it('should keep the same hotels in the database as the client-side filters for the hotel page filters', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(hotelRowArb, { selector: row => row.id, maxLength: 15 }),
+        fc.option(fc.constantFrom(...CITIES, 'pur', 'GOA'), { nil: undefined }),
+        fc.option(fc.constantFrom(1, 2, 3, 4), { nil: undefined }),
+        fc.option(fc.constantFrom(...HOTEL_TYPES), { nil: undefined }),
+        fc.option(fc.constantFrom('WiFi', 'Spa'), { nil: undefined }),
+        async (rows, city, minRating, hotelType, amenity) => {
+          const filters: SearchFilters = {
+            minRating,
+            hotelTypes: hotelType ? [hotelType] : undefined,
+            amenities: amenity ? [amenity] : undefined
+          };
+
+          mockTable('hotel_partners', rows);
+          const everything = await searchEngine.searchHotels({
+            filters: {},
+            sort: 'rating',
+            pagination: { page: 1, limit: 100 }
+          });
+
+          mockTable('hotel_partners', rows);
+          const result = await searchEngine.searchHotels({
+            location: { city },
+            filters,
+            sort: 'rating',
+            pagination: { page: 1, limit: 100 }
+          });
+
+          expect(result.success).toBe(true);
+          const expected = searchEngine
+            .applyFilters(everything.data || [], filters)
+            .filter(hotel => !city || hotel.location.city?.toLowerCase().includes(city.toLowerCase()));
+          expect(result.data?.map(hotel => hotel.id).sort()).toEqual(expected.map(hotel => hotel.id).sort());
+          expect(result.totalCount).toBe(expected.length);
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should run the hotel page URL as a database search ordered by stored ratings', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(hotelRowArb, { selector: row => row.id, minLength: 1, maxLength: 15 }),
+        fc.constantFrom(...CITIES),
+        fc.constantFrom(1, 2, 3, 4),
+        fc.constantFrom(...HOTEL_TYPES),
+        async (rows, city, minRating, hotelType) => {
+          // What the hotel page writes to the URL for a city, minimum rating and type
+          const query = searchQueryFromParams(
+            new URLSearchParams({ city, rating: String(minRating), types: hotelType }),
+            hotelPageDefaults
+          );
+          mockTable('hotel_partners', rows);
+
+          const result = await searchEngine.searchHotels(query);
+
+          expect(result.success).toBe(true);
+          const hotels = result.data || [];
+          hotels.forEach(hotel => {
+            expect(hotel.location.city).toBe(city);
+            expect(hotel.hotelType).toBe(hotelType);
+            expect(hotel.rating).toBeGreaterThanOrEqual(minRating);
+          });
+          // Highest rated first, with more reviews winning ties
+          hotels.slice(1).forEach((hotel, index) => {
+            const previous = hotels[index];
+            expect(previous.rating).toBeGreaterThanOrEqual(hotel.rating);
+            if (previous.rating === hotel.rating) {
+              expect(previous.reviewCount).toBeGreaterThanOrEqual(hotel.reviewCount);
+            }
+          });
+          expect(hotels).toHaveLength(rows.filter(row =>
+            row.city === city && row.hotel_type === hotelType && row.rating_average >= minRating
+          ).length);
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should link each hotel to the first active hotel page its partner added', async () => {
+      await fc.assert(fc.asyncProperty(
+        fc.uniqueArray(hotelRowArb, { selector: row => row.user_id, minLength: 1, maxLength: 10 }),
+        fc.array(fc.record({
+          id: fc.uuid(),
+          owner: fc.nat(),
+          is_active: fc.boolean(),
+          created_at: fc.integer({ min: 1577836800000, max: 1735689600000 }).map(time => new Date(time).toISOString())
+        }), { maxLength: 15 }),
+        async (partners, pages) => {
+          // Hotel pages have their own IDs and point back to the partner that added them
+          const hotelRows = pages.map(({ owner, ...page }) => ({ ...page, added_by: partners[owner % partners.length].user_id }));
+          mockTable('hotel_partners', partners, { hotels: hotelRows });
+
+          const result = await searchEngine.searchHotels({ filters: {}, sort: 'rating', pagination: { page: 1, limit: 100 } });
+
+          expect(result.success).toBe(true);
+          expect(result.data).toHaveLength(partners.length);
+          result.data?.forEach(hotel => {
+            const first = hotelRows
+              .filter(page => page.added_by === hotel.userId && page.is_active)
+              .sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+            expect(hotel.hotelId).toBe(first?.id);
+          });
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should leave guides without an hourly rate out of a maximum rate filter everywhere', async () => {
+      const rows = [
+        { id: 'guide1', user_id: 'user1', full_name: 'Asha', hourly_rate: 400, rating_average: 4, review_count: 3 },
+        { id: 'guide2', user_id: 'user2', full_name: 'Ravi', hourly_rate: null, rating_average: 5, review_count: 8 },
+        { id: 'guide3', user_id: 'user3', full_name: 'Meera', hourly_rate: 900, rating_average: 3, review_count: 1 }
+      ].map(row => ({ ...row, specialties: [], verified: true, is_active: true, created_at: new Date().toISOString() }));
+
+      mockTable('tour_guides', rows);
+      const everything = await searchEngine.searchGuides({ filters: {}, sort: 'rating', pagination: { page: 1, limit: 10 } });
+      mockTable('tour_guides', rows);
+      const result = await searchEngine.searchGuides({
+        filters: { maxHourlyRate: 500 },
+        sort: 'rating',
+        pagination: { page: 1, limit: 10 }
+      });
+
+      expect(result.data?.map(guide => guide.id)).toEqual(['guide1']);
+      expect(searchEngine.applyFilters(everything.data || [], { maxHourlyRate: 500 }).map(guide => guide.id)).toEqual(['guide1']);
+    });
+  });
+
+  /**
+   * Property 32: Hotel Price Ranges
+   * Feature: public-user-directory, Property 32: For any hotels with priced room types, results should carry the cheapest and dearest nightly rate, price filters should keep hotels with a room in the range and price sorts should order by them with unpriced hotels last
+   * Validates: Requirements 3.3, 5.3, 5.4
+   */
+  describe('Property 32: Hotel Price Ranges', () => {
+    const pricedHotelArb = fc.record({
+      id: fc.uuid(),
+      user_id: fc.uuid(),
+      company_name: fc.string({ minLength: 1, maxLength: 20 }),
+      hotel_type: fc.constant('hotel'),
+      amenities: fc.constant<string[]>([]),
+      is_verified: fc.constant(true),
+      is_active: fc.constant(true),
+      created_at: fc.constant(new Date('2025-01-01').toISOString()),
+      rating_average: fc.constant(4),
+      review_count: fc.constant(0),
+      rates: fc.option(
+        fc.tuple(fc.integer({ min: 0, max: 30000 }), fc.integer({ min: 0, max: 30000 })),
+        { nil: null }
+      )
+    }).map(({ rates, ...row }) => ({
+      ...row,
+      price_per_night_min: rates ? Math.min(...rates) : null,
+      price_per_night_max: rates ? Math.max(...rates) : null
+    }));
+
+    const hotelsArb = fc.uniqueArray(pricedHotelArb, { selector: row => row.id, maxLength: 15 });
+
+    it('should carry the nightly price range of hotels with priced rooms only', async () => {
+      await fc.assert(fc.asyncProperty(hotelsArb, async (rows) => {
+        mockTable('hotel_partners', rows);
+
+        const result = await searchEngine.searchHotels({ filters: {}, sort: 'rating', pagination: { page: 1, limit: 100 } });
+
+        expect(result.success).toBe(true);
+        result.data?.forEach(hotel => {
+          const row = rows.find(r => r.id === hotel.id)!;
+          expect(hotel.priceRange).toEqual(row.price_per_night_min === null
+            ? undefined
+            : { min: row.price_per_night_min, max: row.price_per_night_max });
+        });
+      }), { numRuns: 30 });
+    });
+
+    it('should keep hotels with a room in the price range, in the database and client-side alike', async () => {
+      await fc.assert(fc.asyncProperty(
+        hotelsArb,
+        fc.integer({ min: 0, max: 20000 }),
+        fc.option(fc.integer({ min: 0, max: 20000 }), { nil: undefined }),
+        async (rows, min, max) => {
+          const priceRange = { min, max: max ?? OPEN_PRICE_MAX };
+
+          mockTable('hotel_partners', rows);
+          const everything = await searchEngine.searchHotels({ filters: {}, sort: 'rating', pagination: { page: 1, limit: 100 } });
+          mockTable('hotel_partners', rows);
+          const result = await searchEngine.searchHotels({
+            filters: { priceRange },
+            sort: 'rating',
+            pagination: { page: 1, limit: 100 }
+          });
+
+          const expected = rows.filter(row => row.price_per_night_min !== null &&
+            row.price_per_night_min <= priceRange.max && row.price_per_night_max! >= priceRange.min);
+          const ids = (hotels: Array<{ id: string }> = []) => hotels.map(hotel => hotel.id).sort();
+          expect(ids(result.data)).toEqual(ids(expected));
+          expect(ids(searchEngine.applyFilters(everything.data || [], { priceRange }))).toEqual(ids(expected));
+        }
+      ), { numRuns: 50 });
+    });
+
+    it('should sort by cheapest room for price-low and dearest room for price-high with unpriced hotels last', async () => {
+      await fc.assert(fc.asyncProperty(
+        hotelsArb,
+        fc.constantFrom('price-low' as const, 'price-high' as const),
+        async (rows, sort) => {
+          mockTable('hotel_partners', rows);
+          const result = await searchEngine.searchHotels({ filters: {}, sort, pagination: { page: 1, limit: 100 } });
+
+          const hotels = result.data || [];
+          expect(hotels).toHaveLength(rows.length);
+          const prices = hotels.map(hotel => sort === 'price-low' ? hotel.priceRange?.min : hotel.priceRange?.max);
+          const priced = prices.filter((price): price is number => price !== undefined);
+          // Unpriced hotels come after every priced one
+          expect(prices.slice(0, priced.length)).toEqual(priced);
+          priced.slice(1).forEach((price, index) => {
+            if (sort === 'price-low') {
+              expect(price).toBeGreaterThanOrEqual(priced[index]);
+            } else {
+              expect(price).toBeLessThanOrEqual(priced[index]);
+            }
+          });
+
+          // Sorting the same results client-side agrees on price order
+          const clientPrices = searchEngine.sortResults(hotels, sort).map(hotel =>
+            sort === 'price-low' ? (hotel as typeof hotels[number]).priceRange?.min : (hotel as typeof hotels[number]).priceRange?.max);
+          expect(clientPrices).toEqual(prices);
+        }
+      ), { numRuns: 50 });
+    });
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Availability Service for Tour Guides
+ * Manages weekly guide schedules, blackout dates, service areas and free booking slots
+ */
+
+import { untypedSupabase } from '@/integrations/supabase/untyped';
+import { GUIDE_TIME_SLOTS, getTourDate, getTourTime } from './booking.service';
+
+// Manual type definitions for availability tables (until types are regenerated)
+export interface GuideAvailabilityRule {
+  id?: string;
+  guide_id: string;
+  day_of_week: number; // 0 = Sunday
+  start_time: string; // HH:mm
+  end_time: string; // HH:mm
+  city: string | null;
+}
+
+export interface GuideBlackout {
+  id?: string;
+  guide_id: string;
+  date: string; // YYYY-MM-DD
+  start_time: string | null; // null blocks the whole day
+  end_time: string | null;
+  reason: string | null;
+}
+
+// Place a guide works from; nearby searches measure to the edge of the radius
+export interface GuideServiceArea {
+  id?: string;
+  guide_id: string;
+  attraction_id: string | null;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_km: number;
+}
+
+export interface GuideSchedule {
+  rules: GuideAvailabilityRule[];
+  blackouts: GuideBlackout[];
+}
+
+// Time the guide is already booked, without who booked it
+export interface BusyPeriod {
+  start_at: string;
+  end_at: string;
+}
+
+export interface GuideSlot {
+  time: string; // HH:mm
+  city: string | null;
+}
+
+export interface AvailabilityResponse<T> {
+  data?: T;
+  error?: string;
+  success: boolean;
+}
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Convert HH:mm (or HH:mm:ss) to minutes after midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Availability Service Class
+ * Handles guide schedules and works out which booking slots are free
+ */
+export class AvailabilityService {
+
+  /**
+   * Work out the free start times for a tour on a given date
+   * @param date - Tour date in YYYY-MM-DD format
+   * @param durationHours - Tour length in hours
+   * @param schedule - Guide's weekly rules and blackouts
+   * @param busy - Times the guide is already booked
+   * @param now - Current time, slots starting before it are skipped
+   */
+  computeFreeSlots(
+    date: string,
+    durationHours: number,
+    schedule: GuideSchedule,
+    busy: BusyPeriod[],
+    now: Date = new Date()
+  ): GuideSlot[] {
+    const day = getTourTime(date);
+    if (isNaN(day.getTime()) || durationHours <= 0) {
+      return [];
+    }
+
+    const blackouts = schedule.blackouts.filter(blackout => blackout.date === date);
+    if (blackouts.some(blackout => !blackout.start_time || !blackout.end_time)) {
+      return [];
+    }
+
+    // Weekday of the calendar date itself, whatever the browser's time zone
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+    // Guides who have not set up a schedule yet can be booked at any offered slot
+    const windows = schedule.rules.length === 0
+      ? [{ start_time: '00:00', end_time: '24:00', city: null }]
+      : schedule.rules.filter(rule => rule.day_of_week === weekday);
+
+    const durationMinutes = durationHours * 60;
+
+    return GUIDE_TIME_SLOTS.reduce<GuideSlot[]>((slots, time) => {
+      const start = toMinutes(time);
+      const end = start + durationMinutes;
+      const slotStart = getTourTime(date, time);
+      const slotEnd = new Date(slotStart.getTime() + durationMinutes * 60 * 1000);
+
+      if (slotStart.getTime() <= now.getTime()) {
+        return slots;
+      }
+
+      const window = windows.find(rule => toMinutes(rule.start_time) <= start && toMinutes(rule.end_time) >= end);
+      if (!window) {
+        return slots;
+      }
+
+      const blackedOut = blackouts.some(blackout =>
+        toMinutes(blackout.start_time as string) < end && toMinutes(blackout.end_time as string) > start
+      );
+      if (blackedOut) {
+        return slots;
+      }
+
+      const overlapsBooking = busy.some(period =>
+        new Date(period.start_at) < slotEnd && new Date(period.end_at) > slotStart
+      );
+      if (overlapsBooking) {
+        return slots;
+      }
+
+      slots.push({ time, city: window.city });
+      return slots;
+    }, []);
+  }
+
+  /**
+   * Look up the guide profile a user manages their availability for
+   * Guide profiles are keyed by the owner's user ID; older rows carry a separate user_id
+   * @param userId - User ID
+   */
+  async getOwnGuideId(userId: string): Promise<AvailabilityResponse<string | null>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('tour_guides')
+        .select('id')
+        .or(`id.eq.${userId},user_id.eq.${userId}`)
+        .limit(1);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data?.[0]?.id ?? null };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to find guide profile' };
+    }
+  }
+
+  /**
+   * Get a guide's weekly schedule and upcoming blackouts
+   * @param guideId - Guide ID
+   */
+  async getSchedule(guideId: string): Promise<AvailabilityResponse<GuideSchedule>> {
+    try {
+      const today = getTourDate();
+
+      const [rulesResult, blackoutsResult] = await Promise.all([
+        untypedSupabase
+          .from('guide_availability_rules')
+          .select('*')
+          .eq('guide_id', guideId)
+          .order('day_of_week', { ascending: true }),
+        untypedSupabase
+          .from('guide_availability_overrides')
+          .select('*')
+          .eq('guide_id', guideId)
+          .gte('date', today)
+          .order('date', { ascending: true })
+      ]);
+
+      if (rulesResult.error) {
+        return { success: false, error: rulesResult.error.message };
+      }
+      if (blackoutsResult.error) {
+        return { success: false, error: blackoutsResult.error.message };
+      }
+
+      return {
+        success: true,
+        data: {
+          rules: (rulesResult.data || []).map((rule: GuideAvailabilityRule) => ({
+            ...rule,
+            start_time: rule.start_time.slice(0, 5),
+            end_time: rule.end_time.slice(0, 5)
+          })),
+          blackouts: blackoutsResult.data || []
+        }
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get schedule' };
+    }
+  }
+
+  /**
+   * Replace a guide's weekly schedule
+   * @param guideId - Guide ID
+   * @param rules - New weekly availability windows
+   */
+  async saveWeeklySchedule(
+    guideId: string,
+    rules: Omit<GuideAvailabilityRule, 'id' | 'guide_id'>[]
+  ): Promise<AvailabilityResponse<GuideAvailabilityRule[]>> {
+    try {
+      const invalid = rules.find(rule => toMinutes(rule.end_time) <= toMinutes(rule.start_time));
+      if (invalid) {
+        return { success: false, error: `${WEEKDAY_LABELS[invalid.day_of_week]} ends before it starts` };
+      }
+
+      const { error: deleteError } = await untypedSupabase
+        .from('guide_availability_rules')
+        .delete()
+        .eq('guide_id', guideId);
+
+      if (deleteError) {
+        return { success: false, error: deleteError.message };
+      }
+
+      if (rules.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('guide_availability_rules')
+        .insert(rules.map(rule => ({
+          guide_id: guideId,
+          day_of_week: rule.day_of_week,
+          start_time: rule.start_time,
+          end_time: rule.end_time,
+          city: rule.city?.trim() || null
+        })))
+        .select();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to save schedule' };
+    }
+  }
+
+  /**
+   * Block out a date (or part of it) in a guide's calendar
+   * @param blackout - Blackout details
+   */
+  async addBlackout(blackout: Omit<GuideBlackout, 'id'>): Promise<AvailabilityResponse<GuideBlackout>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('guide_availability_overrides')
+        .insert({
+          guide_id: blackout.guide_id,
+          date: blackout.date,
+          start_time: blackout.start_time || null,
+          end_time: blackout.start_time ? blackout.end_time : null,
+          reason: blackout.reason?.trim() || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to add blackout' };
+    }
+  }
+
+  /**
+   * Remove a blackout from a guide's calendar
+   * @param blackoutId - Blackout ID
+   */
+  async removeBlackout(blackoutId: string): Promise<AvailabilityResponse<void>> {
+    try {
+      const { error } = await untypedSupabase
+        .from('guide_availability_overrides')
+        .delete()
+        .eq('id', blackoutId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to remove blackout' };
+    }
+  }
+
+  /**
+   * Get the places a guide works from
+   * @param guideId - Guide ID
+   */
+  async getServiceAreas(guideId: string): Promise<AvailabilityResponse<GuideServiceArea[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('guide_service_areas')
+        .select('*')
+        .eq('guide_id', guideId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return {
+        success: true,
+        data: (data || []).map((area: GuideServiceArea) => ({ ...area, radius_km: Number(area.radius_km) }))
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get service areas' };
+    }
+  }
+
+  /**
+   * Add a place a guide works from
+   * @param area - Service area details
+   */
+  async addServiceArea(area: Omit<GuideServiceArea, 'id'>): Promise<AvailabilityResponse<GuideServiceArea>> {
+    try {
+      if (!(area.radius_km > 0)) {
+        return { success: false, error: 'Please enter how far you will travel' };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('guide_service_areas')
+        .insert({
+          guide_id: area.guide_id,
+          attraction_id: area.attraction_id,
+          name: area.name.trim(),
+          latitude: area.latitude,
+          longitude: area.longitude,
+          radius_km: area.radius_km
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: { ...data, radius_km: Number(data.radius_km) } };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to add service area' };
+    }
+  }
+
+  /**
+   * Remove a place a guide works from
+   * @param areaId - Service area ID
+   */
+  async removeServiceArea(areaId: string): Promise<AvailabilityResponse<void>> {
+    try {
+      const { error } = await untypedSupabase
+        .from('guide_service_areas')
+        .delete()
+        .eq('id', areaId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to remove service area' };
+    }
+  }
+
+  /**
+   * Get the free start times for a guide on a date
+   * @param guideId - Guide ID
+   * @param date - Tour date in YYYY-MM-DD format
+   * @param durationHours - Tour length in hours
+   */
+  async getFreeSlots(guideId: string, date: string, durationHours: number): Promise<AvailabilityResponse<GuideSlot[]>> {
+    try {
+      const scheduleResult = await this.getSchedule(guideId);
+      if (!scheduleResult.success || !scheduleResult.data) {
+        return { success: false, error: scheduleResult.error };
+      }
+
+      // Look into the next day too, as late tours can run past midnight
+      const from = getTourTime(date);
+      const to = new Date(from.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+      // Other guests' bookings are hidden from the caller, so only their times are read
+      const { data: busy, error } = await untypedSupabase.rpc('guide_busy_periods', {
+        p_guide_id: guideId,
+        p_from: from.toISOString(),
+        p_to: to.toISOString()
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return {
+        success: true,
+        data: this.computeFreeSlots(date, durationHours, scheduleResult.data, busy || [])
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get free slots' };
+    }
+  }
+}
+
+// Export singleton instance
+export const availabilityService = new AvailabilityService();
+
+// Export default
+export default availabilityService;
@@ -0,0 +1,707 @@
+/**
+ * Booking Service for Tour Guide and Hotel Bookings
+ * Manages booking requests, pricing, booking references and the booking lifecycle
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { untypedSupabase } from '@/integrations/supabase/untyped';
+import { Database } from '@/integrations/supabase/types';
+import { inventoryService } from './inventory.service';
+
+// Type definitions for booking management
+export type BookingType = 'hotel' | 'guide';
+
+export type BookingStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'checked_in'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled_by_guest'
+  | 'cancelled_by_provider'
+  | 'no_show';
+
+export type BookingActor = 'guest' | 'provider';
+
+export type BookingAction =
+  | 'confirm'
+  | 'decline'
+  | 'cancel'
+  | 'check_in'
+  | 'start'
+  | 'complete'
+  | 'mark_no_show';
+
+// Manual type definitions for lifecycle columns (until types are regenerated)
+export interface BookingLifecycleFields {
+  status: BookingStatus;
+  status_changed_at?: string | null;
+  confirmed_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+  no_show_at?: string | null;
+}
+
+export type GuideBooking = Omit<Database['public']['Tables']['guide_bookings']['Row'], 'status'> &
+  BookingLifecycleFields & { started_at?: string | null };
+
+export type HotelBooking = Omit<Database['public']['Tables']['hotel_bookings']['Row'], 'status'> &
+  BookingLifecycleFields & {
+    checked_in_at?: string | null;
+    room_type_id?: string | null;
+    rooms?: number | null;
+    rooms_reserved?: boolean;
+  };
+
+export interface BookingStatusEvent {
+  id: string;
+  booking_id: string;
+  booking_type: BookingType;
+  from_status: BookingStatus | null;
+  to_status: BookingStatus;
+  actor_id: string | null;
+  actor_role: BookingActor | 'system' | null;
+  note: string | null;
+  created_at: string;
+}
+
+export type GuideBookingWithGuide = GuideBooking & {
+  tour_guides?: {
+    full_name: string | null;
+    city: string | null;
+    state: string | null;
+  } | null;
+};
+
+export type HotelBookingWithHotel = HotelBooking & {
+  hotels?: {
+    name: string | null;
+    city: string | null;
+    state: string | null;
+  } | null;
+};
+
+// Booking as shown in a provider's inbox, normalised across hotel and guide bookings
+export interface ProviderBooking {
+  type: BookingType;
+  booking: GuideBooking | HotelBooking;
+  listingName: string;
+  guestName: string | null;
+  arrivalDate: string | null;
+}
+
+// Who to email about a booking, as returned by booking_guest_contact()
+export interface GuestContact {
+  email: string;
+  full_name: string | null;
+}
+
+export interface GuideBookingRequest {
+  guideId: string;
+  userId: string;
+  date: string; // YYYY-MM-DD
+  timeSlot: string; // HH:mm
+  durationHours: number;
+  location?: string;
+  specialRequests?: string;
+}
+
+export interface HotelBookingRequest {
+  roomTypeId: string;
+  userId: string;
+  checkIn: string; // YYYY-MM-DD
+  checkOut: string; // YYYY-MM-DD
+  rooms: number;
+  guests: number;
+  specialRequests?: string;
+}
+
+export interface BookingResponse<T> {
+  data?: T;
+  error?: string;
+  success: boolean;
+}
+
+// Start times offered on the guide booking form
+export const GUIDE_TIME_SLOTS = ['08:00', '10:00', '12:00', '14:00', '16:00', '18:00'];
+
+// Tour durations (in hours) offered on the guide booking form
+export const GUIDE_DURATION_OPTIONS = [2, 3, 4, 6, 8];
+
+// Tour dates, time slots and guide schedules are in Indian Standard Time, wherever the browser is
+export const TOUR_TIME_ZONE_OFFSET = '+05:30';
+
+const TOUR_TIME_ZONE_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Get the instant a tour date and time refer to in Indian Standard Time
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in HH:mm format, midnight if omitted
+ */
+export function getTourTime(date: string, time: string = '00:00'): Date {
+  return new Date(`${date}T${time}:00${TOUR_TIME_ZONE_OFFSET}`);
+}
+
+/**
+ * Get the date in India at an instant, in YYYY-MM-DD format
+ * @param instant - Instant to check, now if omitted
+ * @param addDays - Days to add, e.g. 1 for tomorrow
+ */
+export function getTourDate(instant: Date = new Date(), addDays: number = 0): string {
+  const indian = new Date(instant.getTime() + TOUR_TIME_ZONE_OFFSET_MS);
+  indian.setUTCDate(indian.getUTCDate() + addDays);
+  return indian.toISOString().split('T')[0];
+}
+
+// Allowed status transitions per booking type; statuses without an entry are terminal
+export const BOOKING_TRANSITIONS: Record<BookingType, Partial<Record<BookingStatus, BookingStatus[]>>> = {
+  hotel: {
+    pending: ['confirmed', 'cancelled_by_guest', 'cancelled_by_provider'],
+    confirmed: ['checked_in', 'cancelled_by_guest', 'cancelled_by_provider', 'no_show'],
+    checked_in: ['completed']
+  },
+  guide: {
+    pending: ['confirmed', 'cancelled_by_guest', 'cancelled_by_provider'],
+    confirmed: ['in_progress', 'cancelled_by_guest', 'cancelled_by_provider', 'no_show'],
+    in_progress: ['completed']
+  }
+};
+
+// Target status and the party allowed to perform each action
+export const BOOKING_ACTIONS: Record<BookingAction, { status: BookingStatus; actor: BookingActor; label: string }> = {
+  confirm: { status: 'confirmed', actor: 'provider', label: 'Accept' },
+  decline: { status: 'cancelled_by_provider', actor: 'provider', label: 'Decline' },
+  cancel: { status: 'cancelled_by_guest', actor: 'guest', label: 'Cancel Booking' },
+  check_in: { status: 'checked_in', actor: 'provider', label: 'Check In' },
+  start: { status: 'in_progress', actor: 'provider', label: 'Start Tour' },
+  complete: { status: 'completed', actor: 'provider', label: 'Mark Completed' },
+  mark_no_show: { status: 'no_show', actor: 'provider', label: 'Mark No-show' }
+};
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked In',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled_by_guest: 'Cancelled',
+  cancelled_by_provider: 'Declined',
+  no_show: 'No-show'
+};
+
+const BOOKING_TABLES: Record<BookingType, 'hotel_bookings' | 'guide_bookings'> = {
+  hotel: 'hotel_bookings',
+  guide: 'guide_bookings'
+};
+
+// Characters used for booking references (no 0/O or 1/I to keep them readable over the phone)
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Booking Service Class
+ * Handles creation, retrieval and lifecycle of hotel and tour guide bookings
+ */
+export class BookingService {
+
+  /**
+   * Generate a human-readable booking reference, e.g. GB-20250114-K7Q2M
+   * @param prefix - GB for guide bookings, HB for hotel bookings
+   * @param date - Date used for the reference date segment, taken in Indian Standard Time
+   */
+  generateBookingReference(prefix: 'GB' | 'HB', date: Date = new Date()): string {
+    const datePart = getTourDate(date).replace(/-/g, '');
+
+    let randomPart = '';
+    for (let i = 0; i < 5; i++) {
+      randomPart += REFERENCE_ALPHABET[Math.floor(Math.random() * REFERENCE_ALPHABET.length)];
+    }
+
+    return `${prefix}-${datePart}-${randomPart}`;
+  }
+
+  /**
+   * Calculate the cost of a guide booking
+   * @param hourlyRate - Guide's hourly rate
+   * @param durationHours - Booked duration in hours
+   */
+  calculateGuideBookingCost(hourlyRate: number | null, durationHours: number): number {
+    if (!hourlyRate || hourlyRate <= 0 || durationHours <= 0) {
+      return 0;
+    }
+    return Math.round(hourlyRate * durationHours * 100) / 100;
+  }
+
+  /**
+   * Build the booking start timestamp from a date and time slot in Indian Standard Time
+   * @param date - Date in YYYY-MM-DD format
+   * @param timeSlot - Start time in HH:mm format
+   */
+  getBookingStart(date: string, timeSlot: string): Date {
+    return getTourTime(date, timeSlot);
+  }
+
+  /**
+   * Create a booking request for a tour guide
+   * @param request - Booking request details
+   */
+  async createGuideBooking(request: GuideBookingRequest): Promise<BookingResponse<GuideBooking>> {
+    try {
+      if (!request.userId) {
+        return { success: false, error: 'User authentication required' };
+      }
+
+      if (!GUIDE_TIME_SLOTS.includes(request.timeSlot)) {
+        return { success: false, error: 'Please select a valid time slot' };
+      }
+
+      if (!GUIDE_DURATION_OPTIONS.includes(request.durationHours)) {
+        return { success: false, error: 'Please select a valid tour duration' };
+      }
+
+      const start = this.getBookingStart(request.date, request.timeSlot);
+      if (isNaN(start.getTime()) || start.getTime() <= Date.now()) {
+        return { success: false, error: 'Please select a date and time in the future' };
+      }
+
+      // The database function prices the booking from the guide's current rate rather than trusting the client
+      const { data, error } = await untypedSupabase.rpc('request_guide_booking', {
+        p_guide_id: request.guideId,
+        p_booking_date: start.toISOString(),
+        p_duration_hours: request.durationHours,
+        p_location: request.location?.trim() || null,
+        p_special_requests: request.specialRequests?.trim() || null,
+        p_booking_reference: this.generateBookingReference('GB', start)
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to create booking' };
+    }
+  }
+
+  /**
+   * Reserve hotel rooms for a stay; rejected when any night is sold out
+   * @param request - Stay details
+   */
+  async createHotelBooking(request: HotelBookingRequest): Promise<BookingResponse<HotelBooking>> {
+    try {
+      if (!request.userId) {
+        return { success: false, error: 'User authentication required' };
+      }
+
+      if (inventoryService.getStayNights(request.checkIn, request.checkOut).length === 0) {
+        return { success: false, error: 'Check-out must be after check-in' };
+      }
+
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      if (new Date(`${request.checkIn}T00:00:00`) < today) {
+        return { success: false, error: 'Check-in cannot be in the past' };
+      }
+
+      if (request.rooms < 1 || request.guests < 1) {
+        return { success: false, error: 'Please select at least one room and one guest' };
+      }
+
+      // The database function locks the ledger so overlapping requests cannot oversell
+      const { data, error } = await untypedSupabase.rpc('reserve_hotel_rooms', {
+        p_room_type_id: request.roomTypeId,
+        p_check_in: request.checkIn,
+        p_check_out: request.checkOut,
+        p_rooms: request.rooms,
+        p_guests: request.guests,
+        p_special_requests: request.specialRequests?.trim() || null,
+        p_booking_reference: this.generateBookingReference('HB', getTourTime(request.checkIn))
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to create booking' };
+    }
+  }
+
+  /**
+   * Get all guide bookings made by a user, most recent tour date first
+   * @param userId - User ID
+   */
+  async getUserGuideBookings(userId: string): Promise<BookingResponse<GuideBookingWithGuide[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('guide_bookings')
+        .select('*, tour_guides(full_name, city, state)')
+        .eq('user_id', userId)
+        .order('booking_date', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []) as GuideBookingWithGuide[] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get bookings' };
+    }
+  }
+
+  /**
+   * Get all hotel bookings made by a user, most recent check-in first
+   * @param userId - User ID
+   */
+  async getUserHotelBookings(userId: string): Promise<BookingResponse<HotelBookingWithHotel[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('hotel_bookings')
+        .select('*, hotels(name, city, state)')
+        .eq('user_id', userId)
+        .order('check_in_date', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []) as HotelBookingWithHotel[] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get bookings' };
+    }
+  }
+
+  /**
+   * Get bookings made against a provider's guide profile and hotels, soonest arrival first
+   * @param userId - Provider's user ID
+   */
+  async getProviderBookings(userId: string): Promise<BookingResponse<ProviderBooking[]>> {
+    try {
+      const [guideIdsResult, hotelsResult] = await Promise.all([
+        this.getGuideIds(userId),
+        supabase
+          .from('hotels')
+          .select('id, name')
+          .eq('added_by', userId)
+      ]);
+
+      if (guideIdsResult.error) {
+        return { success: false, error: guideIdsResult.error };
+      }
+      if (hotelsResult.error) {
+        return { success: false, error: hotelsResult.error.message };
+      }
+
+      const guideIds = guideIdsResult.data || [];
+      let guideBookings: GuideBooking[] = [];
+
+      if (guideIds.length > 0) {
+        const { data, error } = await supabase
+          .from('guide_bookings')
+          .select('*')
+          .in('guide_id', guideIds)
+          .order('booking_date', { ascending: true });
+
+        if (error) {
+          return { success: false, error: error.message };
+        }
+        guideBookings = (data || []) as GuideBooking[];
+      }
+
+      const hotels = hotelsResult.data || [];
+      let hotelBookings: HotelBooking[] = [];
+
+      if (hotels.length > 0) {
+        const { data, error } = await supabase
+          .from('hotel_bookings')
+          .select('*')
+          .in('hotel_id', hotels.map(hotel => hotel.id))
+          .order('check_in_date', { ascending: true });
+
+        if (error) {
+          return { success: false, error: error.message };
+        }
+        hotelBookings = (data || []) as HotelBooking[];
+      }
+
+      const guestNames = await this.getGuestNames([
+        ...guideBookings.map(booking => booking.user_id),
+        ...hotelBookings.map(booking => booking.user_id)
+      ]);
+
+      const bookings: ProviderBooking[] = [
+        ...guideBookings.map(booking => ({
+          type: 'guide' as const,
+          booking,
+          listingName: 'Guided tour',
+          guestName: booking.user_id ? guestNames[booking.user_id] || null : null,
+          arrivalDate: booking.booking_date
+        })),
+        ...hotelBookings.map(booking => ({
+          type: 'hotel' as const,
+          booking,
+          listingName: hotels.find(hotel => hotel.id === booking.hotel_id)?.name || 'Hotel',
+          guestName: booking.user_id ? guestNames[booking.user_id] || null : null,
+          arrivalDate: booking.check_in_date
+        }))
+      ];
+
+      bookings.sort((a, b) =>
+        new Date(a.arrivalDate || 0).getTime() - new Date(b.arrivalDate || 0).getTime()
+      );
+
+      return { success: true, data: bookings };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get bookings' };
+    }
+  }
+
+  /**
+   * Check whether a booking may move from one status to another
+   * @param type - Booking type
+   * @param from - Current status
+   * @param to - Requested status
+   */
+  canTransition(type: BookingType, from: BookingStatus, to: BookingStatus): boolean {
+    return (BOOKING_TRANSITIONS[type][from] || []).includes(to);
+  }
+
+  /**
+   * Get the actions a party can take on a booking in its current status
+   * @param type - Booking type
+   * @param status - Current status
+   * @param actor - Party asking (guest or provider)
+   */
+  getAvailableActions(type: BookingType, status: BookingStatus, actor: BookingActor): BookingAction[] {
+    return (Object.keys(BOOKING_ACTIONS) as BookingAction[]).filter(action => {
+      const { status: target, actor: allowedActor } = BOOKING_ACTIONS[action];
+      return allowedActor === actor && this.canTransition(type, status, target);
+    });
+  }
+
+  /**
+   * Apply a lifecycle action to a booking
+   * @param type - Booking type
+   * @param bookingId - Booking ID
+   * @param action - Action to apply
+   * @param actorId - ID of the user performing the action
+   * @param note - Optional message recorded with the transition
+   */
+  async transitionBooking(
+    type: BookingType,
+    bookingId: string,
+    action: BookingAction,
+    actorId: string,
+    note?: string
+  ): Promise<BookingResponse<GuideBooking | HotelBooking>> {
+    try {
+      const { status: targetStatus, actor } = BOOKING_ACTIONS[action];
+      const table = BOOKING_TABLES[type];
+
+      const { data: booking, error: fetchError } = await supabase
+        .from(table)
+        .select('*')
+        .eq('id', bookingId)
+        .single();
+
+      if (fetchError || !booking) {
+        return { success: false, error: fetchError?.message || 'Booking not found' };
+      }
+
+      const authorized = actor === 'guest'
+        ? booking.user_id === actorId
+        : await this.isBookingProvider(type, type === 'hotel' ? booking.hotel_id : booking.guide_id, actorId);
+
+      if (!authorized) {
+        return { success: false, error: 'You are not allowed to update this booking' };
+      }
+
+      const currentStatus = (booking.status || 'pending') as BookingStatus;
+      if (!this.canTransition(type, currentStatus, targetStatus)) {
+        return {
+          success: false,
+          error: `Cannot change a ${BOOKING_STATUS_LABELS[currentStatus].toLowerCase()} booking to ${BOOKING_STATUS_LABELS[targetStatus].toLowerCase()}`
+        };
+      }
+
+      // The database re-checks the caller and transition under a row lock and records the event
+      const { data, error } = await untypedSupabase.rpc('transition_booking', {
+        p_booking_type: type,
+        p_booking_id: bookingId,
+        p_to_status: targetStatus,
+        p_note: note?.trim() || null
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to update booking' };
+    }
+  }
+
+  /**
+   * Get the status history of a booking, oldest first
+   * @param type - Booking type
+   * @param bookingId - Booking ID
+   */
+  async getBookingHistory(type: BookingType, bookingId: string): Promise<BookingResponse<BookingStatusEvent[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('booking_status_events')
+        .select('*')
+        .eq('booking_type', type)
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get booking history' };
+    }
+  }
+
+  /**
+   * Get the latest message the provider left on each of a guest's bookings, in one query
+   * @param bookings - Bookings to look up
+   * @returns Notes keyed by `${type}:${id}`; bookings without a provider message are left out
+   */
+  async getProviderNotes(bookings: { type: BookingType; id: string }[]): Promise<BookingResponse<Record<string, string>>> {
+    try {
+      if (bookings.length === 0) {
+        return { success: true, data: {} };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('booking_status_events')
+        .select('booking_id, booking_type, note')
+        .in('booking_id', bookings.map(booking => booking.id))
+        .eq('actor_role', 'provider')
+        .not('note', 'is', null)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // Later events overwrite earlier ones, leaving the latest note
+      const requested = new Set(bookings.map(booking => `${booking.type}:${booking.id}`));
+      const notes: Record<string, string> = {};
+      (data || []).forEach((event: Pick<BookingStatusEvent, 'booking_id' | 'booking_type' | 'note'>) => {
+        const key = `${event.booking_type}:${event.booking_id}`;
+        if (event.note && requested.has(key)) {
+          notes[key] = event.note;
+        }
+      });
+
+      return { success: true, data: notes };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get provider messages' };
+    }
+  }
+
+  /**
+   * Get the email address and name of the guest who made a booking
+   * Only the hotel owner or guide the booking belongs to can look them up
+   * @param type - Booking type
+   * @param bookingId - Booking ID
+   */
+  async getGuestContact(type: BookingType, bookingId: string): Promise<BookingResponse<GuestContact>> {
+    try {
+      const { data, error } = await untypedSupabase.rpc('booking_guest_contact', {
+        p_booking_type: type,
+        p_booking_id: bookingId
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const contact = (data || [])[0];
+      if (!contact?.email) {
+        return { success: false, error: 'Guest contact not found' };
+      }
+
+      return { success: true, data: contact };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get guest contact' };
+    }
+  }
+
+  /**
+   * Look up guest display names for a set of user IDs
+   * @param userIds - Guest user IDs (nulls and duplicates are ignored)
+   */
+  private async getGuestNames(userIds: (string | null)[]): Promise<Record<string, string>> {
+    const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', ids);
+
+    if (error) {
+      console.error('[Booking Service] Failed to load guest names:', error);
+      return {};
+    }
+
+    const names: Record<string, string> = {};
+    (data || []).forEach(profile => {
+      if (profile.full_name) names[profile.id] = profile.full_name;
+    });
+    return names;
+  }
+
+  /**
+   * Check whether a user owns the hotel or guide profile a booking belongs to
+   * @param type - Booking type
+   * @param providerId - Hotel ID or guide ID on the booking
+   * @param userId - User ID to check
+   */
+  private async isBookingProvider(type: BookingType, providerId: string | null, userId: string): Promise<boolean> {
+    if (!providerId) return false;
+
+    if (type === 'hotel') {
+      const { data } = await supabase
+        .from('hotels')
+        .select('added_by')
+        .eq('id', providerId)
+        .single();
+      return !!data && data.added_by === userId;
+    }
+
+    const { data: guideIds } = await this.getGuideIds(userId);
+    return (guideIds || []).includes(providerId);
+  }
+
+  /**
+   * Look up the guide profiles a user owns
+   * Guide profiles are keyed by the owner's user ID; older rows carry a separate user_id
+   * @param userId - User ID
+   */
+  private async getGuideIds(userId: string): Promise<{ data?: string[]; error?: string }> {
+    const { data, error } = await untypedSupabase
+      .from('tour_guides')
+      .select('id')
+      .or(`id.eq.${userId},user_id.eq.${userId}`);
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    return { data: (data || []).map((guide: { id: string }) => guide.id) };
+  }
+}
+
+// Export singleton instance
+export const bookingService = new BookingService();
+
+// Export default
+export default bookingService;
@@ -12,6 +12,18 @@ export * from './database.service';
 // Export everything from directory service
 export * from './directory.service';
 
+// Export everything from booking service
+export * from './booking.service';
+
+// Export everything from inventory service
+export * from './inventory.service';
+
+// Export everything from availability service
+export * from './availability.service';
+
+// Export everything from review service
+export * from './review.service';
+
 // Handle auth service exports
 import type { UserRole as AuthUserRoleType, User, AuthResponse } from './auth.service';
 import { AuthService } from './auth.service';
@@ -33,5 +45,18 @@ import databaseService from './database.service';
 import authService from './auth.service';
 import registrationService from './registration.service';
 import directoryService from './directory.service';
-
-export { databaseService, authService, registrationService, directoryService };
+import bookingService from './booking.service';
+import inventoryService from './inventory.service';
+import availabilityService from './availability.service';
+import reviewService from './review.service';
+
+export {
+  databaseService,
+  authService,
+  registrationService,
+  directoryService,
+  bookingService,
+  inventoryService,
+  availabilityService,
+  reviewService
+};
@@ -0,0 +1,206 @@
+/**
+ * Inventory Service for Hotel Rooms
+ * Manages typed room types and the per-night availability ledger
+ */
+
+import { untypedSupabase } from '@/integrations/supabase/untyped';
+
+// Manual type definitions for inventory tables (until types are regenerated)
+export interface RoomType {
+  id: string;
+  hotel_id: string;
+  name: string;
+  description: string | null;
+  capacity: number;
+  nightly_rate: number;
+  total_units: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RoomAvailabilityRow {
+  room_type_id: string;
+  date: string; // YYYY-MM-DD
+  booked_units: number;
+}
+
+// Units left per night for one room type, keyed by YYYY-MM-DD
+export type RoomAvailabilityCalendar = Record<string, number>;
+
+export interface StayAvailability {
+  available: boolean;
+  availableUnits: number;
+  soldOutDates: string[];
+}
+
+export interface InventoryResponse<T> {
+  data?: T;
+  error?: string;
+  success: boolean;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+const toDateKey = (date: Date): string => [
+  date.getFullYear(),
+  String(date.getMonth() + 1).padStart(2, '0'),
+  String(date.getDate()).padStart(2, '0')
+].join('-');
+
+/**
+ * Inventory Service Class
+ * Handles room type lookups and availability checks for hotels
+ */
+export class InventoryService {
+
+  /**
+   * List the nights of a stay (check-in inclusive, check-out exclusive)
+   * @param checkIn - Check-in date in YYYY-MM-DD format
+   * @param checkOut - Check-out date in YYYY-MM-DD format
+   */
+  getStayNights(checkIn: string, checkOut: string): string[] {
+    const nights: string[] = [];
+    const current = new Date(`${checkIn}T00:00:00`);
+    const end = new Date(`${checkOut}T00:00:00`);
+
+    if (isNaN(current.getTime()) || isNaN(end.getTime())) {
+      return nights;
+    }
+
+    while (current < end) {
+      nights.push(toDateKey(current));
+      current.setDate(current.getDate() + 1);
+    }
+
+    return nights;
+  }
+
+  /**
+   * Calculate the cost of a stay
+   * @param nightlyRate - Room type's nightly rate
+   * @param rooms - Number of rooms
+   * @param nights - Number of nights
+   */
+  calculateStayCost(nightlyRate: number, rooms: number, nights: number): number {
+    if (nightlyRate <= 0 || rooms <= 0 || nights <= 0) {
+      return 0;
+    }
+    return Math.round(nightlyRate * rooms * nights * 100) / 100;
+  }
+
+  /**
+   * Build a per-night calendar of free units from ledger rows
+   * @param roomType - Room type the rows belong to
+   * @param rows - Ledger rows for the room type
+   * @param from - First date in YYYY-MM-DD format
+   * @param to - Last date (exclusive) in YYYY-MM-DD format
+   */
+  buildAvailabilityCalendar(
+    roomType: Pick<RoomType, 'id' | 'total_units'>,
+    rows: RoomAvailabilityRow[],
+    from: string,
+    to: string
+  ): RoomAvailabilityCalendar {
+    const booked: Record<string, number> = {};
+    rows
+      .filter(row => row.room_type_id === roomType.id)
+      .forEach(row => {
+        booked[row.date] = row.booked_units;
+      });
+
+    const calendar: RoomAvailabilityCalendar = {};
+    this.getStayNights(from, to).forEach(date => {
+      calendar[date] = Math.max(roomType.total_units - (booked[date] || 0), 0);
+    });
+
+    return calendar;
+  }
+
+  /**
+   * Check whether a stay fits in a room type's availability calendar
+   * @param calendar - Availability calendar covering the stay
+   * @param checkIn - Check-in date in YYYY-MM-DD format
+   * @param checkOut - Check-out date in YYYY-MM-DD format
+   * @param rooms - Number of rooms requested
+   */
+  checkStay(calendar: RoomAvailabilityCalendar, checkIn: string, checkOut: string, rooms: number): StayAvailability {
+    const nights = this.getStayNights(checkIn, checkOut);
+    if (nights.length === 0) {
+      return { available: false, availableUnits: 0, soldOutDates: [] };
+    }
+
+    const soldOutDates = nights.filter(date => (calendar[date] ?? 0) < rooms);
+    const availableUnits = Math.min(...nights.map(date => calendar[date] ?? 0));
+
+    return { available: soldOutDates.length === 0, availableUnits, soldOutDates };
+  }
+
+  /**
+   * Get the active room types for a hotel, cheapest first
+   * @param hotelId - Hotel ID
+   */
+  async getRoomTypes(hotelId: string): Promise<InventoryResponse<RoomType[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('hotel_room_types')
+        .select('*')
+        .eq('hotel_id', hotelId)
+        .eq('is_active', true)
+        .order('nightly_rate', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get room types' };
+    }
+  }
+
+  /**
+   * Get availability calendars for a set of room types
+   * @param roomTypes - Room types to look up
+   * @param from - First date in YYYY-MM-DD format
+   * @param to - Last date (exclusive) in YYYY-MM-DD format
+   */
+  async getAvailability(
+    roomTypes: Pick<RoomType, 'id' | 'total_units'>[],
+    from: string,
+    to: string
+  ): Promise<InventoryResponse<Record<string, RoomAvailabilityCalendar>>> {
+    try {
+      if (roomTypes.length === 0) {
+        return { success: true, data: {} };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('room_availability')
+        .select('room_type_id, date, booked_units')
+        .in('room_type_id', roomTypes.map(roomType => roomType.id))
+        .gte('date', from)
+        .lt('date', to);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const calendars: Record<string, RoomAvailabilityCalendar> = {};
+      roomTypes.forEach(roomType => {
+        calendars[roomType.id] = this.buildAvailabilityCalendar(roomType, data || [], from, to);
+      });
+
+      return { success: true, data: calendars };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get availability' };
+    }
+  }
+}
+
+// Export singleton instance
+export const inventoryService = new InventoryService();
+
+// Export default
+export default inventoryService;
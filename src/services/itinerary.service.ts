@@ -0,0 +1,718 @@
+/**
+ * Itinerary Service
+ * Generates trip itineraries and saves them with the preferences they were made from
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { untypedSupabase } from '@/integrations/supabase/untyped';
+import {
+  validateItinerary,
+  getDayTotal,
+  type Itinerary,
+  type ItineraryActivity,
+  type ItineraryDay,
+  type ItineraryErrorCode,
+  type ItineraryMeal,
+  type TripPreferences
+} from '../../supabase/functions/_shared/itinerary.schema';
+
+// The itinerary structure is shared with the generate-itinerary function
+export { getDayTotal };
+export type { Itinerary, ItineraryActivity, ItineraryDay, ItineraryErrorCode, ItineraryMeal, TripPreferences };
+
+export interface SavedItinerary {
+  id: string;
+  userId: string;
+  title: string;
+  prompt: string;
+  preferences: TripPreferences;
+  itinerary: Itinerary;
+  // Itinerary this one was copied from, if any
+  duplicatedFrom: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Where an activity sits in an itinerary, by position in the day list and the day's activities
+export interface ActivityPosition {
+  dayIndex: number;
+  activityIndex: number;
+}
+
+// An attraction that can be swapped into an itinerary
+export interface ItineraryAttraction {
+  id: string;
+  name: string;
+  city: string | null;
+  category: string | null;
+  description: string | null;
+  entryFee: number | null;
+  openingHours: string | null;
+}
+
+// A catalog entity an itinerary refers to, with the page that shows it and takes bookings
+export interface ItineraryLink {
+  id: string;
+  name: string;
+  href: string;
+}
+
+// Catalog entities an itinerary refers to, by ID; IDs that no longer resolve are left out
+export interface ItineraryLinks {
+  attractions: Record<string, ItineraryLink>;
+  hotels: Record<string, ItineraryLink>;
+  guides: Record<string, ItineraryLink>;
+  cuisines: Record<string, ItineraryLink>;
+}
+
+// IDs of the catalog entities an itinerary refers to
+export interface ItineraryReferences {
+  attractionIds: string[];
+  hotelIds: string[];
+  guideIds: string[];
+  cuisineIds: string[];
+}
+
+export interface ItineraryResponse<T> {
+  data?: T;
+  error?: string;
+  // Why generation failed, for the UI to explain
+  code?: ItineraryErrorCode;
+  success: boolean;
+}
+
+export const MAX_ITINERARY_TITLE_LENGTH = 100;
+
+// What to tell the traveller when an itinerary could not be generated
+export const ITINERARY_ERROR_MESSAGES: Record<ItineraryErrorCode, string> = {
+  invalid_request: 'Some trip details are missing. Check your destination and duration and try again.',
+  rate_limited: 'Too many requests. Please try again in a moment.',
+  credits_exhausted: 'AI credits exhausted. Please contact support.',
+  invalid_itinerary: 'The AI returned an itinerary we could not read. Please try again.',
+  generation_failed: 'Failed to generate itinerary. Please try again.'
+};
+
+// Time given to an attraction added from the catalog
+export const DEFAULT_ATTRACTION_DURATION = '2 hours';
+
+interface AiItineraryRow {
+  id: string;
+  user_id: string;
+  title: string | null;
+  prompt: string | null;
+  preferences: TripPreferences | null;
+  generated_itinerary: unknown;
+  duplicated_from: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+interface AttractionRow {
+  id: string;
+  name: string | null;
+  city: string | null;
+  category: string | null;
+  description: string | null;
+  entry_fee: number | null;
+  opening_hours: string | null;
+}
+
+// An attraction, hotel, tour guide or cuisine an itinerary links to, with the state it is listed under
+interface CatalogRow {
+  id: string;
+  name?: string | null;
+  full_name?: string | null;
+  company_name?: string | null;
+  states?: { name: string } | null;
+}
+
+/**
+ * Describe trip preferences in a sentence, e.g. "5-day moderate cultural trip to Kerala (history, food)"
+ * @param preferences - Preferences the itinerary was generated from
+ */
+export function describeTripPreferences(preferences: TripPreferences): string {
+  const description = `${preferences.duration}-day ${preferences.budget} ${preferences.travelStyle} trip to ${preferences.destination}`;
+  return preferences.interests.length > 0 ? `${description} (${preferences.interests.join(', ')})` : description;
+}
+
+/**
+ * Recalculate the estimated cost of an itinerary from its days
+ * @param itinerary - Itinerary to total
+ */
+export function withTotals(itinerary: Itinerary): Itinerary {
+  return {
+    ...itinerary,
+    totalEstimatedCost: itinerary.days.reduce((total, day) => total + getDayTotal(day), 0)
+  };
+}
+
+/**
+ * Move an activity to another place in the same or another day
+ * @param itinerary - Itinerary being edited
+ * @param from - Where the activity is now
+ * @param to - Where it is dropped; the activity ends up before the one at this position, or last when past the end
+ */
+export function moveActivity(itinerary: Itinerary, from: ActivityPosition, to: ActivityPosition): Itinerary {
+  const activity = itinerary.days[from.dayIndex]?.activities[from.activityIndex];
+  if (!activity || !itinerary.days[to.dayIndex]) {
+    return itinerary;
+  }
+
+  const days = itinerary.days.map(day => ({ ...day, activities: [...day.activities] }));
+  days[from.dayIndex].activities.splice(from.activityIndex, 1);
+
+  const target = days[to.dayIndex].activities;
+  // Removing the activity shifts the later ones in its own day up by one
+  const shift = from.dayIndex === to.dayIndex && from.activityIndex < to.activityIndex ? 1 : 0;
+  const index = Math.max(0, Math.min(to.activityIndex - shift, target.length));
+  target.splice(index, 0, activity);
+
+  return withTotals({ ...itinerary, days });
+}
+
+/**
+ * Change an activity's details
+ * @param itinerary - Itinerary being edited
+ * @param position - Activity to change
+ * @param changes - Fields to change
+ */
+export function updateActivity(
+  itinerary: Itinerary,
+  position: ActivityPosition,
+  changes: Partial<ItineraryActivity>
+): Itinerary {
+  return updateDay(itinerary, position.dayIndex, day => ({
+    ...day,
+    activities: day.activities.map((activity, index) =>
+      index === position.activityIndex ? { ...activity, ...changes } : activity
+    )
+  }));
+}
+
+/**
+ * Remove an activity
+ * @param itinerary - Itinerary being edited
+ * @param position - Activity to remove
+ */
+export function removeActivity(itinerary: Itinerary, position: ActivityPosition): Itinerary {
+  return updateDay(itinerary, position.dayIndex, day => ({
+    ...day,
+    activities: day.activities.filter((_, index) => index !== position.activityIndex)
+  }));
+}
+
+/**
+ * Turn a catalog attraction into an itinerary activity
+ * @param attraction - Attraction from the catalog
+ * @param time - Time of day for the visit
+ */
+export function attractionToActivity(attraction: ItineraryAttraction, time: string): ItineraryActivity {
+  return {
+    time,
+    activity: attraction.name,
+    description: attraction.description || [attraction.category, attraction.city].filter(Boolean).join(' in '),
+    duration: DEFAULT_ATTRACTION_DURATION,
+    cost: Number(attraction.entryFee) || 0,
+    tips: attraction.openingHours ? `Open ${attraction.openingHours}` : undefined,
+    attractionId: attraction.id
+  };
+}
+
+/**
+ * Put an attraction in place of an activity, keeping the activity's time
+ * @param itinerary - Itinerary being edited
+ * @param position - Activity to replace
+ * @param attraction - Attraction to visit instead
+ */
+export function swapInAttraction(
+  itinerary: Itinerary,
+  position: ActivityPosition,
+  attraction: ItineraryAttraction
+): Itinerary {
+  const current = itinerary.days[position.dayIndex]?.activities[position.activityIndex];
+  if (!current) {
+    return itinerary;
+  }
+
+  return updateDay(itinerary, position.dayIndex, day => ({
+    ...day,
+    activities: day.activities.map((activity, index) =>
+      index === position.activityIndex ? attractionToActivity(attraction, current.time) : activity
+    )
+  }));
+}
+
+/**
+ * Add an attraction at the end of a day
+ * @param itinerary - Itinerary being edited
+ * @param dayIndex - Day to add it to
+ * @param attraction - Attraction to visit
+ */
+export function addAttraction(itinerary: Itinerary, dayIndex: number, attraction: ItineraryAttraction): Itinerary {
+  return updateDay(itinerary, dayIndex, day => {
+    const lastTime = day.activities[day.activities.length - 1]?.time;
+    return { ...day, activities: [...day.activities, attractionToActivity(attraction, lastTime || '10:00 AM')] };
+  });
+}
+
+/**
+ * Add an empty day at the end, staying where the last day ended
+ * @param itinerary - Itinerary being edited
+ */
+export function addDay(itinerary: Itinerary): Itinerary {
+  const lastDay = itinerary.days[itinerary.days.length - 1];
+  const day: ItineraryDay = {
+    day: itinerary.days.length + 1,
+    location: lastDay?.location || '',
+    theme: 'Free day',
+    activities: [],
+    meals: {}
+  };
+  return withTotals({ ...itinerary, days: [...itinerary.days, day] });
+}
+
+/**
+ * Remove a day and number the rest from 1 again; the last remaining day is kept
+ * @param itinerary - Itinerary being edited
+ * @param dayIndex - Day to remove
+ */
+export function removeDay(itinerary: Itinerary, dayIndex: number): Itinerary {
+  if (itinerary.days.length <= 1 || !itinerary.days[dayIndex]) {
+    return itinerary;
+  }
+
+  const days = itinerary.days
+    .filter((_, index) => index !== dayIndex)
+    .map((day, index) => ({ ...day, day: index + 1 }));
+  return withTotals({ ...itinerary, days });
+}
+
+/**
+ * Collect the distinct catalog IDs an itinerary refers to
+ * @param itinerary - Itinerary to read
+ */
+export function getReferencedIds(itinerary: Itinerary): ItineraryReferences {
+  const distinct = (ids: (string | undefined)[]) => [...new Set(ids.filter((id): id is string => !!id))];
+  const activities = itinerary.days.flatMap(day => day.activities);
+  const meals = itinerary.days.flatMap(day => [day.meals?.breakfast, day.meals?.lunch, day.meals?.dinner]);
+
+  return {
+    attractionIds: distinct(activities.map(activity => activity.attractionId)),
+    hotelIds: distinct(itinerary.days.map(day => day.accommodation?.hotelId)),
+    guideIds: distinct(activities.map(activity => activity.guideId)),
+    cuisineIds: distinct(meals.map(meal => meal?.cuisineId))
+  };
+}
+
+// Apply a change to one day and recalculate the totals
+function updateDay(itinerary: Itinerary, dayIndex: number, change: (day: ItineraryDay) => ItineraryDay): Itinerary {
+  if (!itinerary.days[dayIndex]) {
+    return itinerary;
+  }
+
+  const days = itinerary.days.map((day, index) => index === dayIndex ? change(day) : day);
+  return withTotals({ ...itinerary, days });
+}
+
+/**
+ * Itinerary Service Class
+ * Handles saving, listing, renaming, copying and deleting a user's trips
+ */
+export class ItineraryService {
+  /**
+   * Generate an itinerary with the AI planner
+   * @param preferences - What the traveller asked for
+   */
+  async generateItinerary(preferences: TripPreferences): Promise<ItineraryResponse<Itinerary>> {
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-itinerary', {
+        body: preferences
+      });
+
+      if (error) {
+        const code = await this.getErrorCode(error);
+        return { success: false, code, error: ITINERARY_ERROR_MESSAGES[code] };
+      }
+
+      // Checked again here so nothing unreadable reaches the planner
+      const result = validateItinerary(data?.itinerary);
+      if (!result.success) {
+        console.error('Invalid itinerary from generate-itinerary:', result.issues);
+        return { success: false, code: 'invalid_itinerary', error: ITINERARY_ERROR_MESSAGES.invalid_itinerary };
+      }
+
+      return { success: true, data: result.itinerary };
+    } catch (error) {
+      console.error('Error generating itinerary:', error);
+      return {
+        success: false,
+        code: 'generation_failed',
+        error: ITINERARY_ERROR_MESSAGES.generation_failed
+      };
+    }
+  }
+
+  /**
+   * Get a user's saved itineraries, most recently changed first
+   * @param userId - Owner's user ID
+   */
+  async getItineraries(userId: string): Promise<ItineraryResponse<SavedItinerary[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('ai_itineraries')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map((row: AiItineraryRow) => this.mapItinerary(row)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to get itineraries'
+      };
+    }
+  }
+
+  /**
+   * Get one saved itinerary
+   * @param itineraryId - Itinerary ID
+   */
+  async getItinerary(itineraryId: string): Promise<ItineraryResponse<SavedItinerary>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('ai_itineraries')
+        .select('*')
+        .eq('id', itineraryId)
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapItinerary(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to get itinerary'
+      };
+    }
+  }
+
+  /**
+   * Save a generated itinerary with the preferences it was generated from
+   * @param userId - Owner's user ID
+   * @param preferences - Preferences given to the planner
+   * @param itinerary - Generated itinerary
+   */
+  async saveItinerary(
+    userId: string,
+    preferences: TripPreferences,
+    itinerary: Itinerary
+  ): Promise<ItineraryResponse<SavedItinerary>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('ai_itineraries')
+        .insert({
+          user_id: userId,
+          title: this.getTitle(itinerary.title, `Trip to ${preferences.destination}`),
+          prompt: describeTripPreferences(preferences),
+          preferences,
+          generated_itinerary: itinerary
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapItinerary(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to save itinerary'
+      };
+    }
+  }
+
+  /**
+   * Rename a saved itinerary
+   * @param itineraryId - Itinerary ID
+   * @param title - New title
+   */
+  async renameItinerary(itineraryId: string, title: string): Promise<ItineraryResponse<SavedItinerary>> {
+    try {
+      const trimmed = title.trim();
+      if (!trimmed || trimmed.length > MAX_ITINERARY_TITLE_LENGTH) {
+        return { success: false, error: `Title must be between 1 and ${MAX_ITINERARY_TITLE_LENGTH} characters` };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('ai_itineraries')
+        .update({ title: trimmed })
+        .eq('id', itineraryId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapItinerary(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to rename itinerary'
+      };
+    }
+  }
+
+  /**
+   * Save changes made to a saved itinerary's plan
+   * @param itineraryId - Itinerary ID
+   * @param itinerary - Edited itinerary
+   */
+  async updateItinerary(itineraryId: string, itinerary: Itinerary): Promise<ItineraryResponse<SavedItinerary>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('ai_itineraries')
+        .update({ generated_itinerary: withTotals(itinerary) })
+        .eq('id', itineraryId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapItinerary(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to update itinerary'
+      };
+    }
+  }
+
+  /**
+   * Get active attractions in a destination state to add to an itinerary
+   * @param destination - State name, as chosen in the trip planner
+   */
+  async getAttractions(destination: string): Promise<ItineraryResponse<ItineraryAttraction[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('attractions')
+        .select('id, name, city, category, description, entry_fee, opening_hours, states!inner(name)')
+        .eq('states.name', destination)
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const attractions: ItineraryAttraction[] = (data || []).map((attraction: AttractionRow) => ({
+        id: attraction.id,
+        name: attraction.name || 'Unnamed attraction',
+        city: attraction.city,
+        category: attraction.category,
+        description: attraction.description,
+        entryFee: attraction.entry_fee,
+        openingHours: attraction.opening_hours
+      }));
+
+      return { success: true, data: attractions };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to get attractions'
+      };
+    }
+  }
+
+  /**
+   * Look up the attractions, hotels, tour guides and cuisines an itinerary refers to, with the pages to open them on
+   * @param itinerary - Itinerary to resolve
+   */
+  async resolveLinks(itinerary: Itinerary): Promise<ItineraryResponse<ItineraryLinks>> {
+    try {
+      const { attractionIds, hotelIds, guideIds, cuisineIds } = getReferencedIds(itinerary);
+      // Unused lists are not queried
+      const lookup = (ids: string[], table: string, columns: string, active: boolean) => {
+        if (ids.length === 0) {
+          return Promise.resolve({ data: [], error: null });
+        }
+        const query = untypedSupabase.from(table).select(columns).in('id', ids);
+        return active ? query.eq('is_active', true) : query;
+      };
+
+      const results = await Promise.all([
+        lookup(attractionIds, 'attractions', 'id, name, states(name)', true),
+        lookup(hotelIds, 'hotels', 'id, name', true),
+        lookup(guideIds, 'tour_guides', 'id, full_name, company_name', true),
+        lookup(cuisineIds, 'cuisines', 'id, name, states(name)', false)
+      ]);
+
+      const failed = results.find(result => result.error);
+      if (failed) {
+        return { success: false, error: failed.error.message };
+      }
+
+      const [attractions, hotels, guides, cuisines] = results.map(result => result.data || []);
+      const toLinks = (rows: CatalogRow[], toLink: (row: CatalogRow) => ItineraryLink) =>
+        Object.fromEntries(rows.map(row => [row.id, toLink(row)]));
+
+      return {
+        success: true,
+        data: {
+          attractions: toLinks(attractions, row => ({
+            id: row.id,
+            name: row.name || 'Attraction',
+            href: this.getStateUrl(row.states?.name, 'attractions')
+          })),
+          hotels: toLinks(hotels, row => ({ id: row.id, name: row.name || 'Hotel', href: `/hotels/${row.id}` })),
+          guides: toLinks(guides, row => ({
+            id: row.id,
+            name: row.full_name || row.company_name || 'Tour guide',
+            href: `/guides/${row.id}`
+          })),
+          cuisines: toLinks(cuisines, row => ({
+            id: row.id,
+            name: row.name || 'Cuisine',
+            href: this.getStateUrl(row.states?.name, 'cuisine')
+          }))
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to resolve itinerary links'
+      };
+    }
+  }
+
+  /**
+   * Copy an itinerary as the starting point for a new trip
+   * @param userId - Owner of the copy
+   * @param itineraryId - Itinerary to copy
+   */
+  async duplicateItinerary(userId: string, itineraryId: string): Promise<ItineraryResponse<SavedItinerary>> {
+    try {
+      const original = await this.getItinerary(itineraryId);
+      if (!original.success) {
+        return { success: false, error: original.error };
+      }
+
+      const source = original.data!;
+      const { data, error } = await untypedSupabase
+        .from('ai_itineraries')
+        .insert({
+          user_id: userId,
+          title: this.getTitle(`Copy of ${source.title}`, source.title),
+          prompt: source.prompt,
+          preferences: source.preferences,
+          generated_itinerary: source.itinerary,
+          duplicated_from: source.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapItinerary(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to duplicate itinerary'
+      };
+    }
+  }
+
+  /**
+   * Delete a saved itinerary
+   * @param itineraryId - Itinerary ID
+   */
+  async deleteItinerary(itineraryId: string): Promise<ItineraryResponse<void>> {
+    try {
+      const { error } = await untypedSupabase
+        .from('ai_itineraries')
+        .delete()
+        .eq('id', itineraryId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to delete itinerary'
+      };
+    }
+  }
+
+  /**
+   * Private helper to read the error code from a failed function call
+   */
+  private async getErrorCode(error: { context?: Response }): Promise<ItineraryErrorCode> {
+    // HTTP errors carry the function's response
+    const response = error?.context;
+    if (response && typeof response.json === 'function') {
+      const body = await response.json().catch(() => null);
+      if (body?.code && body.code in ITINERARY_ERROR_MESSAGES) {
+        return body.code;
+      }
+      if (response.status === 429) return 'rate_limited';
+      if (response.status === 402) return 'credits_exhausted';
+    }
+    return 'generation_failed';
+  }
+
+  /**
+   * Private helper to trim a title to the stored length, falling back when it is blank
+   */
+  private getTitle(title: string | undefined, fallback: string): string {
+    const trimmed = title?.trim() || fallback;
+    return trimmed.slice(0, MAX_ITINERARY_TITLE_LENGTH);
+  }
+
+  /**
+   * Private helper to build the state page tab that lists an attraction or cuisine
+   */
+  private getStateUrl(state: string | undefined, tab: 'attractions' | 'cuisine'): string {
+    return state ? `/states/${state.toLowerCase().replace(/\s+/g, '-')}?tab=${tab}` : '/states';
+  }
+
+  /**
+   * Private helper to map a database row to a saved itinerary
+   */
+  private mapItinerary(row: AiItineraryRow): SavedItinerary {
+    // Older rows can hold unparsed model output
+    const parsed = validateItinerary(row.generated_itinerary);
+    const itinerary = parsed.success ? parsed.itinerary : { title: '', summary: '', totalEstimatedCost: 0, days: [] };
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title || itinerary.title || 'Untitled trip',
+      prompt: row.prompt || '',
+      preferences: row.preferences || { destination: '', duration: itinerary.days.length, budget: '', interests: [], travelStyle: '' },
+      itinerary,
+      duplicatedFrom: row.duplicated_from,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at || row.created_at)
+    };
+  }
+}
+
+// Export singleton instance
+export const itineraryService = new ItineraryService();
+
+// Export default
+export default itineraryService;
@@ -0,0 +1,699 @@
+/**
+ * Review Service for Hotel and Tour Guide Reviews
+ * Manages review submission, verified bookings, helpful votes, provider replies and moderation
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { untypedSupabase } from '@/integrations/supabase/untyped';
+import type { Database } from '@/integrations/supabase/types';
+import { SUPABASE_CONFIG, STORAGE_PATHS } from '@/config/supabase.config';
+import { uploadMultipleFiles, validateFile } from '@/utils/storage.utils';
+import type { BookingType } from './booking.service';
+
+export type GuideReview = Database['public']['Tables']['guide_reviews']['Row'] & {
+  is_hidden?: boolean;
+  images?: string[] | null;
+  title?: string | null;
+};
+export type HotelReview = Database['public']['Tables']['hotel_reviews']['Row'] & {
+  is_hidden?: boolean;
+  title?: string | null;
+};
+
+export type ReviewModerationAction = 'hide' | 'restore' | 'delete' | 'dismiss';
+
+export type ReviewSort = 'newest' | 'most_helpful';
+
+// Manual type definitions for reply and moderation tables (until types are regenerated)
+export interface ReviewReply {
+  id: string;
+  review_id: string;
+  review_type: BookingType;
+  author_id: string;
+  reply_text: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewVote {
+  id: string;
+  review_id: string;
+  review_type: BookingType;
+  user_id: string;
+  is_helpful: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewReport {
+  id: string;
+  review_id: string;
+  review_type: BookingType;
+  reporter_id: string;
+  reason: string;
+  status: 'open' | 'resolved';
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface ReviewModerationEvent {
+  id: string;
+  review_id: string;
+  review_type: BookingType;
+  action: ReviewModerationAction;
+  actor_id: string | null;
+  reason: string | null;
+  review_snapshot: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// Review awaiting moderation together with the reports filed against it
+export interface ReportedReview {
+  type: BookingType;
+  reviewId: string;
+  review: GuideReview | HotelReview | null;
+  reports: ReviewReport[];
+}
+
+// Booking a user can attach a verified review to
+export interface ReviewableBooking {
+  id: string;
+  bookingReference: string | null;
+  date: string | null; // Tour date or check-in date
+  endDate: string | null; // Check-out date, null for tours
+}
+
+export interface ReviewSubmission {
+  type: BookingType;
+  listingId: string;
+  userId: string;
+  rating: number;
+  title?: string;
+  comment: string;
+  bookingId?: string;
+  images?: string[]; // Public URLs from uploadReviewPhotos
+}
+
+// Photo attached to a review, as shown in a listing's gallery
+export interface ReviewPhoto {
+  url: string;
+  reviewId: string;
+  createdAt: string | null;
+}
+
+export interface ReviewResponse<T> {
+  data?: T;
+  error?: string;
+  success: boolean;
+}
+
+// Only bookings in this status can back a verified review
+export const VERIFIED_REVIEW_STATUS = 'completed';
+
+// Reviews accept the image subset of the storage file types
+export const REVIEW_PHOTO_TYPES = SUPABASE_CONFIG.STORAGE.ALLOWED_FILE_TYPES.filter(type => type.startsWith('image/'));
+
+export const MODERATION_ACTION_LABELS: Record<ReviewModerationAction, string> = {
+  hide: 'Hidden',
+  restore: 'Restored',
+  delete: 'Deleted',
+  dismiss: 'Reports dismissed'
+};
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  most_helpful: 'Most Helpful'
+};
+
+const REVIEW_TABLES = {
+  hotel: { reviews: 'hotel_reviews', bookings: 'hotel_bookings', listingColumn: 'hotel_id' },
+  guide: { reviews: 'guide_reviews', bookings: 'guide_bookings', listingColumn: 'guide_id' }
+} as const;
+
+/**
+ * Review Service Class
+ * Handles review submission, verified-stay eligibility, votes, replies and moderation
+ */
+export class ReviewService {
+
+  /**
+   * Check that photos can be attached to a review
+   * @param files - Photos to add
+   * @param existingCount - Photos already attached to the review
+   */
+  validateReviewPhotos(files: File[], existingCount: number = 0): ReviewResponse<void> {
+    const maxPhotos = SUPABASE_CONFIG.STORAGE.MAX_REVIEW_PHOTOS;
+    if (existingCount + files.length > maxPhotos) {
+      return { success: false, error: `You can attach up to ${maxPhotos} photos` };
+    }
+
+    for (const file of files) {
+      const result = validateFile(file, REVIEW_PHOTO_TYPES, SUPABASE_CONFIG.STORAGE.MAX_IMAGE_SIZE);
+      if (!result.valid) {
+        return { success: false, error: result.error };
+      }
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Upload review photos to storage
+   * @param userId - Reviewer's user ID, used as the upload folder
+   * @param files - Photos to upload
+   */
+  async uploadReviewPhotos(userId: string, files: File[]): Promise<ReviewResponse<string[]>> {
+    try {
+      if (files.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const validation = this.validateReviewPhotos(files);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const result = await uploadMultipleFiles(
+        files,
+        SUPABASE_CONFIG.STORAGE.BUCKETS.IMAGES,
+        `${STORAGE_PATHS.REVIEW_PHOTOS}/${userId}`
+      );
+
+      // A review should not go out with some of its photos silently missing
+      if (!result.success || result.error) {
+        return { success: false, error: result.error || 'Failed to upload photos' };
+      }
+
+      return { success: true, data: result.paths || [] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to upload photos' };
+    }
+  }
+
+  /**
+   * Collect the photos from a listing's reviews, newest review first
+   * @param reviews - Reviews shown on the listing
+   */
+  collectReviewPhotos(
+    reviews: Array<{ id: string; images?: string[] | null; created_at: string | null }>
+  ): ReviewPhoto[] {
+    return [...reviews]
+      .sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime())
+      .flatMap(review => (review.images || []).map(url => ({
+        url,
+        reviewId: review.id,
+        createdAt: review.created_at
+      })));
+  }
+
+  /**
+   * Check whether a booking can back a verified review of a listing
+   * @param booking - Booking row with owner, listing and status
+   * @param userId - Reviewer's user ID
+   * @param listingId - Hotel or guide being reviewed
+   */
+  isVerifiable(
+    booking: { user_id: string | null; listing_id: string | null; status: string | null },
+    userId: string,
+    listingId: string
+  ): boolean {
+    return booking.user_id === userId &&
+      booking.listing_id === listingId &&
+      booking.status === VERIFIED_REVIEW_STATUS;
+  }
+
+  /**
+   * Get a user's completed bookings for a listing that have not been reviewed yet
+   * @param type - Hotel or guide
+   * @param listingId - Hotel or guide ID
+   * @param userId - Reviewer's user ID
+   */
+  async getReviewableBookings(
+    type: BookingType,
+    listingId: string,
+    userId: string
+  ): Promise<ReviewResponse<ReviewableBooking[]>> {
+    try {
+      const tables = REVIEW_TABLES[type];
+
+      const [bookingsResult, reviewsResult] = await Promise.all([
+        type === 'hotel'
+          ? supabase
+            .from('hotel_bookings')
+            .select('id, booking_reference, check_in_date, check_out_date')
+            .eq('hotel_id', listingId)
+            .eq('user_id', userId)
+            .eq('status', VERIFIED_REVIEW_STATUS)
+            .order('check_in_date', { ascending: false })
+          : supabase
+            .from('guide_bookings')
+            .select('id, booking_reference, booking_date')
+            .eq('guide_id', listingId)
+            .eq('user_id', userId)
+            .eq('status', VERIFIED_REVIEW_STATUS)
+            .order('booking_date', { ascending: false }),
+        supabase
+          .from(tables.reviews)
+          .select('booking_id')
+          .eq(tables.listingColumn, listingId)
+          .eq('user_id', userId)
+          .not('booking_id', 'is', null)
+      ]);
+
+      if (bookingsResult.error) {
+        return { success: false, error: bookingsResult.error.message };
+      }
+      if (reviewsResult.error) {
+        return { success: false, error: reviewsResult.error.message };
+      }
+
+      const reviewedBookingIds = new Set((reviewsResult.data || []).map(review => review.booking_id));
+
+      const bookings = (bookingsResult.data || [])
+        .filter(booking => !reviewedBookingIds.has(booking.id))
+        .map(booking => ({
+          id: booking.id,
+          bookingReference: booking.booking_reference,
+          date: 'check_in_date' in booking ? booking.check_in_date : booking.booking_date,
+          endDate: 'check_out_date' in booking ? booking.check_out_date : null
+        }));
+
+      return { success: true, data: bookings };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get bookings to review' };
+    }
+  }
+
+  /**
+   * Submit a review, linking it to a completed booking when one is given.
+   * The database marks the review verified only if the booking checks out.
+   * @param submission - Review details
+   */
+  async submitReview(submission: ReviewSubmission): Promise<ReviewResponse<{ id: string; is_verified: boolean }>> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session || session.user.id !== submission.userId) {
+        return { success: false, error: 'Please sign in to submit a review' };
+      }
+
+      if (!Number.isInteger(submission.rating) || submission.rating < 1 || submission.rating > 5) {
+        return { success: false, error: 'Rating must be between 1 and 5 stars' };
+      }
+
+      if (!submission.comment.trim()) {
+        return { success: false, error: 'Please enter your review comment' };
+      }
+
+      const tables = REVIEW_TABLES[submission.type];
+
+      if (submission.bookingId) {
+        const { data: booking, error: bookingError } = await supabase
+          .from(tables.bookings)
+          .select(`user_id, status, ${tables.listingColumn}`)
+          .eq('id', submission.bookingId)
+          .maybeSingle();
+
+        if (bookingError) {
+          return { success: false, error: bookingError.message };
+        }
+
+        const row = booking as Record<string, string | null> | null;
+        const verifiable = row && this.isVerifiable(
+          { user_id: row.user_id, status: row.status, listing_id: row[tables.listingColumn] },
+          submission.userId,
+          submission.listingId
+        );
+
+        if (!verifiable) {
+          return { success: false, error: 'Only your own completed bookings can be reviewed' };
+        }
+      }
+
+      const { data, error } = await supabase
+        .from(tables.reviews)
+        .insert({
+          [tables.listingColumn]: submission.listingId,
+          user_id: submission.userId,
+          rating: submission.rating,
+          review_text: submission.comment.trim(),
+          booking_id: submission.bookingId || null,
+          ...(submission.title?.trim() ? { title: submission.title.trim() } : {}),
+          ...(submission.images?.length ? { images: submission.images } : {})
+        })
+        .select('id, is_verified')
+        .single();
+
+      if (error) {
+        // Unique violation on booking_id
+        if (error.code === '23505') {
+          return { success: false, error: 'You have already reviewed this booking' };
+        }
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: { id: data.id, is_verified: data.is_verified === true } };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to submit review' };
+    }
+  }
+
+  /**
+   * Group open reports by the review they were filed against, most reported first
+   * @param reports - Open review reports
+   */
+  groupReports(reports: ReviewReport[]): Omit<ReportedReview, 'review'>[] {
+    const groups: Record<string, Omit<ReportedReview, 'review'>> = {};
+
+    reports.forEach(report => {
+      const key = `${report.review_type}:${report.review_id}`;
+      if (!groups[key]) {
+        groups[key] = { type: report.review_type, reviewId: report.review_id, reports: [] };
+      }
+      groups[key].reports.push(report);
+    });
+
+    const earliest = (group: Omit<ReportedReview, 'review'>) =>
+      Math.min(...group.reports.map(report => new Date(report.created_at).getTime()));
+
+    return Object.values(groups).sort((a, b) =>
+      b.reports.length - a.reports.length || earliest(a) - earliest(b)
+    );
+  }
+
+  /**
+   * Get provider replies for a set of reviews, oldest first
+   * @param type - Hotel or guide
+   * @param reviewIds - Review IDs
+   */
+  async getReplies(type: BookingType, reviewIds: string[]): Promise<ReviewResponse<Record<string, ReviewReply[]>>> {
+    try {
+      if (reviewIds.length === 0) {
+        return { success: true, data: {} };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('review_replies')
+        .select('*')
+        .eq('review_type', type)
+        .in('review_id', reviewIds)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const replies: Record<string, ReviewReply[]> = {};
+      (data || []).forEach((reply: ReviewReply) => {
+        replies[reply.review_id] = [...(replies[reply.review_id] || []), reply];
+      });
+
+      return { success: true, data: replies };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get replies' };
+    }
+  }
+
+  /**
+   * Reply to a review as the guide or hotel partner it is about
+   * @param type - Hotel or guide
+   * @param reviewId - Review ID
+   * @param authorId - Provider's user ID
+   * @param text - Reply text
+   */
+  async addReply(type: BookingType, reviewId: string, authorId: string, text: string): Promise<ReviewResponse<ReviewReply>> {
+    try {
+      if (!text.trim()) {
+        return { success: false, error: 'Please enter a reply' };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('review_replies')
+        .insert({
+          review_id: reviewId,
+          review_type: type,
+          author_id: authorId,
+          reply_text: text.trim()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to post reply' };
+    }
+  }
+
+  /**
+   * Get a user's helpful votes on a set of reviews
+   * @param type - Hotel or guide
+   * @param reviewIds - Review IDs
+   * @param userId - Voting user's ID
+   */
+  async getUserVotes(
+    type: BookingType,
+    reviewIds: string[],
+    userId: string
+  ): Promise<ReviewResponse<Record<string, boolean>>> {
+    try {
+      if (reviewIds.length === 0) {
+        return { success: true, data: {} };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('review_votes')
+        .select('review_id, is_helpful')
+        .eq('review_type', type)
+        .eq('user_id', userId)
+        .in('review_id', reviewIds);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const votes: Record<string, boolean> = {};
+      (data || []).forEach((vote: Pick<ReviewVote, 'review_id' | 'is_helpful'>) => {
+        votes[vote.review_id] = vote.is_helpful;
+      });
+
+      return { success: true, data: votes };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get votes' };
+    }
+  }
+
+  /**
+   * Cast, change or withdraw a user's vote on a review
+   * @param type - Hotel or guide
+   * @param reviewId - Review ID
+   * @param userId - Voting user's ID
+   * @param isHelpful - true for helpful, false for not helpful, null to remove the vote
+   */
+  async setVote(
+    type: BookingType,
+    reviewId: string,
+    userId: string,
+    isHelpful: boolean | null
+  ): Promise<ReviewResponse<void>> {
+    try {
+      if (isHelpful === null) {
+        const { error } = await untypedSupabase
+          .from('review_votes')
+          .delete()
+          .eq('review_type', type)
+          .eq('review_id', reviewId)
+          .eq('user_id', userId);
+
+        return error ? { success: false, error: error.message } : { success: true };
+      }
+
+      const { error } = await untypedSupabase
+        .from('review_votes')
+        .upsert({
+          review_id: reviewId,
+          review_type: type,
+          user_id: userId,
+          is_helpful: isHelpful,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'review_type,review_id,user_id' });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to save vote' };
+    }
+  }
+
+  /**
+   * How a review's helpful count changes when a user's vote changes
+   * @param previous - The user's earlier vote, null if none
+   * @param next - The user's new vote, null if withdrawn
+   */
+  getHelpfulCountChange(previous: boolean | null, next: boolean | null): number {
+    return (next === true ? 1 : 0) - (previous === true ? 1 : 0);
+  }
+
+  /**
+   * Sort reviews for display
+   * @param reviews - Reviews to sort
+   * @param sort - Newest first, or most helpful first with newest breaking ties
+   */
+  sortReviews<T extends { created_at: string | null; helpful_count?: number | null }>(
+    reviews: T[],
+    sort: ReviewSort
+  ): T[] {
+    const byNewest = (a: T, b: T) =>
+      new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime();
+
+    if (sort === 'most_helpful') {
+      return [...reviews].sort((a, b) => (b.helpful_count || 0) - (a.helpful_count || 0) || byNewest(a, b));
+    }
+
+    return [...reviews].sort(byNewest);
+  }
+
+  /**
+   * Report a review for moderation
+   * @param type - Hotel or guide
+   * @param reviewId - Review ID
+   * @param reporterId - Reporting user's ID
+   * @param reason - Why the review should be moderated
+   */
+  async reportReview(type: BookingType, reviewId: string, reporterId: string, reason: string): Promise<ReviewResponse<void>> {
+    try {
+      if (!reason.trim()) {
+        return { success: false, error: 'Please tell us what is wrong with this review' };
+      }
+
+      const { error } = await untypedSupabase
+        .from('review_reports')
+        .insert({
+          review_id: reviewId,
+          review_type: type,
+          reporter_id: reporterId,
+          reason: reason.trim()
+        });
+
+      if (error) {
+        // Unique violation on (review_type, review_id, reporter_id)
+        if (error.code === '23505') {
+          return { success: false, error: 'You have already reported this review' };
+        }
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to report review' };
+    }
+  }
+
+  /**
+   * Get reviews with open reports for the admin moderation queue
+   */
+  async getReportedReviews(): Promise<ReviewResponse<ReportedReview[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('review_reports')
+        .select('*')
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const groups = this.groupReports(data || []);
+      const idsOfType = (type: BookingType) =>
+        groups.filter(group => group.type === type).map(group => group.reviewId);
+
+      const [guideResult, hotelResult] = await Promise.all([
+        supabase.from('guide_reviews').select('*').in('id', idsOfType('guide')),
+        supabase.from('hotel_reviews').select('*').in('id', idsOfType('hotel'))
+      ]);
+
+      if (guideResult.error) {
+        return { success: false, error: guideResult.error.message };
+      }
+      if (hotelResult.error) {
+        return { success: false, error: hotelResult.error.message };
+      }
+
+      const reviews: Record<string, GuideReview | HotelReview> = {};
+      (guideResult.data || []).forEach(review => { reviews[`guide:${review.id}`] = review; });
+      (hotelResult.data || []).forEach(review => { reviews[`hotel:${review.id}`] = review; });
+
+      return {
+        success: true,
+        data: groups.map(group => ({ ...group, review: reviews[`${group.type}:${group.reviewId}`] || null }))
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get reported reviews' };
+    }
+  }
+
+  /**
+   * Hide, restore, delete or dismiss reports on a review, recording the decision
+   * @param type - Hotel or guide
+   * @param reviewId - Review ID
+   * @param action - Moderation action
+   * @param reason - Optional note for the audit trail
+   */
+  async moderateReview(
+    type: BookingType,
+    reviewId: string,
+    action: ReviewModerationAction,
+    reason?: string
+  ): Promise<ReviewResponse<ReviewModerationEvent>> {
+    try {
+      const { data, error } = await untypedSupabase.rpc('moderate_review', {
+        p_review_type: type,
+        p_review_id: reviewId,
+        p_action: action,
+        p_reason: reason?.trim() || null
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to moderate review' };
+    }
+  }
+
+  /**
+   * Get the most recent moderation decisions
+   * @param limit - Maximum number of events to return
+   */
+  async getModerationHistory(limit: number = 50): Promise<ReviewResponse<ReviewModerationEvent[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('review_moderation_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: (error as Error).message || 'Failed to get moderation history' };
+    }
+  }
+}
+
+// Export singleton instance
+export const reviewService = new ReviewService();
+
+// Export default
+export default reviewService;
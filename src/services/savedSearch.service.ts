@@ -0,0 +1,478 @@
+/**
+ * Saved Search Service
+ * Stores named directory searches and alerts their owners to new matching guides and hotels
+ */
+
+import { untypedSupabase } from '@/integrations/supabase/untyped';
+import { emailService } from '@/lib/emailService';
+import { searchEngine, searchQueryToParams, type SearchQuery, type SortOption } from './search.service';
+
+export type SavedSearchType = 'guides' | 'hotels';
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  type: SavedSearchType;
+  query: SearchQuery;
+  notifyEmail: boolean;
+  notifyInApp: boolean;
+  lastCheckedAt: Date | null;
+  createdAt: Date;
+}
+
+// A listing that started matching a saved search
+export interface SavedSearchAlert {
+  id: string;
+  savedSearchId: string;
+  listingId: string;
+  listingName: string;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  type: SavedSearchType;
+  query: SearchQuery;
+  notifyEmail?: boolean;
+  notifyInApp?: boolean;
+}
+
+// Who new-match emails go to
+export interface AlertRecipient {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+export interface SavedSearchResponse<T> {
+  data?: T;
+  error?: string;
+  success: boolean;
+}
+
+export const MAX_SAVED_SEARCHES = 20;
+
+// A saved search is checked for new matches at most this often
+export const ALERT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Most matches compared per check
+const ALERT_SAMPLE_LIMIT = 1000;
+
+// Most listings named in one alert email
+const ALERT_EMAIL_LISTINGS = 10;
+
+// Sort and page size of the directory pages, left out of saved search links
+const DIRECTORY_DEFAULTS: { sort: SortOption; limit: number } = { sort: 'rating', limit: 50 };
+
+interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  search_type: SavedSearchType;
+  query: SearchQuery;
+  notify_email: boolean;
+  notify_in_app: boolean;
+  known_listing_ids: string[] | null;
+  last_checked_at: string | null;
+  created_at: string;
+}
+
+interface SavedSearchAlertRow {
+  id: string;
+  saved_search_id: string;
+  listing_id: string;
+  listing_name: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Get the directory link that runs a saved search
+ * @param search - Saved search to link to
+ */
+export function getSavedSearchUrl(search: Pick<SavedSearch, 'type' | 'query'>): string {
+  const params = searchQueryToParams(search.query, DIRECTORY_DEFAULTS).toString();
+  return params ? `/${search.type}?${params}` : `/${search.type}`;
+}
+
+/**
+ * Saved Search Service Class
+ * Handles saving searches, their notification settings and checks for new matches
+ */
+export class SavedSearchService {
+
+  /**
+   * Get a user's saved searches, newest first
+   * @param userId - Owner's user ID
+   */
+  async getSavedSearches(userId: string): Promise<SavedSearchResponse<SavedSearch[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map((row: SavedSearchRow) => this.mapSavedSearch(row)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to get saved searches'
+      };
+    }
+  }
+
+  /**
+   * Save a search under a name
+   * Listings that match now are remembered, so alerts are only for listings that match later
+   * @param userId - Owner's user ID
+   * @param input - Name, search and notification settings
+   */
+  async saveSearch(userId: string, input: SavedSearchInput): Promise<SavedSearchResponse<SavedSearch>> {
+    try {
+      const name = input.name.trim();
+      if (!name || name.length > 100) {
+        return { success: false, error: 'Name must be between 1 and 100 characters' };
+      }
+
+      const { count, error: countError } = await untypedSupabase
+        .from('saved_searches')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (countError) {
+        return { success: false, error: countError.message };
+      }
+      if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+        return { success: false, error: `You can save up to ${MAX_SAVED_SEARCHES} searches` };
+      }
+
+      // Saved searches always start from the first page
+      const query: SearchQuery = {
+        ...input.query,
+        pagination: { page: 1, limit: input.query.pagination.limit }
+      };
+
+      const matches = await this.getMatches(input.type, query);
+      if (!matches.success) {
+        return { success: false, error: matches.error };
+      }
+
+      const { data, error } = await untypedSupabase
+        .from('saved_searches')
+        .insert({
+          user_id: userId,
+          name,
+          search_type: input.type,
+          query,
+          notify_email: input.notifyEmail ?? false,
+          notify_in_app: input.notifyInApp ?? true,
+          known_listing_ids: matches.data!.map(match => match.id),
+          last_checked_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'You already have a saved search with this name' };
+        }
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapSavedSearch(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to save search'
+      };
+    }
+  }
+
+  /**
+   * Turn new-match notifications on or off
+   * @param savedSearchId - Saved search ID
+   * @param settings - Notification channels to change
+   */
+  async updateNotifications(
+    savedSearchId: string,
+    settings: { notifyEmail?: boolean; notifyInApp?: boolean }
+  ): Promise<SavedSearchResponse<SavedSearch>> {
+    try {
+      const updates: Record<string, boolean> = {};
+      if (settings.notifyEmail !== undefined) updates.notify_email = settings.notifyEmail;
+      if (settings.notifyInApp !== undefined) updates.notify_in_app = settings.notifyInApp;
+
+      const { data, error } = await untypedSupabase
+        .from('saved_searches')
+        .update(updates)
+        .eq('id', savedSearchId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: this.mapSavedSearch(data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to update notifications'
+      };
+    }
+  }
+
+  /**
+   * Delete a saved search and its alerts
+   * @param savedSearchId - Saved search ID
+   */
+  async deleteSavedSearch(savedSearchId: string): Promise<SavedSearchResponse<void>> {
+    try {
+      const { error } = await untypedSupabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearchId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to delete saved search'
+      };
+    }
+  }
+
+  /**
+   * Get a user's new-match alerts, newest first
+   * @param userId - Owner's user ID
+   * @param unreadOnly - Leave out alerts already seen
+   */
+  async getAlerts(userId: string, unreadOnly: boolean = true): Promise<SavedSearchResponse<SavedSearchAlert[]>> {
+    try {
+      let query = untypedSupabase
+        .from('saved_search_alerts')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (unreadOnly) {
+        query = query.is('read_at', null);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map((row: SavedSearchAlertRow) => this.mapAlert(row)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to get saved search alerts'
+      };
+    }
+  }
+
+  /**
+   * Mark the alerts of a saved search as seen
+   * @param savedSearchId - Saved search ID
+   */
+  async markAlertsRead(savedSearchId: string): Promise<SavedSearchResponse<void>> {
+    try {
+      const { error } = await untypedSupabase
+        .from('saved_search_alerts')
+        .update({ read_at: new Date().toISOString() })
+        .eq('saved_search_id', savedSearchId)
+        .is('read_at', null);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to mark alerts read'
+      };
+    }
+  }
+
+  /**
+   * Check a user's saved searches for listings that started matching since the last check
+   * Raises in-app alerts and sends emails for the searches that have them turned on
+   * @param recipient - Owner of the saved searches
+   * @param now - Time of the check
+   */
+  async checkForNewMatches(
+    recipient: AlertRecipient,
+    now: Date = new Date()
+  ): Promise<SavedSearchResponse<SavedSearchAlert[]>> {
+    try {
+      const { data, error } = await untypedSupabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', recipient.id);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const due = (data || []).filter((row: SavedSearchRow) =>
+        (row.notify_email || row.notify_in_app) &&
+        (!row.last_checked_at || now.getTime() - new Date(row.last_checked_at).getTime() >= ALERT_CHECK_INTERVAL_MS)
+      );
+
+      const alerts: SavedSearchAlert[] = [];
+      for (const row of due as SavedSearchRow[]) {
+        const result = await this.checkSavedSearch(this.mapSavedSearch(row), row.known_listing_ids || [], recipient, now);
+        if (!result.success) {
+          return { success: false, error: result.error };
+        }
+        alerts.push(...result.data!);
+      }
+
+      return { success: true, data: alerts };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to check saved searches'
+      };
+    }
+  }
+
+  /**
+   * Private helper to check one saved search and notify its owner of new matches
+   */
+  private async checkSavedSearch(
+    search: SavedSearch,
+    knownListingIds: string[],
+    recipient: AlertRecipient,
+    now: Date
+  ): Promise<SavedSearchResponse<SavedSearchAlert[]>> {
+    const matches = await this.getMatches(search.type, search.query);
+    if (!matches.success) {
+      return { success: false, error: matches.error };
+    }
+
+    const known = new Set(knownListingIds);
+    const newMatches = matches.data!.filter(match => !known.has(match.id));
+
+    let alerts: SavedSearchAlert[] = [];
+    if (newMatches.length > 0 && search.notifyInApp) {
+      const { data, error } = await untypedSupabase
+        .from('saved_search_alerts')
+        .upsert(
+          newMatches.map(match => ({
+            saved_search_id: search.id,
+            user_id: search.userId,
+            listing_id: match.id,
+            listing_name: match.name
+          })),
+          { onConflict: 'saved_search_id,listing_id', ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+      alerts = (data || []).map((alertRow: SavedSearchAlertRow) => this.mapAlert(alertRow));
+    }
+
+    if (newMatches.length > 0 && search.notifyEmail && recipient.email) {
+      const origin = typeof window !== 'undefined' ? window.location.origin : '';
+      await emailService.sendSavedSearchAlert(
+        recipient.email,
+        recipient.name || 'Traveler',
+        search.name,
+        newMatches.slice(0, ALERT_EMAIL_LISTINGS).map(match => match.name),
+        `${origin}${getSavedSearchUrl(search)}`
+      );
+    }
+
+    // Listings that stop matching are forgotten, so they alert again if they come back
+    const { error } = await untypedSupabase
+      .from('saved_searches')
+      .update({
+        known_listing_ids: matches.data!.map(match => match.id),
+        last_checked_at: now.toISOString()
+      })
+      .eq('id', search.id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data: alerts };
+  }
+
+  /**
+   * Private helper to get the visible listings a search matches
+   */
+  private async getMatches(
+    type: SavedSearchType,
+    query: SearchQuery
+  ): Promise<SavedSearchResponse<{ id: string; name: string }[]>> {
+    const sampleQuery: SearchQuery = { ...query, pagination: { page: 1, limit: ALERT_SAMPLE_LIMIT } };
+    const response = type === 'guides'
+      ? await searchEngine.searchGuides(sampleQuery)
+      : await searchEngine.searchHotels(sampleQuery);
+
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+
+    return {
+      success: true,
+      data: (response.data || []).map(listing => ({ id: listing.id, name: listing.displayName }))
+    };
+  }
+
+  /**
+   * Private helper to convert a saved search row
+   */
+  private mapSavedSearch(row: SavedSearchRow): SavedSearch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      type: row.search_type,
+      query: row.query,
+      notifyEmail: row.notify_email,
+      notifyInApp: row.notify_in_app,
+      lastCheckedAt: row.last_checked_at ? new Date(row.last_checked_at) : null,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Private helper to convert an alert row
+   */
+  private mapAlert(row: SavedSearchAlertRow): SavedSearchAlert {
+    return {
+      id: row.id,
+      savedSearchId: row.saved_search_id,
+      listingId: row.listing_id,
+      listingName: row.listing_name,
+      readAt: row.read_at ? new Date(row.read_at) : null,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+// Export singleton instance
+export const savedSearchService = new SavedSearchService();
+
+// Export default
+export default savedSearchService;
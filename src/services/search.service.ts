@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { untypedSupabase } from '@/integrations/supabase/untyped';
 import { GuideProfile, HotelProfile } from './directory.service';
 
 // Type definitions for search functionality
@@ -14,10 +15,12 @@ export interface SearchQuery {
     state?: string;
     radius?: number;
     coordinates?: { lat: number; lng: number };
+    label?: string; // Name of the place the coordinates are for, e.g. an attraction
   };
   filters: SearchFilters;
   sort: SortOption;
-  pagination: { page: number; limit: number };
+  // Pass the previous page's nextCursor to continue after it; page is ignored when a cursor is given
+  pagination: { page: number; limit: number; cursor?: string };
 }
 
 export interface SearchFilters {
@@ -38,7 +41,29 @@ export interface SearchFilters {
   priceRange?: { min: number; max: number };
 }
 
+// Number of results each option of a filter would leave, keyed by option value
+export type FacetCounts = Partial<Record<keyof SearchFilters, Record<string, number>>>;
+
+// Options counted for filters that take a number rather than one of the listings' values
+export const FACET_STEPS = {
+  minRating: [4.5, 4, 3.5, 3],
+  maxDistance: [5, 10, 25, 50, 100],
+  maxHourlyRate: [500, 1000, 2000, 5000],
+  minExperience: [1, 3, 5, 10],
+  priceRange: [2000, 5000, 10000, 20000]
+};
+
+// Filters counted for each directory type, besides the distance from the search point
+const FACET_DIMENSIONS: Record<'guide' | 'hotel', Array<keyof SearchFilters>> = {
+  guide: ['minRating', 'isVerified', 'languages', 'specialties', 'maxHourlyRate', 'minExperience'],
+  hotel: ['minRating', 'isVerified', 'hotelTypes', 'amenities', 'priceRange']
+};
+
+// Text matches fetched per search_listings call when collecting every match for a search
+const TEXT_MATCH_PAGE_SIZE = 1000;
+
 export type SortOption = 
+  | 'relevance'
   | 'rating' 
   | 'distance' 
   | 'price-low' 
@@ -47,6 +72,20 @@ export type SortOption =
   | 'experience'
   | 'popularity';
 
+// Every sort option, for checking sorts read from outside the app
+export const SORT_OPTIONS: SortOption[] = [
+  'relevance', 'rating', 'distance', 'price-low', 'price-high', 'newest', 'experience', 'popularity'
+];
+
+// Upper bound of a price range with no maximum set
+export const OPEN_PRICE_MAX = 999999;
+
+// Sort and page size a page uses when the URL doesn't set them, left out of its URLs
+export interface SearchQueryDefaults {
+  sort: SortOption;
+  limit: number;
+}
+
 export interface GuideSearchResult extends GuideProfile {
   relevanceScore?: number;
   distance?: number;
@@ -55,10 +94,258 @@ export interface GuideSearchResult extends GuideProfile {
 export interface HotelSearchResult extends HotelProfile {
   relevanceScore?: number;
   distance?: number;
+  // ID of the partner's hotel page, if they have listed a hotel
+  hotelId?: string;
 }
 
 export type SearchResult = GuideSearchResult | HotelSearchResult;
 
+// Listing ID with its distance in km from the search origin
+// Point a nearby search is centred on, as picked in NearbyFilter
+export interface NearbyOrigin {
+  label: string;
+  coordinates: { lat: number; lng: number };
+  radius: number; // km
+}
+
+// Radius used until the user picks one
+export const DEFAULT_NEARBY_RADIUS = 10;
+
+export interface NearbyListing {
+  id: string;
+  distance: number;
+}
+
+// Kinds of entity in the search index
+export type SearchEntityType = 'state' | 'attraction' | 'cuisine' | 'festival' | 'hotel' | 'guide';
+
+// Entity matched by full-text search, with its rank (higher is a better match)
+export interface TextMatch {
+  type: SearchEntityType;
+  id: string;
+  rank: number;
+}
+
+// Global search hit with the page it opens
+export interface GlobalSearchHit {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  url: string;
+  rank: number;
+}
+
+// Global search hits of one entity type, best match first
+export interface GlobalSearchGroup {
+  type: SearchEntityType;
+  label: string;
+  hits: GlobalSearchHit[];
+}
+
+// Group headings for global search, in display order
+export const GLOBAL_SEARCH_GROUPS: Record<SearchEntityType, string> = {
+  state: 'States',
+  attraction: 'Attractions',
+  cuisine: 'Cuisines',
+  festival: 'Festivals',
+  hotel: 'Hotels',
+  guide: 'Guides'
+};
+
+// Attraction with coordinates, used as a search origin or a guide's service area
+export interface Landmark {
+  id: string;
+  name: string;
+  city: string | null;
+  coordinates: { lat: number; lng: number };
+}
+
+// Where a search was made
+export type SearchSource = 'guides' | 'hotels' | 'global';
+
+// Indian travel seasons, matching search_season() in the database
+export type SearchSeason = 'winter' | 'summer' | 'monsoon' | 'post_monsoon';
+
+// Search to record for analytics
+export interface SearchEvent {
+  source: SearchSource;
+  text?: string;
+  filters?: Record<string, unknown>;
+  resultCount: number;
+  state?: string;
+  city?: string;
+}
+
+// Row returned by popular_searches()
+interface PopularSearch {
+  query: string;
+  search_count: number | string;
+}
+
+// Search that found nothing, grouped by query
+export interface ZeroResultSearch {
+  query: string;
+  searchCount: number;
+  userCount: number;
+  lastSearchedAt: Date;
+}
+
+// Shown as popular searches until enough real searches have been recorded
+const DEFAULT_POPULAR_SEARCHES = [
+  'Delhi',
+  'Mumbai',
+  'Goa',
+  'Jaipur',
+  'Historical Tours',
+  'Adventure Tours',
+  'Beach Resort',
+  'Heritage Hotel',
+  'Wildlife Tours',
+  'Cultural Tours'
+];
+
+/**
+ * Get the Indian travel season a date falls in
+ * @param date - Date to check, today if omitted
+ */
+export function getSearchSeason(date: Date = new Date()): SearchSeason {
+  const month = date.getMonth() + 1;
+  if (month === 12 || month <= 2) return 'winter';
+  if (month <= 5) return 'summer';
+  if (month <= 9) return 'monsoon';
+  return 'post_monsoon';
+}
+
+/**
+ * Write a search query to URL query parameters, leaving out empty values and defaults
+ * @param query - Search query to share
+ * @param defaults - Sort and page size to leave out
+ */
+export function searchQueryToParams(query: SearchQuery, defaults: SearchQueryDefaults): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | boolean | undefined | null) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  };
+  // Text is kept as typed so a space can be typed before the next word
+  const setText = (key: string, value: string | undefined) => set(key, value?.trim() ? value : undefined);
+  const setList = (key: string, values: string[] | undefined) => set(key, values?.join(','));
+
+  setText('q', query.text);
+  setText('city', query.location?.city);
+  setText('state', query.location?.state);
+  set('lat', query.location?.coordinates?.lat);
+  set('lng', query.location?.coordinates?.lng);
+  setText('near', query.location?.coordinates ? query.location.label : undefined);
+  set('radius', query.location?.radius);
+
+  const { filters } = query;
+  set('rating', filters.minRating);
+  set('distance', filters.maxDistance);
+  set('verified', filters.isVerified);
+  setList('languages', filters.languages);
+  setList('specialties', filters.specialties);
+  set('rate', filters.maxHourlyRate);
+  set('experience', filters.minExperience);
+  setList('types', filters.hotelTypes);
+  setList('amenities', filters.amenities);
+  if (filters.priceRange) {
+    set('minPrice', filters.priceRange.min > 0 ? filters.priceRange.min : undefined);
+    set('maxPrice', filters.priceRange.max < OPEN_PRICE_MAX ? filters.priceRange.max : undefined);
+  }
+
+  set('sort', query.sort !== defaults.sort ? query.sort : undefined);
+  set('page', query.pagination.page > 1 ? query.pagination.page : undefined);
+  set('limit', query.pagination.limit !== defaults.limit ? query.pagination.limit : undefined);
+  set('after', query.pagination.cursor);
+
+  return params;
+}
+
+/**
+ * Read a search query from URL query parameters
+ * Values that are malformed or out of range are dropped, so any link gives a valid search
+ * @param params - URL query parameters
+ * @param defaults - Sort and page size to use when the URL doesn't set them
+ */
+export function searchQueryFromParams(params: URLSearchParams, defaults: SearchQueryDefaults): SearchQuery {
+  const text = (key: string, maxLength: number = 100) => {
+    const value = params.get(key);
+    return value?.trim() ? value.slice(0, maxLength) : undefined;
+  };
+  const number = (key: string, min: number, max: number, integer: boolean = false) => {
+    const raw = params.get(key);
+    const value = raw === null || raw.trim() === '' ? NaN : Number(raw);
+    return Number.isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))
+      ? value
+      : undefined;
+  };
+  const list = (key: string) => {
+    const values = Array.from(new Set(
+      (params.get(key) || '').split(',').map(value => value.trim().slice(0, 100)).filter(Boolean)
+    )).slice(0, 20);
+    return values.length > 0 ? values : undefined;
+  };
+
+  const lat = number('lat', -90, 90);
+  const lng = number('lng', -180, 180);
+  const coordinates = lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+  const verified = params.get('verified');
+  const minPrice = number('minPrice', 0, OPEN_PRICE_MAX);
+  const maxPrice = number('maxPrice', 0, OPEN_PRICE_MAX);
+  const sort = params.get('sort') as SortOption;
+  const cursor = params.get('after');
+
+  return {
+    text: text('q', 200),
+    location: {
+      city: text('city'),
+      state: text('state'),
+      coordinates,
+      label: coordinates ? text('near') : undefined,
+      radius: number('radius', 0.1, 500)
+    },
+    filters: {
+      minRating: number('rating', 0, 5),
+      maxDistance: number('distance', 0.1, 500),
+      isVerified: verified === 'true' ? true : verified === 'false' ? false : undefined,
+      languages: list('languages'),
+      specialties: list('specialties'),
+      maxHourlyRate: number('rate', 0, OPEN_PRICE_MAX),
+      minExperience: number('experience', 0, 100, true),
+      hotelTypes: list('types'),
+      amenities: list('amenities'),
+      priceRange: minPrice !== undefined || maxPrice !== undefined
+        ? { min: minPrice ?? 0, max: maxPrice ?? OPEN_PRICE_MAX }
+        : undefined
+    },
+    sort: SORT_OPTIONS.includes(sort) ? sort : defaults.sort,
+    pagination: {
+      page: number('page', 1, 1000, true) ?? 1,
+      limit: number('limit', 1, 100, true) ?? defaults.limit,
+      // Cursors are base64, anything else can't be one
+      cursor: cursor && /^[A-Za-z0-9+/=]{1,2000}$/.test(cursor) ? cursor : undefined
+    }
+  };
+}
+
+/**
+ * Get the search point of a search query, e.g. one restored from a link
+ * @param location - Location of the search query
+ */
+export function getNearbyOrigin(location: SearchQuery['location']): NearbyOrigin | null {
+  if (!location?.coordinates) {
+    return null;
+  }
+  return {
+    label: location.label || 'the selected point',
+    coordinates: location.coordinates,
+    radius: location.radius ?? DEFAULT_NEARBY_RADIUS
+  };
+}
+
 export interface SearchResponse<T> {
   data?: T[];
   error?: string;
@@ -66,8 +353,51 @@ export interface SearchResponse<T> {
   totalCount?: number;
   page?: number;
   hasMore?: boolean;
+  nextCursor?: string;
+}
+
+// Sort values and ID of the last result on a page; the next page starts after it
+interface SearchCursor {
+  sort: SortOption;
+  id: string;
+  values: Record<string, string | number | null>;
+}
+
+// Columns of a tour guide or hotel partner row that relevance is scored on
+interface ScoredListingRow {
+  verified?: boolean | null;
+  is_verified?: boolean | null;
+  full_name?: string | null;
+  company_name?: string | null;
+  bio?: string | null;
+  specialties?: string[] | null;
+  amenities?: string[] | null;
+  languages_spoken?: string[] | null;
+  city?: string | null;
+  state?: string | null;
+  experience_years?: number | null;
+  created_at: string;
+}
+
+// The parts of a database query builder that sorting and cursors add to
+interface SearchableQuery<Q> {
+  order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): Q;
+  or(filters: string): Q;
 }
 
+// Column a query is ordered by before the ID that breaks ties
+interface SortColumn {
+  column: string;
+  ascending: boolean;
+  nullable?: boolean;
+}
+
+// Result fields the sorts done after the query compare
+const RESULT_SORT_FIELDS = ['distance', 'relevanceScore', 'rating'] as const;
+
+// Orders IDs the way Postgres orders lowercase UUIDs
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
 /**
  * Search Engine Class
  * Handles search, filtering, and sorting of service provider profiles
@@ -85,15 +415,21 @@ export class SearchEngine {
         .from('tour_guides')
         .select('*', { count: 'exact' });
 
+      const cursor = this.parseCursor(query);
+      if (cursor.error) {
+        return { success: false, error: cursor.error };
+      }
+
       // Apply text search if provided
-      if (query.text && query.text.trim() !== '') {
-        const searchText = query.text.toLowerCase().trim();
-        dbQuery = dbQuery.or(
-          `full_name.ilike.%${searchText}%,` +
-          `bio.ilike.%${searchText}%,` +
-          `company_name.ilike.%${searchText}%,` +
-          `specialties.cs.{${searchText}}`
-        );
+      const matches = await this.getTextMatchMap('guide', query);
+      if (matches.error) {
+        return { success: false, error: matches.error };
+      }
+      if (matches.data) {
+        if (matches.data.size === 0) {
+          return { success: true, data: [], totalCount: 0, page: query.pagination.page, hasMore: false };
+        }
+        dbQuery = dbQuery.in('id', Array.from(matches.data.keys()));
       }
 
       // Apply location filters
@@ -125,6 +461,10 @@ export class SearchEngine {
         dbQuery = dbQuery.eq('verified', query.filters.isVerified);
       }
 
+      if (query.filters.minRating !== undefined) {
+        dbQuery = dbQuery.gte('rating_average', query.filters.minRating);
+      }
+
       // Check if guides have visible directory listings
       const { data: visibleListings } = await supabase
         .from('public_directory_listings')
@@ -146,12 +486,36 @@ export class SearchEngine {
         };
       }
 
-      // Apply sorting
-      dbQuery = this.applySortingToQuery(dbQuery, query.sort, 'guide');
+      // Apply radius filter
+      const distances = await this.getDistanceMap('guide', query);
+      if (distances.error) {
+        return { success: false, error: distances.error };
+      }
+      if (distances.data && this.getRadius(query) !== undefined) {
+        if (distances.data.size === 0) {
+          return { success: true, data: [], totalCount: 0, page: query.pagination.page, hasMore: false };
+        }
+        dbQuery = dbQuery.in('id', Array.from(distances.data.keys()));
+      }
 
-      // Apply pagination
-      const offset = (query.pagination.page - 1) * query.pagination.limit;
-      dbQuery = dbQuery.range(offset, offset + query.pagination.limit - 1);
+      // Distances and text ranks come from RPCs, so ordering and paging by them happen after the query
+      const sortAfterQuery =
+        (query.sort === 'distance' && !!distances.data) || (query.sort === 'relevance' && !!matches.data);
+      // With a cursor the page starts right after it rather than at an offset
+      const offset = cursor.data ? 0 : (query.pagination.page - 1) * query.pagination.limit;
+
+      if (!sortAfterQuery) {
+        // Continue after the cursor, if any
+        if (cursor.data) {
+          dbQuery = this.applyCursorToQuery(dbQuery, cursor.data, 'guide');
+        }
+
+        // Apply sorting
+        dbQuery = this.applySortingToQuery(dbQuery, query.sort, 'guide');
+
+        // Apply pagination
+        dbQuery = dbQuery.range(offset, offset + query.pagination.limit - 1);
+      }
 
       // Execute query
       const { data, error, count } = await dbQuery;
@@ -162,7 +526,7 @@ export class SearchEngine {
 
       // Transform to GuideSearchResult format with relevance scoring
       const results: GuideSearchResult[] = (data || []).map(guide => {
-        const relevanceScore = this.calculateRelevanceScore(guide, query);
+        const relevanceScore = matches.data?.get(guide.id) ?? this.calculateRelevanceScore(guide, query);
         return {
           id: guide.id,
           userId: guide.user_id,
@@ -187,24 +551,33 @@ export class SearchEngine {
           hourlyRate: guide.hourly_rate,
           certifications: guide.certifications || [],
           nearbyAttractions: [],
-          rating: 0, // TODO: Calculate from reviews
-          reviewCount: 0, // TODO: Calculate from reviews
-          relevanceScore
+          rating: Number(guide.rating_average) || 0,
+          reviewCount: guide.review_count || 0,
+          relevanceScore,
+          distance: distances.data?.get(guide.id)
         };
       });
 
+      if (sortAfterQuery) {
+        return this.paginateSorted(results, query, count || 0, cursor.data) as SearchResponse<GuideSearchResult>;
+      }
+
+      const hasMore = count ? offset + query.pagination.limit < count : false;
       return {
         success: true,
         data: results,
         totalCount: count || 0,
         page: query.pagination.page,
-        hasMore: count ? offset + query.pagination.limit < count : false
+        hasMore,
+        nextCursor: hasMore && data && data.length > 0
+          ? this.getQueryCursor(data[data.length - 1], query.sort, 'guide')
+          : undefined
       };
 
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: error.message || 'Failed to search guides'
+        error: (error as Error).message || 'Failed to search guides'
       };
     }
   }
@@ -220,15 +593,21 @@ export class SearchEngine {
         .from('hotel_partners')
         .select('*', { count: 'exact' });
 
+      const cursor = this.parseCursor(query);
+      if (cursor.error) {
+        return { success: false, error: cursor.error };
+      }
+
       // Apply text search if provided
-      if (query.text && query.text.trim() !== '') {
-        const searchText = query.text.toLowerCase().trim();
-        dbQuery = dbQuery.or(
-          `company_name.ilike.%${searchText}%,` +
-          `bio.ilike.%${searchText}%,` +
-          `hotel_type.ilike.%${searchText}%,` +
-          `amenities.cs.{${searchText}}`
-        );
+      const matches = await this.getTextMatchMap('hotel', query);
+      if (matches.error) {
+        return { success: false, error: matches.error };
+      }
+      if (matches.data) {
+        if (matches.data.size === 0) {
+          return { success: true, data: [], totalCount: 0, page: query.pagination.page, hasMore: false };
+        }
+        dbQuery = dbQuery.in('id', Array.from(matches.data.keys()));
       }
 
       // Apply location filters
@@ -252,6 +631,17 @@ export class SearchEngine {
         dbQuery = dbQuery.eq('is_verified', query.filters.isVerified);
       }
 
+      if (query.filters.minRating !== undefined) {
+        dbQuery = dbQuery.gte('rating_average', query.filters.minRating);
+      }
+
+      // A hotel is in the price range when any of its rooms is, so hotels without priced rooms never are
+      if (query.filters.priceRange) {
+        dbQuery = dbQuery
+          .lte('price_per_night_min', query.filters.priceRange.max)
+          .gte('price_per_night_max', query.filters.priceRange.min);
+      }
+
       // Check if hotels have visible directory listings
       const { data: visibleListings } = await supabase
         .from('public_directory_listings')
@@ -273,12 +663,36 @@ export class SearchEngine {
         };
       }
 
-      // Apply sorting
-      dbQuery = this.applySortingToQuery(dbQuery, query.sort, 'hotel');
+      // Apply radius filter
+      const distances = await this.getDistanceMap('hotel', query);
+      if (distances.error) {
+        return { success: false, error: distances.error };
+      }
+      if (distances.data && this.getRadius(query) !== undefined) {
+        if (distances.data.size === 0) {
+          return { success: true, data: [], totalCount: 0, page: query.pagination.page, hasMore: false };
+        }
+        dbQuery = dbQuery.in('id', Array.from(distances.data.keys()));
+      }
+
+      // Distances and text ranks come from RPCs, so ordering and paging by them happen after the query
+      const sortAfterQuery =
+        (query.sort === 'distance' && !!distances.data) || (query.sort === 'relevance' && !!matches.data);
+      // With a cursor the page starts right after it rather than at an offset
+      const offset = cursor.data ? 0 : (query.pagination.page - 1) * query.pagination.limit;
+
+      if (!sortAfterQuery) {
+        // Continue after the cursor, if any
+        if (cursor.data) {
+          dbQuery = this.applyCursorToQuery(dbQuery, cursor.data, 'hotel');
+        }
+
+        // Apply sorting
+        dbQuery = this.applySortingToQuery(dbQuery, query.sort, 'hotel');
 
-      // Apply pagination
-      const offset = (query.pagination.page - 1) * query.pagination.limit;
-      dbQuery = dbQuery.range(offset, offset + query.pagination.limit - 1);
+        // Apply pagination
+        dbQuery = dbQuery.range(offset, offset + query.pagination.limit - 1);
+      }
 
       // Execute query
       const { data, error, count } = await dbQuery;
@@ -287,9 +701,15 @@ export class SearchEngine {
         return { success: false, error: error.message };
       }
 
+      // Partners are searched, but their hotel pages are the hotels they added
+      const hotelPages = await this.getHotelPageMap((data || []).map(hotel => hotel.user_id));
+      if (hotelPages.error) {
+        return { success: false, error: hotelPages.error };
+      }
+
       // Transform to HotelSearchResult format with relevance scoring
       const results: HotelSearchResult[] = (data || []).map(hotel => {
-        const relevanceScore = this.calculateRelevanceScore(hotel, query);
+        const relevanceScore = matches.data?.get(hotel.id) ?? this.calculateRelevanceScore(hotel, query);
         return {
           id: hotel.id,
           userId: hotel.user_id,
@@ -311,27 +731,93 @@ export class SearchEngine {
           hotelType: hotel.hotel_type || '',
           amenities: hotel.amenities || [],
           roomTypes: [],
-          priceRange: { min: 0, max: 0 }, // TODO: Add price range to schema
+          priceRange: hotel.price_per_night_min !== null && hotel.price_per_night_min !== undefined
+            ? { min: Number(hotel.price_per_night_min), max: Number(hotel.price_per_night_max) }
+            : undefined,
           nearbyAttractions: [],
           images: [],
-          rating: 0, // TODO: Calculate from reviews
-          reviewCount: 0, // TODO: Calculate from reviews
-          relevanceScore
+          rating: Number(hotel.rating_average) || 0,
+          reviewCount: hotel.review_count || 0,
+          relevanceScore,
+          distance: distances.data?.get(hotel.id),
+          hotelId: hotelPages.data?.get(hotel.user_id)
         };
       });
 
+      if (sortAfterQuery) {
+        return this.paginateSorted(results, query, count || 0, cursor.data) as SearchResponse<HotelSearchResult>;
+      }
+
+      const hasMore = count ? offset + query.pagination.limit < count : false;
       return {
         success: true,
         data: results,
         totalCount: count || 0,
         page: query.pagination.page,
-        hasMore: count ? offset + query.pagination.limit < count : false
+        hasMore,
+        nextCursor: hasMore && data && data.length > 0
+          ? this.getQueryCursor(data[data.length - 1], query.sort, 'hotel')
+          : undefined
       };
 
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: error.message || 'Failed to search hotels'
+        error: (error as Error).message || 'Failed to search hotels'
+      };
+    }
+  }
+
+  /**
+   * Count how many results each filter option would give for a search
+   * Each filter's options are counted with the other filters applied but not itself,
+   * so picking a second language still shows how many guides speak it
+   * @param type - Type of profile (guide or hotel)
+   * @param query - Search query with the filters currently applied
+   */
+  async getFacetCounts(
+    type: 'guide' | 'hotel',
+    query: SearchQuery
+  ): Promise<{ success: boolean; data?: FacetCounts; error?: string }> {
+    try {
+      const origin = query.location?.coordinates;
+      // Distance options only mean something when searching around a point
+      const dimensions: Array<keyof SearchFilters> = origin
+        ? [...FACET_DIMENSIONS[type], 'maxDistance']
+        : FACET_DIMENSIONS[type];
+
+      // The radius is counted as a filter like the rest
+      const filters: SearchFilters = { ...query.filters, maxDistance: origin ? this.getRadius(query) : undefined };
+      const steps = Object.fromEntries(
+        Object.entries(FACET_STEPS).filter(([dimension]) => dimensions.includes(dimension as keyof SearchFilters))
+      );
+
+      // Counted in the database, so every listing the search matches is counted
+      const { data, error } = await untypedSupabase.rpc('search_facet_counts', {
+        p_type: type,
+        p_filters: Object.fromEntries(dimensions.map(dimension => [dimension, filters[dimension]])),
+        p_steps: steps,
+        p_query: query.text?.trim() || null,
+        p_city: query.location?.city || null,
+        p_state: query.location?.state || null,
+        p_latitude: origin?.lat ?? null,
+        p_longitude: origin?.lng ?? null
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const facets: FacetCounts = Object.fromEntries(dimensions.map(dimension => [dimension, {}]));
+      (data || []).forEach((row: { facet: keyof SearchFilters; option: string; listings: number | string }) => {
+        facets[row.facet] = { ...facets[row.facet], [row.option]: Number(row.listings) };
+      });
+
+      return { success: true, data: facets };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to count filter options'
       };
     }
   }
@@ -342,6 +828,10 @@ export class SearchEngine {
    * @param filters - Filters to apply
    */
   applyFilters(results: SearchResult[], filters: SearchFilters): SearchResult[] {
+    if (results.length === 0) {
+      return [];
+    }
+
     let filtered = [...results];
 
     // Apply common filters
@@ -349,8 +839,9 @@ export class SearchEngine {
       filtered = filtered.filter(r => r.rating >= filters.minRating!);
     }
 
+    // Listings without a location are never within a distance
     if (filters.maxDistance !== undefined && filters.maxDistance > 0) {
-      filtered = filtered.filter(r => !r.distance || r.distance <= filters.maxDistance!);
+      filtered = filtered.filter(r => r.distance !== undefined && r.distance <= filters.maxDistance!);
     }
 
     if (filters.isVerified !== undefined) {
@@ -376,7 +867,8 @@ export class SearchEngine {
       if (filters.maxHourlyRate !== undefined) {
         filtered = filtered.filter(r => {
           const guide = r as GuideSearchResult;
-          return !guide.hourlyRate || guide.hourlyRate <= filters.maxHourlyRate!;
+          // Matches the database filter, where guides without a rate never fall under a maximum
+          return typeof guide.hourlyRate === 'number' && guide.hourlyRate <= filters.maxHourlyRate!;
         });
       }
 
@@ -407,8 +899,9 @@ export class SearchEngine {
       if (filters.priceRange) {
         filtered = filtered.filter(r => {
           const hotel = r as HotelSearchResult;
-          return hotel.priceRange.min >= filters.priceRange!.min &&
-                 hotel.priceRange.max <= filters.priceRange!.max;
+          return !!hotel.priceRange &&
+                 hotel.priceRange.min <= filters.priceRange!.max &&
+                 hotel.priceRange.max >= filters.priceRange!.min;
         });
       }
     }
@@ -422,74 +915,202 @@ export class SearchEngine {
    * @param sortOption - Sort option to apply
    */
   sortResults(results: SearchResult[], sortOption: SortOption): SearchResult[] {
-    const sorted = [...results];
+    const compare = this.getResultComparator(sortOption);
 
-    switch (sortOption) {
-      case 'rating':
-        return sorted.sort((a, b) => {
-          // Primary sort by rating, secondary by relevance
-          const ratingDiff = b.rating - a.rating;
-          if (ratingDiff !== 0) return ratingDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      case 'distance':
-        return sorted.sort((a, b) => {
-          const distA = a.distance || Infinity;
-          const distB = b.distance || Infinity;
-          const distDiff = distA - distB;
-          if (distDiff !== 0) return distDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      case 'price-low':
-        return sorted.sort((a, b) => {
-          const priceA = 'hourlyRate' in a ? (a.hourlyRate || Infinity) : 
-                        ('priceRange' in a ? a.priceRange.min : Infinity);
-          const priceB = 'hourlyRate' in b ? (b.hourlyRate || Infinity) : 
-                        ('priceRange' in b ? b.priceRange.min : Infinity);
-          const priceDiff = priceA - priceB;
-          if (priceDiff !== 0) return priceDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      case 'price-high':
-        return sorted.sort((a, b) => {
-          const priceA = 'hourlyRate' in a ? (a.hourlyRate || 0) : 
-                        ('priceRange' in a ? a.priceRange.max : 0);
-          const priceB = 'hourlyRate' in b ? (b.hourlyRate || 0) : 
-                        ('priceRange' in b ? b.priceRange.max : 0);
-          const priceDiff = priceB - priceA;
-          if (priceDiff !== 0) return priceDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      case 'newest':
-        return sorted.sort((a, b) => {
-          const timeDiff = b.createdAt.getTime() - a.createdAt.getTime();
-          if (timeDiff !== 0) return timeDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      case 'experience':
-        return sorted.sort((a, b) => {
-          const expA = 'experienceYears' in a ? a.experienceYears : 0;
-          const expB = 'experienceYears' in b ? b.experienceYears : 0;
-          const expDiff = expB - expA;
-          if (expDiff !== 0) return expDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      case 'popularity':
-        return sorted.sort((a, b) => {
-          const popDiff = b.reviewCount - a.reviewCount;
-          if (popDiff !== 0) return popDiff;
-          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        });
-      
-      default:
-        // Default sort by relevance score
-        return sorted.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+    // IDs break remaining ties so results keep one order to page through
+    return [...results].sort((a, b) => compare(a, b) || compareIds(a.id, b.id));
+  }
+
+  /**
+   * Get listings near a point with their distances, nearest first
+   * @param type - Guides (measured to the edge of their service areas) or hotels
+   * @param origin - Search point
+   * @param radiusKm - Only include listings within this many km; all located listings if omitted
+   */
+  async getNearbyListings(
+    type: 'guide' | 'hotel',
+    origin: { lat: number; lng: number },
+    radiusKm?: number
+  ): Promise<SearchResponse<NearbyListing>> {
+    try {
+      const { data, error } = await untypedSupabase.rpc(
+        type === 'guide' ? 'nearby_guides' : 'nearby_hotels',
+        {
+          p_latitude: origin.lat,
+          p_longitude: origin.lng,
+          p_radius_km: radiusKm ?? null
+        }
+      );
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // Hotels are located through the hotels each partner added, and listed by partner ID
+      const listings: NearbyListing[] = (data || []).map((row: { guide_id?: string; partner_id?: string; distance_km: number | string }) => ({
+        id: (type === 'guide' ? row.guide_id : row.partner_id) as string,
+        distance: Number(row.distance_km)
+      }));
+
+      return { success: true, data: listings, totalCount: listings.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to find nearby listings'
+      };
+    }
+  }
+
+  /**
+   * Full-text search over the search index, best match first
+   * Tolerates typos and matches other spellings of place names, e.g. Banaras for Varanasi
+   * @param text - Search text
+   * @param types - Entity types to include; all types if omitted
+   * @param limit - Maximum number of matches
+   * @param offset - Number of better matches to skip, for paging through every match
+   */
+  async searchText(
+    text: string,
+    types?: TextMatch['type'][],
+    limit: number = 200,
+    offset: number = 0
+  ): Promise<SearchResponse<TextMatch>> {
+    try {
+      if (!text || text.trim() === '') {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await untypedSupabase.rpc('search_listings', {
+        p_query: text.trim(),
+        p_types: types ?? null,
+        p_limit: limit,
+        p_offset: offset
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const matches: TextMatch[] = (data || []).map((row: { entity_type: TextMatch['type']; entity_id: string; rank: number | string }) => ({
+        type: row.entity_type,
+        id: row.entity_id,
+        rank: Number(row.rank)
+      }));
+
+      return { success: true, data: matches, totalCount: matches.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to search'
+      };
+    }
+  }
+
+  /**
+   * Search states, attractions, cuisines, festivals, hotels and guides at once
+   * @param text - Search text
+   * @param perType - Maximum number of hits of each type
+   */
+  async globalSearch(text: string, perType: number = 5): Promise<SearchResponse<GlobalSearchGroup>> {
+    try {
+      if (!text || text.trim().length < 2) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await untypedSupabase.rpc('global_search', {
+        p_query: text.trim(),
+        p_per_type: perType
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const rows: Array<{
+        entity_type: SearchEntityType;
+        entity_id: string;
+        title: string;
+        city: string | null;
+        state: string | null;
+        rank: number | string;
+      }> = data || [];
+
+      // Hotel hits are partner listings, which open the hotel page their partner listed
+      const hotelPages = await this.getPartnerHotelPageMap(
+        rows.filter(row => row.entity_type === 'hotel').map(row => row.entity_id)
+      );
+      if (hotelPages.error) {
+        return { success: false, error: hotelPages.error };
+      }
+
+      const hits: GlobalSearchHit[] = rows.map(row => ({
+        type: row.entity_type,
+        id: row.entity_id,
+        title: row.title,
+        // A state's city is its capital
+        subtitle: row.entity_type === 'state'
+          ? row.city
+          : [row.city, row.state].filter(Boolean).join(', ') || null,
+        url: row.entity_type === 'hotel'
+          ? this.getHotelUrl(hotelPages.data?.get(row.entity_id), row.title)
+          : this.getEntityUrl(row.entity_type, row.entity_id, row.title, row.state),
+        rank: Number(row.rank)
+      }));
+
+      const groups: GlobalSearchGroup[] = (Object.keys(GLOBAL_SEARCH_GROUPS) as SearchEntityType[])
+        .map(type => ({
+          type,
+          label: GLOBAL_SEARCH_GROUPS[type],
+          hits: hits.filter(hit => hit.type === type).sort((a, b) => b.rank - a.rank)
+        }))
+        .filter(group => group.hits.length > 0);
+
+      return { success: true, data: groups, totalCount: hits.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to search'
+      };
+    }
+  }
+
+  /**
+   * Find attractions with coordinates to search around
+   * @param text - Part of the attraction or city name
+   * @param limit - Maximum number of attractions
+   */
+  async searchLandmarks(text: string, limit: number = 8): Promise<SearchResponse<Landmark>> {
+    try {
+      if (!text || text.trim().length < 2) {
+        return { success: true, data: [] };
+      }
+
+      const searchText = text.trim();
+      const { data, error } = await supabase
+        .from('attractions')
+        .select('id, name, city, latitude, longitude')
+        .or(`name.ilike.%${searchText}%,city.ilike.%${searchText}%`)
+        .not('latitude', 'is', null)
+        .not('longitude', 'is', null)
+        .limit(limit);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const landmarks: Landmark[] = (data || []).map(attraction => ({
+        id: attraction.id,
+        name: attraction.name || 'Unnamed attraction',
+        city: attraction.city,
+        coordinates: { lat: Number(attraction.latitude), lng: Number(attraction.longitude) }
+      }));
+
+      return { success: true, data: landmarks };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to search attractions'
+      };
     }
   }
 
@@ -579,43 +1200,143 @@ export class SearchEngine {
         data: Array.from(suggestions).slice(0, 10)
       };
 
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: error.message || 'Failed to get suggestions'
+        error: (error as Error).message || 'Failed to get suggestions'
       };
     }
   }
 
   /**
-   * Get popular search terms
+   * Record a search so it counts towards popular searches and search reports
+   * @param event - What was searched and how many results it found
    */
-  async getPopularSearches(): Promise<SearchResponse<string>> {
+  async recordSearch(event: SearchEvent): Promise<{ success: boolean; data?: string; error?: string }> {
     try {
-      // For now, return common search terms
-      // In production, this would be based on actual search analytics
-      const popularSearches = [
-        'Delhi',
-        'Mumbai',
-        'Goa',
-        'Jaipur',
-        'Historical Tours',
-        'Adventure Tours',
-        'Beach Resort',
-        'Heritage Hotel',
-        'Wildlife Tours',
-        'Cultural Tours'
-      ];
+      const { data, error } = await untypedSupabase.rpc('record_search', {
+        p_source: event.source,
+        p_query: event.text?.trim() || '',
+        p_filters: event.filters || {},
+        p_result_count: event.resultCount,
+        p_state: event.state ?? null,
+        p_city: event.city ?? null
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data as string };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to record search'
+      };
+    }
+  }
+
+  /**
+   * Record which result a recorded search led to
+   * @param searchId - ID returned by recordSearch
+   * @param type - Type of the opened result
+   * @param id - ID of the opened result
+   */
+  async recordSearchClick(
+    searchId: string,
+    type: SearchEntityType,
+    id: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await untypedSupabase.rpc('record_search_click', {
+        p_event_id: searchId,
+        p_entity_type: type,
+        p_entity_id: id
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to record search click'
+      };
+    }
+  }
+
+  /**
+   * Get popular search terms from recorded searches that found results
+   * Falls back to common search terms until enough searches have been recorded
+   * @param options - Limit to searches about a state or made in a season
+   */
+  async getPopularSearches(options: {
+    state?: string;
+    season?: SearchSeason;
+    limit?: number;
+  } = {}): Promise<SearchResponse<string>> {
+    try {
+      const limit = options.limit ?? 10;
+      const { data, error } = await untypedSupabase.rpc('popular_searches', {
+        p_state: options.state ?? null,
+        p_season: options.season ?? null,
+        p_limit: limit
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const popularSearches = (data || []).map((row: PopularSearch) => row.query);
 
       return {
         success: true,
-        data: popularSearches
+        data: popularSearches.length > 0 ? popularSearches : DEFAULT_POPULAR_SEARCHES.slice(0, limit)
       };
 
-    } catch (error: any) {
+    } catch (error) {
       return {
         success: false,
-        error: error.message || 'Failed to get popular searches'
+        error: (error as Error).message || 'Failed to get popular searches'
+      };
+    }
+  }
+
+  /**
+   * Get the most frequent searches that found nothing (admins only)
+   * @param days - How many days back to look
+   * @param limit - Maximum number of queries
+   */
+  async getZeroResultSearches(days: number = 30, limit: number = 20): Promise<SearchResponse<ZeroResultSearch>> {
+    try {
+      const { data, error } = await untypedSupabase.rpc('zero_result_searches', {
+        p_days: days,
+        p_limit: limit
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const searches: ZeroResultSearch[] = (data || []).map((row: {
+        query: string;
+        search_count: number | string;
+        user_count: number | string;
+        last_searched_at: string;
+      }) => ({
+        query: row.query,
+        searchCount: Number(row.search_count),
+        userCount: Number(row.user_count),
+        lastSearchedAt: new Date(row.last_searched_at)
+      }));
+
+      return { success: true, data: searches, totalCount: searches.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Failed to get zero-result searches'
       };
     }
   }
@@ -625,7 +1346,7 @@ export class SearchEngine {
    * @param profile - Profile data from database
    * @param query - Search query
    */
-  private calculateRelevanceScore(profile: any, query: SearchQuery): number {
+  private calculateRelevanceScore(profile: ScoredListingRow, query: SearchQuery): number {
     let score = 0;
 
     // Base score for verified profiles
@@ -689,44 +1410,437 @@ export class SearchEngine {
   }
 
   /**
-   * Private helper to apply sorting to database query
-   * @param query - Supabase query builder
-   * @param sortOption - Sort option to apply
+   * Private helper to read the search radius in km, if any
+   * @param query - Search query
+   */
+  private getRadius(query: SearchQuery): number | undefined {
+    const radius = query.location?.radius ?? query.filters.maxDistance;
+    return radius !== undefined && radius > 0 ? radius : undefined;
+  }
+
+  /**
+   * Private helper to look up listing distances when the query has coordinates
+   * @param type - Type of profile (guide or hotel)
+   * @param query - Search query
+   */
+  private async getDistanceMap(
+    type: 'guide' | 'hotel',
+    query: SearchQuery
+  ): Promise<{ data?: Map<string, number>; error?: string }> {
+    const origin = query.location?.coordinates;
+    if (!origin) {
+      return {};
+    }
+
+    const nearby = await this.getNearbyListings(type, origin, this.getRadius(query));
+    if (!nearby.success) {
+      return { error: nearby.error };
+    }
+
+    return { data: new Map((nearby.data || []).map(listing => [listing.id, listing.distance])) };
+  }
+
+  /**
+   * Private helper to build the page a search index entity opens
+   * Attractions, cuisines and festivals open the matching tab of their state's page; hotels use getHotelUrl
+   * @param type - Entity type
+   * @param id - Entity ID
+   * @param title - Entity name
+   * @param state - Name of the state the entity is in, if known
+   */
+  private getEntityUrl(type: SearchEntityType, id: string, title: string, state: string | null): string {
+    const toSlug = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
+
+    switch (type) {
+      case 'guide':
+        return `/guides/${id}`;
+      case 'state':
+        return `/states/${toSlug(title)}`;
+      default: {
+        if (!state) return '/states';
+        const tab = type === 'attraction' ? 'attractions' : type === 'cuisine' ? 'cuisine' : 'festivals';
+        return `/states/${toSlug(state)}?tab=${tab}`;
+      }
+    }
+  }
+
+  /**
+   * Private helper to build the page a hotel partner's search hit opens
+   * Partners that have not listed a hotel yet open the hotel search for their name
+   * @param hotelId - ID of the partner's hotel page, if any
+   * @param title - Partner's company name
+   */
+  private getHotelUrl(hotelId: string | undefined, title: string): string {
+    return hotelId ? `/hotels/${hotelId}` : `/hotels?${new URLSearchParams({ q: title })}`;
+  }
+
+  /**
+   * Private helper to look up the hotel page of each hotel partner listing
+   * Older partner rows carry the user ID as their own ID and have no user_id
+   * @param partnerIds - IDs of the hotel_partners rows
+   */
+  private async getPartnerHotelPageMap(partnerIds: string[]): Promise<{ data?: Map<string, string>; error?: string }> {
+    if (partnerIds.length === 0) {
+      return { data: new Map() };
+    }
+
+    const { data, error } = await supabase
+      .from('hotel_partners')
+      .select('id, user_id')
+      .in('id', partnerIds);
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    const owners = (data || []).map(partner => ({ id: partner.id, owner: partner.user_id || partner.id }));
+    const hotelPages = await this.getHotelPageMap(owners.map(partner => partner.owner));
+    if (hotelPages.error) {
+      return { error: hotelPages.error };
+    }
+
+    const pages = new Map<string, string>();
+    owners.forEach(({ id, owner }) => {
+      const hotelId = hotelPages.data?.get(owner);
+      if (hotelId) {
+        pages.set(id, hotelId);
+      }
+    });
+    return { data: pages };
+  }
+
+  /**
+   * Private helper to look up the hotel page of each hotel partner
+   * A partner with several active hotels links to the one they added first
+   * @param userIds - User IDs of the hotel partners
+   */
+  private async getHotelPageMap(userIds: string[]): Promise<{ data?: Map<string, string>; error?: string }> {
+    if (userIds.length === 0) {
+      return { data: new Map() };
+    }
+
+    const { data, error } = await supabase
+      .from('hotels')
+      .select('id, added_by, created_at')
+      .in('added_by', userIds)
+      .eq('is_active', true);
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    const pages = new Map<string, string>();
+    [...(data || [])]
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .forEach(hotel => {
+        if (!pages.has(hotel.added_by)) {
+          pages.set(hotel.added_by, hotel.id);
+        }
+      });
+    return { data: pages };
+  }
+
+  /**
+   * Private helper to look up text match ranks when the query has search text
+   * Every match is collected, so filters and pages never lose listings ranked below the first page of matches
    * @param type - Type of profile (guide or hotel)
+   * @param query - Search query
    */
-  private applySortingToQuery(query: any, sortOption: SortOption, type: 'guide' | 'hotel'): any {
+  private async getTextMatchMap(
+    type: 'guide' | 'hotel',
+    query: SearchQuery
+  ): Promise<{ data?: Map<string, number>; error?: string }> {
+    if (!query.text || query.text.trim() === '') {
+      return {};
+    }
+
+    const ranks = new Map<string, number>();
+    for (let offset = 0; ; offset += TEXT_MATCH_PAGE_SIZE) {
+      const matches = await this.searchText(query.text, [type], TEXT_MATCH_PAGE_SIZE, offset);
+      if (!matches.success) {
+        return { error: matches.error };
+      }
+
+      const page = matches.data || [];
+      page.forEach(match => ranks.set(match.id, match.rank));
+      if (page.length < TEXT_MATCH_PAGE_SIZE) {
+        return { data: ranks };
+      }
+    }
+  }
+
+  /**
+   * Private helper to get the comparator for a sort option
+   * @param sortOption - Sort option to compare by
+   */
+  private getResultComparator(sortOption: SortOption): (a: SearchResult, b: SearchResult) => number {
     switch (sortOption) {
+      case 'relevance':
+        return (a, b) => {
+          // Primary sort by match quality, secondary by rating
+          const relevanceDiff = (b.relevanceScore || 0) - (a.relevanceScore || 0);
+          if (relevanceDiff !== 0) return relevanceDiff;
+          return b.rating - a.rating;
+        };
+
       case 'rating':
-        // TODO: Add rating column or calculate from reviews
-        return query.order('created_at', { ascending: false });
+        return (a, b) => {
+          // Primary sort by rating, secondary by relevance
+          const ratingDiff = b.rating - a.rating;
+          if (ratingDiff !== 0) return ratingDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
+      
+      case 'distance':
+        return (a, b) => {
+          // 0 km is a real distance (the listing covers the search point), only undefined is unknown
+          const distA = a.distance ?? Infinity;
+          const distB = b.distance ?? Infinity;
+          const distDiff = distA - distB;
+          if (distDiff !== 0) return distDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
+      
+      case 'price-low':
+        return (a, b) => {
+          const priceA = 'hourlyRate' in a ? (a.hourlyRate || Infinity) : 
+                        ('priceRange' in a ? a.priceRange?.min ?? Infinity : Infinity);
+          const priceB = 'hourlyRate' in b ? (b.hourlyRate || Infinity) : 
+                        ('priceRange' in b ? b.priceRange?.min ?? Infinity : Infinity);
+          const priceDiff = priceA === priceB ? 0 : priceA - priceB;
+          if (priceDiff !== 0) return priceDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
+      
+      case 'price-high':
+        return (a, b) => {
+          // Hotels without priced rooms go last, as they do in the database
+          const priceA = 'hourlyRate' in a ? (a.hourlyRate || 0) : 
+                        ('priceRange' in a ? a.priceRange?.max ?? -Infinity : 0);
+          const priceB = 'hourlyRate' in b ? (b.hourlyRate || 0) : 
+                        ('priceRange' in b ? b.priceRange?.max ?? -Infinity : 0);
+          const priceDiff = priceA === priceB ? 0 : priceB - priceA;
+          if (priceDiff !== 0) return priceDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
       
       case 'newest':
-        return query.order('created_at', { ascending: false });
+        return (a, b) => {
+          const timeDiff = b.createdAt.getTime() - a.createdAt.getTime();
+          if (timeDiff !== 0) return timeDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
+      
+      case 'experience':
+        return (a, b) => {
+          const expA = 'experienceYears' in a ? a.experienceYears : 0;
+          const expB = 'experienceYears' in b ? b.experienceYears : 0;
+          const expDiff = expB - expA;
+          if (expDiff !== 0) return expDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
+      
+      case 'popularity':
+        return (a, b) => {
+          const popDiff = b.reviewCount - a.reviewCount;
+          if (popDiff !== 0) return popDiff;
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        };
       
+      default:
+        // Default sort by relevance score
+        return (a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0);
+    }
+  }
+
+  /**
+   * Private helper to sort results by the query's sort option and return the requested page
+   * @param results - All results matching the query
+   * @param query - Search query
+   * @param totalCount - Total matching results
+   * @param cursor - Last result of the previous page, if continuing from one
+   */
+  private paginateSorted(
+    results: SearchResult[],
+    query: SearchQuery,
+    totalCount: number,
+    cursor?: SearchCursor
+  ): SearchResponse<SearchResult> {
+    const sorted = this.sortResults(results, query.sort);
+    let offset = (query.pagination.page - 1) * query.pagination.limit;
+
+    if (cursor) {
+      // Start at the first result sorting after the cursor, even if the cursor's own result has gone
+      const compare = this.getResultComparator(query.sort);
+      const last = {
+        id: cursor.id,
+        ...Object.fromEntries(Object.entries(cursor.values).map(([field, value]) => [field, value ?? undefined]))
+      } as SearchResult;
+      const next = sorted.findIndex(result => (compare(result, last) || compareIds(result.id, last.id)) > 0);
+      offset = next === -1 ? sorted.length : next;
+    }
+
+    const page = sorted.slice(offset, offset + query.pagination.limit);
+    const hasMore = offset + query.pagination.limit < sorted.length;
+    const lastResult = page[page.length - 1];
+
+    return {
+      success: true,
+      data: page,
+      totalCount,
+      page: query.pagination.page,
+      hasMore,
+      nextCursor: hasMore && lastResult
+        ? this.encodeCursor({
+          sort: query.sort,
+          id: lastResult.id,
+          values: Object.fromEntries(RESULT_SORT_FIELDS.map(field => [field, lastResult[field] ?? null]))
+        })
+        : undefined
+    };
+  }
+
+  /**
+   * Private helper to get the columns a sort orders the database query by
+   * @param sortOption - Sort option to apply
+   * @param type - Type of profile (guide or hotel)
+   */
+  private getSortColumns(sortOption: SortOption, type: 'guide' | 'hotel'): SortColumn[] {
+    switch (sortOption) {
+      case 'rating':
+        // Break rating ties in favour of the listing with more reviews
+        return [
+          { column: 'rating_average', ascending: false },
+          { column: 'review_count', ascending: false }
+        ];
+
+      case 'newest':
+        return [{ column: 'created_at', ascending: false }];
+
       case 'experience':
         if (type === 'guide') {
-          return query.order('experience_years', { ascending: false });
+          return [{ column: 'experience_years', ascending: false, nullable: true }];
         }
-        return query.order('created_at', { ascending: false });
-      
+        return [{ column: 'created_at', ascending: false }];
+
       case 'price-low':
         if (type === 'guide') {
-          return query.order('hourly_rate', { ascending: true, nullsFirst: false });
+          return [{ column: 'hourly_rate', ascending: true, nullable: true }];
         }
-        return query.order('created_at', { ascending: false });
-      
+        // Cheapest room first
+        return [{ column: 'price_per_night_min', ascending: true, nullable: true }];
+
       case 'price-high':
         if (type === 'guide') {
-          return query.order('hourly_rate', { ascending: false, nullsFirst: false });
+          return [{ column: 'hourly_rate', ascending: false, nullable: true }];
         }
-        return query.order('created_at', { ascending: false });
-      
+        // Most expensive room first
+        return [{ column: 'price_per_night_max', ascending: false, nullable: true }];
+
       case 'popularity':
-        // TODO: Add popularity metric or review count
-        return query.order('created_at', { ascending: false });
-      
+        return [
+          { column: 'review_count', ascending: false },
+          { column: 'rating_average', ascending: false }
+        ];
+
       default:
-        return query.order('created_at', { ascending: false });
+        return [{ column: 'created_at', ascending: false }];
+    }
+  }
+
+  /**
+   * Private helper to apply sorting to database query
+   * @param query - Supabase query builder
+   * @param sortOption - Sort option to apply
+   * @param type - Type of profile (guide or hotel)
+   */
+  private applySortingToQuery<Q extends SearchableQuery<Q>>(query: Q, sortOption: SortOption, type: 'guide' | 'hotel'): Q {
+    const ordered = this.getSortColumns(sortOption, type).reduce(
+      (ordered, { column, ascending, nullable }) =>
+        ordered.order(column, nullable ? { ascending, nullsFirst: false } : { ascending }),
+      query
+    );
+
+    // IDs break remaining ties so every listing has one place for a cursor to resume after
+    return ordered.order('id', { ascending: true });
+  }
+
+  /**
+   * Private helper to limit a database query to listings sorting after a cursor
+   * @param query - Supabase query builder
+   * @param cursor - Last result of the previous page
+   * @param type - Type of profile (guide or hotel)
+   */
+  private applyCursorToQuery<Q extends SearchableQuery<Q>>(query: Q, cursor: SearchCursor, type: 'guide' | 'hotel'): Q {
+    // Quoted so timestamps and decimals survive PostgREST's filter syntax
+    const quote = (value: string | number) => `"${String(value).replace(/"/g, '\\"')}"`;
+    const within = (equalities: string[], condition: string) =>
+      equalities.length > 0 ? `and(${[...equalities, condition].join(',')})` : condition;
+
+    // A listing comes later if it sorts after the cursor on one column and ties it on every column before
+    const later: string[] = [];
+    const equalities: string[] = [];
+    for (const { column, ascending, nullable } of this.getSortColumns(cursor.sort, type)) {
+      const value = cursor.values[column];
+      if (value === null || value === undefined) {
+        // Nulls sort last, so only other nulls can follow one
+        equalities.push(`${column}.is.null`);
+        continue;
+      }
+
+      const beyond = `${column}.${ascending ? 'gt' : 'lt'}.${quote(value)}`;
+      later.push(within(equalities, nullable ? `or(${beyond},${column}.is.null)` : beyond));
+      equalities.push(`${column}.eq.${quote(value)}`);
+    }
+    later.push(within(equalities, `id.gt.${quote(cursor.id)}`));
+
+    return query.or(later.join(','));
+  }
+
+  /**
+   * Private helper to build the cursor for the page after a database row
+   * @param row - Last row of the page
+   * @param sortOption - Sort option the page was ordered by
+   * @param type - Type of profile (guide or hotel)
+   */
+  private getQueryCursor(row: { id: string }, sortOption: SortOption, type: 'guide' | 'hotel'): string {
+    return this.encodeCursor({
+      sort: sortOption,
+      id: row.id,
+      values: Object.fromEntries(
+        this.getSortColumns(sortOption, type).map(({ column }) => [column, row[column] ?? null])
+      )
+    });
+  }
+
+  /**
+   * Private helper to encode a cursor for passing back as pagination.cursor
+   * @param cursor - Position to continue after
+   */
+  private encodeCursor(cursor: SearchCursor): string {
+    return btoa(JSON.stringify(cursor));
+  }
+
+  /**
+   * Private helper to read the query's cursor, if any
+   * @param query - Search query
+   */
+  private parseCursor(query: SearchQuery): { data?: SearchCursor; error?: string } {
+    if (!query.pagination.cursor) {
+      return {};
+    }
+
+    try {
+      const cursor = JSON.parse(atob(query.pagination.cursor)) as SearchCursor;
+
+      // A cursor only continues the sort it was made for
+      if (cursor.sort !== query.sort || typeof cursor.id !== 'string' || !cursor.values) {
+        return { error: 'Invalid pagination cursor' };
+      }
+
+      return { data: cursor };
+    } catch (error) {
+      return { error: 'Invalid pagination cursor' };
     }
   }
 }
@@ -5,6 +5,26 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { generateId } from '@/utils/db.utils';
+import { SUPABASE_CONFIG, ERROR_MESSAGES } from '@/config/supabase.config';
+
+/**
+ * Check a file against the allowed types and size limit before uploading
+ */
+export function validateFile(
+  file: File,
+  allowedTypes: string[] = SUPABASE_CONFIG.STORAGE.ALLOWED_FILE_TYPES,
+  maxSize: number = SUPABASE_CONFIG.STORAGE.MAX_FILE_SIZE
+): { valid: boolean; error?: string } {
+  if (!allowedTypes.includes(file.type)) {
+    return { valid: false, error: `${ERROR_MESSAGES.STORAGE.INVALID_FILE_TYPE}: ${file.name}` };
+  }
+
+  if (file.size > maxSize) {
+    return { valid: false, error: `${ERROR_MESSAGES.STORAGE.FILE_TOO_LARGE}: ${file.name}` };
+  }
+
+  return { valid: true };
+}
 
 /**
  * Upload a file to Supabase Storage
@@ -218,6 +238,7 @@ export async function getFileMetadata(
 }
 
 export default {
+  validateFile,
   uploadFile,
   getFileUrl,
   deleteFile,
@@ -0,0 +1,289 @@
+/**
+ * Offline Itinerary Generator Property Tests
+ * Tests for planning itineraries from our own catalog without the AI provider
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { generateOfflineItinerary, getFare, parseOpeningHours } from '../itinerary.generator.ts';
+import { checkReferences, type CatalogAttraction, type ItineraryCatalog } from '../itinerary.catalog.ts';
+import { getDayTotal, validateItinerary, type TripPreferences } from '../itinerary.schema.ts';
+
+const CITIES: Record<string, { lat: number; lng: number }> = {
+  Jaipur: { lat: 26.91, lng: 75.79 },
+  Udaipur: { lat: 24.58, lng: 73.71 },
+  Jodhpur: { lat: 26.24, lng: 73.02 }
+};
+
+const CATEGORIES = ['Fort', 'Palace', 'Temple', 'Lake', 'Market', 'Museum', 'Garden'];
+
+const attractionArb: fc.Arbitrary<CatalogAttraction> = fc.record({
+  id: fc.uuid(),
+  name: fc.constantFrom('Amber Fort', 'City Palace', 'Lake Pichola', 'Johari Bazaar', 'Birla Mandir', 'Mehrangarh', 'Sajjangarh'),
+  city: fc.constantFrom(...Object.keys(CITIES)),
+  category: fc.constantFrom(...CATEGORIES),
+  description: fc.option(fc.constant('A well-loved local sight'), { nil: null }),
+  entryFee: fc.option(fc.integer({ min: 0, max: 1500 }), { nil: null }),
+  openingHours: fc.option(fc.constantFrom('9:00 AM - 5:00 PM', '10:30 AM - 6:00 PM', '6 PM - 10 PM', 'Open all day'), { nil: null }),
+  bestTimeToVisit: fc.option(fc.constantFrom('Early morning', 'Sunset', 'October to March'), { nil: null }),
+  latitude: fc.constant(null),
+  longitude: fc.constant(null)
+}).chain(attraction => fc.boolean().map(mapped => ({
+  ...attraction,
+  // Unique names let a test tell which attraction an activity visits
+  name: `${attraction.name} ${attraction.id}`,
+  latitude: mapped ? CITIES[attraction.city!].lat : null,
+  longitude: mapped ? CITIES[attraction.city!].lng : null
+})));
+
+const catalogArb: fc.Arbitrary<ItineraryCatalog> = fc.record({
+  attractions: fc.uniqueArray(attractionArb, { selector: attraction => attraction.id, maxLength: 30 }),
+  cuisines: fc.uniqueArray(fc.record({
+    id: fc.uuid(),
+    name: fc.constantFrom('Dal Baati Churma', 'Laal Maas', 'Ghevar', 'Ker Sangri'),
+    description: fc.constant(null)
+  }), { selector: cuisine => cuisine.id, maxLength: 6 }),
+  hotels: fc.uniqueArray(fc.record({
+    id: fc.uuid(),
+    name: fc.constantFrom('Haveli Stay', 'Lake View Hotel', 'Desert Palace'),
+    city: fc.constantFrom(...Object.keys(CITIES)),
+    starRating: fc.option(fc.integer({ min: 1, max: 5 }), { nil: null }),
+    pricePerNightMin: fc.option(fc.integer({ min: 800, max: 40000 }), { nil: null })
+  }), { selector: hotel => hotel.id, maxLength: 8 }),
+  guides: fc.uniqueArray(fc.record({
+    id: fc.uuid(),
+    name: fc.constantFrom('Ramesh Sharma', 'Priya Rathore', 'Desert Trails Tours'),
+    city: fc.option(fc.constantFrom(...Object.keys(CITIES)), { nil: null }),
+    specialties: fc.uniqueArray(fc.constantFrom('Fort', 'Palace', 'Temple', 'Food walks'), { maxLength: 2 }),
+    languages: fc.constant(['English', 'Hindi']),
+    hourlyRate: fc.option(fc.integer({ min: 300, max: 3000 }), { nil: null })
+  }), { selector: guide => guide.id, maxLength: 6 }),
+  routes: fc.array(fc.record({
+    fromCity: fc.constantFrom(...Object.keys(CITIES)),
+    toCity: fc.constantFrom(...Object.keys(CITIES)),
+    transportType: fc.constantFrom('Train', 'Bus', 'Flight'),
+    costRange: fc.option(fc.constantFrom('₹300 - ₹1,200', '₹2,500 - ₹6,000', 'Varies'), { nil: null }),
+    duration: fc.option(fc.constant('6 hours'), { nil: null })
+  }), { maxLength: 6 })
+});
+
+const preferencesArb: fc.Arbitrary<TripPreferences> = fc.record({
+  destination: fc.constant('Rajasthan'),
+  duration: fc.integer({ min: 1, max: 10 }),
+  budget: fc.constantFrom('budget', 'moderate', 'luxury'),
+  interests: fc.uniqueArray(fc.constantFrom('history', 'nature', 'food', 'spiritual', 'photography'), { maxLength: 3 }),
+  travelStyle: fc.constantFrom('cultural', 'adventure', 'relaxation', 'family')
+});
+
+// Same catalog, listed in a different order
+const shuffle = <T,>(items: T[], seed: number) =>
+  items.map((item, index) => ({ item, key: (index * 7919 + seed) % 104729 })).sort((a, b) => a.key - b.key).map(({ item }) => item);
+
+const findAttraction = (catalog: ItineraryCatalog, name: string) =>
+  catalog.attractions.find(attraction => attraction.name === name);
+
+describe('Offline Itinerary Generator Property Tests', () => {
+  /**
+   * Property 1: Deterministic Plans
+   * For any preferences and catalog, the same itinerary is planned however the catalog rows are ordered
+   */
+  describe('Property 1: Deterministic Plans', () => {
+    it('should plan the same itinerary from the same inputs', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, fc.nat(), (preferences, catalog, seed) => {
+        const shuffled: ItineraryCatalog = {
+          attractions: shuffle(catalog.attractions, seed),
+          cuisines: shuffle(catalog.cuisines, seed),
+          hotels: shuffle(catalog.hotels, seed),
+          guides: shuffle(catalog.guides, seed),
+          routes: catalog.routes
+        };
+
+        expect(generateOfflineItinerary(preferences, shuffled)).toEqual(generateOfflineItinerary(preferences, catalog));
+      }), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 2: Valid Itineraries
+   * For any preferences and catalog, even an empty one, the plan fits the itinerary schema with one day per trip day
+   */
+  describe('Property 2: Valid Itineraries', () => {
+    it('should plan one numbered day per trip day with totals that add up', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, (preferences, catalog) => {
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+
+        expect(validateItinerary(itinerary).success).toBe(true);
+        expect(itinerary.source).toBe('offline');
+        expect(itinerary.days.map(day => day.day)).toEqual(itinerary.days.map((_, index) => index + 1));
+        expect(itinerary.days).toHaveLength(preferences.duration);
+        expect(itinerary.totalEstimatedCost).toBe(itinerary.days.reduce((total, day) => total + getDayTotal(day), 0));
+        itinerary.days.forEach(day => expect(day.activities.length).toBeGreaterThan(0));
+        // No stay is booked for the night after the trip ends
+        expect(itinerary.days[itinerary.days.length - 1].accommodation).toBeUndefined();
+      }), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 3: Catalog Attractions
+   * For any catalog, activities are catalog attractions, each visited at most once, at most three a day
+   */
+  describe('Property 3: Catalog Attractions', () => {
+    it('should visit each attraction at most once', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, (preferences, catalog) => {
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+        const visits = itinerary.days.flatMap(day => day.activities)
+          .map(activity => findAttraction(catalog, activity.activity))
+          .filter(Boolean);
+        const available = Math.min(catalog.attractions.length, preferences.duration * (preferences.travelStyle === 'relaxation' ? 2 : 3));
+
+        expect(visits).toHaveLength(available);
+        expect(new Set(visits).size).toBe(visits.length);
+        itinerary.days.forEach(day => expect(day.activities.length).toBeLessThanOrEqual(3));
+      }), { numRuns: 100 });
+    });
+
+    it('should prefer attractions that match the traveller\'s interests', () => {
+      fc.assert(fc.property(catalogArb, fc.integer({ min: 1, max: 3 }), (catalog, duration) => {
+        const preferences: TripPreferences = { destination: 'Rajasthan', duration, budget: 'moderate', interests: ['spiritual'], travelStyle: 'cultural' };
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+        const temples = catalog.attractions.filter(attraction => attraction.category === 'Temple');
+
+        // Temples fill the plan before anything else
+        const templesVisited = itinerary.days.flatMap(day => day.activities)
+          .filter(activity => findAttraction(catalog, activity.activity)?.category === 'Temple');
+        expect(templesVisited).toHaveLength(Math.min(temples.length, duration * 3));
+      }), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 4: Opening Hours
+   * For any attraction with opening hours, the visit does not start before it opens
+   */
+  describe('Property 4: Opening Hours', () => {
+    it('should not schedule a visit before the attraction opens', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, (preferences, catalog) => {
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+
+        itinerary.days.flatMap(day => day.activities).forEach(activity => {
+          const attraction = findAttraction(catalog, activity.activity);
+          const hours = parseOpeningHours(attraction?.openingHours ?? null);
+          if (hours) {
+            expect(parseOpeningHours(`${activity.time} - ${activity.time}`)!.opens).toBeGreaterThanOrEqual(hours.opens);
+          }
+        });
+      }), { numRuns: 100 });
+    });
+
+    it('should read common opening hours formats', () => {
+      expect(parseOpeningHours('9:00 AM - 5:30 PM')).toEqual({ opens: 540, closes: 1050 });
+      expect(parseOpeningHours('6 PM - 10 PM')).toEqual({ opens: 1080, closes: 1320 });
+      expect(parseOpeningHours('12:00 PM - 12:00 AM')).toEqual({ opens: 720, closes: 0 });
+      expect(parseOpeningHours('Open all day')).toBeNull();
+      expect(parseOpeningHours(null)).toBeNull();
+    });
+  });
+
+  /**
+   * Property 5: Budget Levels
+   * For any catalog, a luxury plan never costs less than a budget plan for the same trip
+   */
+  describe('Property 5: Budget Levels', () => {
+    it('should cost more for a higher budget', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, (preferences, catalog) => {
+        const budget = generateOfflineItinerary({ ...preferences, budget: 'budget' }, catalog);
+        const luxury = generateOfflineItinerary({ ...preferences, budget: 'luxury' }, catalog);
+
+        expect(luxury.totalEstimatedCost).toBeGreaterThanOrEqual(budget.totalEstimatedCost);
+      }), { numRuns: 100 });
+    });
+
+    it('should take the low, middle or high fare of a route by budget', () => {
+      expect(getFare('₹300 - ₹1,200', 'budget')).toBe(300);
+      expect(getFare('₹300 - ₹1,200', 'moderate')).toBe(750);
+      expect(getFare('₹300 - ₹1,200', 'luxury')).toBe(1200);
+      expect(getFare('Varies', 'budget')).toBeNull();
+    });
+  });
+
+  /**
+   * Property 6: Travel Between Cities
+   * When the plan moves to another city, the day's transport is a catalog route between the two when there is one
+   */
+  describe('Property 6: Travel Between Cities', () => {
+    it('should use the catalog route between consecutive cities', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, (preferences, catalog) => {
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+
+        itinerary.days.slice(1).forEach((day, index) => {
+          const from = itinerary.days[index].location;
+          if (from === day.location) {
+            expect(day.transport?.route).toBe(`Around ${day.location}`);
+            return;
+          }
+          const connects = catalog.routes.some(route =>
+            (route.fromCity === from && route.toCity === day.location) || (route.fromCity === day.location && route.toCity === from));
+          expect(day.transport?.route.startsWith(`${from} to ${day.location}`)).toBe(true);
+          if (connects) {
+            expect(['Train', 'Bus', 'Flight']).toContain(day.transport?.mode);
+          }
+        });
+      }), { numRuns: 100 });
+    });
+  });
+
+  /**
+   * Property 7: Catalog References
+   * For any catalog, the plan refers to attractions, hotels, guides and cuisines only by IDs the catalog lists
+   */
+  describe('Property 7: Catalog References', () => {
+    it('should refer to catalog entities by their IDs', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, (preferences, catalog) => {
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+
+        expect(checkReferences(itinerary, catalog).issues).toEqual([]);
+        itinerary.days.flatMap(day => day.activities).forEach(activity => {
+          const attraction = findAttraction(catalog, activity.activity);
+          expect(activity.attractionId).toBe(attraction?.id);
+          // Guides are suggested where they work
+          const guide = catalog.guides.find(candidate => candidate.id === activity.guideId);
+          if (guide) {
+            expect(guide.city).toBe(attraction?.city);
+          }
+        });
+        itinerary.days.forEach(day => {
+          if (day.accommodation && catalog.hotels.length > 0) {
+            expect(catalog.hotels.map(hotel => hotel.id)).toContain(day.accommodation.hotelId);
+          }
+        });
+      }), { numRuns: 100 });
+    });
+
+    it('should leave out IDs the catalog does not list', () => {
+      fc.assert(fc.property(preferencesArb, catalogArb, fc.uuid(), (preferences, catalog, unknownId) => {
+        const itinerary = generateOfflineItinerary(preferences, catalog);
+        fc.pre(!catalog.hotels.some(hotel => hotel.id === unknownId));
+        const firstDay = itinerary.days[0];
+        const invented = {
+          ...itinerary,
+          days: [
+            {
+              ...firstDay,
+              activities: firstDay.activities.map(activity => ({ ...activity, guideId: unknownId })),
+              accommodation: { name: 'Made-up Hotel', type: 'luxury', cost: 5000, hotelId: unknownId }
+            },
+            ...itinerary.days.slice(1)
+          ]
+        };
+
+        const result = checkReferences(invented, catalog);
+        expect(result.issues).toContain(`days.0.accommodation.hotelId: "${unknownId}" is not in the hotels list`);
+        expect(result.issues).toHaveLength(firstDay.activities.length + 1);
+        expect(result.itinerary.days[0].accommodation).toEqual({ name: 'Made-up Hotel', type: 'luxury', cost: 5000, hotelId: undefined });
+        result.itinerary.days[0].activities.forEach(activity => expect(activity.guideId).toBeUndefined());
+        expect(result.itinerary.days.slice(1)).toEqual(itinerary.days.slice(1));
+      }), { numRuns: 100 });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Itinerary Catalog
+ * Our attractions, cuisines, hotels, tour guides and routes for a destination, which itineraries refer to by ID
+ */
+
+import type { Itinerary } from './itinerary.schema.ts';
+
+export interface CatalogAttraction {
+  id: string;
+  name: string;
+  city: string | null;
+  category: string | null;
+  description: string | null;
+  entryFee: number | null;
+  openingHours: string | null;
+  bestTimeToVisit: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface CatalogCuisine {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface CatalogHotel {
+  id: string;
+  name: string;
+  city: string | null;
+  starRating: number | null;
+  pricePerNightMin: number | null;
+}
+
+export interface CatalogGuide {
+  id: string;
+  name: string;
+  city: string | null;
+  specialties: string[];
+  languages: string[];
+  hourlyRate: number | null;
+}
+
+export interface CatalogRoute {
+  fromCity: string;
+  toCity: string;
+  transportType: string | null;
+  costRange: string | null;
+  duration: string | null;
+}
+
+// Everything an itinerary is planned from, for one destination
+export interface ItineraryCatalog {
+  attractions: CatalogAttraction[];
+  cuisines: CatalogCuisine[];
+  hotels: CatalogHotel[];
+  guides: CatalogGuide[];
+  routes: CatalogRoute[];
+}
+
+export interface ReferenceCheckResult {
+  // The itinerary with IDs that are not in the catalog left out
+  itinerary: Itinerary;
+  // Each unknown ID, as "path: message"
+  issues: string[];
+}
+
+// Rows of each kind listed for the model, so the prompt stays a manageable size
+export const MAX_PROMPT_ROWS = 60;
+
+/**
+ * List the catalog with IDs for the model to plan from
+ * @param catalog - Catalog for the destination
+ */
+export function describeCatalog(catalog: ItineraryCatalog): string {
+  const section = <T,>(title: string, rows: T[], describe: (row: T) => (string | null | false)[]) =>
+    rows.length === 0
+      ? `${title}: none listed`
+      : `${title}:\n` + rows.slice(0, MAX_PROMPT_ROWS)
+        .map(row => `- ${describe(row).filter(Boolean).join(' | ')}`)
+        .join('\n');
+
+  return [
+    section('Attractions (attractionId)', catalog.attractions, attraction => [
+      attraction.id,
+      attraction.name,
+      attraction.city,
+      attraction.category,
+      attraction.entryFee !== null && `entry ₹${attraction.entryFee}`,
+      attraction.openingHours && `open ${attraction.openingHours}`
+    ]),
+    section('Hotels (hotelId)', catalog.hotels, hotel => [
+      hotel.id,
+      hotel.name,
+      hotel.city,
+      hotel.starRating !== null && `${hotel.starRating}-star`,
+      hotel.pricePerNightMin !== null && `from ₹${hotel.pricePerNightMin}/night`
+    ]),
+    section('Tour guides (guideId)', catalog.guides, guide => [
+      guide.id,
+      guide.name,
+      guide.city,
+      guide.specialties.length > 0 && guide.specialties.join(', '),
+      guide.languages.length > 0 && `speaks ${guide.languages.join(', ')}`,
+      guide.hourlyRate !== null && `₹${guide.hourlyRate}/hour`
+    ]),
+    section('Cuisines (cuisineId)', catalog.cuisines, cuisine => [cuisine.id, cuisine.name])
+  ].join('\n\n');
+}
+
+/**
+ * Find IDs in an itinerary that are not in the catalog, and leave them out
+ * @param itinerary - Validated itinerary
+ * @param catalog - Catalog the itinerary was planned from
+ */
+export function checkReferences(itinerary: Itinerary, catalog: ItineraryCatalog): ReferenceCheckResult {
+  const issues: string[] = [];
+  const known = (ids: { id: string }[]) => new Set(ids.map(row => row.id));
+  const attractions = known(catalog.attractions);
+  const hotels = known(catalog.hotels);
+  const guides = known(catalog.guides);
+  const cuisines = known(catalog.cuisines);
+
+  const check = (id: string | undefined, ids: Set<string>, path: string, list: string) => {
+    if (id === undefined || ids.has(id)) {
+      return id;
+    }
+    issues.push(`${path}: "${id}" is not in the ${list} list`);
+    return undefined;
+  };
+
+  const days = itinerary.days.map((day, dayIndex) => {
+    const path = `days.${dayIndex}`;
+    const meals = { ...day.meals };
+    (['breakfast', 'lunch', 'dinner'] as const).forEach(meal => {
+      const details = meals[meal];
+      if (details) {
+        meals[meal] = { ...details, cuisineId: check(details.cuisineId, cuisines, `${path}.meals.${meal}.cuisineId`, 'cuisines') };
+      }
+    });
+
+    return {
+      ...day,
+      activities: day.activities.map((activity, index) => ({
+        ...activity,
+        attractionId: check(activity.attractionId, attractions, `${path}.activities.${index}.attractionId`, 'attractions'),
+        guideId: check(activity.guideId, guides, `${path}.activities.${index}.guideId`, 'tour guides')
+      })),
+      meals,
+      accommodation: day.accommodation && {
+        ...day.accommodation,
+        hotelId: check(day.accommodation.hotelId, hotels, `${path}.accommodation.hotelId`, 'hotels')
+      }
+    };
+  });
+
+  return { itinerary: { ...itinerary, days }, issues };
+}
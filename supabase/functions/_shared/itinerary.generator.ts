@@ -0,0 +1,367 @@
+/**
+ * Offline Itinerary Generator
+ * Builds itineraries from our own attractions, cuisines, hotels, tour guides and transport routes, without the AI provider.
+ * The same preferences and catalog always give the same itinerary.
+ */
+
+import {
+  getDayTotal,
+  type Itinerary,
+  type ItineraryActivity,
+  type ItineraryDay,
+  type ItineraryMeal,
+  type TripPreferences
+} from './itinerary.schema.ts';
+import type {
+  CatalogAttraction,
+  CatalogCuisine,
+  CatalogGuide,
+  CatalogHotel,
+  CatalogRoute,
+  ItineraryCatalog
+} from './itinerary.catalog.ts';
+
+export type BudgetLevel = 'budget' | 'moderate' | 'luxury';
+
+// Words in an attraction's category, name or description that match each planner interest
+const INTEREST_KEYWORDS: Record<string, string[]> = {
+  history: ['fort', 'palace', 'museum', 'heritage', 'monument', 'historic', 'tomb', 'ruins', 'archaeolog'],
+  nature: ['park', 'garden', 'lake', 'hill', 'waterfall', 'wildlife', 'national park', 'sanctuary', 'valley', 'nature'],
+  beaches: ['beach', 'coast', 'island', 'backwater', 'sea'],
+  food: ['market', 'bazaar', 'food', 'spice', 'street'],
+  photography: ['viewpoint', 'sunset', 'sunrise', 'lake', 'palace', 'scenic'],
+  adventure: ['trek', 'rafting', 'adventure', 'peak', 'camp', 'safari', 'dive', 'paragliding'],
+  spiritual: ['temple', 'mosque', 'church', 'gurudwara', 'monastery', 'ashram', 'shrine', 'ghat', 'spiritual']
+};
+
+const TIME_SLOTS = ['09:00 AM', '12:00 PM', '03:00 PM', '05:30 PM'];
+
+const MEAL_COSTS: Record<BudgetLevel, { breakfast: number; lunch: number; dinner: number }> = {
+  budget: { breakfast: 150, lunch: 300, dinner: 400 },
+  moderate: { breakfast: 300, lunch: 600, dinner: 900 },
+  luxury: { breakfast: 800, lunch: 1500, dinner: 2500 }
+};
+
+// Nightly rate assumed for hotels without room rates
+const STAY_COSTS: Record<BudgetLevel, number> = { budget: 1500, moderate: 4000, luxury: 12000 };
+
+const LOCAL_TRANSPORT: Record<BudgetLevel, { mode: string; cost: number }> = {
+  budget: { mode: 'Auto-rickshaw and local bus', cost: 300 },
+  moderate: { mode: 'Taxi', cost: 1000 },
+  luxury: { mode: 'Private car with driver', cost: 3000 }
+};
+
+const PACKING_LIST: Record<string, string[]> = {
+  history: ['Comfortable walking shoes'],
+  nature: ['Insect repellent', 'Reusable water bottle'],
+  beaches: ['Sunscreen', 'Swimwear'],
+  photography: ['Camera and spare batteries'],
+  adventure: ['Sturdy shoes', 'Light rain jacket'],
+  spiritual: ['Clothes covering shoulders and knees', 'Socks for temple floors']
+};
+
+/**
+ * Plan an itinerary from the catalog for the traveller's preferences
+ * @param preferences - What the traveller asked for
+ * @param catalog - Attractions, cuisines, hotels, tour guides and routes in the destination
+ */
+export function generateOfflineItinerary(preferences: TripPreferences, catalog: ItineraryCatalog): Itinerary {
+  const budget = getBudgetLevel(preferences.budget);
+  const perDay = preferences.travelStyle === 'relaxation' ? 2 : 3;
+
+  const ranked = [...catalog.attractions]
+    .sort(byId)
+    .map(attraction => ({ attraction, score: getInterestScore(attraction, preferences.interests) }))
+    .sort((a, b) => b.score - a.score || compareText(a.attraction.name, b.attraction.name))
+    .map(({ attraction }) => attraction);
+  const route = orderByDistance(ranked.slice(0, preferences.duration * perDay));
+
+  const cuisines = [...catalog.cuisines].sort(byId);
+  const hotels = [...catalog.hotels].sort(byId);
+  const guides = [...catalog.guides].sort(byId);
+  const days: ItineraryDay[] = [];
+
+  for (let index = 0; index < preferences.duration; index++) {
+    const attractions = sortByTimeOfDay(route.slice(index * perDay, (index + 1) * perDay));
+    const city = getMainCity(attractions) || days[index - 1]?.location || preferences.destination;
+    const isLastDay = index === preferences.duration - 1;
+
+    days.push({
+      day: index + 1,
+      location: city,
+      theme: getTheme(attractions),
+      activities: attractions.length > 0
+        ? attractions.map((attraction, slot) => toActivity(attraction, TIME_SLOTS[slot], guides))
+        : [getLeisureActivity(city)],
+      meals: getMeals(cuisines, index, city, budget),
+      accommodation: isLastDay ? undefined : getAccommodation(hotels, city, budget),
+      transport: getTransport(catalog.routes, days[index - 1]?.location, city, budget)
+    });
+  }
+
+  const cities = [...new Set(days.map(day => day.location))];
+  return {
+    title: `${preferences.duration} Days in ${preferences.destination}`,
+    summary: `A ${budget} ${preferences.travelStyle} trip through ${cities.join(', ')}` +
+      (preferences.interests.length > 0 ? `, planned around ${preferences.interests.join(', ')}.` : '.'),
+    totalEstimatedCost: days.reduce((total, day) => total + getDayTotal(day), 0),
+    days,
+    packingList: getPackingList(preferences.interests),
+    culturalNotes: getCulturalNotes(preferences.interests),
+    source: 'offline'
+  };
+}
+
+/**
+ * Read the cheapest, middle or dearest fare from a range such as "₹500 - ₹1,500"
+ * @param costRange - Fare range as stored on the route
+ * @param budget - Budget level choosing the fare
+ */
+export function getFare(costRange: string | null, budget: BudgetLevel): number | null {
+  const amounts = (costRange || '').match(/\d[\d,]*(\.\d+)?/g)?.map(amount => parseFloat(amount.replace(/,/g, ''))) || [];
+  if (amounts.length === 0) {
+    return null;
+  }
+
+  const low = Math.min(...amounts);
+  const high = Math.max(...amounts);
+  if (budget === 'budget') return low;
+  if (budget === 'luxury') return high;
+  return Math.round((low + high) / 2);
+}
+
+/**
+ * Read opening and closing times, in minutes after midnight, from text such as "9:00 AM - 5:30 PM"
+ * @param openingHours - Opening hours as stored on the attraction
+ */
+export function parseOpeningHours(openingHours: string | null): { opens: number; closes: number } | null {
+  const times = [...(openingHours || '').matchAll(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/gi)].map(match => {
+    const hours = parseInt(match[1]) % 12 + (match[3].toLowerCase() === 'pm' ? 12 : 0);
+    return hours * 60 + parseInt(match[2] || '0');
+  });
+  return times.length >= 2 ? { opens: times[0], closes: times[1] } : null;
+}
+
+function getBudgetLevel(budget: string): BudgetLevel {
+  return budget === 'budget' || budget === 'luxury' ? budget : 'moderate';
+}
+
+// Plain code-point order, so the result does not depend on the runtime's locale
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function byId<T extends { id: string }>(a: T, b: T): number {
+  return compareText(a.id, b.id);
+}
+
+function getInterestScore(attraction: CatalogAttraction, interests: string[]): number {
+  const text = [attraction.category, attraction.name, attraction.description].join(' ').toLowerCase();
+  const matches = interests.filter(interest =>
+    (INTEREST_KEYWORDS[interest] || [interest]).some(keyword => text.includes(keyword))
+  ).length;
+  // Attractions we can place on a map make better routes
+  return matches * 10 + (hasCoordinates(attraction) ? 1 : 0);
+}
+
+function hasCoordinates(attraction: CatalogAttraction): boolean {
+  return attraction.latitude !== null && attraction.longitude !== null;
+}
+
+// Distance in km, or by city when either attraction has no coordinates
+function getDistance(a: CatalogAttraction, b: CatalogAttraction): number {
+  if (!hasCoordinates(a) || !hasCoordinates(b)) {
+    return a.city && a.city === b.city ? 0 : 1000;
+  }
+
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(Number(b.latitude) - Number(a.latitude));
+  const dLng = toRadians(Number(b.longitude) - Number(a.longitude));
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(Number(a.latitude))) * Math.cos(toRadians(Number(b.latitude))) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// Visit the best match first, then always the nearest remaining attraction, so days stay in one area
+function orderByDistance(attractions: CatalogAttraction[]): CatalogAttraction[] {
+  const remaining = [...attractions];
+  const ordered: CatalogAttraction[] = [];
+  let current = remaining.shift();
+
+  while (current) {
+    ordered.push(current);
+    let nearest = -1;
+    remaining.forEach((attraction, index) => {
+      if (nearest === -1 || getDistance(current!, attraction) < getDistance(current!, remaining[nearest])) {
+        nearest = index;
+      }
+    });
+    current = nearest === -1 ? undefined : remaining.splice(nearest, 1)[0];
+  }
+
+  return ordered;
+}
+
+// Morning sights first and sunset spots last, then by opening time
+function sortByTimeOfDay(attractions: CatalogAttraction[]): CatalogAttraction[] {
+  const preferredTime = (attraction: CatalogAttraction) => {
+    const text = (attraction.bestTimeToVisit || '').toLowerCase();
+    if (/morning|sunrise|early/.test(text)) return 0;
+    if (/evening|sunset|night/.test(text)) return 2;
+    return 1;
+  };
+  const opens = (attraction: CatalogAttraction) => parseOpeningHours(attraction.openingHours)?.opens ?? 0;
+
+  return [...attractions].sort((a, b) => preferredTime(a) - preferredTime(b) || opens(a) - opens(b));
+}
+
+function toActivity(attraction: CatalogAttraction, slot: string, guides: CatalogGuide[]): ItineraryActivity {
+  const hours = parseOpeningHours(attraction.openingHours);
+  const slotStart = parseOpeningHours(`${slot} - ${slot}`)!.opens;
+  const tips = [
+    attraction.openingHours && `Open ${attraction.openingHours}`,
+    attraction.bestTimeToVisit && `Best visited: ${attraction.bestTimeToVisit}`
+  ].filter(Boolean).join('. ');
+
+  return {
+    // Arrive at opening time when the slot is earlier
+    time: hours && hours.opens > slotStart ? formatTime(hours.opens) : slot,
+    activity: attraction.name,
+    description: attraction.description || [attraction.category, attraction.city].filter(Boolean).join(' in '),
+    duration: '2 hours',
+    cost: Number(attraction.entryFee) || 0,
+    tips: tips || undefined,
+    attractionId: attraction.id,
+    guideId: getGuide(guides, attraction)?.id
+  };
+}
+
+// A guide in the attraction's city, preferring one whose specialties match what it is
+function getGuide(guides: CatalogGuide[], attraction: CatalogAttraction): CatalogGuide | undefined {
+  const inCity = guides.filter(guide => attraction.city && guide.city?.toLowerCase() === attraction.city.toLowerCase());
+  const text = [attraction.category, attraction.name].join(' ').toLowerCase();
+  return inCity.find(guide => guide.specialties.some(specialty => text.includes(specialty.toLowerCase()))) || inCity[0];
+}
+
+function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${String(hours % 12 || 12).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+function getLeisureActivity(city: string): ItineraryActivity {
+  return {
+    time: TIME_SLOTS[0],
+    activity: `Explore ${city} at leisure`,
+    description: 'Free time to wander local neighbourhoods and markets',
+    duration: 'Full day',
+    cost: 0
+  };
+}
+
+// The city most of the day's attractions are in
+function getMainCity(attractions: CatalogAttraction[]): string | null {
+  const counts = new Map<string, number>();
+  attractions.forEach(attraction => {
+    if (attraction.city) counts.set(attraction.city, (counts.get(attraction.city) || 0) + 1);
+  });
+  let main: string | null = null;
+  counts.forEach((count, city) => {
+    if (!main || count > counts.get(main)!) main = city;
+  });
+  return main;
+}
+
+function getTheme(attractions: CatalogAttraction[]): string {
+  const categories = [...new Set(attractions.map(attraction => attraction.category).filter(Boolean))] as string[];
+  return categories.length > 0 ? categories.slice(0, 2).join(' & ') : 'Leisure and local life';
+}
+
+// Dishes are served in turn, so each meal of the trip tries something new while the list lasts
+function getMeals(cuisines: CatalogCuisine[], dayIndex: number, city: string, budget: BudgetLevel): ItineraryDay['meals'] {
+  const costs = MEAL_COSTS[budget];
+  const meal = (slot: number, cost: number): ItineraryMeal => {
+    const cuisine = cuisines.length > 0 ? cuisines[(dayIndex * 3 + slot) % cuisines.length] : undefined;
+    return { place: `Local restaurant in ${city}`, dish: cuisine?.name || 'Regional thali', cost, cuisineId: cuisine?.id };
+  };
+  return { breakfast: meal(0, costs.breakfast), lunch: meal(1, costs.lunch), dinner: meal(2, costs.dinner) };
+}
+
+function getAccommodation(hotels: CatalogHotel[], city: string, budget: BudgetLevel): ItineraryDay['accommodation'] {
+  const inCity = hotels.filter(hotel => hotel.city?.toLowerCase() === city.toLowerCase());
+  const candidates = inCity.length > 0 ? inCity : hotels;
+  if (candidates.length === 0) {
+    return { name: `Hotel in ${city}`, type: budget, cost: STAY_COSTS[budget] };
+  }
+
+  // Budget trips take the cheapest stay, luxury trips the best rated, moderate trips the closest to three stars
+  const price = (hotel: CatalogHotel) => hotel.pricePerNightMin ?? STAY_COSTS[budget];
+  const stars = (hotel: CatalogHotel) => hotel.starRating ?? 0;
+  const ranked = [...candidates].sort((a, b) => {
+    if (budget === 'budget') return price(a) - price(b);
+    if (budget === 'luxury') return stars(b) - stars(a) || price(b) - price(a);
+    return Math.abs(stars(a) - 3) - Math.abs(stars(b) - 3) || price(a) - price(b);
+  });
+  const hotel = ranked[0];
+
+  return {
+    name: hotel.name,
+    type: hotel.starRating ? `${hotel.starRating}-star` : budget,
+    cost: price(hotel),
+    hotelId: hotel.id
+  };
+}
+
+function getTransport(
+  routes: CatalogRoute[],
+  from: string | undefined,
+  to: string,
+  budget: BudgetLevel
+): ItineraryDay['transport'] {
+  if (from && from.toLowerCase() !== to.toLowerCase()) {
+    const matches = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const candidates = routes
+      .filter(route =>
+        (matches(route.fromCity, from) && matches(route.toCity, to)) ||
+        (matches(route.fromCity, to) && matches(route.toCity, from)))
+      .map(route => ({ route, fare: getFare(route.costRange, budget) }))
+      .sort((a, b) => (a.fare ?? Infinity) - (b.fare ?? Infinity) || compareText(a.route.transportType || '', b.route.transportType || ''));
+    // The cheapest connection for budget trips, the dearest for luxury ones; routes with known fares first
+    const priced = candidates.filter(candidate => candidate.fare !== null);
+    const pool = priced.length > 0 ? priced : candidates;
+    const choice = budget === 'luxury' ? pool[pool.length - 1] : pool[0];
+
+    if (choice) {
+      return {
+        mode: choice.route.transportType || 'Road',
+        route: `${from} to ${to}` + (choice.route.duration ? ` (${choice.route.duration})` : ''),
+        cost: choice.fare ?? LOCAL_TRANSPORT[budget].cost
+      };
+    }
+  }
+
+  const local = LOCAL_TRANSPORT[budget];
+  return { mode: local.mode, route: from && from !== to ? `${from} to ${to}` : `Around ${to}`, cost: local.cost };
+}
+
+function getPackingList(interests: string[]): string[] {
+  const items = ['Photo ID and printed bookings', 'Light cotton clothes', 'Basic medicines'];
+  interests.forEach(interest => (PACKING_LIST[interest] || []).forEach(item => {
+    if (!items.includes(item)) items.push(item);
+  }));
+  return items;
+}
+
+function getCulturalNotes(interests: string[]): string[] {
+  const notes = [
+    'Carry some cash; smaller shops and autos may not take cards',
+    'Ask before photographing people'
+  ];
+  if (interests.includes('spiritual')) {
+    notes.push('Remove footwear before entering temples and dress modestly');
+  }
+  if (interests.includes('food')) {
+    notes.push('Drink bottled or filtered water and try street food where it is freshly cooked');
+  }
+  return notes;
+}
@@ -0,0 +1,220 @@
+/**
+ * Itinerary Schema
+ * Runtime schema for trip itineraries, shared by the generate-itinerary function and the app
+ */
+
+import { z } from 'zod';
+
+export interface ItineraryActivity {
+  time: string;
+  activity: string;
+  description: string;
+  duration: string;
+  cost: number;
+  tips?: string;
+  // Catalog attraction visited and tour guide suggested for it, when the plan names them
+  attractionId?: string;
+  guideId?: string;
+}
+
+export interface ItineraryMeal {
+  place: string;
+  dish: string;
+  cost: number;
+  // Catalog cuisine the dish is
+  cuisineId?: string;
+}
+
+export interface ItineraryDay {
+  day: number;
+  location: string;
+  theme: string;
+  activities: ItineraryActivity[];
+  meals: {
+    breakfast?: ItineraryMeal;
+    lunch?: ItineraryMeal;
+    dinner?: ItineraryMeal;
+  };
+  accommodation?: { name: string; type: string; cost: number; hotelId?: string };
+  transport?: { mode: string; route: string; cost: number };
+}
+
+export interface Itinerary {
+  title: string;
+  summary: string;
+  totalEstimatedCost: number;
+  days: ItineraryDay[];
+  packingList?: string[];
+  culturalNotes?: string[];
+  // Whether the AI planner or the offline generator made the plan
+  source?: ItinerarySource;
+}
+
+export type ItinerarySource = 'ai' | 'offline';
+
+// What the traveller asked the planner for
+export interface TripPreferences {
+  destination: string;
+  duration: number;
+  budget: string;
+  interests: string[];
+  travelStyle: string;
+}
+
+// Why an itinerary could not be generated
+export type ItineraryErrorCode =
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'credits_exhausted'
+  | 'invalid_itinerary'
+  | 'generation_failed';
+
+export interface ItineraryParseResult {
+  success: boolean;
+  itinerary?: Itinerary;
+  // What did not match the schema, as "path: message"
+  issues?: string[];
+}
+
+export const MAX_TRIP_DAYS = 30;
+
+// Models write amounts as "₹1,200", "1200 INR" or "Free"; anything unreadable counts as nothing
+const costSchema = z.preprocess(value => {
+  if (typeof value === 'string') {
+    const amount = parseFloat(value.replace(/[^\d.]/g, ''));
+    return Number.isFinite(amount) ? amount : 0;
+  }
+  return value ?? 0;
+}, z.number().nonnegative());
+
+const textSchema = z.preprocess(value => value ?? '', z.string());
+
+// Models send null for fields they leave out
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+
+// Catalog IDs; blanks and placeholders such as "null" are left out
+const referenceSchema = z.preprocess(value => {
+  const id = typeof value === 'string' ? value.trim() : '';
+  return id && id !== 'null' ? id : undefined;
+}, z.string().optional());
+
+const mealSchema = z.object({
+  place: textSchema,
+  dish: textSchema,
+  cost: costSchema,
+  cuisineId: referenceSchema
+});
+
+const activitySchema = z.object({
+  time: textSchema,
+  activity: z.string().trim().min(1),
+  description: textSchema,
+  duration: textSchema,
+  cost: costSchema,
+  tips: optional(z.string()),
+  attractionId: referenceSchema,
+  guideId: referenceSchema
+});
+
+// The day number is left out; days are numbered by their order
+const daySchema = z.object({
+  location: z.string().trim().min(1),
+  theme: textSchema,
+  activities: z.array(activitySchema),
+  meals: z.preprocess(value => value ?? {}, z.object({
+    breakfast: optional(mealSchema),
+    lunch: optional(mealSchema),
+    dinner: optional(mealSchema)
+  })),
+  accommodation: optional(z.object({ name: textSchema, type: textSchema, cost: costSchema, hotelId: referenceSchema })),
+  transport: optional(z.object({ mode: textSchema, route: textSchema, cost: costSchema }))
+});
+
+export const itinerarySchema = z.object({
+  title: textSchema,
+  summary: textSchema,
+  totalEstimatedCost: optional(costSchema),
+  days: z.array(daySchema).min(1).max(MAX_TRIP_DAYS),
+  packingList: optional(z.array(z.string())),
+  culturalNotes: optional(z.array(z.string())),
+  source: optional(z.enum(['ai', 'offline']))
+}).transform(itinerary => {
+  const days = itinerary.days.map((day, index) => ({ ...day, day: index + 1 })) as ItineraryDay[];
+  return {
+    ...itinerary,
+    days,
+    totalEstimatedCost: itinerary.totalEstimatedCost ?? days.reduce((total, day) => total + getDayTotal(day), 0)
+  };
+});
+
+export const tripPreferencesSchema = z.object({
+  destination: z.string().trim().min(1),
+  duration: z.coerce.number().int().min(1).max(MAX_TRIP_DAYS),
+  budget: z.string().trim().min(1).default('moderate'),
+  interests: z.array(z.string()).default([]),
+  travelStyle: z.string().trim().min(1).default('cultural')
+});
+
+/**
+ * Total cost of a day: its activities, meals, stay and transport
+ * @param day - Itinerary day
+ */
+export function getDayTotal(day: ItineraryDay): number {
+  const costs = [
+    ...day.activities.map(activity => activity.cost),
+    day.meals?.breakfast?.cost,
+    day.meals?.lunch?.cost,
+    day.meals?.dinner?.cost,
+    day.accommodation?.cost,
+    day.transport?.cost
+  ];
+  return costs.reduce<number>((total, cost) => total + (Number(cost) || 0), 0);
+}
+
+/**
+ * Describe schema problems as "path: message" lines the model or a developer can act on
+ * @param error - Validation error
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+}
+
+/**
+ * Check a value against the itinerary schema, repairing what can be repaired
+ * @param value - Parsed itinerary
+ */
+export function validateItinerary(value: unknown): ItineraryParseResult {
+  const result = itinerarySchema.safeParse(value);
+  return result.success
+    ? { success: true, itinerary: result.data as Itinerary }
+    : { success: false, issues: formatIssues(result.error) };
+}
+
+/**
+ * Read an itinerary from model output, which may wrap the JSON in prose or a code block
+ * @param content - Model response text
+ */
+export function parseItinerary(content: string): ItineraryParseResult {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  let json = fenced ? fenced[1] : content;
+  const start = json.indexOf('{');
+  const end = json.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { success: false, issues: ['Response does not contain a JSON object'] };
+  }
+  json = json.slice(start, end + 1);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    try {
+      // Trailing commas are the most common slip
+      value = JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+    } catch (error) {
+      return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse'}`] };
+    }
+  }
+
+  return validateItinerary(value);
+}
@@ -1,25 +1,188 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  parseItinerary,
+  tripPreferencesSchema,
+  formatIssues,
+  type ItineraryErrorCode,
+  type TripPreferences,
+} from "../_shared/itinerary.schema.ts";
+import { generateOfflineItinerary } from "../_shared/itinerary.generator.ts";
+import { checkReferences, describeCatalog, type ItineraryCatalog } from "../_shared/itinerary.catalog.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// First answer plus the times the model is asked to correct an invalid one
+const MAX_GENERATION_ATTEMPTS = 3;
+
+type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+class GatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const errorResponse = (status: number, code: ItineraryErrorCode, error: string, issues?: string[]) =>
+  new Response(JSON.stringify({ error, code, issues }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+async function complete(apiKey: string, messages: ChatMessage[]): Promise<string> {
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      messages,
+      response_format: { type: "json_object" },
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("AI gateway error:", response.status, errorText);
+    throw new GatewayError(response.status, `AI gateway error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+
+  if (!content) {
+    throw new Error("No content in AI response");
+  }
+
+  return content;
+}
+
+const EMPTY_CATALOG: ItineraryCatalog = { attractions: [], cuisines: [], hotels: [], guides: [], routes: [] };
+
+// Loads the destination's attractions, cuisines, hotels, tour guides and routes as the signed-in user sees them
+async function loadCatalog(req: Request, destination: string): Promise<ItineraryCatalog> {
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const [attractions, cuisines, hotels, guides, routes] = await Promise.all([
+    supabase
+      .from("attractions")
+      .select("id, name, city, category, description, entry_fee, opening_hours, best_time_to_visit, latitude, longitude, states!inner(name)")
+      .eq("states.name", destination)
+      .eq("is_active", true),
+    supabase
+      .from("cuisines")
+      .select("id, name, description, states!inner(name)")
+      .eq("states.name", destination),
+    supabase
+      .from("hotels")
+      .select("id, name, city, star_rating, price_per_night_min")
+      .eq("state", destination)
+      .eq("is_active", true),
+    supabase
+      .from("tour_guides")
+      .select("id, full_name, company_name, city, specialties, languages_spoken, hourly_rate")
+      .eq("state", destination)
+      .eq("is_active", true),
+    supabase
+      .from("transport_routes")
+      .select("from_city, to_city, transport_type, cost_range, duration"),
+  ]);
+
+  const failed = [attractions, cuisines, hotels, guides, routes].find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to load catalog: ${failed.error.message}`);
+  }
+
+  return {
+    attractions: (attractions.data ?? []).filter(row => row.name).map(row => ({
+      id: row.id,
+      name: row.name,
+      city: row.city,
+      category: row.category,
+      description: row.description,
+      entryFee: row.entry_fee,
+      openingHours: row.opening_hours,
+      bestTimeToVisit: row.best_time_to_visit,
+      latitude: row.latitude,
+      longitude: row.longitude,
+    })),
+    cuisines: (cuisines.data ?? []).filter(row => row.name).map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+    })),
+    hotels: (hotels.data ?? []).filter(row => row.name).map(row => ({
+      id: row.id,
+      name: row.name,
+      city: row.city,
+      starRating: row.star_rating,
+      pricePerNightMin: row.price_per_night_min === null ? null : Number(row.price_per_night_min),
+    })),
+    guides: (guides.data ?? []).filter(row => row.full_name || row.company_name).map(row => ({
+      id: row.id,
+      name: row.full_name || row.company_name,
+      city: row.city,
+      specialties: row.specialties ?? [],
+      languages: row.languages_spoken ?? [],
+      hourlyRate: row.hourly_rate,
+    })),
+    routes: (routes.data ?? []).filter(row => row.from_city && row.to_city).map(row => ({
+      fromCity: row.from_city,
+      toCity: row.to_city,
+      transportType: row.transport_type,
+      costRange: row.cost_range,
+      duration: row.duration,
+    })),
+  };
+}
+
+// Plans from our own catalog when the AI provider is unavailable
+async function offlineResponse(req: Request, preferences: TripPreferences, loaded?: ItineraryCatalog): Promise<Response> {
+  const catalog = loaded ?? await loadCatalog(req, preferences.destination);
+  const itinerary = generateOfflineItinerary(preferences, catalog);
+  console.log(`Generated offline itinerary from ${catalog.attractions.length} attractions`);
+  return new Response(JSON.stringify({ itinerary }), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let preferences: TripPreferences | null = null;
+  let catalog: ItineraryCatalog | undefined;
   try {
-    const { destination, duration, budget, interests, travelStyle } = await req.json();
+    const request = tripPreferencesSchema.safeParse(await req.json().catch(() => null));
+    if (!request.success) {
+      return errorResponse(400, "invalid_request", "Invalid trip preferences", formatIssues(request.error));
+    }
+
+    preferences = request.data as TripPreferences;
+    const { destination, duration, budget, interests, travelStyle } = preferences;
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     
     if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+      console.warn("LOVABLE_API_KEY is not configured, planning from the catalog");
+      return await offlineResponse(req, preferences);
     }
 
     console.log("Generating itinerary for:", { destination, duration, budget, interests, travelStyle });
 
+    // Without the catalog the model still plans, just without IDs to link
+    catalog = await loadCatalog(req, destination).catch((error: unknown) => {
+      console.error("Failed to load catalog for the prompt:", error);
+      return undefined;
+    });
+
     const systemPrompt = `You are an expert India travel planner with deep knowledge of all 28 states and 8 union territories. 
 You create personalized, detailed travel itineraries that include:
 - Day-by-day schedules with specific attractions, timings, and activities
@@ -30,6 +193,11 @@ You create personalized, detailed travel itineraries that include:
 - Insider tips and lesser-known gems
 - Safety considerations and best times to visit
 
+Plan from the attractions, hotels, tour guides and cuisines listed in the user's message wherever they fit,
+and refer to each one by the ID it is listed with: "attractionId" on an activity that visits a listed attraction,
+"guideId" on an activity where a listed tour guide should accompany the traveller, "hotelId" on a stay at a listed hotel
+and "cuisineId" on a meal of a listed dish. Never invent IDs; leave the field out for anything that is not listed.
+
 Always respond in valid JSON format with this structure:
 {
   "title": "Trip title",
@@ -47,94 +215,94 @@ Always respond in valid JSON format with this structure:
           "description": "Details",
           "duration": "2 hours",
           "cost": number,
-          "tips": "Insider tip"
+          "tips": "Insider tip",
+          "attractionId": "ID from the list",
+          "guideId": "ID from the list"
         }
       ],
       "meals": {
-        "breakfast": { "place": "Name", "dish": "Specialty", "cost": number },
-        "lunch": { "place": "Name", "dish": "Specialty", "cost": number },
-        "dinner": { "place": "Name", "dish": "Specialty", "cost": number }
+        "breakfast": { "place": "Name", "dish": "Specialty", "cost": number, "cuisineId": "ID from the list" },
+        "lunch": { "place": "Name", "dish": "Specialty", "cost": number, "cuisineId": "ID from the list" },
+        "dinner": { "place": "Name", "dish": "Specialty", "cost": number, "cuisineId": "ID from the list" }
       },
-      "accommodation": { "name": "Hotel name", "type": "budget/mid-range/luxury", "cost": number },
+      "accommodation": { "name": "Hotel name", "type": "budget/mid-range/luxury", "cost": number, "hotelId": "ID from the list" },
       "transport": { "mode": "Type", "route": "From-To", "cost": number }
     }
   ],
   "packingList": ["item1", "item2"],
-  "culturalNotes": ["note1", "note2"],
-  "emergencyContacts": { "police": "100", "ambulance": "108", "tourism": "1800-111-363" }
-}`;
+  "culturalNotes": ["note1", "note2"]
+}
+Every day needs a location and a list of activities. All costs are plain numbers in INR.`;
 
     const userPrompt = `Create a detailed ${duration}-day travel itinerary for ${destination}, India.
-Budget level: ${budget || 'moderate'}
-Travel style: ${travelStyle || 'cultural exploration'}
-Interests: ${interests?.join(', ') || 'history, culture, food, nature'}
+Budget level: ${budget}
+Travel style: ${travelStyle}
+Interests: ${interests.join(', ') || 'history, culture, food, nature'}
 
-Include specific attractions, restaurants, hotels, and activities with realistic pricing in INR.`;
+Include specific attractions, restaurants, hotels, and activities with realistic pricing in INR.
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-      }),
-    });
+What we list for ${destination}, as ID | details:
+${describeCatalog(catalog ?? EMPTY_CATALOG)}`;
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "AI credits exhausted. Please add credits." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt }
+    ];
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    // Invalid answers are sent back with what was wrong until one fits the schema and the catalog
+    let issues: string[] = [];
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      const content = await complete(LOVABLE_API_KEY, messages);
+      const result = parseItinerary(content);
 
-    if (!content) {
-      throw new Error("No content in AI response");
-    }
+      if (result.success) {
+        const checked = checkReferences(result.itinerary!, catalog ?? EMPTY_CATALOG);
+        // On the last attempt unknown IDs are dropped rather than the whole plan
+        if (checked.issues.length === 0 || attempt === MAX_GENERATION_ATTEMPTS) {
+          if (checked.issues.length > 0) {
+            console.warn("Dropped unknown catalog IDs:", checked.issues);
+          }
+          console.log(`Successfully generated itinerary on attempt ${attempt}`);
+          return new Response(JSON.stringify({ itinerary: { ...checked.itinerary, source: "ai" } }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        issues = checked.issues;
+      } else {
+        issues = result.issues ?? [];
+      }
 
-    // Parse JSON from the response (handle markdown code blocks)
-    let itinerary;
-    try {
-      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
-      const jsonStr = jsonMatch ? jsonMatch[1] : content;
-      itinerary = JSON.parse(jsonStr.trim());
-    } catch (parseError) {
-      console.error("Failed to parse itinerary JSON:", parseError);
-      // Return raw content if parsing fails
-      itinerary = { raw: content, parseError: true };
+      console.warn(`Invalid itinerary on attempt ${attempt}:`, issues);
+      messages.push(
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: result.success
+            ? `That itinerary refers to IDs we do not list:\n- ${issues.slice(0, 20).join("\n- ")}\nUse only listed IDs, or leave the field out, and reply with only the corrected JSON object.`
+            : `That itinerary does not match the required JSON structure:\n- ${issues.slice(0, 20).join("\n- ")}\nReply with only the corrected JSON object.`
+        }
+      );
     }
 
-    console.log("Successfully generated itinerary");
-
-    return new Response(JSON.stringify({ itinerary }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(422, "invalid_itinerary", "The AI could not produce a valid itinerary", issues);
 
   } catch (error: unknown) {
     console.error("Error generating itinerary:", error);
+    const providerUnavailable = error instanceof GatewayError && (error.status === 429 || error.status === 402);
+    if (providerUnavailable && preferences) {
+      try {
+        return await offlineResponse(req, preferences, catalog);
+      } catch (fallbackError: unknown) {
+        console.error("Offline itinerary fallback failed:", fallbackError);
+      }
+    }
+    if (error instanceof GatewayError && error.status === 429) {
+      return errorResponse(429, "rate_limited", "Rate limit exceeded. Please try again later.");
+    }
+    if (error instanceof GatewayError && error.status === 402) {
+      return errorResponse(402, "credits_exhausted", "AI credits exhausted. Please add credits.");
+    }
     const message = error instanceof Error ? error.message : "Failed to generate itinerary";
-    return new Response(JSON.stringify({ error: message }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(500, "generation_failed", message);
   }
 });
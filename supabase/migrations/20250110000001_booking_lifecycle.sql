@@ -0,0 +1,205 @@
+-- =====================================================
+-- BOOKING LIFECYCLE
+-- Migration: Typed booking statuses with validated transitions
+-- Date: 2025-01-10
+-- =====================================================
+
+-- =====================================================
+-- 1. NORMALISE EXISTING STATUS VALUES
+-- =====================================================
+
+UPDATE hotel_bookings SET status = 'pending' WHERE status IS NULL OR status NOT IN (
+  'pending', 'confirmed', 'checked_in', 'completed',
+  'cancelled_by_guest', 'cancelled_by_provider', 'no_show'
+);
+
+UPDATE guide_bookings SET status = 'pending' WHERE status IS NULL OR status NOT IN (
+  'pending', 'confirmed', 'in_progress', 'completed',
+  'cancelled_by_guest', 'cancelled_by_provider', 'no_show'
+);
+
+-- =====================================================
+-- 2. ADD STATUS CONSTRAINTS AND TRANSITION TIMESTAMPS
+-- =====================================================
+
+ALTER TABLE hotel_bookings
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL,
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE hotel_bookings DROP CONSTRAINT IF EXISTS hotel_bookings_status_check;
+ALTER TABLE hotel_bookings ADD CONSTRAINT hotel_bookings_status_check CHECK (status IN (
+  'pending', 'confirmed', 'checked_in', 'completed',
+  'cancelled_by_guest', 'cancelled_by_provider', 'no_show'
+));
+
+ALTER TABLE guide_bookings
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL,
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE guide_bookings DROP CONSTRAINT IF EXISTS guide_bookings_status_check;
+ALTER TABLE guide_bookings ADD CONSTRAINT guide_bookings_status_check CHECK (status IN (
+  'pending', 'confirmed', 'in_progress', 'completed',
+  'cancelled_by_guest', 'cancelled_by_provider', 'no_show'
+));
+
+-- =====================================================
+-- 3. CREATE BOOKING STATUS EVENTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS booking_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL,
+  booking_type TEXT NOT NULL CHECK (booking_type IN ('hotel', 'guide')),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_role TEXT CHECK (actor_role IN ('guest', 'provider', 'system')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE booking_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Actors can record events for transitions they perform
+DROP POLICY IF EXISTS "Users can insert own booking status events" ON booking_status_events;
+CREATE POLICY "Users can insert own booking status events" ON booking_status_events
+  FOR INSERT WITH CHECK (auth.uid() = actor_id);
+
+-- Guests and providers can read the history of bookings they are part of
+DROP POLICY IF EXISTS "Participants can view booking status events" ON booking_status_events;
+CREATE POLICY "Participants can view booking status events" ON booking_status_events
+  FOR SELECT USING (
+    auth.uid() = actor_id OR
+    EXISTS (
+      SELECT 1 FROM hotel_bookings hb
+      LEFT JOIN hotels h ON h.id = hb.hotel_id
+      WHERE booking_status_events.booking_type = 'hotel'
+        AND hb.id = booking_status_events.booking_id
+        AND (hb.user_id = auth.uid() OR h.added_by = auth.uid())
+    ) OR
+    EXISTS (
+      SELECT 1 FROM guide_bookings gb
+      LEFT JOIN tour_guides tg ON tg.id = gb.guide_id
+      WHERE booking_status_events.booking_type = 'guide'
+        AND gb.id = booking_status_events.booking_id
+        AND (gb.user_id = auth.uid() OR tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_booking_status_events_booking ON booking_status_events(booking_type, booking_id, created_at);
+
+-- =====================================================
+-- 4. CREATE FUNCTIONS FOR TRANSITION VALIDATION
+-- =====================================================
+
+-- Returns whether a booking may move from one status to another
+CREATE OR REPLACE FUNCTION is_valid_booking_transition(
+  booking_kind TEXT,
+  from_status TEXT,
+  to_status TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF booking_kind = 'hotel' THEN
+    RETURN (from_status, to_status) IN (
+      ('pending', 'confirmed'),
+      ('pending', 'cancelled_by_guest'),
+      ('pending', 'cancelled_by_provider'),
+      ('confirmed', 'checked_in'),
+      ('confirmed', 'cancelled_by_guest'),
+      ('confirmed', 'cancelled_by_provider'),
+      ('confirmed', 'no_show'),
+      ('checked_in', 'completed')
+    );
+  ELSIF booking_kind = 'guide' THEN
+    RETURN (from_status, to_status) IN (
+      ('pending', 'confirmed'),
+      ('pending', 'cancelled_by_guest'),
+      ('pending', 'cancelled_by_provider'),
+      ('confirmed', 'in_progress'),
+      ('confirmed', 'cancelled_by_guest'),
+      ('confirmed', 'cancelled_by_provider'),
+      ('confirmed', 'no_show'),
+      ('in_progress', 'completed')
+    );
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Rejects invalid status changes and stamps the matching transition timestamp
+CREATE OR REPLACE FUNCTION enforce_booking_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  booking_kind TEXT;
+BEGIN
+  booking_kind := CASE WHEN TG_TABLE_NAME = 'hotel_bookings' THEN 'hotel' ELSE 'guide' END;
+
+  -- New bookings always start as pending, whatever the client sent
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.status_changed_at := NOW();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_valid_booking_transition(booking_kind, OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid booking status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status_changed_at := NOW();
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN NEW.confirmed_at := NOW();
+    WHEN 'completed' THEN NEW.completed_at := NOW();
+    WHEN 'cancelled_by_guest', 'cancelled_by_provider' THEN NEW.cancelled_at := NOW();
+    WHEN 'no_show' THEN NEW.no_show_at := NOW();
+    ELSE NULL;
+  END CASE;
+
+  IF booking_kind = 'hotel' AND NEW.status = 'checked_in' THEN
+    NEW.checked_in_at := NOW();
+  ELSIF booking_kind = 'guide' AND NEW.status = 'in_progress' THEN
+    NEW.started_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 5. CREATE TRIGGERS FOR STATUS ENFORCEMENT
+-- =====================================================
+
+DROP TRIGGER IF EXISTS hotel_bookings_status_transition_trigger ON hotel_bookings;
+CREATE TRIGGER hotel_bookings_status_transition_trigger
+  BEFORE INSERT OR UPDATE ON hotel_bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_status_transition();
+
+DROP TRIGGER IF EXISTS guide_bookings_status_transition_trigger ON guide_bookings;
+CREATE TRIGGER guide_bookings_status_transition_trigger
+  BEFORE INSERT OR UPDATE ON guide_bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_status_transition();
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON booking_status_events TO authenticated;
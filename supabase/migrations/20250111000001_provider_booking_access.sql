@@ -0,0 +1,253 @@
+-- =====================================================
+-- PROVIDER BOOKING ACCESS
+-- Migration: Let hotel partners and tour guides manage incoming bookings
+-- Status changes go through transition_booking(); nobody updates booking rows directly
+-- Date: 2025-01-11
+-- =====================================================
+
+-- =====================================================
+-- 1. HOTEL BOOKING POLICIES
+-- =====================================================
+
+ALTER TABLE hotel_bookings ENABLE ROW LEVEL SECURITY;
+
+-- Guests keep access to their own bookings
+DROP POLICY IF EXISTS "Guests can view own hotel bookings" ON hotel_bookings;
+CREATE POLICY "Guests can view own hotel bookings" ON hotel_bookings
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Guests can create own hotel bookings" ON hotel_bookings;
+CREATE POLICY "Guests can create own hotel bookings" ON hotel_bookings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Guests can update own hotel bookings" ON hotel_bookings;
+
+-- Hotel owners can see bookings for hotels they added
+DROP POLICY IF EXISTS "Hotel owners can view hotel bookings" ON hotel_bookings;
+CREATE POLICY "Hotel owners can view hotel bookings" ON hotel_bookings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM hotels h
+      WHERE h.id = hotel_bookings.hotel_id AND h.added_by = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Hotel owners can update hotel bookings" ON hotel_bookings;
+
+-- =====================================================
+-- 2. GUIDE BOOKING POLICIES
+-- =====================================================
+
+ALTER TABLE guide_bookings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Guests can view own guide bookings" ON guide_bookings;
+CREATE POLICY "Guests can view own guide bookings" ON guide_bookings
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Guide bookings are only created by request_guide_booking(), which prices them from the guide's rate
+DROP POLICY IF EXISTS "Guests can create own guide bookings" ON guide_bookings;
+
+DROP POLICY IF EXISTS "Guests can update own guide bookings" ON guide_bookings;
+
+-- Guides can see bookings made against their profile, whether it is keyed by their user ID or carries user_id
+DROP POLICY IF EXISTS "Guides can view guide bookings" ON guide_bookings;
+CREATE POLICY "Guides can view guide bookings" ON guide_bookings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_bookings.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Guides can update guide bookings" ON guide_bookings;
+
+-- Status events are only written by transition_booking(), so the history cannot be forged
+DROP POLICY IF EXISTS "Users can insert own booking status events" ON booking_status_events;
+REVOKE INSERT, UPDATE, DELETE ON booking_status_events FROM authenticated;
+
+-- =====================================================
+-- 3. GUEST PROFILE VISIBILITY
+-- =====================================================
+
+-- Providers need the guest's name to recognise who a booking is from
+DROP POLICY IF EXISTS "Providers can view guest profiles" ON profiles;
+CREATE POLICY "Providers can view guest profiles" ON profiles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM guide_bookings gb
+      JOIN tour_guides tg ON tg.id = gb.guide_id
+      WHERE gb.user_id = profiles.id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    ) OR
+    EXISTS (
+      SELECT 1 FROM hotel_bookings hb
+      JOIN hotels h ON h.id = hb.hotel_id
+      WHERE hb.user_id = profiles.id AND h.added_by = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- 4. CREATE FUNCTION FOR STATUS TRANSITIONS
+-- =====================================================
+
+-- Moves a booking to a new status on behalf of the caller and records the event.
+-- Guests may only cancel; every other transition belongs to the hotel owner or guide.
+-- Only the status (and its timestamps, via the lifecycle trigger) changes.
+CREATE OR REPLACE FUNCTION transition_booking(
+  p_booking_type TEXT,
+  p_booking_id UUID,
+  p_to_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  caller UUID := auth.uid();
+  guest_id UUID;
+  current_status TEXT;
+  is_provider BOOLEAN;
+  actor TEXT;
+  booking JSONB;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'User authentication required';
+  END IF;
+
+  IF p_booking_type = 'hotel' THEN
+    SELECT hb.user_id, hb.status, COALESCE(h.added_by = caller, FALSE)
+    INTO guest_id, current_status, is_provider
+    FROM hotel_bookings hb
+    LEFT JOIN hotels h ON h.id = hb.hotel_id
+    WHERE hb.id = p_booking_id
+    FOR UPDATE OF hb;
+  ELSIF p_booking_type = 'guide' THEN
+    SELECT gb.user_id, gb.status, COALESCE(tg.id = caller OR tg.user_id = caller, FALSE)
+    INTO guest_id, current_status, is_provider
+    FROM guide_bookings gb
+    LEFT JOIN tour_guides tg ON tg.id = gb.guide_id
+    WHERE gb.id = p_booking_id
+    FOR UPDATE OF gb;
+  ELSE
+    RAISE EXCEPTION 'Unknown booking type %', p_booking_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  actor := CASE WHEN p_to_status = 'cancelled_by_guest' THEN 'guest' ELSE 'provider' END;
+  IF (actor = 'guest' AND guest_id IS DISTINCT FROM caller) OR (actor = 'provider' AND NOT is_provider) THEN
+    RAISE EXCEPTION 'You are not allowed to update this booking'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT is_valid_booking_transition(p_booking_type, current_status, p_to_status) THEN
+    RAISE EXCEPTION 'Invalid booking status transition from % to %', current_status, p_to_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_booking_type = 'hotel' THEN
+    UPDATE hotel_bookings SET status = p_to_status, updated_at = NOW()
+    WHERE id = p_booking_id
+    RETURNING to_jsonb(hotel_bookings.*) INTO booking;
+  ELSE
+    UPDATE guide_bookings SET status = p_to_status, updated_at = NOW()
+    WHERE id = p_booking_id
+    RETURNING to_jsonb(guide_bookings.*) INTO booking;
+  END IF;
+
+  INSERT INTO booking_status_events (booking_id, booking_type, from_status, to_status, actor_id, actor_role, note)
+  VALUES (p_booking_id, p_booking_type, current_status, p_to_status, caller, actor, NULLIF(BTRIM(p_note), ''));
+
+  RETURN booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+GRANT EXECUTE ON FUNCTION transition_booking(TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. CREATE FUNCTION FOR GUEST CONTACT
+-- =====================================================
+
+-- Returns the guest's email and name so the provider can email them when they accept a booking.
+-- Only the hotel owner or guide the booking belongs to gets a row back.
+CREATE OR REPLACE FUNCTION booking_guest_contact(
+  p_booking_type TEXT,
+  p_booking_id UUID
+)
+RETURNS TABLE (email TEXT, full_name TEXT) AS $$
+  SELECT u.email::TEXT, p.full_name
+  FROM (
+    SELECT hb.user_id
+    FROM hotel_bookings hb
+    JOIN hotels h ON h.id = hb.hotel_id
+    WHERE p_booking_type = 'hotel' AND hb.id = p_booking_id AND h.added_by = auth.uid()
+    UNION ALL
+    SELECT gb.user_id
+    FROM guide_bookings gb
+    JOIN tour_guides tg ON tg.id = gb.guide_id
+    WHERE p_booking_type = 'guide' AND gb.id = p_booking_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+  ) booking
+  JOIN auth.users u ON u.id = booking.user_id
+  LEFT JOIN profiles p ON p.id = booking.user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+GRANT EXECUTE ON FUNCTION booking_guest_contact(TEXT, UUID) TO authenticated;
+
+-- =====================================================
+-- 6. CREATE FUNCTION FOR GUIDE BOOKING REQUESTS
+-- =====================================================
+
+-- Creates a pending guide booking for the caller, priced from the guide's current hourly rate
+CREATE OR REPLACE FUNCTION request_guide_booking(
+  p_guide_id UUID,
+  p_booking_date TIMESTAMP WITH TIME ZONE,
+  p_duration_hours INTEGER,
+  p_location TEXT DEFAULT NULL,
+  p_special_requests TEXT DEFAULT NULL,
+  p_booking_reference TEXT DEFAULT NULL
+)
+RETURNS guide_bookings AS $$
+DECLARE
+  guide tour_guides%ROWTYPE;
+  booking guide_bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User authentication required';
+  END IF;
+
+  IF p_duration_hours IS NULL OR p_duration_hours < 1 THEN
+    RAISE EXCEPTION 'Please select a valid tour duration';
+  END IF;
+
+  IF p_booking_date <= NOW() THEN
+    RAISE EXCEPTION 'Please select a date and time in the future';
+  END IF;
+
+  SELECT * INTO guide FROM tour_guides WHERE id = p_guide_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guide not found';
+  END IF;
+
+  INSERT INTO guide_bookings (
+    guide_id, user_id, booking_date, duration_hours, location,
+    special_requests, total_cost, status, booking_reference
+  ) VALUES (
+    guide.id, auth.uid(), p_booking_date, p_duration_hours, COALESCE(NULLIF(BTRIM(p_location), ''), guide.city),
+    NULLIF(BTRIM(p_special_requests), ''),
+    CASE WHEN guide.hourly_rate > 0 THEN ROUND(guide.hourly_rate * p_duration_hours, 2) ELSE 0 END,
+    'pending', p_booking_reference
+  )
+  RETURNING * INTO booking;
+
+  RETURN booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+GRANT EXECUTE ON FUNCTION request_guide_booking(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, TEXT, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 7. CREATE INDEXES FOR PROVIDER LOOKUPS
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_guide_bookings_guide_date ON guide_bookings(guide_id, booking_date);
+CREATE INDEX IF NOT EXISTS idx_hotel_bookings_hotel_check_in ON hotel_bookings(hotel_id, check_in_date);
+CREATE INDEX IF NOT EXISTS idx_hotels_added_by ON hotels(added_by);
@@ -0,0 +1,213 @@
+-- =====================================================
+-- HOTEL ROOM INVENTORY
+-- Migration: Typed room types and a per-date availability ledger
+-- Date: 2025-01-12
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE ROOM TYPES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS hotel_room_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hotel_id UUID NOT NULL REFERENCES hotels(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  capacity INTEGER NOT NULL DEFAULT 2 CHECK (capacity > 0),
+  nightly_rate NUMERIC(10, 2) NOT NULL CHECK (nightly_rate >= 0),
+  total_units INTEGER NOT NULL DEFAULT 1 CHECK (total_units >= 0),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (hotel_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hotel_room_types_hotel ON hotel_room_types(hotel_id);
+
+-- Carry over room types stored in the legacy hotels.room_types JSON column
+INSERT INTO hotel_room_types (hotel_id, name, capacity, nightly_rate, total_units)
+SELECT
+  h.id,
+  room->>'name',
+  COALESCE(NULLIF(room->>'capacity', '')::INTEGER, 2),
+  COALESCE(NULLIF(room->>'price', '')::NUMERIC, 0),
+  COALESCE(NULLIF(room->>'availability', '')::INTEGER, 1)
+FROM hotels h
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(h.room_types::jsonb) = 'array' THEN h.room_types::jsonb ELSE '[]'::jsonb END
+) AS room
+WHERE room->>'name' IS NOT NULL
+ON CONFLICT (hotel_id, name) DO NOTHING;
+
+-- =====================================================
+-- 2. CREATE AVAILABILITY LEDGER
+-- =====================================================
+
+-- One row per room type per night; rows only exist once something is booked
+CREATE TABLE IF NOT EXISTS room_availability (
+  room_type_id UUID NOT NULL REFERENCES hotel_room_types(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  booked_units INTEGER NOT NULL DEFAULT 0 CHECK (booked_units >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (room_type_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_availability_date ON room_availability(date);
+
+-- =====================================================
+-- 3. LINK BOOKINGS TO ROOM TYPES
+-- =====================================================
+
+-- rooms_reserved marks bookings that hold ledger units, so only those give units back
+ALTER TABLE hotel_bookings
+  ADD COLUMN IF NOT EXISTS room_type_id UUID REFERENCES hotel_room_types(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rooms INTEGER NOT NULL DEFAULT 1 CHECK (rooms > 0),
+  ADD COLUMN IF NOT EXISTS rooms_reserved BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_hotel_bookings_room_type ON hotel_bookings(room_type_id, check_in_date);
+
+-- =====================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE hotel_room_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_availability ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view room types" ON hotel_room_types;
+CREATE POLICY "Anyone can view room types" ON hotel_room_types
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Hotel owners can manage room types" ON hotel_room_types;
+CREATE POLICY "Hotel owners can manage room types" ON hotel_room_types
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM hotels h
+      WHERE h.id = hotel_room_types.hotel_id AND h.added_by = auth.uid()
+    )
+  );
+
+-- The ledger is only written by the functions below
+DROP POLICY IF EXISTS "Anyone can view room availability" ON room_availability;
+CREATE POLICY "Anyone can view room availability" ON room_availability
+  FOR SELECT USING (true);
+
+-- Hotel bookings are only created by reserve_hotel_rooms(), which books the ledger in the same step
+DROP POLICY IF EXISTS "Guests can create own hotel bookings" ON hotel_bookings;
+
+-- =====================================================
+-- 5. CREATE FUNCTIONS FOR RESERVATIONS
+-- =====================================================
+
+-- Atomically checks every night of a stay and books it, or raises if any night is sold out
+CREATE OR REPLACE FUNCTION reserve_hotel_rooms(
+  p_room_type_id UUID,
+  p_check_in DATE,
+  p_check_out DATE,
+  p_rooms INTEGER,
+  p_guests INTEGER,
+  p_special_requests TEXT DEFAULT NULL,
+  p_booking_reference TEXT DEFAULT NULL
+)
+RETURNS hotel_bookings AS $$
+DECLARE
+  room hotel_room_types%ROWTYPE;
+  night DATE;
+  booked INTEGER;
+  booking hotel_bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User authentication required';
+  END IF;
+
+  IF p_check_out <= p_check_in THEN
+    RAISE EXCEPTION 'Check-out must be after check-in';
+  END IF;
+
+  IF p_check_in < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Check-in cannot be in the past';
+  END IF;
+
+  SELECT * INTO room FROM hotel_room_types WHERE id = p_room_type_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room type not found';
+  END IF;
+
+  IF p_rooms < 1 OR p_guests > room.capacity * p_rooms THEN
+    RAISE EXCEPTION 'Selected rooms cannot accommodate % guests', p_guests;
+  END IF;
+
+  -- Make sure a ledger row exists for every night, then lock them in date order
+  INSERT INTO room_availability (room_type_id, date)
+  SELECT p_room_type_id, d::DATE
+  FROM generate_series(p_check_in, p_check_out - 1, INTERVAL '1 day') AS d
+  ON CONFLICT (room_type_id, date) DO NOTHING;
+
+  FOR night, booked IN
+    SELECT date, booked_units FROM room_availability
+    WHERE room_type_id = p_room_type_id AND date >= p_check_in AND date < p_check_out
+    ORDER BY date
+    FOR UPDATE
+  LOOP
+    IF booked + p_rooms > room.total_units THEN
+      RAISE EXCEPTION '% is sold out on %', room.name, night
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  UPDATE room_availability
+  SET booked_units = booked_units + p_rooms, updated_at = NOW()
+  WHERE room_type_id = p_room_type_id AND date >= p_check_in AND date < p_check_out;
+
+  INSERT INTO hotel_bookings (
+    hotel_id, user_id, room_type_id, room_type, rooms, rooms_reserved, guests,
+    check_in_date, check_out_date, special_requests, total_cost, booking_reference
+  ) VALUES (
+    room.hotel_id, auth.uid(), room.id, room.name, p_rooms, TRUE, p_guests,
+    p_check_in, p_check_out, p_special_requests,
+    room.nightly_rate * p_rooms * (p_check_out - p_check_in),
+    p_booking_reference
+  )
+  RETURNING * INTO booking;
+
+  RETURN booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Gives nights back to the ledger when a booking that reserved them is cancelled.
+-- The units are released exactly once; a mismatch fails the booked_units check instead of being hidden.
+CREATE OR REPLACE FUNCTION release_hotel_rooms()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.rooms_reserved
+    AND NEW.status IN ('cancelled_by_guest', 'cancelled_by_provider')
+    AND OLD.status NOT IN ('cancelled_by_guest', 'cancelled_by_provider') THEN
+    UPDATE room_availability
+    SET booked_units = booked_units - OLD.rooms, updated_at = NOW()
+    WHERE room_type_id = OLD.room_type_id
+      AND date >= OLD.check_in_date::DATE
+      AND date < OLD.check_out_date::DATE;
+
+    NEW.rooms_reserved := FALSE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 6. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS hotel_bookings_release_rooms_trigger ON hotel_bookings;
+CREATE TRIGGER hotel_bookings_release_rooms_trigger
+  BEFORE UPDATE OF status ON hotel_bookings
+  FOR EACH ROW EXECUTE FUNCTION release_hotel_rooms();
+
+-- =====================================================
+-- 7. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON hotel_room_types TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON hotel_room_types TO authenticated;
+GRANT SELECT ON room_availability TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_hotel_rooms(UUID, DATE, DATE, INTEGER, INTEGER, TEXT, TEXT) TO authenticated;
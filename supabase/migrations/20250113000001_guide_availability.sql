@@ -0,0 +1,195 @@
+-- =====================================================
+-- GUIDE AVAILABILITY
+-- Migration: Weekly guide schedules, blackout dates and double-booking checks
+-- Date: 2025-01-13
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE WEEKLY SCHEDULE TABLE
+-- =====================================================
+
+-- Recurring weekly windows; day_of_week follows JavaScript/Postgres DOW (0 = Sunday)
+CREATE TABLE IF NOT EXISTS guide_availability_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guide_id UUID NOT NULL REFERENCES tour_guides(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  city TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guide_availability_rules_guide ON guide_availability_rules(guide_id, day_of_week);
+
+-- =====================================================
+-- 2. CREATE BLACKOUT OVERRIDES TABLE
+-- =====================================================
+
+-- Date-specific blackouts; a null time window blocks the whole day
+CREATE TABLE IF NOT EXISTS guide_availability_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guide_id UUID NOT NULL REFERENCES tour_guides(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((start_time IS NULL AND end_time IS NULL) OR (start_time IS NOT NULL AND end_time > start_time))
+);
+
+CREATE INDEX IF NOT EXISTS idx_guide_availability_overrides_guide ON guide_availability_overrides(guide_id, date);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE guide_availability_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guide_availability_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view guide schedules" ON guide_availability_rules;
+CREATE POLICY "Anyone can view guide schedules" ON guide_availability_rules
+  FOR SELECT USING (true);
+
+-- Guides manage the schedule of their profile, whether it is keyed by their user ID or carries user_id
+DROP POLICY IF EXISTS "Guides can manage own schedule" ON guide_availability_rules;
+CREATE POLICY "Guides can manage own schedule" ON guide_availability_rules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_availability_rules.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_availability_rules.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Anyone can view guide blackouts" ON guide_availability_overrides;
+CREATE POLICY "Anyone can view guide blackouts" ON guide_availability_overrides
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Guides can manage own blackouts" ON guide_availability_overrides;
+CREATE POLICY "Guides can manage own blackouts" ON guide_availability_overrides
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_availability_overrides.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_availability_overrides.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  );
+
+-- =====================================================
+-- 4. CREATE FUNCTIONS FOR BOOKING VALIDATION
+-- =====================================================
+
+-- Rejects guide bookings outside the guide's schedule or overlapping a confirmed tour.
+-- Runs as definer so the overlap check sees other guests' bookings, which RLS hides from the caller.
+CREATE OR REPLACE FUNCTION enforce_guide_booking_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  local_start TIMESTAMP;
+  local_end TIMESTAMP;
+BEGIN
+  IF NEW.guide_id IS NULL OR NEW.booking_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only re-check when the booking is created or accepted
+  IF TG_OP = 'UPDATE' AND NOT (NEW.status = 'confirmed' AND OLD.status IS DISTINCT FROM 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Schedules are kept in Indian local time
+  local_start := NEW.booking_date AT TIME ZONE 'Asia/Kolkata';
+  local_end := local_start + make_interval(hours => COALESCE(NEW.duration_hours, 1));
+
+  IF TG_OP = 'INSERT' THEN
+    -- Guides without a weekly schedule keep accepting requests at any time
+    IF EXISTS (SELECT 1 FROM guide_availability_rules WHERE guide_id = NEW.guide_id) AND NOT EXISTS (
+      SELECT 1 FROM guide_availability_rules r
+      WHERE r.guide_id = NEW.guide_id
+        AND r.day_of_week = EXTRACT(DOW FROM local_start)
+        AND r.start_time <= local_start::TIME
+        AND r.end_time >= local_end::TIME
+        AND local_end::DATE = local_start::DATE
+    ) THEN
+      RAISE EXCEPTION 'The guide is not available at this time'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM guide_availability_overrides o
+      WHERE o.guide_id = NEW.guide_id
+        AND o.date = local_start::DATE
+        AND (o.start_time IS NULL OR (o.start_time < local_end::TIME AND o.end_time > local_start::TIME))
+    ) THEN
+      RAISE EXCEPTION 'The guide is unavailable on this date'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM guide_bookings b
+    WHERE b.guide_id = NEW.guide_id
+      AND b.id IS DISTINCT FROM NEW.id
+      AND b.status IN ('confirmed', 'in_progress')
+      AND b.booking_date < NEW.booking_date + make_interval(hours => COALESCE(NEW.duration_hours, 1))
+      AND b.booking_date + make_interval(hours => COALESCE(b.duration_hours, 1)) > NEW.booking_date
+  ) THEN
+    RAISE EXCEPTION 'The guide already has a confirmed tour at this time'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 5. CREATE FUNCTION FOR FREE SLOTS
+-- =====================================================
+
+-- When a guide is booked between two times; only the time ranges, never who booked them
+CREATE OR REPLACE FUNCTION guide_busy_periods(
+  p_guide_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (start_at TIMESTAMP WITH TIME ZONE, end_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT busy.start_at, busy.end_at
+  FROM (
+    SELECT
+      b.booking_date AS start_at,
+      b.booking_date + make_interval(hours => COALESCE(b.duration_hours, 1)) AS end_at
+    FROM guide_bookings b
+    WHERE b.guide_id = p_guide_id
+      AND b.status IN ('confirmed', 'in_progress')
+      AND b.booking_date IS NOT NULL
+  ) busy
+  WHERE busy.start_at < p_to AND busy.end_at > p_from
+  ORDER BY busy.start_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 6. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS guide_bookings_availability_trigger ON guide_bookings;
+CREATE TRIGGER guide_bookings_availability_trigger
+  BEFORE INSERT OR UPDATE OF status ON guide_bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_guide_booking_availability();
+
+-- =====================================================
+-- 7. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON guide_availability_rules TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON guide_availability_rules TO authenticated;
+GRANT SELECT ON guide_availability_overrides TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON guide_availability_overrides TO authenticated;
+GRANT EXECUTE ON FUNCTION guide_busy_periods(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
@@ -0,0 +1,195 @@
+-- =====================================================
+-- RATING AGGREGATES
+-- Migration: Denormalised average rating and review count per guide and hotel
+-- Date: 2025-01-14
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD AGGREGATE COLUMNS
+-- =====================================================
+
+ALTER TABLE tour_guides
+  ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+-- Hotel reviews are keyed by hotels.id; directory listings (hotel_partners) roll up the hotels their owner added
+ALTER TABLE hotels
+  ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE hotel_partners
+  ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- 2. CREATE FUNCTIONS TO REFRESH AGGREGATES
+-- =====================================================
+
+-- Recalculates one guide's aggregate rating from guide_reviews
+CREATE OR REPLACE FUNCTION refresh_guide_rating(p_guide_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_guide_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE tour_guides g
+  SET
+    rating_average = COALESCE(stats.avg_rating, 0),
+    review_count = COALESCE(stats.total, 0)
+  FROM (
+    SELECT ROUND(AVG(rating)::NUMERIC, 2) AS avg_rating, COUNT(*) AS total
+    FROM guide_reviews
+    WHERE guide_id = p_guide_id AND rating IS NOT NULL
+  ) stats
+  WHERE g.id = p_guide_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Recalculates a hotel partner's aggregate rating from the reviews of the active hotels they added.
+-- Partner rows have their own IDs and point to their owner by user_id (older rows use the user ID as id).
+CREATE OR REPLACE FUNCTION refresh_partner_rating(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE hotel_partners p
+  SET
+    rating_average = COALESCE(stats.avg_rating, 0),
+    review_count = COALESCE(stats.total, 0)
+  FROM (
+    SELECT ROUND(AVG(r.rating)::NUMERIC, 2) AS avg_rating, COUNT(*) AS total
+    FROM hotels h
+    JOIN hotel_reviews r ON r.hotel_id = h.id AND r.rating IS NOT NULL
+    WHERE h.added_by = p_user_id AND h.is_active = true
+  ) stats
+  WHERE p.user_id = p_user_id OR (p.user_id IS NULL AND p.id = p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Recalculates one hotel's aggregate rating from hotel_reviews, and its owner's
+CREATE OR REPLACE FUNCTION refresh_hotel_rating(p_hotel_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  avg_rating NUMERIC;
+  total INTEGER;
+  owner_id UUID;
+BEGIN
+  IF p_hotel_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT ROUND(AVG(rating)::NUMERIC, 2), COUNT(*)
+  INTO avg_rating, total
+  FROM hotel_reviews
+  WHERE hotel_id = p_hotel_id AND rating IS NOT NULL;
+
+  UPDATE hotels
+  SET rating_average = COALESCE(avg_rating, 0), review_count = COALESCE(total, 0)
+  WHERE id = p_hotel_id
+  RETURNING added_by INTO owner_id;
+
+  PERFORM refresh_partner_rating(owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Keeps guide aggregates in sync, including when a review moves between guides
+CREATE OR REPLACE FUNCTION sync_guide_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_guide_rating(NEW.guide_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.guide_id IS DISTINCT FROM NEW.guide_id) THEN
+    PERFORM refresh_guide_rating(OLD.guide_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keeps hotel aggregates in sync, including when a review moves between hotels
+CREATE OR REPLACE FUNCTION sync_hotel_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_hotel_rating(NEW.hotel_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.hotel_id IS DISTINCT FROM NEW.hotel_id) THEN
+    PERFORM refresh_hotel_rating(OLD.hotel_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keeps partner aggregates in sync when a hotel is deactivated, removed or changes owner
+CREATE OR REPLACE FUNCTION sync_partner_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM refresh_partner_rating(NEW.added_by);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR OLD.added_by IS DISTINCT FROM NEW.added_by THEN
+    PERFORM refresh_partner_rating(OLD.added_by);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Starts a new partner with the reviews of hotels they added before registering
+CREATE OR REPLACE FUNCTION init_partner_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_partner_rating(COALESCE(NEW.user_id, NEW.id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 3. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS guide_reviews_rating_trigger ON guide_reviews;
+CREATE TRIGGER guide_reviews_rating_trigger
+  AFTER INSERT OR UPDATE OF rating, guide_id OR DELETE ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION sync_guide_rating();
+
+DROP TRIGGER IF EXISTS hotel_reviews_rating_trigger ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_rating_trigger
+  AFTER INSERT OR UPDATE OF rating, hotel_id OR DELETE ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION sync_hotel_rating();
+
+DROP TRIGGER IF EXISTS hotels_partner_rating_trigger ON hotels;
+CREATE TRIGGER hotels_partner_rating_trigger
+  AFTER UPDATE OF is_active, added_by OR DELETE ON hotels
+  FOR EACH ROW EXECUTE FUNCTION sync_partner_rating();
+
+DROP TRIGGER IF EXISTS hotel_partners_rating_trigger ON hotel_partners;
+CREATE TRIGGER hotel_partners_rating_trigger
+  AFTER INSERT OR UPDATE OF user_id ON hotel_partners
+  FOR EACH ROW EXECUTE FUNCTION init_partner_rating();
+
+-- =====================================================
+-- 4. BACKFILL EXISTING REVIEWS
+-- =====================================================
+
+SELECT refresh_guide_rating(id) FROM tour_guides;
+-- Refreshing each hotel also refreshes its owner's partner row
+SELECT refresh_hotel_rating(id) FROM hotels;
+
+-- =====================================================
+-- 5. CREATE INDEXES FOR SORTING
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_tour_guides_rating ON tour_guides(rating_average DESC, review_count DESC);
+CREATE INDEX IF NOT EXISTS idx_tour_guides_review_count ON tour_guides(review_count DESC);
+CREATE INDEX IF NOT EXISTS idx_hotels_rating ON hotels(rating_average DESC, review_count DESC);
+CREATE INDEX IF NOT EXISTS idx_hotel_partners_rating ON hotel_partners(rating_average DESC, review_count DESC);
+CREATE INDEX IF NOT EXISTS idx_hotel_partners_review_count ON hotel_partners(review_count DESC);
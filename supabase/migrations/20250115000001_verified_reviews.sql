@@ -0,0 +1,112 @@
+-- =====================================================
+-- VERIFIED REVIEWS
+-- Migration: Tie reviews to completed bookings, mark them verified and keep their titles
+-- Date: 2025-01-15
+-- =====================================================
+
+-- =====================================================
+-- 1. ONE REVIEW PER BOOKING
+-- =====================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guide_reviews_booking_unique
+  ON guide_reviews(booking_id) WHERE booking_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hotel_reviews_booking_unique
+  ON hotel_reviews(booking_id) WHERE booking_id IS NOT NULL;
+
+-- =====================================================
+-- 2. REVIEW TITLES
+-- =====================================================
+
+ALTER TABLE guide_reviews ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS title TEXT;
+
+-- =====================================================
+-- 3. CREATE FUNCTIONS FOR REVIEW VERIFICATION
+-- =====================================================
+
+-- Verified only when the booking belongs to the reviewer, is for this guide and is completed.
+-- Only the provider can complete a booking (see transition_booking), so guests cannot earn the badge themselves.
+-- is_verified is always recalculated so clients cannot set it themselves.
+CREATE OR REPLACE FUNCTION verify_guide_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_verified := FALSE;
+
+  IF NEW.booking_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM guide_bookings b
+    WHERE b.id = NEW.booking_id
+      AND b.user_id = NEW.user_id
+      AND b.guide_id = NEW.guide_id
+      AND b.status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Only your own completed bookings can be reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.is_verified := TRUE;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION verify_hotel_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_verified := FALSE;
+
+  IF NEW.booking_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM hotel_bookings b
+    WHERE b.id = NEW.booking_id
+      AND b.user_id = NEW.user_id
+      AND b.hotel_id = NEW.hotel_id
+      AND b.status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Only your own completed bookings can be reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.is_verified := TRUE;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 4. RECHECK EXISTING REVIEWS
+-- =====================================================
+
+-- Runs before the triggers exist so stale booking links lose the flag instead of failing
+UPDATE guide_reviews r
+SET is_verified = EXISTS (
+  SELECT 1 FROM guide_bookings b
+  WHERE b.id = r.booking_id AND b.user_id = r.user_id AND b.guide_id = r.guide_id AND b.status = 'completed'
+)
+WHERE r.is_verified IS DISTINCT FROM FALSE OR r.booking_id IS NOT NULL;
+
+UPDATE hotel_reviews r
+SET is_verified = EXISTS (
+  SELECT 1 FROM hotel_bookings b
+  WHERE b.id = r.booking_id AND b.user_id = r.user_id AND b.hotel_id = r.hotel_id AND b.status = 'completed'
+)
+WHERE r.is_verified IS DISTINCT FROM FALSE OR r.booking_id IS NOT NULL;
+
+-- =====================================================
+-- 5. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS guide_reviews_verification_trigger ON guide_reviews;
+CREATE TRIGGER guide_reviews_verification_trigger
+  BEFORE INSERT OR UPDATE ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION verify_guide_review();
+
+DROP TRIGGER IF EXISTS hotel_reviews_verification_trigger ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_verification_trigger
+  BEFORE INSERT OR UPDATE ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION verify_hotel_review();
@@ -0,0 +1,356 @@
+-- =====================================================
+-- REVIEW REPLIES AND MODERATION
+-- Migration: Provider replies, review reports and an admin moderation audit trail
+-- Date: 2025-01-16
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD HIDDEN FLAG TO REVIEWS
+-- =====================================================
+
+ALTER TABLE guide_reviews ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =====================================================
+-- 2. CREATE REPLIES, REPORTS AND AUDIT TABLES
+-- =====================================================
+
+-- Replies from the guide or hotel partner, shown in order under the review
+CREATE TABLE IF NOT EXISTS review_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL,
+  review_type TEXT NOT NULL CHECK (review_type IN ('hotel', 'guide')),
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reply_text TEXT NOT NULL CHECK (length(trim(reply_text)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_replies_review ON review_replies(review_type, review_id, created_at);
+
+-- One report per user per review; resolved once an admin acts on it
+CREATE TABLE IF NOT EXISTS review_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL,
+  review_type TEXT NOT NULL CHECK (review_type IN ('hotel', 'guide')),
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (review_type, review_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_open ON review_reports(status, created_at DESC);
+
+-- Append-only log of moderation decisions; keeps a snapshot so deleted reviews stay auditable
+CREATE TABLE IF NOT EXISTS review_moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL,
+  review_type TEXT NOT NULL CHECK (review_type IN ('hotel', 'guide')),
+  action TEXT NOT NULL CHECK (action IN ('hide', 'restore', 'delete', 'dismiss')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT,
+  review_snapshot JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_moderation_events_created ON review_moderation_events(created_at DESC);
+
+-- =====================================================
+-- 3. CREATE HELPER FUNCTIONS
+-- =====================================================
+
+-- Admins are flagged in app_metadata, which users cannot edit themselves
+CREATE OR REPLACE FUNCTION is_platform_admin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Flags or unflags an admin in app_metadata; user_metadata is editable by its user and never trusted.
+-- Only the project owner can run it, from the SQL editor: SELECT set_platform_admin('admin@example.com');
+-- The user picks the role up the next time they sign in.
+CREATE OR REPLACE FUNCTION set_platform_admin(p_email TEXT, p_is_admin BOOLEAN DEFAULT TRUE)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE auth.users
+  SET raw_app_meta_data = CASE
+    WHEN p_is_admin THEN COALESCE(raw_app_meta_data, '{}'::JSONB) || '{"role": "admin"}'::JSONB
+    ELSE COALESCE(raw_app_meta_data, '{}'::JSONB) - 'role'
+  END
+  WHERE LOWER(email) = LOWER(BTRIM(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No user signed up with %', p_email;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+REVOKE EXECUTE ON FUNCTION set_platform_admin(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- True when the user owns the guide profile or hotel the review is about
+CREATE OR REPLACE FUNCTION is_review_provider(p_review_type TEXT, p_review_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_review_type = 'guide' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM guide_reviews r
+      JOIN tour_guides tg ON tg.id = r.guide_id
+      WHERE r.id = p_review_id AND (tg.id = p_user_id OR tg.user_id = p_user_id)
+    );
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM hotel_reviews r
+    JOIN hotels h ON h.id = r.hotel_id
+    WHERE r.id = p_review_id AND h.added_by = p_user_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 4. CREATE MODERATION FUNCTION
+-- =====================================================
+
+-- Applies a moderation action, resolves open reports and records the decision
+CREATE OR REPLACE FUNCTION moderate_review(
+  p_review_type TEXT,
+  p_review_id UUID,
+  p_action TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS review_moderation_events AS $$
+DECLARE
+  snapshot JSONB;
+  event review_moderation_events;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can moderate reviews'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_action NOT IN ('hide', 'restore', 'delete', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_review_type = 'guide' THEN
+    SELECT to_jsonb(r) INTO snapshot FROM guide_reviews r WHERE r.id = p_review_id;
+  ELSIF p_review_type = 'hotel' THEN
+    SELECT to_jsonb(r) INTO snapshot FROM hotel_reviews r WHERE r.id = p_review_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown review type: %', p_review_type
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'Review not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_action IN ('hide', 'restore') THEN
+    IF p_review_type = 'guide' THEN
+      UPDATE guide_reviews SET is_hidden = (p_action = 'hide') WHERE id = p_review_id;
+    ELSE
+      UPDATE hotel_reviews SET is_hidden = (p_action = 'hide') WHERE id = p_review_id;
+    END IF;
+  ELSIF p_action = 'delete' THEN
+    DELETE FROM review_replies WHERE review_type = p_review_type AND review_id = p_review_id;
+    IF p_review_type = 'guide' THEN
+      DELETE FROM guide_reviews WHERE id = p_review_id;
+    ELSE
+      DELETE FROM hotel_reviews WHERE id = p_review_id;
+    END IF;
+  END IF;
+
+  -- Restoring a review does not settle the reports against it
+  IF p_action <> 'restore' THEN
+    UPDATE review_reports
+    SET status = 'resolved', resolved_at = NOW()
+    WHERE review_type = p_review_type AND review_id = p_review_id AND status = 'open';
+  END IF;
+
+  INSERT INTO review_moderation_events (review_id, review_type, action, actor_id, reason, review_snapshot)
+  VALUES (p_review_id, p_review_type, p_action, auth.uid(), NULLIF(trim(p_reason), ''), snapshot)
+  RETURNING * INTO event;
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 5. UPDATE REVIEW TRIGGERS FOR HIDDEN REVIEWS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION refresh_guide_rating(p_guide_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_guide_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE tour_guides g
+  SET
+    rating_average = COALESCE(stats.avg_rating, 0),
+    review_count = COALESCE(stats.total, 0)
+  FROM (
+    SELECT ROUND(AVG(rating)::NUMERIC, 2) AS avg_rating, COUNT(*) AS total
+    FROM guide_reviews
+    WHERE guide_id = p_guide_id AND rating IS NOT NULL AND NOT is_hidden
+  ) stats
+  WHERE g.id = p_guide_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION refresh_partner_rating(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE hotel_partners p
+  SET
+    rating_average = COALESCE(stats.avg_rating, 0),
+    review_count = COALESCE(stats.total, 0)
+  FROM (
+    SELECT ROUND(AVG(r.rating)::NUMERIC, 2) AS avg_rating, COUNT(*) AS total
+    FROM hotels h
+    JOIN hotel_reviews r ON r.hotel_id = h.id AND r.rating IS NOT NULL AND NOT r.is_hidden
+    WHERE h.added_by = p_user_id AND h.is_active = true
+  ) stats
+  WHERE p.user_id = p_user_id OR (p.user_id IS NULL AND p.id = p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION refresh_hotel_rating(p_hotel_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  avg_rating NUMERIC;
+  total INTEGER;
+  owner_id UUID;
+BEGIN
+  IF p_hotel_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT ROUND(AVG(rating)::NUMERIC, 2), COUNT(*)
+  INTO avg_rating, total
+  FROM hotel_reviews
+  WHERE hotel_id = p_hotel_id AND rating IS NOT NULL AND NOT is_hidden;
+
+  UPDATE hotels
+  SET rating_average = COALESCE(avg_rating, 0), review_count = COALESCE(total, 0)
+  WHERE id = p_hotel_id
+  RETURNING added_by INTO owner_id;
+
+  PERFORM refresh_partner_rating(owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS guide_reviews_rating_trigger ON guide_reviews;
+CREATE TRIGGER guide_reviews_rating_trigger
+  AFTER INSERT OR UPDATE OF rating, guide_id, is_hidden OR DELETE ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION sync_guide_rating();
+
+DROP TRIGGER IF EXISTS hotel_reviews_rating_trigger ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_rating_trigger
+  AFTER INSERT OR UPDATE OF rating, hotel_id, is_hidden OR DELETE ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION sync_hotel_rating();
+
+-- Only admins hide and restore reviews (through moderate_review), so authors cannot unhide their own.
+-- Requests without a user JWT (service role, migrations) are trusted.
+CREATE OR REPLACE FUNCTION protect_review_hidden_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden
+    AND COALESCE(auth.jwt() ->> 'role', '') IN ('anon', 'authenticated')
+    AND NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can hide or restore reviews'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guide_reviews_hidden_trigger ON guide_reviews;
+CREATE TRIGGER guide_reviews_hidden_trigger
+  BEFORE UPDATE OF is_hidden ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_hidden_flag();
+
+DROP TRIGGER IF EXISTS hotel_reviews_hidden_trigger ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_hidden_trigger
+  BEFORE UPDATE OF is_hidden ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_hidden_flag();
+
+-- Hiding or restoring a review should not re-run the booking check
+DROP TRIGGER IF EXISTS guide_reviews_verification_trigger ON guide_reviews;
+CREATE TRIGGER guide_reviews_verification_trigger
+  BEFORE INSERT OR UPDATE OF booking_id, user_id, guide_id, is_verified ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION verify_guide_review();
+
+DROP TRIGGER IF EXISTS hotel_reviews_verification_trigger ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_verification_trigger
+  BEFORE INSERT OR UPDATE OF booking_id, user_id, hotel_id, is_verified ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION verify_hotel_review();
+
+-- =====================================================
+-- 6. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE review_replies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_moderation_events ENABLE ROW LEVEL SECURITY;
+
+-- Hidden reviews are left out of every read except by their author and admins.
+-- Restrictive, so it narrows whatever policies already let people read reviews.
+DROP POLICY IF EXISTS "Hidden reviews are visible to authors and admins only" ON guide_reviews;
+CREATE POLICY "Hidden reviews are visible to authors and admins only" ON guide_reviews
+  AS RESTRICTIVE FOR SELECT USING (NOT is_hidden OR auth.uid() = user_id OR is_platform_admin());
+
+DROP POLICY IF EXISTS "Hidden reviews are visible to authors and admins only" ON hotel_reviews;
+CREATE POLICY "Hidden reviews are visible to authors and admins only" ON hotel_reviews
+  AS RESTRICTIVE FOR SELECT USING (NOT is_hidden OR auth.uid() = user_id OR is_platform_admin());
+
+DROP POLICY IF EXISTS "Anyone can view review replies" ON review_replies;
+CREATE POLICY "Anyone can view review replies" ON review_replies
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Providers can reply to their reviews" ON review_replies;
+CREATE POLICY "Providers can reply to their reviews" ON review_replies
+  FOR INSERT WITH CHECK (
+    auth.uid() = author_id AND is_review_provider(review_type, review_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Authors can manage own replies" ON review_replies;
+CREATE POLICY "Authors can manage own replies" ON review_replies
+  FOR UPDATE USING (auth.uid() = author_id) WITH CHECK (auth.uid() = author_id);
+
+DROP POLICY IF EXISTS "Authors can delete own replies" ON review_replies;
+CREATE POLICY "Authors can delete own replies" ON review_replies
+  FOR DELETE USING (auth.uid() = author_id OR is_platform_admin());
+
+DROP POLICY IF EXISTS "Users can report reviews" ON review_reports;
+CREATE POLICY "Users can report reviews" ON review_reports
+  FOR INSERT WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+DROP POLICY IF EXISTS "Users and admins can view reports" ON review_reports;
+CREATE POLICY "Users and admins can view reports" ON review_reports
+  FOR SELECT USING (auth.uid() = reporter_id OR is_platform_admin());
+
+DROP POLICY IF EXISTS "Admins can view moderation history" ON review_moderation_events;
+CREATE POLICY "Admins can view moderation history" ON review_moderation_events
+  FOR SELECT USING (is_platform_admin());
+
+-- =====================================================
+-- 7. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON review_replies TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON review_replies TO authenticated;
+GRANT SELECT, INSERT ON review_reports TO authenticated;
+GRANT SELECT ON review_moderation_events TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_review(TEXT, UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,66 @@
+-- =====================================================
+-- REVIEW PHOTOS
+-- Migration: Let reviewers attach photos stored in Supabase Storage
+-- Date: 2025-01-17
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD PHOTO COLUMNS
+-- =====================================================
+
+-- hotel_reviews already has an images column
+ALTER TABLE guide_reviews ADD COLUMN IF NOT EXISTS images TEXT[];
+
+-- =====================================================
+-- 2. LIMIT PHOTOS PER REVIEW
+-- =====================================================
+
+-- Keep in sync with SUPABASE_CONFIG.STORAGE.MAX_REVIEW_PHOTOS
+ALTER TABLE guide_reviews DROP CONSTRAINT IF EXISTS guide_reviews_images_limit;
+ALTER TABLE guide_reviews ADD CONSTRAINT guide_reviews_images_limit
+  CHECK (images IS NULL OR cardinality(images) <= 5);
+
+ALTER TABLE hotel_reviews DROP CONSTRAINT IF EXISTS hotel_reviews_images_limit;
+ALTER TABLE hotel_reviews ADD CONSTRAINT hotel_reviews_images_limit
+  CHECK (images IS NULL OR cardinality(images) <= 5);
+
+-- =====================================================
+-- 3. CREATE STORAGE BUCKET
+-- =====================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('images', 'images', TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- 4. STORAGE POLICIES
+-- =====================================================
+
+-- Photos live under review_photos/<user id>/ so each reviewer can only write to their own folder
+DROP POLICY IF EXISTS "Reviewers can upload their own review photos" ON storage.objects;
+CREATE POLICY "Reviewers can upload their own review photos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'images'
+    AND (storage.foldername(name))[1] = 'review_photos'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Reviewers can delete their own review photos" ON storage.objects;
+CREATE POLICY "Reviewers can delete their own review photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'images'
+    AND (storage.foldername(name))[1] = 'review_photos'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Anyone can view review photos" ON storage.objects;
+CREATE POLICY "Anyone can view review photos"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'images'
+    AND (storage.foldername(name))[1] = 'review_photos'
+  );
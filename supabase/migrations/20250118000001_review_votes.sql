@@ -0,0 +1,177 @@
+-- =====================================================
+-- REVIEW HELPFUL VOTES
+-- Migration: One changeable helpful vote per user per review with cached counts
+-- Date: 2025-01-18
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD VOTE COUNTS TO REVIEWS
+-- =====================================================
+
+ALTER TABLE guide_reviews ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_guide_reviews_helpful ON guide_reviews(guide_id, helpful_count DESC);
+CREATE INDEX IF NOT EXISTS idx_hotel_reviews_helpful ON hotel_reviews(hotel_id, helpful_count DESC);
+
+-- =====================================================
+-- 2. CREATE VOTES TABLE
+-- =====================================================
+
+-- A user's vote can flip between helpful and not helpful, or be removed
+CREATE TABLE IF NOT EXISTS review_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL,
+  review_type TEXT NOT NULL CHECK (review_type IN ('hotel', 'guide')),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  is_helpful BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (review_type, review_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_user ON review_votes(user_id, review_type);
+
+-- =====================================================
+-- 3. CREATE FUNCTIONS FOR VOTE COUNTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION refresh_review_helpful_count(p_review_type TEXT, p_review_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total
+  FROM review_votes
+  WHERE review_type = p_review_type AND review_id = p_review_id AND is_helpful;
+
+  -- Lets protect_review_helpful_count() tell this update from one sent by a client
+  PERFORM set_config('app.refreshing_helpful_count', 'on', true);
+
+  IF p_review_type = 'guide' THEN
+    UPDATE guide_reviews SET helpful_count = total WHERE id = p_review_id;
+  ELSE
+    UPDATE hotel_reviews SET helpful_count = total WHERE id = p_review_id;
+  END IF;
+
+  PERFORM set_config('app.refreshing_helpful_count', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Helpful counts only change when votes do; new reviews start without any
+CREATE OR REPLACE FUNCTION protect_review_helpful_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.helpful_count := 0;
+  ELSIF NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+    AND COALESCE(current_setting('app.refreshing_helpful_count', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Helpful counts can only change through review votes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_review_helpful_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_review_helpful_count(OLD.review_type, OLD.review_id);
+    RETURN OLD;
+  END IF;
+
+  -- A vote moved to another review no longer counts towards the one it left
+  IF TG_OP = 'UPDATE' AND (NEW.review_type, NEW.review_id) IS DISTINCT FROM (OLD.review_type, OLD.review_id) THEN
+    PERFORM refresh_review_helpful_count(OLD.review_type, OLD.review_id);
+  END IF;
+
+  PERFORM refresh_review_helpful_count(NEW.review_type, NEW.review_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Votes have no foreign key to the two review tables, so clean them up here
+CREATE OR REPLACE FUNCTION delete_review_votes()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM review_votes
+  WHERE review_type = TG_ARGV[0] AND review_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- True when the user wrote the review; authors cannot vote on their own reviews
+CREATE OR REPLACE FUNCTION is_review_author(p_review_type TEXT, p_review_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_review_type = 'guide' THEN
+    RETURN EXISTS (SELECT 1 FROM guide_reviews WHERE id = p_review_id AND user_id = p_user_id);
+  END IF;
+
+  RETURN EXISTS (SELECT 1 FROM hotel_reviews WHERE id = p_review_id AND user_id = p_user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 4. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS review_votes_count_trigger ON review_votes;
+CREATE TRIGGER review_votes_count_trigger
+  AFTER INSERT OR UPDATE OF is_helpful, review_id, review_type OR DELETE ON review_votes
+  FOR EACH ROW EXECUTE FUNCTION sync_review_helpful_count();
+
+DROP TRIGGER IF EXISTS guide_reviews_helpful_count_trigger ON guide_reviews;
+CREATE TRIGGER guide_reviews_helpful_count_trigger
+  BEFORE INSERT OR UPDATE OF helpful_count ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_helpful_count();
+
+DROP TRIGGER IF EXISTS hotel_reviews_helpful_count_trigger ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_helpful_count_trigger
+  BEFORE INSERT OR UPDATE OF helpful_count ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION protect_review_helpful_count();
+
+DROP TRIGGER IF EXISTS guide_reviews_votes_cleanup ON guide_reviews;
+CREATE TRIGGER guide_reviews_votes_cleanup
+  AFTER DELETE ON guide_reviews
+  FOR EACH ROW EXECUTE FUNCTION delete_review_votes('guide');
+
+DROP TRIGGER IF EXISTS hotel_reviews_votes_cleanup ON hotel_reviews;
+CREATE TRIGGER hotel_reviews_votes_cleanup
+  AFTER DELETE ON hotel_reviews
+  FOR EACH ROW EXECUTE FUNCTION delete_review_votes('hotel');
+
+-- =====================================================
+-- 5. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own votes" ON review_votes;
+CREATE POLICY "Users can view own votes" ON review_votes
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can vote on others' reviews" ON review_votes;
+CREATE POLICY "Users can vote on others' reviews" ON review_votes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND NOT is_review_author(review_type, review_id, auth.uid())
+  );
+
+-- Changing a vote is held to the same rule as casting it, so it cannot be moved onto the voter's own review
+DROP POLICY IF EXISTS "Users can change own votes" ON review_votes;
+CREATE POLICY "Users can change own votes" ON review_votes
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (
+    auth.uid() = user_id AND NOT is_review_author(review_type, review_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can remove own votes" ON review_votes;
+CREATE POLICY "Users can remove own votes" ON review_votes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON review_votes TO authenticated;
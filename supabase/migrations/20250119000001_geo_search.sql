@@ -0,0 +1,115 @@
+-- =====================================================
+-- GEO-RADIUS SEARCH
+-- Migration: Guide service areas and distance lookups for guides and hotels
+-- Date: 2025-01-19
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE GUIDE SERVICE AREAS TABLE
+-- =====================================================
+
+-- Places a guide works from, usually a monument or attraction, with how far they will travel from it
+CREATE TABLE IF NOT EXISTS guide_service_areas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guide_id UUID NOT NULL REFERENCES tour_guides(id) ON DELETE CASCADE,
+  attraction_id UUID REFERENCES attractions(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  radius_km NUMERIC(6, 2) NOT NULL DEFAULT 10 CHECK (radius_km > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guide_service_areas_guide ON guide_service_areas(guide_id);
+CREATE INDEX IF NOT EXISTS idx_guide_service_areas_location ON guide_service_areas(latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_hotels_location ON hotels(latitude, longitude)
+  WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- =====================================================
+-- 2. CREATE DISTANCE FUNCTIONS
+-- =====================================================
+
+-- Great-circle distance in kilometres (haversine), matching calculateDistance in mapUtils
+CREATE OR REPLACE FUNCTION distance_km(
+  p_lat1 DOUBLE PRECISION,
+  p_lng1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A guide is as close as the edge of their nearest service area, so 0 means they cover the point
+CREATE OR REPLACE FUNCTION nearby_guides(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (guide_id UUID, distance_km NUMERIC) AS $$
+  SELECT nearest.guide_id, ROUND(nearest.distance::NUMERIC, 2)
+  FROM (
+    SELECT a.guide_id, MIN(GREATEST(distance_km(p_latitude, p_longitude, a.latitude, a.longitude) - a.radius_km, 0)) AS distance
+    FROM guide_service_areas a
+    GROUP BY a.guide_id
+  ) nearest
+  WHERE p_radius_km IS NULL OR nearest.distance <= p_radius_km
+  ORDER BY nearest.distance;
+$$ LANGUAGE sql STABLE;
+
+-- Directory listings are hotel partners, so each partner is as close as the nearest active hotel they added.
+-- Older partner rows carry the user ID as their own ID and have no user_id.
+CREATE OR REPLACE FUNCTION nearby_hotels(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (partner_id UUID, distance_km NUMERIC) AS $$
+  SELECT nearest.partner_id, ROUND(nearest.distance::NUMERIC, 2)
+  FROM (
+    SELECT p.id AS partner_id, MIN(distance_km(p_latitude, p_longitude, h.latitude, h.longitude)) AS distance
+    FROM hotel_partners p
+    JOIN hotels h ON h.added_by = COALESCE(p.user_id, p.id)
+    WHERE h.is_active = true AND h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+    GROUP BY p.id
+  ) nearest
+  WHERE p_radius_km IS NULL OR nearest.distance <= p_radius_km
+  ORDER BY nearest.distance;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE guide_service_areas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view guide service areas" ON guide_service_areas;
+CREATE POLICY "Anyone can view guide service areas" ON guide_service_areas
+  FOR SELECT USING (true);
+
+-- Guides manage the service areas of their profile, whether it is keyed by their user ID or carries user_id
+DROP POLICY IF EXISTS "Guides can manage own service areas" ON guide_service_areas;
+CREATE POLICY "Guides can manage own service areas" ON guide_service_areas
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_service_areas.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tour_guides tg
+      WHERE tg.id = guide_service_areas.guide_id AND (tg.id = auth.uid() OR tg.user_id = auth.uid())
+    )
+  );
+
+-- =====================================================
+-- 4. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON guide_service_areas TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON guide_service_areas TO authenticated;
+GRANT EXECUTE ON FUNCTION nearby_guides(DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION nearby_hotels(DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC) TO anon, authenticated;
@@ -0,0 +1,314 @@
+-- =====================================================
+-- FULL-TEXT SEARCH
+-- Migration: Ranked, typo-tolerant search over guides, hotels, attractions and states
+-- Date: 2025-01-20
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- 1. CREATE SEARCH SYNONYMS TABLE
+-- =====================================================
+
+-- Spellings of the same place, romanized and Devanagari; terms sharing a canonical name are equivalent
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  term TEXT PRIMARY KEY CHECK (term = lower(trim(term)) AND length(term) > 0),
+  canonical TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_synonyms_canonical ON search_synonyms(canonical);
+
+INSERT INTO search_synonyms (term, canonical) VALUES
+  ('varanasi', 'varanasi'), ('banaras', 'varanasi'), ('benares', 'varanasi'), ('kashi', 'varanasi'),
+  ('वाराणसी', 'varanasi'), ('बनारस', 'varanasi'), ('काशी', 'varanasi'),
+  ('jaipur', 'jaipur'), ('pink city', 'jaipur'), ('जयपुर', 'jaipur'),
+  ('rajasthan', 'rajasthan'), ('राजस्थान', 'rajasthan'),
+  ('delhi', 'delhi'), ('new delhi', 'delhi'), ('दिल्ली', 'delhi'), ('नई दिल्ली', 'delhi'),
+  ('mumbai', 'mumbai'), ('bombay', 'mumbai'), ('मुंबई', 'mumbai'), ('मुम्बई', 'mumbai'),
+  ('kolkata', 'kolkata'), ('calcutta', 'kolkata'), ('कोलकाता', 'kolkata'),
+  ('chennai', 'chennai'), ('madras', 'chennai'), ('चेन्नई', 'chennai'),
+  ('bengaluru', 'bengaluru'), ('bangalore', 'bengaluru'), ('बेंगलुरु', 'bengaluru'),
+  ('agra', 'agra'), ('आगरा', 'agra'),
+  ('taj mahal', 'taj mahal'), ('ताज महल', 'taj mahal'),
+  ('goa', 'goa'), ('गोवा', 'goa'),
+  ('udaipur', 'udaipur'), ('उदयपुर', 'udaipur'),
+  ('rishikesh', 'rishikesh'), ('ऋषिकेश', 'rishikesh'),
+  ('haridwar', 'haridwar'), ('hardwar', 'haridwar'), ('हरिद्वार', 'haridwar'),
+  ('kerala', 'kerala'), ('केरल', 'kerala'),
+  ('prayagraj', 'prayagraj'), ('allahabad', 'prayagraj'), ('प्रयागराज', 'prayagraj'),
+  ('gurugram', 'gurugram'), ('gurgaon', 'gurugram'), ('गुरुग्राम', 'gurugram'),
+  ('puducherry', 'puducherry'), ('pondicherry', 'puducherry'), ('पुडुचेरी', 'puducherry'),
+  ('odisha', 'odisha'), ('orissa', 'odisha'), ('ओडिशा', 'odisha'),
+  ('thiruvananthapuram', 'thiruvananthapuram'), ('trivandrum', 'thiruvananthapuram'),
+  ('mysuru', 'mysuru'), ('mysore', 'mysuru'), ('मैसूर', 'mysuru')
+ON CONFLICT (term) DO NOTHING;
+
+-- =====================================================
+-- 2. CREATE SEARCH INDEX TABLE
+-- =====================================================
+
+-- One row per searchable entity, kept in sync by the triggers below
+CREATE TABLE IF NOT EXISTS search_index (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('guide', 'hotel', 'attraction', 'state')),
+  entity_id UUID NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL DEFAULT '',
+  city TEXT,
+  state TEXT,
+  search_text TEXT NOT NULL DEFAULT '',
+  search_vector TSVECTOR NOT NULL DEFAULT ''::TSVECTOR,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_vector ON search_index USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_search_index_trgm ON search_index USING GIN (search_text gin_trgm_ops);
+
+-- =====================================================
+-- 3. CREATE INDEXING FUNCTIONS
+-- =====================================================
+
+-- Titles are stemmed and kept whole so names match exactly; places rank above descriptions
+CREATE OR REPLACE FUNCTION upsert_search_entry(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_title TEXT,
+  p_body TEXT,
+  p_city TEXT,
+  p_state TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_title TEXT := coalesce(p_title, '');
+  v_body TEXT := coalesce(p_body, '');
+  v_place TEXT := trim(coalesce(p_city, '') || ' ' || coalesce(p_state, ''));
+BEGIN
+  INSERT INTO search_index (entity_type, entity_id, title, body, city, state, search_text, search_vector, updated_at)
+  VALUES (
+    p_entity_type,
+    p_entity_id,
+    v_title,
+    v_body,
+    p_city,
+    p_state,
+    lower(trim(v_title || ' ' || v_place || ' ' || v_body)),
+    setweight(to_tsvector('english', v_title), 'A') ||
+      setweight(to_tsvector('simple', v_title), 'A') ||
+      setweight(to_tsvector('simple', v_place), 'B') ||
+      setweight(to_tsvector('english', v_body), 'C'),
+    NOW()
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    title = EXCLUDED.title,
+    body = EXCLUDED.body,
+    city = EXCLUDED.city,
+    state = EXCLUDED.state,
+    search_text = EXCLUDED.search_text,
+    search_vector = EXCLUDED.search_vector,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION index_tour_guide()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM upsert_search_entry(
+    'guide',
+    NEW.id,
+    concat_ws(' ', NEW.full_name, NEW.company_name),
+    concat_ws(' ', NEW.bio, array_to_string(NEW.specialties, ' '), array_to_string(NEW.languages_spoken, ' ')),
+    NEW.city,
+    NEW.state
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION index_hotel_partner()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM upsert_search_entry(
+    'hotel',
+    NEW.id,
+    NEW.company_name,
+    concat_ws(' ', NEW.hotel_type, NEW.bio, array_to_string(NEW.amenities, ' ')),
+    NEW.city,
+    NEW.state
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION index_attraction()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM upsert_search_entry(
+    'attraction',
+    NEW.id,
+    NEW.name,
+    concat_ws(' ', NEW.category, NEW.description),
+    NEW.city,
+    (SELECT s.name FROM states s WHERE s.id = NEW.state_id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION index_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM upsert_search_entry(
+    'state',
+    NEW.id,
+    NEW.name,
+    concat_ws(' ', NEW.description, array_to_string(NEW.famous_for, ' '), NEW.language),
+    NEW.capital,
+    NEW.name
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Entity type comes from the trigger argument so one function serves every table
+CREATE OR REPLACE FUNCTION remove_search_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM search_index
+  WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 4. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS tour_guides_search_index ON tour_guides;
+CREATE TRIGGER tour_guides_search_index
+  AFTER INSERT OR UPDATE ON tour_guides
+  FOR EACH ROW EXECUTE FUNCTION index_tour_guide();
+
+DROP TRIGGER IF EXISTS tour_guides_search_cleanup ON tour_guides;
+CREATE TRIGGER tour_guides_search_cleanup
+  AFTER DELETE ON tour_guides
+  FOR EACH ROW EXECUTE FUNCTION remove_search_entry('guide');
+
+DROP TRIGGER IF EXISTS hotel_partners_search_index ON hotel_partners;
+CREATE TRIGGER hotel_partners_search_index
+  AFTER INSERT OR UPDATE ON hotel_partners
+  FOR EACH ROW EXECUTE FUNCTION index_hotel_partner();
+
+DROP TRIGGER IF EXISTS hotel_partners_search_cleanup ON hotel_partners;
+CREATE TRIGGER hotel_partners_search_cleanup
+  AFTER DELETE ON hotel_partners
+  FOR EACH ROW EXECUTE FUNCTION remove_search_entry('hotel');
+
+DROP TRIGGER IF EXISTS attractions_search_index ON attractions;
+CREATE TRIGGER attractions_search_index
+  AFTER INSERT OR UPDATE ON attractions
+  FOR EACH ROW EXECUTE FUNCTION index_attraction();
+
+DROP TRIGGER IF EXISTS attractions_search_cleanup ON attractions;
+CREATE TRIGGER attractions_search_cleanup
+  AFTER DELETE ON attractions
+  FOR EACH ROW EXECUTE FUNCTION remove_search_entry('attraction');
+
+DROP TRIGGER IF EXISTS states_search_index ON states;
+CREATE TRIGGER states_search_index
+  AFTER INSERT OR UPDATE ON states
+  FOR EACH ROW EXECUTE FUNCTION index_state();
+
+DROP TRIGGER IF EXISTS states_search_cleanup ON states;
+CREATE TRIGGER states_search_cleanup
+  AFTER DELETE ON states
+  FOR EACH ROW EXECUTE FUNCTION remove_search_entry('state');
+
+-- =====================================================
+-- 5. BACKFILL EXISTING ROWS
+-- =====================================================
+
+-- Touching each row fires the triggers above
+UPDATE tour_guides SET id = id;
+UPDATE hotel_partners SET id = id;
+UPDATE states SET id = id;
+UPDATE attractions SET id = id;
+
+-- =====================================================
+-- 6. CREATE SEARCH FUNCTIONS
+-- =====================================================
+
+-- The query plus a copy for every other spelling of each place name it mentions
+CREATE OR REPLACE FUNCTION expand_search_terms(p_query TEXT)
+RETURNS TEXT[] AS $$
+  WITH normalized AS (
+    SELECT lower(regexp_replace(trim(p_query), '\s+', ' ', 'g')) AS query
+  )
+  SELECT array_agg(DISTINCT variant)
+  FROM (
+    SELECT n.query AS variant FROM normalized n
+    UNION ALL
+    SELECT replace(n.query, s.term, alt.term)
+    FROM normalized n
+    JOIN search_synonyms s ON n.query ~ ('(^|\s)' || s.term || '($|\s)')
+    JOIN search_synonyms alt ON alt.canonical = s.canonical AND alt.term <> s.term
+  ) variants
+  WHERE variant <> '';
+$$ LANGUAGE sql STABLE;
+
+-- Matches on stemmed words or, for misspellings, trigram similarity; ranked best first.
+-- Ties keep one order, so callers can page through every match with p_offset.
+DROP FUNCTION IF EXISTS search_listings(TEXT, TEXT[], INTEGER);
+CREATE OR REPLACE FUNCTION search_listings(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (entity_type TEXT, entity_id UUID, rank REAL) AS $$
+  WITH variants AS (
+    SELECT
+      v.variant,
+      websearch_to_tsquery('english', v.variant) || websearch_to_tsquery('simple', v.variant) AS query
+    FROM unnest(expand_search_terms(p_query)) AS v(variant)
+  )
+  SELECT
+    i.entity_type,
+    i.entity_id,
+    MAX(ts_rank_cd(i.search_vector, v.query) + word_similarity(v.variant, i.search_text))::REAL AS rank
+  FROM search_index i
+  JOIN variants v ON i.search_vector @@ v.query OR v.variant <% i.search_text
+  WHERE p_types IS NULL OR i.entity_type = ANY(p_types)
+  GROUP BY i.entity_type, i.entity_id
+  ORDER BY rank DESC, i.entity_type, i.entity_id
+  LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- =====================================================
+-- 7. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_index ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view search synonyms" ON search_synonyms;
+CREATE POLICY "Anyone can view search synonyms" ON search_synonyms
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage search synonyms" ON search_synonyms;
+CREATE POLICY "Admins can manage search synonyms" ON search_synonyms
+  FOR ALL USING (is_platform_admin()) WITH CHECK (is_platform_admin());
+
+DROP POLICY IF EXISTS "Anyone can view search index" ON search_index;
+CREATE POLICY "Anyone can view search index" ON search_index
+  FOR SELECT USING (true);
+
+-- =====================================================
+-- 8. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON search_synonyms TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON search_synonyms TO authenticated;
+GRANT SELECT ON search_index TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION expand_search_terms(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_listings(TEXT, TEXT[], INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,120 @@
+-- =====================================================
+-- GLOBAL SEARCH
+-- Migration: Index cuisines and festivals and search every entity type at once
+-- Date: 2025-01-21
+-- =====================================================
+
+-- =====================================================
+-- 1. ALLOW CUISINES AND FESTIVALS IN THE SEARCH INDEX
+-- =====================================================
+
+ALTER TABLE search_index DROP CONSTRAINT IF EXISTS search_index_entity_type_check;
+ALTER TABLE search_index ADD CONSTRAINT search_index_entity_type_check
+  CHECK (entity_type IN ('guide', 'hotel', 'attraction', 'state', 'cuisine', 'festival'));
+
+CREATE INDEX IF NOT EXISTS idx_search_index_type ON search_index(entity_type);
+
+-- =====================================================
+-- 2. CREATE INDEXING FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION index_cuisine()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM upsert_search_entry(
+    'cuisine',
+    NEW.id,
+    NEW.name,
+    concat_ws(' ', NEW.description, array_to_string(NEW.ingredients, ' ')),
+    NULL,
+    (SELECT s.name FROM states s WHERE s.id = NEW.state_id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE OR REPLACE FUNCTION index_festival()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM upsert_search_entry(
+    'festival',
+    NEW.id,
+    NEW.name,
+    concat_ws(' ', NEW.description, NEW.significance, NEW.date_range),
+    NEW.location,
+    (SELECT s.name FROM states s WHERE s.id = NEW.state_id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 3. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS cuisines_search_index ON cuisines;
+CREATE TRIGGER cuisines_search_index
+  AFTER INSERT OR UPDATE ON cuisines
+  FOR EACH ROW EXECUTE FUNCTION index_cuisine();
+
+DROP TRIGGER IF EXISTS cuisines_search_cleanup ON cuisines;
+CREATE TRIGGER cuisines_search_cleanup
+  AFTER DELETE ON cuisines
+  FOR EACH ROW EXECUTE FUNCTION remove_search_entry('cuisine');
+
+DROP TRIGGER IF EXISTS festivals_search_index ON festivals;
+CREATE TRIGGER festivals_search_index
+  AFTER INSERT OR UPDATE ON festivals
+  FOR EACH ROW EXECUTE FUNCTION index_festival();
+
+DROP TRIGGER IF EXISTS festivals_search_cleanup ON festivals;
+CREATE TRIGGER festivals_search_cleanup
+  AFTER DELETE ON festivals
+  FOR EACH ROW EXECUTE FUNCTION remove_search_entry('festival');
+
+-- =====================================================
+-- 4. BACKFILL EXISTING ROWS
+-- =====================================================
+
+UPDATE cuisines SET id = id;
+UPDATE festivals SET id = id;
+
+-- =====================================================
+-- 5. CREATE GLOBAL SEARCH FUNCTION
+-- =====================================================
+
+-- Best matches of every type, at most p_per_type each; guides and hotels only while listed in the directory
+CREATE OR REPLACE FUNCTION global_search(
+  p_query TEXT,
+  p_per_type INTEGER DEFAULT 5
+)
+RETURNS TABLE (entity_type TEXT, entity_id UUID, title TEXT, city TEXT, state TEXT, rank REAL) AS $$
+  SELECT ranked.entity_type, ranked.entity_id, ranked.title, ranked.city, ranked.state, ranked.rank
+  FROM (
+    SELECT
+      i.entity_type,
+      i.entity_id,
+      i.title,
+      i.city,
+      i.state,
+      m.rank,
+      ROW_NUMBER() OVER (PARTITION BY i.entity_type ORDER BY m.rank DESC) AS position
+    FROM search_listings(p_query, NULL, 500) m
+    JOIN search_index i ON i.entity_type = m.entity_type AND i.entity_id = m.entity_id
+    WHERE i.entity_type NOT IN ('guide', 'hotel')
+      OR EXISTS (
+        SELECT 1 FROM public_directory_listings l
+        WHERE l.user_id = i.entity_id
+          AND l.is_visible = true
+          AND l.passion_type = CASE i.entity_type WHEN 'guide' THEN 'tour_guide' ELSE 'hotel_partner' END
+      )
+  ) ranked
+  WHERE ranked.position <= p_per_type
+  ORDER BY ranked.rank DESC;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION global_search(TEXT, INTEGER) TO anon, authenticated;
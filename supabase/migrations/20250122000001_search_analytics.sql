@@ -0,0 +1,178 @@
+-- =====================================================
+-- SEARCH ANALYTICS
+-- Migration: Record searches and clicks for popular searches and zero-result reports
+-- Date: 2025-01-22
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE SEARCH EVENTS TABLE
+-- =====================================================
+
+-- One row per search a user settles on, with the result they opened if any
+CREATE TABLE IF NOT EXISTS search_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('guides', 'hotels', 'global')),
+  query_text TEXT NOT NULL DEFAULT '',
+  normalized_query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}'::JSONB,
+  result_count INTEGER NOT NULL CHECK (result_count >= 0),
+  state TEXT,
+  clicked_entity_type TEXT,
+  clicked_entity_id UUID,
+  clicked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_events_created ON search_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_events_query ON search_events(normalized_query, created_at DESC)
+  WHERE normalized_query <> '';
+CREATE INDEX IF NOT EXISTS idx_search_events_zero_results ON search_events(created_at DESC)
+  WHERE result_count = 0;
+
+-- =====================================================
+-- 2. CREATE FUNCTIONS FOR RECORDING SEARCHES
+-- =====================================================
+
+-- Indian travel seasons: winter Dec-Feb, summer Mar-May, monsoon Jun-Sep, post-monsoon Oct-Nov
+CREATE OR REPLACE FUNCTION search_season(p_at TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_at) IN (12, 1, 2) THEN 'winter'
+    WHEN EXTRACT(MONTH FROM p_at) IN (3, 4, 5) THEN 'summer'
+    WHEN EXTRACT(MONTH FROM p_at) IN (6, 7, 8, 9) THEN 'monsoon'
+    ELSE 'post_monsoon'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Events are written through this function so anonymous visitors can record searches without reading them
+CREATE OR REPLACE FUNCTION record_search(
+  p_source TEXT,
+  p_query TEXT,
+  p_filters JSONB,
+  p_result_count INTEGER,
+  p_state TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_query TEXT := trim(coalesce(p_query, ''));
+  v_place TEXT := lower(trim(coalesce(NULLIF(trim(p_city), ''), v_query)));
+  v_state TEXT := NULLIF(trim(p_state), '');
+  v_id UUID;
+BEGIN
+  -- Without an explicit state, use the state of a place the search names
+  IF v_state IS NULL AND v_place <> '' THEN
+    SELECT i.state INTO v_state
+    FROM search_index i
+    WHERE i.state IS NOT NULL
+      AND (v_place LIKE '%' || lower(i.state) || '%'
+        OR (i.city IS NOT NULL AND v_place LIKE '%' || lower(i.city) || '%'))
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO search_events (user_id, source, query_text, normalized_query, filters, result_count, state)
+  VALUES (
+    auth.uid(),
+    p_source,
+    v_query,
+    lower(regexp_replace(v_query, '\s+', ' ', 'g')),
+    coalesce(p_filters, '{}'::JSONB),
+    GREATEST(coalesce(p_result_count, 0), 0),
+    v_state
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Only the first click within an hour of the search counts
+CREATE OR REPLACE FUNCTION record_search_click(
+  p_event_id UUID,
+  p_entity_type TEXT,
+  p_entity_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE search_events
+  SET clicked_entity_type = p_entity_type,
+      clicked_entity_id = p_entity_id,
+      clicked_at = NOW()
+  WHERE id = p_event_id
+    AND clicked_at IS NULL
+    AND created_at > NOW() - INTERVAL '1 hour';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 3. CREATE REPORTING FUNCTIONS
+-- =====================================================
+
+-- Searches that found something, most frequent first, optionally for one state and season
+CREATE OR REPLACE FUNCTION popular_searches(
+  p_state TEXT DEFAULT NULL,
+  p_season TEXT DEFAULT NULL,
+  p_days INTEGER DEFAULT 365,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (query TEXT, search_count BIGINT) AS $$
+  SELECT mode() WITHIN GROUP (ORDER BY e.query_text), COUNT(*)
+  FROM search_events e
+  WHERE e.normalized_query <> ''
+    AND e.result_count > 0
+    AND e.created_at > NOW() - make_interval(days => p_days)
+    AND (p_state IS NULL OR lower(e.state) = lower(p_state))
+    AND (p_season IS NULL OR search_season(e.created_at) = p_season)
+  GROUP BY e.normalized_query
+  ORDER BY COUNT(*) DESC, MAX(e.created_at) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Searches that found nothing, i.e. content worth adding
+CREATE OR REPLACE FUNCTION zero_result_searches(
+  p_days INTEGER DEFAULT 30,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (query TEXT, search_count BIGINT, user_count BIGINT, last_searched_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can view search reports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    mode() WITHIN GROUP (ORDER BY e.query_text),
+    COUNT(*),
+    COUNT(DISTINCT e.user_id),
+    MAX(e.created_at)
+  FROM search_events e
+  WHERE e.normalized_query <> ''
+    AND e.result_count = 0
+    AND e.created_at > NOW() - make_interval(days => p_days)
+  GROUP BY e.normalized_query
+  ORDER BY COUNT(*) DESC, MAX(e.created_at) DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- =====================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE search_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view search events" ON search_events;
+CREATE POLICY "Admins can view search events" ON search_events
+  FOR SELECT USING (is_platform_admin());
+
+-- =====================================================
+-- 5. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON search_events TO authenticated;
+GRANT EXECUTE ON FUNCTION record_search(TEXT, TEXT, JSONB, INTEGER, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_search_click(UUID, TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION popular_searches(TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION zero_result_searches(INTEGER, INTEGER) TO authenticated;
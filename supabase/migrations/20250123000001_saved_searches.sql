@@ -0,0 +1,108 @@
+-- =====================================================
+-- SAVED SEARCHES
+-- Migration: Saved directory searches with alerts for new matching listings
+-- Date: 2025-01-23
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE SAVED SEARCHES TABLE
+-- =====================================================
+
+-- A named guide or hotel search, stored as the SearchQuery the directory ran
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  search_type TEXT NOT NULL CHECK (search_type IN ('guides', 'hotels')),
+  query JSONB NOT NULL DEFAULT '{}'::JSONB,
+  notify_email BOOLEAN NOT NULL DEFAULT FALSE,
+  notify_in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Listings that matched at the last check, so only listings that appear later raise alerts
+  known_listing_ids UUID[] NOT NULL DEFAULT '{}',
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at DESC);
+
+-- =====================================================
+-- 2. CREATE SAVED SEARCH ALERTS TABLE
+-- =====================================================
+
+-- One row per listing that started matching a saved search
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  listing_id UUID NOT NULL,
+  listing_name TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(saved_search_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_unread ON saved_search_alerts(user_id, created_at DESC)
+  WHERE read_at IS NULL;
+
+-- =====================================================
+-- 3. CREATE TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION update_saved_searches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_saved_searches_updated_at();
+
+-- =====================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own saved searches" ON saved_searches;
+CREATE POLICY "Users can manage own saved searches" ON saved_searches
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own saved search alerts" ON saved_search_alerts;
+CREATE POLICY "Users can view own saved search alerts" ON saved_search_alerts
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Alerts are raised by the owner's client when it checks their saved searches
+DROP POLICY IF EXISTS "Users can add alerts to own saved searches" ON saved_search_alerts;
+CREATE POLICY "Users can add alerts to own saved searches" ON saved_search_alerts
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM saved_searches s
+      WHERE s.id = saved_search_id AND s.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can mark own saved search alerts read" ON saved_search_alerts;
+CREATE POLICY "Users can mark own saved search alerts read" ON saved_search_alerts
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own saved search alerts" ON saved_search_alerts;
+CREATE POLICY "Users can delete own saved search alerts" ON saved_search_alerts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- 5. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON saved_searches TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON saved_search_alerts TO authenticated;
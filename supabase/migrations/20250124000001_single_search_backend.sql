@@ -0,0 +1,15 @@
+-- =====================================================
+-- SINGLE SEARCH BACKEND
+-- Migration: Retire the keyword directory search in favour of the search index
+-- Date: 2025-01-24
+-- =====================================================
+
+-- =====================================================
+-- 1. DROP KEYWORD DIRECTORY SEARCH
+-- =====================================================
+
+-- Guide and hotel searches go through the search engine, which ranks text matches with
+-- search_listings and filters the profile tables directly. This function matched whole
+-- keywords only and treated a location as any keyword, so it disagreed with every page
+-- that searched the directory.
+DROP FUNCTION IF EXISTS search_directory_listings(TEXT, TEXT, TEXT, INTEGER, INTEGER);
@@ -0,0 +1,147 @@
+-- =====================================================
+-- HOTEL PRICE RANGE
+-- Migration: Nightly price range per hotel, derived from its room types
+-- Date: 2025-01-25
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD PRICE RANGE COLUMNS
+-- =====================================================
+
+-- Cheapest and dearest nightly rate of the hotel's active room types; NULL while it has none
+ALTER TABLE hotels
+  ADD COLUMN IF NOT EXISTS price_per_night_min NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS price_per_night_max NUMERIC(10, 2);
+
+-- Search runs over hotel_partners, so partners carry the range across every active hotel they added
+ALTER TABLE hotel_partners
+  ADD COLUMN IF NOT EXISTS price_per_night_min NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS price_per_night_max NUMERIC(10, 2);
+
+-- The free-text range was never kept in step with room rates
+COMMENT ON COLUMN hotels.price_range IS 'Deprecated: use price_per_night_min and price_per_night_max';
+
+-- =====================================================
+-- 2. CREATE FUNCTIONS TO REFRESH PRICE RANGES
+-- =====================================================
+
+-- Recalculates a hotel partner's price range from the room types of the active hotels they added.
+-- Partner rows have their own IDs and point to their owner by user_id (older rows use the user ID as id).
+CREATE OR REPLACE FUNCTION refresh_partner_price_range(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE hotel_partners p
+  SET price_per_night_min = rates.min_rate, price_per_night_max = rates.max_rate
+  FROM (
+    SELECT MIN(rt.nightly_rate) AS min_rate, MAX(rt.nightly_rate) AS max_rate
+    FROM hotels h
+    JOIN hotel_room_types rt ON rt.hotel_id = h.id AND rt.is_active = true
+    WHERE h.added_by = p_user_id AND h.is_active = true
+  ) rates
+  WHERE p.user_id = p_user_id OR (p.user_id IS NULL AND p.id = p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Recalculates one hotel's price range from hotel_room_types, and its owner's
+CREATE OR REPLACE FUNCTION refresh_hotel_price_range(p_hotel_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  min_rate NUMERIC;
+  max_rate NUMERIC;
+  owner_id UUID;
+BEGIN
+  IF p_hotel_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT MIN(nightly_rate), MAX(nightly_rate)
+  INTO min_rate, max_rate
+  FROM hotel_room_types
+  WHERE hotel_id = p_hotel_id AND is_active = true;
+
+  UPDATE hotels
+  SET price_per_night_min = min_rate, price_per_night_max = max_rate
+  WHERE id = p_hotel_id
+  RETURNING added_by INTO owner_id;
+
+  PERFORM refresh_partner_price_range(owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Keeps price ranges in sync, including when a room type moves between hotels
+CREATE OR REPLACE FUNCTION sync_hotel_price_range()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_hotel_price_range(NEW.hotel_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.hotel_id IS DISTINCT FROM NEW.hotel_id) THEN
+    PERFORM refresh_hotel_price_range(OLD.hotel_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keeps partner price ranges in sync when a hotel is deactivated, removed or changes owner
+CREATE OR REPLACE FUNCTION sync_partner_price_range()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM refresh_partner_price_range(NEW.added_by);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR OLD.added_by IS DISTINCT FROM NEW.added_by THEN
+    PERFORM refresh_partner_price_range(OLD.added_by);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Starts a new partner with the range of hotels they added before registering
+CREATE OR REPLACE FUNCTION init_partner_price_range()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_partner_price_range(COALESCE(NEW.user_id, NEW.id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 3. CREATE TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS hotel_room_types_price_trigger ON hotel_room_types;
+CREATE TRIGGER hotel_room_types_price_trigger
+  AFTER INSERT OR UPDATE OF nightly_rate, is_active, hotel_id OR DELETE ON hotel_room_types
+  FOR EACH ROW EXECUTE FUNCTION sync_hotel_price_range();
+
+DROP TRIGGER IF EXISTS hotels_partner_price_trigger ON hotels;
+CREATE TRIGGER hotels_partner_price_trigger
+  AFTER UPDATE OF is_active, added_by OR DELETE ON hotels
+  FOR EACH ROW EXECUTE FUNCTION sync_partner_price_range();
+
+DROP TRIGGER IF EXISTS hotel_partners_price_trigger ON hotel_partners;
+CREATE TRIGGER hotel_partners_price_trigger
+  AFTER INSERT OR UPDATE OF user_id ON hotel_partners
+  FOR EACH ROW EXECUTE FUNCTION init_partner_price_range();
+
+-- =====================================================
+-- 4. BACKFILL EXISTING ROOM TYPES
+-- =====================================================
+
+-- Refreshing each hotel also refreshes its owner's partner row
+SELECT refresh_hotel_price_range(id) FROM hotels;
+
+-- =====================================================
+-- 5. CREATE INDEXES FOR FILTERING AND SORTING
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_hotel_partners_price_min ON hotel_partners(price_per_night_min);
+CREATE INDEX IF NOT EXISTS idx_hotel_partners_price_max ON hotel_partners(price_per_night_max DESC);
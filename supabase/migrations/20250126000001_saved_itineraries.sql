@@ -0,0 +1,59 @@
+-- =====================================================
+-- SAVED ITINERARIES
+-- Migration: Named, owner-only generated itineraries that can be renamed and copied
+-- Date: 2025-01-26
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD ITINERARY COLUMNS
+-- =====================================================
+
+ALTER TABLE ai_itineraries
+  ADD COLUMN IF NOT EXISTS title TEXT CHECK (title IS NULL OR char_length(trim(title)) BETWEEN 1 AND 100),
+  -- Itinerary this one was copied from; copies outlive their originals
+  ADD COLUMN IF NOT EXISTS duplicated_from UUID REFERENCES ai_itineraries(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Itineraries saved before titles existed are named after the generated plan
+UPDATE ai_itineraries
+SET title = LEFT(generated_itinerary->>'title', 100)
+WHERE title IS NULL AND char_length(trim(COALESCE(generated_itinerary->>'title', ''))) > 0;
+
+UPDATE ai_itineraries SET updated_at = created_at WHERE updated_at IS NULL OR created_at > updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_ai_itineraries_user ON ai_itineraries(user_id, updated_at DESC);
+
+-- =====================================================
+-- 2. CREATE TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION update_ai_itineraries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_ai_itineraries_updated_at ON ai_itineraries;
+CREATE TRIGGER update_ai_itineraries_updated_at
+  BEFORE UPDATE ON ai_itineraries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_ai_itineraries_updated_at();
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE ai_itineraries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own itineraries" ON ai_itineraries;
+CREATE POLICY "Users can manage own itineraries" ON ai_itineraries
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- =====================================================
+-- 4. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON ai_itineraries TO authenticated;
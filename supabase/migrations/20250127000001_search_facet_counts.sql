@@ -0,0 +1,136 @@
+-- =====================================================
+-- SEARCH FACET COUNTS
+-- Migration: Count every filter option of a directory search in the database
+-- Date: 2025-01-27
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE FACET COUNT FUNCTION
+-- =====================================================
+
+-- Counts how many listed guides or hotel partners each filter option would leave.
+-- Listings are those the search text, city and state match; p_filters holds the filters applied
+-- (maxDistance being the search radius) and p_steps the options of each numeric filter.
+-- Each filter's options are counted with the other filters applied but not itself, and a
+-- distance filter only ever counts listings that have a location.
+CREATE OR REPLACE FUNCTION search_facet_counts(
+  p_type TEXT,
+  p_filters JSONB DEFAULT '{}'::JSONB,
+  p_steps JSONB DEFAULT '{}'::JSONB,
+  p_query TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, option TEXT, listings BIGINT) AS $$
+  WITH candidates AS (
+    SELECT
+      g.id, g.rating_average AS rating, g.verified AS is_verified,
+      g.languages_spoken AS languages, g.specialties, g.hourly_rate, g.experience_years,
+      NULL::TEXT AS hotel_type, NULL::TEXT[] AS amenities,
+      NULL::NUMERIC AS price_min, NULL::NUMERIC AS price_max,
+      n.distance_km AS distance
+    FROM tour_guides g
+    LEFT JOIN nearby_guides(p_latitude, p_longitude) n ON p_latitude IS NOT NULL AND n.guide_id = g.id
+    WHERE p_type = 'guide'
+      AND EXISTS (
+        SELECT 1 FROM public_directory_listings l
+        WHERE l.user_id = g.user_id AND l.passion_type = 'tour_guide' AND l.is_visible = true
+      )
+      AND (p_city IS NULL OR g.city ILIKE '%' || p_city || '%')
+      AND (p_state IS NULL OR g.state ILIKE '%' || p_state || '%')
+      AND (p_query IS NULL OR g.id IN (SELECT m.entity_id FROM search_listings(p_query, ARRAY['guide'], NULL) m))
+    UNION ALL
+    SELECT
+      p.id, p.rating_average, p.is_verified,
+      NULL, NULL, NULL, NULL,
+      p.hotel_type, p.amenities,
+      p.price_per_night_min, p.price_per_night_max,
+      n.distance_km
+    FROM hotel_partners p
+    LEFT JOIN nearby_hotels(p_latitude, p_longitude) n ON p_latitude IS NOT NULL AND n.partner_id = p.id
+    WHERE p_type = 'hotel'
+      AND EXISTS (
+        SELECT 1 FROM public_directory_listings l
+        WHERE l.user_id = p.user_id AND l.passion_type = 'hotel_partner' AND l.is_visible = true
+      )
+      AND (p_city IS NULL OR p.city ILIKE '%' || p_city || '%')
+      AND (p_state IS NULL OR p.state ILIKE '%' || p_state || '%')
+      AND (p_query IS NULL OR p.id IN (SELECT m.entity_id FROM search_listings(p_query, ARRAY['hotel'], NULL) m))
+  ),
+  checked AS (
+    -- The filters each listing fails, matching how the search itself filters
+    SELECT c.*, ARRAY_REMOVE(ARRAY[
+      CASE WHEN p_filters ->> 'minRating' IS NOT NULL
+        AND NOT COALESCE(c.rating >= (p_filters ->> 'minRating')::NUMERIC, FALSE) THEN 'minRating' END,
+      CASE WHEN p_filters ->> 'isVerified' IS NOT NULL
+        AND NOT COALESCE(c.is_verified = (p_filters ->> 'isVerified')::BOOLEAN, FALSE) THEN 'isVerified' END,
+      CASE WHEN p_filters ->> 'maxDistance' IS NOT NULL
+        AND NOT COALESCE(c.distance <= (p_filters ->> 'maxDistance')::NUMERIC, FALSE) THEN 'maxDistance' END,
+      CASE WHEN jsonb_array_length(p_filters -> 'languages') > 0
+        AND NOT COALESCE(c.languages && ARRAY(SELECT jsonb_array_elements_text(p_filters -> 'languages')), FALSE) THEN 'languages' END,
+      CASE WHEN jsonb_array_length(p_filters -> 'specialties') > 0
+        AND NOT COALESCE(c.specialties && ARRAY(SELECT jsonb_array_elements_text(p_filters -> 'specialties')), FALSE) THEN 'specialties' END,
+      CASE WHEN p_filters ->> 'maxHourlyRate' IS NOT NULL
+        AND NOT COALESCE(c.hourly_rate <= (p_filters ->> 'maxHourlyRate')::NUMERIC, FALSE) THEN 'maxHourlyRate' END,
+      CASE WHEN p_filters ->> 'minExperience' IS NOT NULL
+        AND NOT COALESCE(c.experience_years >= (p_filters ->> 'minExperience')::NUMERIC, FALSE) THEN 'minExperience' END,
+      CASE WHEN jsonb_array_length(p_filters -> 'hotelTypes') > 0
+        AND NOT COALESCE(c.hotel_type = ANY(ARRAY(SELECT jsonb_array_elements_text(p_filters -> 'hotelTypes'))), FALSE) THEN 'hotelTypes' END,
+      CASE WHEN jsonb_array_length(p_filters -> 'amenities') > 0
+        AND NOT COALESCE(c.amenities && ARRAY(SELECT jsonb_array_elements_text(p_filters -> 'amenities')), FALSE) THEN 'amenities' END,
+      CASE WHEN p_filters -> 'priceRange' IS NOT NULL
+        AND NOT COALESCE(
+          c.price_min <= (p_filters -> 'priceRange' ->> 'max')::NUMERIC
+            AND c.price_max >= (p_filters -> 'priceRange' ->> 'min')::NUMERIC,
+          FALSE
+        ) THEN 'priceRange' END
+    ], NULL) AS failing
+    FROM candidates c
+  )
+  -- Numeric filters are counted at each step; a price step keeps the minimum already chosen
+  SELECT s.facet, s.step, COUNT(c.id) FILTER (WHERE c.failing <@ ARRAY[s.facet] AND CASE s.facet
+    WHEN 'minRating' THEN c.rating >= s.step::NUMERIC
+    WHEN 'maxDistance' THEN c.distance <= s.step::NUMERIC
+    WHEN 'maxHourlyRate' THEN c.hourly_rate <= s.step::NUMERIC
+    WHEN 'minExperience' THEN c.experience_years >= s.step::NUMERIC
+    WHEN 'priceRange' THEN c.price_min <= s.step::NUMERIC
+      AND c.price_max >= COALESCE((p_filters -> 'priceRange' ->> 'min')::NUMERIC, 0)
+  END)
+  FROM (
+    SELECT e.key AS facet, step
+    FROM jsonb_each(p_steps) e, jsonb_array_elements_text(e.value) AS step
+  ) s
+  LEFT JOIN checked c ON TRUE
+  GROUP BY s.facet, s.step
+  UNION ALL
+  SELECT 'isVerified', v.value, COUNT(c.id) FILTER (WHERE c.failing <@ ARRAY['isVerified'] AND c.is_verified = v.value::BOOLEAN)
+  FROM unnest(ARRAY['true', 'false']) AS v(value)
+  LEFT JOIN checked c ON TRUE
+  GROUP BY v.value
+  UNION ALL
+  -- Every value any listing has is an option, even when the other filters leave none with it
+  SELECT v.facet, v.value, COUNT(*) FILTER (WHERE v.failing <@ ARRAY[v.facet])
+  FROM (
+    SELECT DISTINCT c.id, c.failing, 'languages' AS facet, language AS value
+    FROM checked c, unnest(c.languages) AS language
+    UNION ALL
+    SELECT DISTINCT c.id, c.failing, 'specialties', specialty
+    FROM checked c, unnest(c.specialties) AS specialty
+    UNION ALL
+    SELECT c.id, c.failing, 'hotelTypes', c.hotel_type
+    FROM checked c
+    WHERE c.hotel_type <> ''
+    UNION ALL
+    SELECT DISTINCT c.id, c.failing, 'amenities', amenity
+    FROM checked c, unnest(c.amenities) AS amenity
+  ) v
+  GROUP BY v.facet, v.value;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 2. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION search_facet_counts(TEXT, JSONB, JSONB, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
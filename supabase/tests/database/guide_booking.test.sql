@@ -0,0 +1,50 @@
+-- =====================================================
+-- GUIDE BOOKING REQUEST TESTS
+-- Run with: npx supabase test db
+-- Guests book as themselves; the price always comes from the guide's hourly rate
+-- =====================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'guide@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'guest@example.com');
+
+INSERT INTO tour_guides (id, full_name, city, state, hourly_rate, is_active) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Amber Walks', 'Jaipur', 'Rajasthan', 750, true);
+
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$SELECT user_id, status, total_cost::NUMERIC, location
+    FROM request_guide_booking('11111111-1111-1111-1111-111111111111', NOW() + INTERVAL '3 days', 4)$$,
+  $$VALUES ('33333333-3333-3333-3333-333333333333'::UUID, 'pending'::TEXT, 3000::NUMERIC, 'Jaipur'::TEXT)$$,
+  'A request is pending, belongs to the caller and is priced from the guide''s rate'
+);
+
+SELECT throws_ok(
+  $$SELECT request_guide_booking('11111111-1111-1111-1111-111111111111', NOW() - INTERVAL '1 day', 2)$$,
+  'Please select a date and time in the future',
+  'A request cannot start in the past'
+);
+
+SELECT throws_ok(
+  $$SELECT request_guide_booking('22222222-2222-2222-2222-222222222222', NOW() + INTERVAL '3 days', 2)$$,
+  'Guide not found',
+  'A request must be for an existing guide'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO guide_bookings (guide_id, user_id, booking_date, duration_hours, total_cost, status)
+    VALUES ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333', NOW() + INTERVAL '4 days', 8, 1, 'confirmed')$$,
+  '42501',
+  NULL,
+  'Guests cannot insert booking rows with their own price'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,76 @@
+-- =====================================================
+-- HOTEL PRICE RANGE TESTS
+-- Run with: npx supabase test db
+-- Partner, hotel and room type rows have their own IDs, as they do in production
+-- =====================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'haveli@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'homestay@example.com');
+
+-- The homestay partner registered before partner rows carried user_id
+INSERT INTO hotel_partners (id, user_id, company_name, email, is_active) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'Heritage Haveli', 'haveli@example.com', true),
+  ('22222222-2222-2222-2222-222222222222', NULL, 'Hill Homestay', 'homestay@example.com', true);
+
+INSERT INTO hotels (id, name, type, state, district, city, address, check_in_time, check_out_time, contact_phone, is_active, added_by) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'Haveli Jaipur', 'Heritage Hotel', 'Rajasthan', 'Jaipur', 'Jaipur', 'MI Road', '12:00:00', '12:00:00', '', true, '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'Haveli Udaipur', 'Heritage Hotel', 'Rajasthan', 'Udaipur', 'Udaipur', 'Lake Palace Road', '12:00:00', '12:00:00', '', true, '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-0000-0000-0000-000000000003', 'Hill Homestay', 'Homestay', 'Himachal Pradesh', 'Kullu', 'Manali', 'Old Manali', '12:00:00', '12:00:00', '', true, '22222222-2222-2222-2222-222222222222');
+
+INSERT INTO hotel_room_types (hotel_id, name, nightly_rate) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'Deluxe', 4000),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'Suite', 9000),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'Standard', 2500),
+  ('bbbbbbbb-0000-0000-0000-000000000003', 'Cottage', 1800);
+
+SELECT results_eq(
+  $$SELECT price_per_night_min, price_per_night_max FROM hotels WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'$$,
+  $$VALUES (4000.00::NUMERIC(10, 2), 9000.00::NUMERIC(10, 2))$$,
+  'A hotel carries the range of its own room types'
+);
+
+SELECT results_eq(
+  $$SELECT price_per_night_min, price_per_night_max FROM hotel_partners WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'$$,
+  $$VALUES (2500.00::NUMERIC(10, 2), 9000.00::NUMERIC(10, 2))$$,
+  'A partner carries the range across every hotel they added'
+);
+
+SELECT results_eq(
+  $$SELECT price_per_night_min, price_per_night_max FROM hotel_partners WHERE id = '22222222-2222-2222-2222-222222222222'$$,
+  $$VALUES (1800.00::NUMERIC(10, 2), 1800.00::NUMERIC(10, 2))$$,
+  'A partner keyed by their user ID carries the range of their hotel'
+);
+
+-- The search price filter: any room between 2000 and 3000 a night
+SELECT results_eq(
+  $$SELECT company_name::TEXT FROM hotel_partners
+    WHERE price_per_night_min <= 3000 AND price_per_night_max >= 2000 AND price_per_night_min IS NOT NULL
+    ORDER BY company_name$$,
+  $$VALUES ('Heritage Haveli'::TEXT)$$,
+  'The price filter keeps partners with a room in the range'
+);
+
+UPDATE hotels SET is_active = false WHERE id = 'bbbbbbbb-0000-0000-0000-000000000002';
+
+SELECT results_eq(
+  $$SELECT price_per_night_min, price_per_night_max FROM hotel_partners WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'$$,
+  $$VALUES (4000.00::NUMERIC(10, 2), 9000.00::NUMERIC(10, 2))$$,
+  'A deactivated hotel no longer counts towards its partner''s range'
+);
+
+UPDATE hotel_room_types SET is_active = false WHERE hotel_id = 'bbbbbbbb-0000-0000-0000-000000000003';
+
+SELECT results_eq(
+  $$SELECT price_per_night_min, price_per_night_max FROM hotel_partners WHERE id = '22222222-2222-2222-2222-222222222222'$$,
+  $$VALUES (NULL::NUMERIC(10, 2), NULL::NUMERIC(10, 2))$$,
+  'A partner without priced rooms has no range'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,68 @@
+-- =====================================================
+-- HOTEL RATING AGGREGATE TESTS
+-- Run with: npx supabase test db
+-- Reviews are keyed by hotels.id, as HotelDetail submits them; partners roll up their hotels
+-- =====================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'haveli@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'homestay@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'guest@example.com');
+
+-- The homestay partner registered before partner rows carried user_id
+INSERT INTO hotel_partners (id, user_id, company_name, email, is_active) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'Heritage Haveli', 'haveli@example.com', true),
+  ('22222222-2222-2222-2222-222222222222', NULL, 'Hill Homestay', 'homestay@example.com', true);
+
+INSERT INTO hotels (id, name, type, state, district, city, address, check_in_time, check_out_time, contact_phone, is_active, added_by) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'Haveli Jaipur', 'Heritage Hotel', 'Rajasthan', 'Jaipur', 'Jaipur', 'MI Road', '12:00:00', '12:00:00', '', true, '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'Haveli Udaipur', 'Heritage Hotel', 'Rajasthan', 'Udaipur', 'Udaipur', 'Lake Palace Road', '12:00:00', '12:00:00', '', true, '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-0000-0000-0000-000000000003', 'Hill Homestay', 'Homestay', 'Himachal Pradesh', 'Kullu', 'Manali', 'Old Manali', '12:00:00', '12:00:00', '', true, '22222222-2222-2222-2222-222222222222');
+
+INSERT INTO hotel_reviews (hotel_id, user_id, rating, review_text) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', '33333333-3333-3333-3333-333333333333', 5, 'Beautiful courtyard'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', '33333333-3333-3333-3333-333333333333', 4, 'Lovely lake views'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 3, 'Rooms were small'),
+  ('bbbbbbbb-0000-0000-0000-000000000003', '33333333-3333-3333-3333-333333333333', 4, 'Warm hosts');
+
+SELECT results_eq(
+  $$SELECT rating_average, review_count FROM hotels WHERE id = 'bbbbbbbb-0000-0000-0000-000000000002'$$,
+  $$VALUES (3.50::NUMERIC(3, 2), 2)$$,
+  'A hotel carries the rating of its own reviews'
+);
+
+SELECT results_eq(
+  $$SELECT rating_average, review_count FROM hotel_partners WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'$$,
+  $$VALUES (4.00::NUMERIC(3, 2), 3)$$,
+  'A partner carries the rating across every hotel they added'
+);
+
+SELECT results_eq(
+  $$SELECT rating_average, review_count FROM hotel_partners WHERE id = '22222222-2222-2222-2222-222222222222'$$,
+  $$VALUES (4.00::NUMERIC(3, 2), 1)$$,
+  'A partner keyed by their user ID carries the rating of their hotel'
+);
+
+UPDATE hotel_reviews SET is_hidden = true WHERE rating = 3;
+
+SELECT results_eq(
+  $$SELECT rating_average, review_count FROM hotel_partners WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'$$,
+  $$VALUES (4.50::NUMERIC(3, 2), 2)$$,
+  'A hidden review no longer counts towards its partner''s rating'
+);
+
+UPDATE hotels SET is_active = false WHERE id = 'bbbbbbbb-0000-0000-0000-000000000002';
+
+SELECT results_eq(
+  $$SELECT rating_average, review_count FROM hotel_partners WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'$$,
+  $$VALUES (5.00::NUMERIC(3, 2), 1)$$,
+  'A deactivated hotel no longer counts towards its partner''s rating'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,63 @@
+-- =====================================================
+-- SEARCH FACET COUNT TESTS
+-- Run with: npx supabase test db
+-- Guides are listed in the directory once their registration is complete
+-- =====================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'amber@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'delhi@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'madurai@example.com');
+
+INSERT INTO tour_guides (id, user_id, full_name, phone, address, city, state, experience_years, hourly_rate, specialties, languages_spoken, verified, rating_average) VALUES
+  ('11111111-1111-1111-1111-111111111111', '11111111-1111-1111-1111-111111111111', 'Amber Walks', '9000000001', 'MI Road', 'Jaipur', 'Rajasthan', 8, 800, ARRAY['Heritage Walks'], ARRAY['Hindi', 'English'], true, 4.60),
+  ('22222222-2222-2222-2222-222222222222', '22222222-2222-2222-2222-222222222222', 'Old Delhi Trails', '9000000002', 'Chandni Chowk', 'Delhi', 'Delhi', 2, 1500, ARRAY['Food Tours'], ARRAY['Hindi'], false, 3.20),
+  ('33333333-3333-3333-3333-333333333333', '33333333-3333-3333-3333-333333333333', 'Temple Tours', '9000000003', 'East Masi Street', 'Madurai', 'Tamil Nadu', 12, 600, ARRAY['Heritage Walks'], ARRAY['Tamil'], true, 4.10);
+
+-- Temple Tours has no service area, so it has no location
+INSERT INTO guide_service_areas (guide_id, name, latitude, longitude, radius_km) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Hawa Mahal', 26.9239, 75.8267, 5),
+  ('22222222-2222-2222-2222-222222222222', 'Red Fort', 28.6562, 77.2410, 5);
+
+SELECT results_eq(
+  $$SELECT option, listings FROM search_facet_counts('guide', '{}', '{"minRating": [4.5, 4, 3]}')
+    WHERE facet = 'minRating' ORDER BY option::NUMERIC DESC$$,
+  $$VALUES ('4.5'::TEXT, 1::BIGINT), ('4', 2), ('3', 3)$$,
+  'Every listed guide is counted at each rating step'
+);
+
+SELECT results_eq(
+  $$SELECT option, listings FROM search_facet_counts('guide', '{"languages": ["Tamil"], "minRating": 4}', '{}')
+    WHERE facet = 'languages' ORDER BY option$$,
+  $$VALUES ('English'::TEXT, 1::BIGINT), ('Hindi', 1), ('Tamil', 1)$$,
+  'Languages are counted against the other filters but not the chosen language'
+);
+
+SELECT results_eq(
+  $$SELECT option, listings FROM search_facet_counts('guide', '{"minRating": 4}', '{}')
+    WHERE facet = 'isVerified' ORDER BY option$$,
+  $$VALUES ('false'::TEXT, 0::BIGINT), ('true', 2)$$,
+  'Both verification options are counted even when one leaves no guides'
+);
+
+SELECT results_eq(
+  $$SELECT option, listings FROM search_facet_counts('guide', '{"maxDistance": 500}', '{"maxDistance": [5, 500]}', NULL, NULL, NULL, 26.9124, 75.7873)
+    WHERE facet = 'maxDistance' ORDER BY option::NUMERIC$$,
+  $$VALUES ('5'::TEXT, 1::BIGINT), ('500', 2)$$,
+  'Guides without a location are never within a distance'
+);
+
+SELECT results_eq(
+  $$SELECT option, listings FROM search_facet_counts('guide', '{"maxDistance": 5}', '{}', NULL, NULL, NULL, 26.9124, 75.7873)
+    WHERE facet = 'specialties' ORDER BY option$$,
+  $$VALUES ('Food Tours'::TEXT, 0::BIGINT), ('Heritage Walks', 1)$$,
+  'The search radius narrows the counts of every other filter'
+);
+
+SELECT * FROM finish();
+ROLLBACK;